@@ -0,0 +1,78 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// プロキシサーバーが使う取引所APIキーの読み込み・暗号化
+// ブラウザにシークレットを渡さないよう、キーは環境変数か暗号化ファイルでサーバー側に保持する
+const DEFAULT_CREDENTIALS_FILE = path.join(__dirname, '.credentials.enc.json');
+const KEY_LENGTH = 32;
+
+function deriveKey(passphrase, salt) {
+  return crypto.scryptSync(passphrase, salt, KEY_LENGTH);
+}
+
+// AES-256-GCMで暗号化し、復号に必要な値をまとめて返す
+function encryptCredentials(credentials, passphrase) {
+  const salt = crypto.randomBytes(16);
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(credentials), 'utf8'), cipher.final()]);
+
+  return {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+}
+
+function decryptCredentials(payload, passphrase) {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, Buffer.from(payload.salt, 'base64')),
+    Buffer.from(payload.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(payload.tag, 'base64'));
+
+  try {
+    const json = Buffer.concat([decipher.update(Buffer.from(payload.data, 'base64')), decipher.final()]).toString('utf8');
+    return JSON.parse(json);
+  } catch (error) {
+    throw new Error('APIキーファイルを復号できません。パスフレーズを確認してください');
+  }
+}
+
+// 環境変数（BINANCE_API_KEY / BINANCE_API_SECRET）を優先し、なければ暗号化ファイルを読み込む
+function loadCredentials(env = process.env) {
+  if (env.BINANCE_API_KEY && env.BINANCE_API_SECRET) {
+    return { apiKey: env.BINANCE_API_KEY, apiSecret: env.BINANCE_API_SECRET, source: 'env' };
+  }
+
+  const file = env.CREDENTIALS_FILE || DEFAULT_CREDENTIALS_FILE;
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  if (!env.CREDENTIALS_PASSPHRASE) {
+    throw new Error(`${path.basename(file)}の復号にはCREDENTIALS_PASSPHRASEが必要です`);
+  }
+
+  const { apiKey, apiSecret } = decryptCredentials(JSON.parse(fs.readFileSync(file, 'utf8')), env.CREDENTIALS_PASSPHRASE);
+  return { apiKey, apiSecret, source: 'file' };
+}
+
+// 使い方: BINANCE_API_KEY=... BINANCE_API_SECRET=... CREDENTIALS_PASSPHRASE=... node credentials.js
+if (require.main === module) {
+  const { BINANCE_API_KEY, BINANCE_API_SECRET, CREDENTIALS_PASSPHRASE } = process.env;
+  if (!BINANCE_API_KEY || !BINANCE_API_SECRET || !CREDENTIALS_PASSPHRASE) {
+    console.error('BINANCE_API_KEY、BINANCE_API_SECRET、CREDENTIALS_PASSPHRASEを指定してください');
+    process.exit(1);
+  }
+
+  const file = process.env.CREDENTIALS_FILE || DEFAULT_CREDENTIALS_FILE;
+  const payload = encryptCredentials({ apiKey: BINANCE_API_KEY, apiSecret: BINANCE_API_SECRET }, CREDENTIALS_PASSPHRASE);
+  fs.writeFileSync(file, JSON.stringify(payload, null, 2), { mode: 0o600 });
+  console.log(`APIキーを暗号化して保存しました: ${file}`);
+}
+
+module.exports = { encryptCredentials, decryptCredentials, loadCredentials };
@@ -0,0 +1,170 @@
+// /api/export で返す取引履歴・注文履歴・日次損益の組み立て
+// 列名はUIの書き出し（src/utils/exportData.ts）と揃え、値はISO形式の日時と数値のまま出力する
+const EXPORT_COLUMNS = {
+  trades: [
+    'executed_at', 'symbol', 'side', 'price', 'quantity', 'quote_quantity', 'fee', 'fee_asset', 'fee_quote',
+    'order_id', 'client_order_id', 'grid_level', 'buy_order_id', 'buy_price', 'round_trip_profit'
+  ],
+  orders: [
+    'created_at', 'updated_at', 'symbol', 'order_id', 'client_order_id', 'side', 'type', 'price', 'quantity',
+    'executed_quantity', 'status', 'grid_level'
+  ],
+  'daily-pnl': [
+    'date', 'symbol', 'fills', 'buy_quantity', 'sell_quantity', 'round_trips', 'realized_profit', 'fees',
+    'net_profit', 'unconverted_fee_assets'
+  ]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_LIMIT = 1000;
+
+// yyyy-MM-dd（UTC）の期間をミリ秒に変換する（終了日はその日の終わりまでを含める）
+function parseRange(from, to) {
+  const pattern = /^\d{4}-\d{2}-\d{2}$/;
+  if (!pattern.test(from) || !pattern.test(to)) {
+    return null;
+  }
+  const startTime = Date.parse(`${from}T00:00:00.000Z`);
+  const endTime = Date.parse(`${to}T00:00:00.000Z`) + DAY_MS;
+  if (Number.isNaN(startTime) || Number.isNaN(endTime) || endTime <= startTime) {
+    return null;
+  }
+  return { startTime, endTime };
+}
+
+function escapeCsv(value) {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180形式のCSV（1行目は列名）
+function toCsv(columns, rows) {
+  return [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(values => values.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+// 開始時刻から終了時刻まで、IDを進めながら全件取得する
+// Binanceは開始時刻と終了時刻を両方指定すると24時間以内に制限されるため、開始時刻だけで取得を始める
+async function fetchAllSince(fetchPage, { startTime, endTime }, idKey, cursorParam) {
+  const results = [];
+  let params = { startTime, limit: PAGE_LIMIT };
+
+  for (;;) {
+    const page = await fetchPage(params);
+    results.push(...page.filter(item => item.time >= startTime && item.time < endTime));
+    const last = page[page.length - 1];
+    if (page.length < PAGE_LIMIT || !last || last.time >= endTime) {
+      return results;
+    }
+    params = { [cursorParam]: Number(last[idKey]) + 1, limit: PAGE_LIMIT };
+  }
+}
+
+function feeToQuote(trade, symbolInfo) {
+  const fee = parseFloat(trade.commission);
+  if (trade.commissionAsset === symbolInfo.quoteAsset) return fee;
+  if (trade.commissionAsset === symbolInfo.baseAsset) return fee * parseFloat(trade.price);
+  return null;
+}
+
+// グリッドの情報（レベル・往復の対応）はブラウザにしかないため空欄にする
+function tradeRows(trades, symbolInfo) {
+  return trades.map(trade => ({
+    executed_at: new Date(trade.time).toISOString(),
+    symbol: trade.symbol,
+    side: trade.isBuyer ? 'BUY' : 'SELL',
+    price: parseFloat(trade.price),
+    quantity: parseFloat(trade.qty),
+    quote_quantity: parseFloat(trade.quoteQty),
+    fee: parseFloat(trade.commission),
+    fee_asset: trade.commissionAsset,
+    fee_quote: feeToQuote(trade, symbolInfo),
+    order_id: String(trade.orderId),
+    client_order_id: null,
+    grid_level: null,
+    buy_order_id: null,
+    buy_price: null,
+    round_trip_profit: null
+  }));
+}
+
+function orderRows(orders) {
+  return orders.map(order => ({
+    created_at: new Date(order.time).toISOString(),
+    updated_at: new Date(order.updateTime).toISOString(),
+    symbol: order.symbol,
+    order_id: String(order.orderId),
+    client_order_id: order.clientOrderId,
+    side: order.side,
+    type: order.type,
+    price: parseFloat(order.price),
+    quantity: parseFloat(order.origQty),
+    executed_quantity: parseFloat(order.executedQty),
+    status: order.status,
+    grid_level: null
+  }));
+}
+
+// 約定日（UTC）ごとの損益
+// グリッドの往復の対応がわからないため、期間内の買いの平均取得価格で売りの実現損益を計算する
+// 期間より前に買った分の売りは取得価格がわからないため、実現損益に含めない
+function dailyPnlRows(trades, symbolInfo) {
+  const days = new Map();
+  let position = 0;
+  let cost = 0;
+
+  [...trades].sort((a, b) => a.time - b.time).forEach(trade => {
+    const date = new Date(trade.time).toISOString().slice(0, 10);
+    if (!days.has(date)) {
+      days.set(date, { fills: 0, buyQuantity: 0, sellQuantity: 0, realizedProfit: 0, fees: 0, unconverted: new Set() });
+    }
+    const day = days.get(date);
+    const price = parseFloat(trade.price);
+    const quantity = parseFloat(trade.qty);
+
+    day.fills++;
+    if (trade.isBuyer) {
+      day.buyQuantity += quantity;
+      position += quantity;
+      cost += price * quantity;
+    } else {
+      day.sellQuantity += quantity;
+      const matched = Math.min(quantity, position);
+      if (matched > 0) {
+        const averagePrice = cost / position;
+        day.realizedProfit += (price - averagePrice) * matched;
+        cost -= averagePrice * matched;
+        position -= matched;
+      }
+    }
+
+    const fee = feeToQuote(trade, symbolInfo);
+    if (fee === null) day.unconverted.add(trade.commissionAsset);
+    day.fees += fee ?? 0;
+  });
+
+  return Array.from(days.entries()).map(([date, day]) => ({
+    date,
+    symbol: symbolInfo.symbol,
+    fills: day.fills,
+    buy_quantity: day.buyQuantity,
+    sell_quantity: day.sellQuantity,
+    round_trips: null,
+    realized_profit: day.realizedProfit,
+    fees: day.fees,
+    net_profit: day.realizedProfit - day.fees,
+    unconverted_fee_assets: day.unconverted.size > 0 ? Array.from(day.unconverted).sort().join(' ') : null
+  }));
+}
+
+module.exports = {
+  EXPORT_COLUMNS,
+  parseRange,
+  toCsv,
+  fetchAllSince,
+  tradeRows,
+  orderRows,
+  dailyPnlRows
+};
@@ -2,27 +2,59 @@ const express = require('express');
 const cors = require('cors');
 const axios = require('axios');
 const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { loadCredentials } = require('./credentials');
+const exportData = require('./export');
 
 const app = express();
 const port = 4000;
+// 既定ではこのマシンからの接続のみ受け付ける（LAN内の他の端末から使う場合はPROXY_HOSTで指定）
+const host = process.env.PROXY_HOST || '127.0.0.1';
 
 // CORS設定の詳細化
 app.use(cors({
   origin: 'http://localhost:3000',
-  methods: ['GET', 'POST'],
-  allowedHeaders: ['Content-Type', 'X-MBX-APIKEY', 'Authorization'],
+  methods: ['GET', 'POST', 'DELETE'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
   credentials: true
 }));
 
 app.use(express.json());
 
-const BINANCE_API_URL = 'https://api.binance.com';
+// BINANCE_TESTNET=true でテストネットに接続する
+const BINANCE_TESTNET = process.env.BINANCE_TESTNET === 'true';
+const BINANCE_API_URL = process.env.BINANCE_API_URL
+  || (BINANCE_TESTNET ? 'https://testnet.binance.vision' : 'https://api.binance.com');
+const RECV_WINDOW = 5000;
+const TIMESTAMP_ERROR_CODE = -1021;
+
+// UIからの認証付きルートの呼び出しに必要なトークン（未設定なら認証付きルートは利用できない）
+const PROXY_AUTH_TOKEN = process.env.PROXY_AUTH_TOKEN || '';
+
+// 市場データの取得モード（live: Binanceから取得 / fixture: ローカルファイルを使用）
+const MARKET_DATA_MODE = process.env.MARKET_DATA_MODE || 'live';
+const KLINE_FIXTURE_DIR = path.join(__dirname, 'fixtures', 'klines');
+const DEPTH_FIXTURE_DIR = path.join(__dirname, 'fixtures', 'depth');
+const MAX_DEPTH_LIMIT = 5000;
+const KLINE_INTERVALS = ['15m', '1h', '4h', '1d', '1w', '1M'];
+const MAX_KLINE_LIMIT = 1000;
+// 書き出しで一度に指定できる期間（日）
+const MAX_EXPORT_DAYS = 366;
 
 // デバッグログ用の関数
 function debug(message, data) {
   console.log(`[ProxyServer] ${message}`, data);
 }
 
+// APIキーはサーバー側でのみ保持し、レスポンスやログには含めない
+let credentials = null;
+try {
+  credentials = loadCredentials();
+} catch (error) {
+  console.error('[ProxyServer Error] APIキーの読み込みに失敗しました:', error.message);
+}
+
 function generateSignature(queryString, apiSecret) {
   return crypto
     .createHmac('sha256', apiSecret)
@@ -30,85 +62,492 @@ function generateSignature(queryString, apiSecret) {
     .digest('hex');
 }
 
-app.get('/api/balance', async (req, res) => {
+function requireAuth(req, res, next) {
+  // トークンなしで署名付きルートを開放すると、サーバーのAPIキーで誰でも取引できてしまう
+  if (!PROXY_AUTH_TOKEN) {
+    return res.status(503).json({ error: 'サーバーにPROXY_AUTH_TOKENが設定されていません' });
+  }
+  const expected = Buffer.from(`Bearer ${PROXY_AUTH_TOKEN}`);
+  const actual = Buffer.from(req.get('Authorization') || '');
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return res.status(401).json({ error: 'プロキシの認証に失敗しました' });
+  }
+  if (!credentials) {
+    return res.status(503).json({ error: 'サーバーにAPIキーが設定されていません' });
+  }
+  next();
+}
+
+// Binanceのサーバー時刻とのずれ（ミリ秒）
+let timeOffset = null;
+
+async function syncTime() {
+  const requestedAt = Date.now();
+  const response = await axios.get(`${BINANCE_API_URL}/api/v3/time`, { timeout: 5000 });
+  const receivedAt = Date.now();
+  timeOffset = response.data.serverTime - Math.round((requestedAt + receivedAt) / 2);
+  debug('サーバー時刻を同期しました:', { timeOffset });
+}
+
+// 署名付きリクエスト（タイムスタンプのずれによるエラーは時刻を同期して1回だけ再試行する）
+async function signedRequest(method, endpoint, params = {}, retried = false) {
+  if (timeOffset === null) {
+    await syncTime();
+  }
+
+  const query = new URLSearchParams();
+  Object.entries(params)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .forEach(([key, value]) => query.append(key, String(value)));
+  query.append('timestamp', String(Date.now() + timeOffset));
+  query.append('recvWindow', String(RECV_WINDOW));
+  const queryString = query.toString();
+  const signature = generateSignature(queryString, credentials.apiSecret);
+
+  debug('署名付きリクエスト:', { method, endpoint });
+
   try {
-    const { apiKey, apiSecret } = req.query;
-    
-    if (!apiKey || !apiSecret) {
-      return res.status(400).json({
-        error: 'API KeyとSecretが必要です'
-      });
+    const response = await axios({
+      method,
+      url: `${BINANCE_API_URL}/api/v3${endpoint}?${queryString}&signature=${signature}`,
+      headers: {
+        'X-MBX-APIKEY': credentials.apiKey,
+        'Accept': 'application/json'
+      },
+      timeout: 10000
+    });
+    return response.data;
+  } catch (error) {
+    if (!retried && error.response?.data?.code === TIMESTAMP_ERROR_CODE) {
+      await syncTime();
+      return signedRequest(method, endpoint, params, true);
     }
+    throw error;
+  }
+}
+
+function sendBinanceError(res, error, message) {
+  const data = error.response?.data;
+  debug('エラー発生:', { message: error.message, response: data });
 
-    const timestamp = Date.now().toString();
-    const queryString = `timestamp=${timestamp}`;
-    const signature = generateSignature(queryString, apiSecret);
+  res.status(error.response?.status || 500).json({
+    error: data?.code !== undefined ? `Binance APIエラー (${data.code}): ${data.msg}` : message,
+    code: data?.code,
+    details: data || error.message
+  });
+}
+
+// 注文を取引所共通の形式に揃える（注文IDは文字列）
+function toOrder(raw) {
+  return {
+    symbol: raw.symbol,
+    orderId: String(raw.orderId),
+    price: raw.price,
+    quantity: raw.origQty,
+    side: raw.side,
+    status: raw.status,
+    clientOrderId: raw.clientOrderId
+  };
+}
+
+function toAssetBalance(raw) {
+  return {
+    asset: raw.asset,
+    free: parseFloat(raw.free),
+    locked: parseFloat(raw.locked)
+  };
+}
 
-    debug('Binanceへのリクエスト準備:', {
-      url: `${BINANCE_API_URL}/api/v3/account`,
-      timestamp,
-      signature: signature.slice(0, 10) + '...'
+const isSymbol = (symbol) => /^[A-Z0-9]+$/.test(symbol);
+
+// UIが接続先やキーの有無を確認するためのルート（シークレットは返さない）
+app.get('/api/status', (req, res) => {
+  res.json({
+    exchange: 'binance',
+    testnet: BINANCE_TESTNET,
+    configured: Boolean(credentials),
+    source: credentials?.source ?? null,
+    authConfigured: Boolean(PROXY_AUTH_TOKEN)
+  });
+});
+
+app.get('/api/account', requireAuth, async (req, res) => {
+  try {
+    const account = await signedRequest('GET', '/account');
+    res.json(account);
+  } catch (error) {
+    sendBinanceError(res, error, 'アカウント情報の取得に失敗しました');
+  }
+});
+
+app.get('/api/balance', requireAuth, async (req, res) => {
+  try {
+    const account = await signedRequest('GET', '/account');
+    res.json(account.balances.map(toAssetBalance));
+  } catch (error) {
+    sendBinanceError(res, error, '残高の取得に失敗しました');
+  }
+});
+
+app.get('/api/balance/:asset', requireAuth, async (req, res) => {
+  const asset = req.params.asset.toUpperCase();
+  try {
+    const account = await signedRequest('GET', '/account');
+    const balance = account.balances.find(b => b.asset === asset);
+    res.json(balance ? toAssetBalance(balance) : { asset, free: 0, locked: 0 });
+  } catch (error) {
+    sendBinanceError(res, error, '残高の取得に失敗しました');
+  }
+});
+
+app.get('/api/orders', requireAuth, async (req, res) => {
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+  try {
+    const orders = await signedRequest('GET', '/openOrders', { symbol });
+    res.json(orders.map(toOrder));
+  } catch (error) {
+    sendBinanceError(res, error, '注文一覧の取得に失敗しました');
+  }
+});
+
+app.get('/api/orders/:orderId', requireAuth, async (req, res) => {
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+  try {
+    const order = await signedRequest('GET', '/order', { symbol, orderId: req.params.orderId });
+    res.json(toOrder(order));
+  } catch (error) {
+    sendBinanceError(res, error, '注文の取得に失敗しました');
+  }
+});
+
+// 約定明細（手数料と手数料の資産）
+app.get('/api/orders/:orderId/fills', requireAuth, async (req, res) => {
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+  try {
+    const trades = await signedRequest('GET', '/myTrades', { symbol, orderId: req.params.orderId });
+    res.json(trades.map(trade => ({
+      orderId: String(trade.orderId),
+      price: parseFloat(trade.price),
+      quantity: parseFloat(trade.qty),
+      fee: parseFloat(trade.commission),
+      feeAsset: trade.commissionAsset,
+      time: trade.time
+    })));
+  } catch (error) {
+    sendBinanceError(res, error, '約定明細の取得に失敗しました');
+  }
+});
+
+app.post('/api/orders', requireAuth, async (req, res) => {
+  const { symbol, side, type, quantity, price, clientOrderId } = req.body || {};
+  if (!isSymbol(String(symbol)) || !['BUY', 'SELL'].includes(side) || !['LIMIT', 'MARKET'].includes(type) || !quantity) {
+    return res.status(400).json({ error: '注文内容が不正です' });
+  }
+  if (type === 'LIMIT' && !price) {
+    return res.status(400).json({ error: '指値注文には価格が必要です' });
+  }
+  if (clientOrderId !== undefined && !/^[.A-Z:/a-z0-9_-]{1,36}$/.test(String(clientOrderId))) {
+    return res.status(400).json({ error: 'clientOrderIdが不正です' });
+  }
+  try {
+    const order = await signedRequest('POST', '/order', {
+      symbol,
+      side,
+      type,
+      quantity,
+      price: type === 'LIMIT' ? price : undefined,
+      timeInForce: type === 'LIMIT' ? 'GTC' : undefined,
+      newClientOrderId: clientOrderId
     });
+    res.json(toOrder(order));
+  } catch (error) {
+    sendBinanceError(res, error, '注文に失敗しました');
+  }
+});
+
+app.delete('/api/orders', requireAuth, async (req, res) => {
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+  try {
+    const orders = await signedRequest('DELETE', '/openOrders', { symbol });
+    res.json(orders.filter(order => order.orderId !== undefined).map(toOrder));
+  } catch (error) {
+    sendBinanceError(res, error, '注文の一括取消に失敗しました');
+  }
+});
+
+app.delete('/api/orders/:orderId', requireAuth, async (req, res) => {
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+  try {
+    const order = await signedRequest('DELETE', '/order', { symbol, orderId: req.params.orderId });
+    res.json(toOrder(order));
+  } catch (error) {
+    sendBinanceError(res, error, '注文の取消に失敗しました');
+  }
+});
+
+// 取引履歴・注文履歴・日次損益の書き出し（スクリプトからの取得用）
+// 例: /api/export/trades?symbol=BTCUSDT&from=2024-01-01&to=2024-01-31&format=csv
+app.get('/api/export/:dataset', requireAuth, async (req, res) => {
+  const { dataset } = req.params;
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  const format = String(req.query.format || 'json');
+  const range = exportData.parseRange(String(req.query.from || ''), String(req.query.to || ''));
+
+  if (!exportData.EXPORT_COLUMNS[dataset] || !isSymbol(symbol) || !['csv', 'json'].includes(format)) {
+    return res.status(400).json({ error: 'dataset・symbol・formatのいずれかが不正です' });
+  }
+  if (!range) {
+    return res.status(400).json({ error: 'from・toはyyyy-MM-dd形式で指定してください' });
+  }
+  if (range.endTime - range.startTime > MAX_EXPORT_DAYS * 24 * 60 * 60 * 1000) {
+    return res.status(400).json({ error: `期間は${MAX_EXPORT_DAYS}日以内で指定してください` });
+  }
+
+  try {
+    debug('書き出しリクエスト:', { dataset, symbol, from: req.query.from, to: req.query.to, format });
+
+    let rows;
+    if (dataset === 'orders') {
+      const orders = await exportData.fetchAllSince(
+        params => signedRequest('GET', '/allOrders', { symbol, ...params }),
+        range,
+        'orderId',
+        'orderId'
+      );
+      rows = exportData.orderRows(orders);
+    } else {
+      const response = await axios.get(`${BINANCE_API_URL}/api/v3/exchangeInfo`, { params: { symbol }, timeout: 10000 });
+      const symbolInfo = response.data.symbols?.find(s => s.symbol === symbol);
+      if (!symbolInfo) {
+        return res.status(404).json({ error: `${symbol}の取引ルールが見つかりません` });
+      }
+      const trades = await exportData.fetchAllSince(
+        params => signedRequest('GET', '/myTrades', { symbol, ...params }),
+        range,
+        'id',
+        'fromId'
+      );
+      rows = dataset === 'trades'
+        ? exportData.tradeRows(trades, symbolInfo)
+        : exportData.dailyPnlRows(trades, symbolInfo);
+    }
+
+    const filename = `${dataset}_${symbol}_${req.query.from}_${req.query.to}.${format}`;
+    res.set('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'csv') {
+      res.type('text/csv; charset=utf-8').send(exportData.toCsv(exportData.EXPORT_COLUMNS[dataset], rows));
+    } else {
+      res.json(rows);
+    }
+  } catch (error) {
+    sendBinanceError(res, error, '書き出しに失敗しました');
+  }
+});
+
+// 注文制限（PRICE_FILTERなど）を含む通貨ペアの取引ルール
+app.get('/api/exchangeInfo/:symbol', async (req, res) => {
+  const symbol = req.params.symbol.toUpperCase();
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+  try {
+    const response = await axios.get(`${BINANCE_API_URL}/api/v3/exchangeInfo`, { params: { symbol }, timeout: 10000 });
+    const symbolInfo = response.data.symbols?.find(s => s.symbol === symbol);
+    if (!symbolInfo) {
+      return res.status(404).json({ error: `${symbol}の取引ルールが見つかりません` });
+    }
+    res.json(symbolInfo);
+  } catch (error) {
+    sendBinanceError(res, error, '取引ルールの取得に失敗しました');
+  }
+});
+
+app.get('/api/price/:symbol', async (req, res) => {
+  const symbol = req.params.symbol.toUpperCase();
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+  try {
+    debug('価格取得リクエスト:', { symbol });
 
     const response = await axios({
       method: 'get',
-      url: `${BINANCE_API_URL}/api/v3/account?${queryString}&signature=${signature}`,
+      url: `${BINANCE_API_URL}/api/v3/ticker/price`,
+      params: { symbol },
       headers: {
-        'X-MBX-APIKEY': apiKey,
-        'User-Agent': 'Mozilla/5.0',
         'Accept': 'application/json'
       },
-      timeout: 10000
-    });
-
-    debug('Binanceからのレスポンス:', {
-      status: response.status,
-      data: response.data
+      timeout: 5000
     });
 
+    debug('価格取得レスポンス:', response.data);
     res.json(response.data);
   } catch (error) {
-    debug('エラー発生:', {
+    debug('価格取得エラー:', {
       message: error.message,
       response: error.response?.data
     });
 
     res.status(error.response?.status || 500).json({
-      error: 'Binance APIエラー',
+      error: '価格取得に失敗しました',
       details: error.response?.data || error.message
     });
   }
 });
 
-app.get('/api/price/:symbol', async (req, res) => {
+// フィクスチャは起動時に一度だけ読み込む（解析できないファイルや形式の違うファイルはログに残して除外する）
+function loadFixtures(dir, isValid) {
+  const fixtures = new Map();
+  if (!fs.existsSync(dir)) {
+    return fixtures;
+  }
+  for (const file of fs.readdirSync(dir).filter(name => name.endsWith('.json'))) {
+    try {
+      const data = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+      if (!isValid(data)) {
+        throw new Error('形式が不正です');
+      }
+      fixtures.set(path.basename(file, '.json'), data);
+    } catch (error) {
+      console.error(`[ProxyServer Error] フィクスチャを読み込めませんでした: ${file}`, error.message);
+    }
+  }
+  return fixtures;
+}
+
+const klineFixtures = loadFixtures(KLINE_FIXTURE_DIR, data => Array.isArray(data));
+const depthFixtures = loadFixtures(DEPTH_FIXTURE_DIR, data =>
+  Array.isArray(data?.snapshot?.bids) && Array.isArray(data.snapshot.asks)
+);
+
+// ローカルのフィクスチャのkline配列
+function readKlineFixture(symbol, interval) {
+  return klineFixtures.get(`${symbol}_${interval}`) ?? null;
+}
+
+app.get('/api/klines', async (req, res) => {
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  const interval = String(req.query.interval || '');
+  const limit = Math.min(parseInt(req.query.limit, 10) || 100, MAX_KLINE_LIMIT);
+
+  if (!/^[A-Z0-9]+$/.test(symbol) || !KLINE_INTERVALS.includes(interval)) {
+    return res.status(400).json({
+      error: 'symbolまたはintervalが不正です'
+    });
+  }
+
+  const sendFixture = () => {
+    const klines = readKlineFixture(symbol, interval);
+    if (!klines) {
+      return res.status(404).json({
+        error: `フィクスチャが見つかりません: ${symbol}_${interval}.json`
+      });
+    }
+    debug('フィクスチャからklineを返却:', { symbol, interval, count: klines.length });
+    res.json(klines.slice(-limit));
+  };
+
+  if (MARKET_DATA_MODE === 'fixture') {
+    return sendFixture();
+  }
+
   try {
-    const { symbol } = req.params;
-    debug('価格取得リクエスト:', { symbol });
+    debug('kline取得リクエスト:', { symbol, interval, limit });
 
     const response = await axios({
       method: 'get',
-      url: `${BINANCE_API_URL}/api/v3/ticker/price?symbol=${symbol}`,
+      url: `${BINANCE_API_URL}/api/v3/klines`,
+      params: { symbol, interval, limit },
       headers: {
         'Accept': 'application/json'
       },
-      timeout: 5000
+      timeout: 10000
     });
 
-    debug('価格取得レスポンス:', response.data);
     res.json(response.data);
   } catch (error) {
-    debug('価格取得エラー:', {
+    debug('kline取得エラー:', {
       message: error.message,
       response: error.response?.data
     });
 
+    // ネットワークに接続できない場合はフィクスチャで代替
+    if (!error.response && readKlineFixture(symbol, interval)) {
+      return sendFixture();
+    }
+
     res.status(error.response?.status || 500).json({
-      error: '価格取得に失敗しました',
+      error: 'klineの取得に失敗しました',
       details: error.response?.data || error.message
     });
   }
 });
 
-app.listen(port, () => {
-  console.log(`プロキシサーバーが http://localhost:${port} で起動しました`);
-}); 
\ No newline at end of file
+// 記録した板のスナップショット（fixtures/depth/{symbol}.json の snapshot）
+function readDepthFixture(symbol) {
+  return depthFixtures.get(symbol)?.snapshot ?? null;
+}
+
+// 板のスナップショット（差分ストリームと合わせてローカルの板を作る）
+app.get('/api/depth', async (req, res) => {
+  const symbol = String(req.query.symbol || '').toUpperCase();
+  const limit = Math.min(parseInt(req.query.limit, 10) || 100, MAX_DEPTH_LIMIT);
+
+  if (!isSymbol(symbol)) {
+    return res.status(400).json({ error: 'symbolが不正です' });
+  }
+
+  const sendFixture = () => {
+    const snapshot = readDepthFixture(symbol);
+    if (!snapshot) {
+      return res.status(404).json({ error: `フィクスチャが見つかりません: ${symbol}.json` });
+    }
+    debug('フィクスチャから板を返却:', { symbol, lastUpdateId: snapshot.lastUpdateId });
+    res.json({ ...snapshot, bids: snapshot.bids.slice(0, limit), asks: snapshot.asks.slice(0, limit) });
+  };
+
+  if (MARKET_DATA_MODE === 'fixture') {
+    return sendFixture();
+  }
+
+  try {
+    const response = await axios.get(`${BINANCE_API_URL}/api/v3/depth`, { params: { symbol, limit }, timeout: 10000 });
+    res.json(response.data);
+  } catch (error) {
+    // ネットワークに接続できない場合はフィクスチャで代替
+    if (!error.response && readDepthFixture(symbol)) {
+      return sendFixture();
+    }
+    sendBinanceError(res, error, '板情報の取得に失敗しました');
+  }
+});
+
+// テストではサーバーを起動せずにルートだけを読み込む
+if (require.main === module) {
+  app.listen(port, host, () => {
+    console.log(`プロキシサーバーが http://${host}:${port} で起動しました`);
+    console.log(credentials
+      ? `Binance${BINANCE_TESTNET ? 'テストネット' : ''}のAPIキーを読み込みました（${credentials.source}）`
+      : 'APIキーが未設定のため、認証付きルートは利用できません');
+    if (!PROXY_AUTH_TOKEN) {
+      console.log('PROXY_AUTH_TOKENが未設定のため、認証付きルートは利用できません');
+    }
+  });
+}
+
+module.exports = app; 
\ No newline at end of file
@@ -1,82 +1,168 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { ComposedChart, Line, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine, ReferenceDot } from 'recharts';
 import { Settings, AlertTriangle, DollarSign, TrendingUp, Activity, Grid, BarChart2, Check, X, RefreshCw, PieChart, Database, Brain, Save } from 'lucide-react';
 import { format } from 'date-fns';
 import ja from 'date-fns/locale/ja';
-import { BinanceApiClient, Balance as BinanceBalance } from './services/binanceApi';
+import { createExchangeAdapter, findExchange, ProxyExchangeAdapter, SELECTABLE_EXCHANGES } from './services/exchanges';
+import { Balance as BinanceBalance, ExchangeAdapter } from './services/exchanges/types';
+import { PaperExchange, TradingClient, createPaperExchangeForPair } from './services/paperExchange';
+import { Candle, fetchKlines, saveCachedCandles } from './services/marketData';
+import { OptimizationProposal, RiskLevel, runOptimization } from './services/gridOptimizer';
+import { DEFAULT_REOPTIMIZATION_SCHEDULE, ReoptimizationRecord, ReoptimizationSchedule } from './services/reoptimizer';
+import { StreamKline, StreamStatus, StreamTrade } from './services/priceStream';
+import { STOP_REASON_LABELS } from './services/riskWatcher';
+import { formatKillSwitchReport, runKillSwitch } from './services/killSwitch';
+import { OrderForReview, REVIEW_REASON_LABELS, ReconcileResult, loadGridSession } from './services/reconciliation';
 
 // 自作コンポーネントとフック
 import GridSettingsForm from './components/GridSettingsForm';
-import { useGridSettings } from './hooks/useGridSettings';
-import { api } from './services/api';
-import { formatCrypto, formatCurrency, formatDate } from './utils/formatters';
+import BacktestPanel from './components/BacktestPanel';
+import TradeHistoryPanel from './components/TradeHistoryPanel';
+import ExportPanel from './components/ExportPanel';
+import TaxReportPanel from './components/TaxReportPanel';
+import ChartIndicatorControls from './components/ChartIndicatorControls';
+import DepthPanel from './components/DepthPanel';
+import { CandleShape, CandleTooltip, ChartSubPane, candleColor } from './components/Candlestick';
+import ReoptimizationHistoryPanel from './components/ReoptimizationHistoryPanel';
+import { useGridSettings, GridType } from './hooks/useGridSettings';
+import { useGridBot } from './hooks/useGridBot';
+import { usePriceStream } from './hooks/usePriceStream';
+import { useDepthStream } from './hooks/useDepthStream';
+import { useCredentialVault } from './hooks/useCredentialVault';
+import { useTradeHistory } from './hooks/useTradeHistory';
+import { useReoptimizer } from './hooks/useReoptimizer';
+import { api, ProxyStatus } from './services/api';
+import { DEFAULT_AUTO_LOCK_MS, readPlaintextCredentials } from './services/credentialVault';
+import { formatCrypto, formatCurrency, formatDate, formatNumber } from './utils/formatters';
+import { AssetPrices, botInventory, calculatePnl, feeInQuote } from './utils/pnl';
+import { TIMEFRAME_OPTIONS, TimeframeOption } from './utils/timeframes';
+import { calculateGridLines as computeGridLines, calculateGridSpacingPercent } from './utils/grid';
+import { GridLevelStats, fillMarkers, gridLevelStats } from './utils/chartOverlays';
+import { IndicatorSettings, buildIndicatorSeries, loadIndicatorSettings, saveIndicatorSettings } from './utils/chartIndicators';
+import { validateGridSettings, formatValidationErrors } from './utils/gridValidation';
+import { SymbolFilters, getMinOrderValue, roundQuantity } from './utils/symbolFilters';
+import { TRADING_PAIRS, parsePair, toExchangeSymbol } from './utils/tradingPair';
+import ValidationMessage from './components/ValidationMessage';
 
+// チャートのローソク足（priceは終値で、最新価格として使う）
 interface PriceData {
   time: string;
   price: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
 }
 
-interface Order {
-  id: number;
-  type: string;
-  price: number;
-  amount: number;
-  status?: string;
-  executedAt?: string;
-  profit?: number;
-}
+const toPriceData = (candle: Candle): PriceData => ({
+  time: new Date(candle.openTime).toISOString(),
+  price: candle.close,
+  open: candle.open,
+  high: candle.high,
+  low: candle.low,
+  close: candle.close,
+  volume: candle.volume
+});
 
 interface Balance {
   base: number;
   quote: number;
 }
 
-interface GridSettings {
-  upperLimit: number;
-  lowerLimit: number;
-  gridNumber: number;
-  initialInvestment: number;
-  stopLoss: number;
-  takeProfitLevel: number;
-  tempUpperLimit?: string;
-  tempLowerLimit?: string;
-  tempGridNumber?: string;
-  tempInitialInvestment?: string;
-  tempStopLoss?: string;
-  tempTakeProfitLevel?: string;
-}
+type TradingMode = 'paper' | 'testnet' | 'mainnet';
+// server: server.jsが保持するキーで署名する / browser: 入力したキーでブラウザが署名する
+type KeyStorage = 'server' | 'browser';
 
 interface ApiSettings {
   exchange: string;
   apiKey: string;
   apiSecret: string;
-  testMode: boolean;
+  tradingMode: TradingMode;
+  keyStorage: KeyStorage;
 }
 
+const hasCredentials = (settings: ApiSettings) =>
+  settings.keyStorage === 'server' || Boolean(settings.apiKey && settings.apiSecret);
+
+// 画面から実際の取引ができる取引所か（国内取引所はペーパートレードのみ）
+const supportsLiveTrading = (exchange: string) => findExchange(exchange)?.liveTrading ?? false;
+
+// 本番・テストネット用の取引クライアントを作成する
+const createLiveClient = (settings: ApiSettings): ExchangeAdapter => {
+  if (!supportsLiveTrading(settings.exchange)) {
+    throw new Error(`${findExchange(settings.exchange)?.label ?? settings.exchange}ではペーパートレードのみ利用できます`);
+  }
+  if (settings.keyStorage === 'server') {
+    return new ProxyExchangeAdapter();
+  }
+  return createExchangeAdapter(
+    settings.exchange,
+    { apiKey: settings.apiKey, apiSecret: settings.apiSecret },
+    { testMode: settings.tradingMode === 'testnet' }
+  );
+};
+
+// APIキーは暗号化した保管庫（ブラウザ）またはサーバーで保持し、API設定には残さない
+const saveApiSettings = ({ apiKey, apiSecret, ...settings }: ApiSettings) => {
+  localStorage.setItem('gridBotApiSettings', JSON.stringify(settings));
+};
+
 interface AiOptimization {
   enabled: boolean;
   timeframe: string;
   historyPeriod: number;
-  riskLevel: string;
+  riskLevel: RiskLevel;
   optimizationInProgress: boolean;
   lastOptimized: string | null;
+  // 稼働中のグリッドの自動再最適化
+  schedule: ReoptimizationSchedule;
 }
 
-interface TimeframeOption {
-  label: string;
-  value: string;
-  interval: number;
-  format: string;
-}
+const DEFAULT_AI_OPTIMIZATION: AiOptimization = {
+  enabled: false,
+  timeframe: '1d',
+  historyPeriod: 30,
+  riskLevel: 'medium',
+  optimizationInProgress: false,
+  lastOptimized: null,
+  schedule: DEFAULT_REOPTIMIZATION_SCHEDULE
+};
+
+// 保存したAI最適化設定を読み込む（古い形式の設定には不足する項目を補う）
+const loadAiOptimization = (): AiOptimization => {
+  try {
+    const saved = localStorage.getItem('gridBotAiSettings');
+    if (!saved) return DEFAULT_AI_OPTIMIZATION;
+    const parsed = JSON.parse(saved);
+    return {
+      ...DEFAULT_AI_OPTIMIZATION,
+      ...parsed,
+      schedule: { ...DEFAULT_REOPTIMIZATION_SCHEDULE, ...parsed.schedule },
+      optimizationInProgress: false
+    };
+  } catch (error) {
+    console.error('AI最適化設定の読み込みエラー:', error);
+    return DEFAULT_AI_OPTIMIZATION;
+  }
+};
+
+// チャートに表示するローソク足の本数
+const PRICE_HISTORY_LIMIT = 100;
 
-const TIMEFRAME_OPTIONS: TimeframeOption[] = [
-  { label: '15分足', value: '15m', interval: 15 * 60 * 1000, format: 'HH:mm' },
-  { label: '1時間足', value: '1h', interval: 60 * 60 * 1000, format: 'MM/dd HH:mm' },
-  { label: '4時間足', value: '4h', interval: 4 * 60 * 60 * 1000, format: 'MM/dd HH:mm' },
-  { label: '日足', value: '1d', interval: 24 * 60 * 60 * 1000, format: 'yyyy/MM/dd' },
-  { label: '週足', value: '1w', interval: 7 * 24 * 60 * 60 * 1000, format: 'yyyy/MM/dd' },
-  { label: '月足', value: '1M', interval: 30 * 24 * 60 * 60 * 1000, format: 'yyyy/MM' }
-];
+// 凡例に表示するローソク足の色
+const CANDLE_LEGEND_COLOR = '#6b7280';
+
+// グリッドラインの色（出ている注文の売買別）
+const LEVEL_COLORS = { BUY: '#16a34a', SELL: '#dc2626', NONE: '#9ca3af' };
+
+const STREAM_STATUS_LABELS: Record<StreamStatus, string> = {
+  idle: '',
+  connecting: '接続中...',
+  connected: 'リアルタイム',
+  reconnecting: '再接続中...',
+  closed: ''
+};
 
 // グリッド設定の入力フィールド用のカスタムフック
 const useGridField = (initialValue: number, onChange: (value: number) => void) => {
@@ -172,43 +258,52 @@ const GridTradingSystem = () => {
   // サンプルデータ
   const [priceHistory, setPriceHistory] = useState<PriceData[]>([]);
   const [gridLines, setGridLines] = useState<number[]>([]);
-  const [activeOrders, setActiveOrders] = useState<Order[]>([]);
-  const [completedOrders, setCompletedOrders] = useState<Order[]>([]);
   const [balance, setBalance] = useState<Balance>({ base: 0, quote: 0 });
-  const [totalProfit, setTotalProfit] = useState(0);
-  const [isRunning, setIsRunning] = useState(false);
   const [selectedPair, setSelectedPair] = useState('BTC/USDT');
-  const [localSettings, setLocalSettings] = useState<GridSettings>({
-    upperLimit: 30000,
-    lowerLimit: 25000,
-    gridNumber: 10,
-    initialInvestment: 1000,
-    stopLoss: 24000,
-    takeProfitLevel: 31000
-  });
+  const pair = useMemo(() => parsePair(selectedPair), [selectedPair]);
+  // 価格データ（プロキシ・ストリーム）はBinanceのシンボルで取得する
+  const marketSymbol = toExchangeSymbol(pair, 'binance');
   
   // APIキーをローカルストレージから読み込む
   const [apiSettings, setApiSettings] = useState<ApiSettings>(() => {
     const savedApiSettings = localStorage.getItem('gridBotApiSettings');
-    return savedApiSettings 
-      ? JSON.parse(savedApiSettings) 
-      : {
-          exchange: 'binance',
-          apiKey: '',
-          apiSecret: '',
-          testMode: true
-        };
+    if (!savedApiSettings) {
+      return {
+        exchange: 'binance',
+        apiKey: '',
+        apiSecret: '',
+        tradingMode: 'paper',
+        keyStorage: 'server'
+      };
+    }
+
+    // 旧形式（testModeのチェックボックス・ブラウザ保存のキー）からの移行
+    const parsed = JSON.parse(savedApiSettings);
+    const tradingMode: TradingMode = parsed.tradingMode ?? (parsed.testMode === false ? 'mainnet' : 'testnet');
+    // 選択できなくなった取引所（国内取引所）の設定はBinanceのペーパートレードに戻す
+    const supported = supportsLiveTrading(parsed.exchange ?? 'binance');
+    // 平文で残っているAPIキーは使わない（保管庫に移行してから読み込む）
+    return {
+      ...parsed,
+      exchange: supported ? parsed.exchange ?? 'binance' : 'binance',
+      apiKey: '',
+      apiSecret: '',
+      tradingMode: supported ? tradingMode : 'paper',
+      keyStorage: parsed.keyStorage ?? 'browser'
+    };
   });
+
+  // 注文に使う取引所（ペーパートレードは価格データと同じBinance形式のシンボルを使う）
+  const tradingExchange = apiSettings.tradingMode === 'paper' ? 'binance' : apiSettings.exchange;
+  // 保存したボットを再開できる口座（取引モードと取引所）
+  const botAccount = `${apiSettings.tradingMode}:${tradingExchange}`;
+  // AI最適化はBinanceのkline・板で検証するため、国内取引所を選んでいる間は提案が実際の市場と一致しない
+  const optimizationAvailable = apiSettings.exchange === 'binance';
   
   // AIによる最適化設定
-  const [aiOptimization, setAiOptimization] = useState<AiOptimization>({
-    enabled: false,
-    timeframe: '1d',
-    historyPeriod: 30,
-    riskLevel: 'medium',
-    optimizationInProgress: false,
-    lastOptimized: null
-  });
+  const [aiOptimization, setAiOptimization] = useState<AiOptimization>(loadAiOptimization);
+  // 適用前の最適化の提案（ユーザーが承認するまで設定には反映しない）
+  const [aiProposal, setAiProposal] = useState<OptimizationProposal | null>(null);
   
   // エラー状態管理
   const [errorState, setErrorState] = useState({
@@ -221,6 +316,7 @@ const GridTradingSystem = () => {
   const [showSettings, setShowSettings] = useState(false);
   const [showApiSettings, setShowApiSettings] = useState(false);
   const [showAiSettings, setShowAiSettings] = useState(false);
+  const [showBacktest, setShowBacktest] = useState(false);
   
   const [selectedTimeframe, setSelectedTimeframe] = useState<TimeframeOption>(TIMEFRAME_OPTIONS[0]);
   
@@ -229,20 +325,118 @@ const GridTradingSystem = () => {
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
   const [autoUpdate, setAutoUpdate] = useState(true);
 
-  // BinanceApiClientの型を修正
-  const [binanceClient, setBinanceClient] = useState<BinanceApiClient | null>(null);
+  // 取引クライアント（Binanceまたはペーパートレード）
+  const [exchangeClient, setExchangeClient] = useState<TradingClient | null>(null);
+  // 選択中の通貨ペアの注文制限
+  const [symbolFilters, setSymbolFilters] = useState<SymbolFilters | null>(null);
+  // プロキシサーバーのAPIキー設定状況
+  const [proxyStatus, setProxyStatus] = useState<ProxyStatus | null>(null);
+
+  // 最新価格（設定チェック用）
+  const latestPrice = priceHistory.length > 0 ? priceHistory[priceHistory.length - 1].price : undefined;
+  const minOrderValue = symbolFilters ? getMinOrderValue(symbolFilters, latestPrice) : undefined;
 
   // グリッド設定フックの使用
   const { 
     settings: gridSettings,
     updateSettings: updateGridSettings, 
     saveSettings, 
-    calculateGridLines 
-  } = useGridSettings();
+    calculateGridLines,
+    validation: gridValidation
+  } = useGridSettings(undefined, { currentPrice: latestPrice, minOrderValue });
 
   // グリッドラインの計算
   const calculatedGridLines = calculateGridLines();
 
+  // グリッド取引エンジン
+  const {
+    isRunning,
+    symbol: botSymbol,
+    activeOrders,
+    completedOrders,
+    startPrice,
+    stopRecord,
+    start: startGridBot,
+    resume: resumeGridBot,
+    stop: stopGridBot,
+    migrate: migrateGridBot,
+    updatePrice: updateBotPrice
+  } = useGridBot();
+
+  // 約定の履歴（停止後も保存しておく）
+  const { trades, clearHistory } = useTradeHistory(botSymbol, completedOrders);
+  const tradingSymbol = toExchangeSymbol(selectedPair, tradingExchange);
+  const pairTrades = useMemo(() => trades.filter(trade => trade.symbol === tradingSymbol), [trades, tradingSymbol]);
+
+  // BNBなど通貨ペア以外の資産で支払った手数料を換算するための価格
+  const [feeAssetPrices, setFeeAssetPrices] = useState<AssetPrices>({});
+  const feeAssets = Array.from(new Set(
+    [...completedOrders, ...pairTrades]
+      .map(order => order.feeAsset)
+      .filter((asset): asset is string => !!asset && asset !== pair.base && asset !== pair.quote)
+  )).sort().join(',');
+
+  // APIキーの保管庫（ブラウザで署名する場合）
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [hasPlaintextKeys, setHasPlaintextKeys] = useState(() => Object.keys(readPlaintextCredentials()).length > 0);
+  const { vault, unlocked: vaultUnlocked, hasVault, resetVault } = useCredentialVault({
+    // ロックされたらメモリ上のAPIキーを破棄する（稼働中のボットは止めない）
+    onLock: () => {
+      setVaultPassphrase('');
+      if (apiSettings.keyStorage !== 'browser') return;
+      setApiSettings(prev => ({ ...prev, apiKey: '', apiSecret: '' }));
+      if (!isRunning && apiSettings.tradingMode !== 'paper') {
+        setExchangeClient(null);
+      }
+    }
+  });
+
+  // 入力したAPIキーを保管庫に暗号化して保存する（平文の旧データは移行して削除）
+  const storeCredentials = async () => {
+    if (apiSettings.keyStorage !== 'browser' || !apiSettings.apiKey || !apiSettings.apiSecret) return;
+
+    if (hasPlaintextKeys) {
+      await vault.migratePlaintext(vaultPassphrase);
+      setHasPlaintextKeys(false);
+    } else if (!hasVault) {
+      await vault.create(vaultPassphrase);
+    } else if (!vaultUnlocked) {
+      await vault.unlock(vaultPassphrase);
+    }
+    await vault.setCredentials(apiSettings.exchange, { apiKey: apiSettings.apiKey, apiSecret: apiSettings.apiSecret });
+  };
+
+  // 平文で保存されていたAPIキーを保管庫に移して削除し、選択中の取引所のキーを読み込む
+  const migratePlaintextKeys = async () => {
+    try {
+      await vault.migratePlaintext(vaultPassphrase);
+      setHasPlaintextKeys(false);
+      const stored = vault.getCredentials(apiSettings.exchange);
+      if (stored) {
+        setApiSettings(prev => ({ ...prev, ...stored }));
+      }
+    } catch (error) {
+      handleApiError(error, 'APIキーの移行');
+    }
+  };
+
+  const unlockVault = async () => {
+    // 平文のAPIキーが残っていれば、最初のロック解除で移行する
+    if (hasPlaintextKeys) {
+      await migratePlaintextKeys();
+      return;
+    }
+    try {
+      await vault.unlock(vaultPassphrase);
+      const stored = vault.getCredentials(apiSettings.exchange);
+      if (stored) {
+        setApiSettings(prev => ({ ...prev, ...stored }));
+      }
+    } catch (error) {
+      handleApiError(error, '保管庫のロック解除');
+    }
+  };
+
   // APIエラー処理関数
   const handleApiError = useCallback((error: any, operation: string) => {
     console.error(`Error in ${operation}:`, error);
@@ -262,14 +456,14 @@ const GridTradingSystem = () => {
 
   // 残高取得関数
   const fetchBalance = useCallback(async () => {
-    if (!binanceClient) {
-      console.error('Binance client is not initialized');
+    if (!exchangeClient) {
+      console.error('Exchange client is not initialized');
       return;
     }
 
     try {
       console.log('Starting balance fetch...');
-      const balance = await binanceClient.getAccountBalance();
+      const balance = await exchangeClient.getAccountBalance(pair.base, pair.quote);
       console.log('Balance fetched successfully:', balance);
       
       if (balance.base === 0 && balance.quote === 0) {
@@ -290,95 +484,195 @@ const GridTradingSystem = () => {
         handleApiError(error, '残高の取得');
       }
     }
-  }, [binanceClient, handleApiError]);
+  }, [exchangeClient, pair.base, pair.quote, handleApiError]);
 
-  // Binance APIクライアントの初期化
+  // ペーパートレードの口座は通貨ペアごとに1つのインスタンスを使い回す
+  // （同じ保存先に複数のインスタンスが書き込み、互いの注文や残高を上書きしないようにする）
+  const paperExchangesRef = useRef(new Map<string, PaperExchange>());
+  const getPaperExchange = useCallback((tradingPair: string) => {
+    let paperExchange = paperExchangesRef.current.get(tradingPair);
+    if (!paperExchange) {
+      paperExchange = createPaperExchangeForPair(parsePair(tradingPair));
+      paperExchangesRef.current.set(tradingPair, paperExchange);
+    }
+    return paperExchange;
+  }, []);
+
+  // 取引クライアントの初期化
+  // 稼働中のボットは開始時のクライアントで発注・約定確認を続けるため、停止するまで差し替えない
   useEffect(() => {
-    if (apiSettings.apiKey && apiSettings.apiSecret) {
+    if (isRunning) return;
+
+    if (apiSettings.tradingMode === 'paper') {
+      console.log('Initializing paper trading exchange:', selectedPair);
+      setExchangeClient(getPaperExchange(selectedPair));
+      return;
+    }
+
+    if (hasCredentials(apiSettings)) {
       try {
-        console.log('Initializing Binance client with settings:', {
-          testMode: apiSettings.testMode,
-          apiKeyLength: apiSettings.apiKey.length,
-          apiSecretLength: apiSettings.apiSecret.length
+        console.log('Initializing exchange client with settings:', {
+          exchange: apiSettings.exchange,
+          tradingMode: apiSettings.tradingMode,
+          keyStorage: apiSettings.keyStorage
         });
 
-        const client = new BinanceApiClient({
-          apiKey: apiSettings.apiKey,
-          apiSecret: apiSettings.apiSecret,
-          testMode: apiSettings.testMode
-        });
-        
-        console.log('Binance client initialized successfully');
-        setBinanceClient(client);
+        const client = createLiveClient(apiSettings);
         
-        // クライアント初期化後に残高を取得
-        fetchBalance();
+        console.log('Exchange client initialized successfully');
+        setExchangeClient(client);
       } catch (error) {
-        console.error('Error initializing Binance client:', error);
+        console.error('Error initializing exchange client:', error);
         handleApiError(error, 'APIクライアントの初期化');
       }
     } else {
       console.warn('API settings are not complete');
     }
-  }, [apiSettings.apiKey, apiSettings.apiSecret, apiSettings.testMode, handleApiError, fetchBalance]);
+  }, [apiSettings, selectedPair, isRunning, getPaperExchange, handleApiError]);
+
+  // クライアント初期化後に残高を取得
+  useEffect(() => {
+    if (exchangeClient) {
+      fetchBalance();
+    }
+  }, [exchangeClient, fetchBalance]);
+
+  // 通貨ペアの注文制限を取得
+  useEffect(() => {
+    setSymbolFilters(null);
+    if (!exchangeClient) return;
+
+    let cancelled = false;
+    Promise.resolve()
+      .then(() => exchangeClient.getSymbolFilters(toExchangeSymbol(selectedPair, tradingExchange)))
+      .then(filters => {
+        if (!cancelled) setSymbolFilters(filters);
+      })
+      .catch(error => {
+        // 取得できない場合は既定の最小注文額でチェックする
+        console.error('注文制限の取得エラー:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchangeClient, selectedPair, tradingExchange]);
+
+  // API設定を開いたときにプロキシのAPIキー設定状況を確認
+  useEffect(() => {
+    if (!showApiSettings || apiSettings.keyStorage !== 'server') return;
+
+    let cancelled = false;
+    api.getStatus().then(result => {
+      if (!cancelled) setProxyStatus(result.error ? null : result.data);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showApiSettings, apiSettings.keyStorage]);
 
   // 価格データ取得関数の実装
   const fetchPriceData = useCallback(async () => {
+    const symbol = marketSymbol;
     try {
       setIsLoading(true);
-      const now = Date.now();
-      const data = [];
-      let price = 27500;
-      
-      // シンプルなサンプルデータ生成
-      for (let i = 0; i < 100; i++) {
-        const time = new Date(now - (100 - i) * 600000); // 1分間隔
-        price = price + (Math.random() - 0.5) * 200;
-        data.push({
-          time: time.toISOString(),
-          price: price
-        });
-      }
-      
-      setPriceHistory(data);
+      const candles = await fetchKlines(symbol, selectedTimeframe.value, PRICE_HISTORY_LIMIT);
+
+      // バックテストでオフライン利用できるようにキャッシュへ保存
+      saveCachedCandles(symbol, selectedTimeframe.value, candles);
+
+      setPriceHistory(candles.map(toPriceData));
       setLastUpdated(new Date());
+      setErrorState(prev => prev.hasError ? { hasError: false, errorMessage: '', retryCount: 0 } : prev);
     } catch (error) {
-      handleApiError(error, 'チャートデータの更新');
+      console.error('Error in fetchPriceData:', error);
+      setErrorState(prev => ({
+        hasError: true,
+        errorMessage: `チャートデータの更新に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+        retryCount: prev.retryCount + 1
+      }));
     } finally {
       setIsLoading(false);
     }
-  }, [handleApiError]);
+  }, [marketSymbol, selectedTimeframe]);
 
-  // 自動更新用のuseEffect
+  // 通貨ペア・時間枠が変わったら履歴を取得し直す
   useEffect(() => {
-    // 初回のデータ取得
     fetchPriceData();
-    
-    // 定期的な更新用のタイマーをセット
-    const intervalId = setInterval(() => {
-      fetchPriceData();
-    }, 10000); // 10秒ごとに更新
-    
-    return () => clearInterval(intervalId);
   }, [fetchPriceData]);
 
-  // 時間枠が変更されたときのハンドラー
+  // ストリームのローソク足で最新の足を更新、新しい足は追加
+  const handleStreamKline = useCallback((kline: StreamKline) => {
+    if (kline.symbol !== marketSymbol || kline.interval !== selectedTimeframe.value) return;
+
+    const point = toPriceData(kline.candle);
+    setPriceHistory(prev => {
+      // REST履歴の取得前は追加しない
+      if (prev.length === 0) return prev;
+      const last = prev[prev.length - 1];
+      if (last.time === point.time) {
+        return [...prev.slice(0, -1), point];
+      }
+      if (point.time < last.time) return prev;
+      return [...prev, point].slice(-PRICE_HISTORY_LIMIT);
+    });
+    setLastUpdated(new Date());
+  }, [marketSymbol, selectedTimeframe]);
+
+  // 約定ごとに最新の足の価格を更新
+  const handleStreamTrade = useCallback((trade: StreamTrade) => {
+    if (trade.symbol !== marketSymbol) return;
+
+    setPriceHistory(prev => {
+      if (prev.length === 0) return prev;
+      const last = prev[prev.length - 1];
+      return [...prev.slice(0, -1), {
+        ...last,
+        price: trade.price,
+        close: trade.price,
+        high: Math.max(last.high, trade.price),
+        low: Math.min(last.low, trade.price),
+        volume: last.volume + trade.quantity
+      }];
+    });
+    setLastUpdated(new Date());
+  }, [marketSymbol]);
+
+  // 自動更新が有効な間はリアルタイム配信を購読（再接続時は欠損分を再取得）
+  const { status: streamStatus } = usePriceStream({
+    symbol: marketSymbol,
+    interval: selectedTimeframe.value,
+    enabled: autoUpdate,
+    onTrade: handleStreamTrade,
+    onKline: handleStreamKline,
+    onReconnect: fetchPriceData
+  });
+
+  // チャートの横に表示する板情報（価格と同じく自動更新の間だけ購読）
+  const depth = useDepthStream({ symbol: marketSymbol, enabled: autoUpdate });
+
+  // 時間枠が変更されたときのハンドラー（データは自動更新のuseEffectで再取得）
   const handleTimeframeChange = useCallback((newTimeframe: TimeframeOption) => {
     setSelectedTimeframe(newTimeframe);
-    fetchPriceData();
-  }, [fetchPriceData]);
+    setPriceHistory([]);
+  }, []);
 
-  // 初期データの読み込み
+  // ペーパートレードでは最新価格で指値注文を約定させる
   useEffect(() => {
-    if (priceHistory.length === 0) {
-      fetchPriceData();
-    }
-  }, [fetchPriceData, priceHistory.length]);
+    if (!(exchangeClient instanceof PaperExchange) || priceHistory.length === 0) return;
+
+    const latestPrice = priceHistory[priceHistory.length - 1].price;
+    exchangeClient.updatePrice(marketSymbol, latestPrice);
+    fetchBalance();
+  }, [exchangeClient, priceHistory, marketSymbol, fetchBalance]);
 
   // グリッド設定の更新（永続化）
   const handleSettingsUpdate = (newSettings: any) => {
-    setLocalSettings(newSettings);
     updateGridSettings(newSettings);
+
+    // エラーがある間は保存しない
+    if (!validateGridSettings(newSettings).isValid) return;
     
     try {
       localStorage.setItem('gridBotSettings', JSON.stringify(newSettings));
@@ -388,64 +682,288 @@ const GridTradingSystem = () => {
   };
 
   // ボットの開始/停止
-  const toggleBotStatus = () => {
-    setIsRunning(!isRunning);
+  const toggleBotStatus = async () => {
+    if (isRunning) {
+      await stopGridBot();
+      return;
+    }
+
+    if (!exchangeClient) {
+      throw new Error('APIクライアントが初期化されていません。API設定を確認してください');
+    }
+
+    if (!gridValidation.isValid) {
+      throw new Error(`グリッド設定にエラーがあります\n${formatValidationErrors(gridValidation)}`);
+    }
+
+    await startGridBot({
+      client: exchangeClient,
+      symbol: toExchangeSymbol(pair, tradingExchange),
+      gridLines: calculatedGridLines,
+      initialInvestment: gridSettings.initialInvestment,
+      account: botAccount,
+      riskLimits: { stopLoss: gridSettings.stopLoss, takeProfit: gridSettings.takeProfitLevel },
+      sellOnRiskStop: gridSettings.sellOnRiskStop
+    });
+  };
+
+  // 再読み込み前に稼働していたボットの照合結果と、確認が必要な注文
+  const [reconcileResult, setReconcileResult] = useState<ReconcileResult | null>(null);
+  const [reviewOrders, setReviewOrders] = useState<OrderForReview[]>([]);
+  const resumeAttemptedRef = useRef<string | null>(null);
+
+  // 稼働中だったボットを取引所の注文と照合して再開する
+  useEffect(() => {
+    if (!exchangeClient || isRunning) return;
+
+    const symbol = toExchangeSymbol(selectedPair, tradingExchange);
+    const resumeKey = `${botAccount}:${symbol}`;
+    if (resumeAttemptedRef.current === resumeKey) return;
+
+    const session = loadGridSession();
+    if (!session || session.account !== botAccount || session.symbol !== symbol) return;
+    resumeAttemptedRef.current = resumeKey;
+
+    resumeGridBot({ client: exchangeClient, session })
+      .then(result => {
+        setReconcileResult(result);
+        setReviewOrders(result.review);
+      })
+      .catch(error => handleApiError(error, 'ボットの再開'));
+  }, [exchangeClient, isRunning, selectedPair, tradingExchange, botAccount, resumeGridBot, handleApiError]);
+
+  // 確認が必要な注文を取り消す
+  const cancelReviewOrder = async ({ order }: OrderForReview) => {
+    if (!exchangeClient) return;
+    try {
+      await exchangeClient.cancelOrder(order.symbol, order.orderId);
+      setReviewOrders(prev => prev.filter(item => item.order.orderId !== order.orderId));
+      await fetchBalance();
+    } catch (error) {
+      handleApiError(error, '注文の取消');
+    }
+  };
+
+  useEffect(() => {
+    if (!exchangeClient || !feeAssets) return;
+
+    let cancelled = false;
+    Promise.all(feeAssets.split(',').map(async asset => {
+      try {
+        const ticker = await exchangeClient.getCurrentPrice(toExchangeSymbol({ base: asset, quote: pair.quote }, tradingExchange));
+        return [asset, parseFloat(ticker.price)] as const;
+      } catch (error) {
+        console.error('手数料の資産の価格取得エラー:', asset, error);
+        return null;
+      }
+    })).then(results => {
+      if (cancelled) return;
+      setFeeAssetPrices(Object.fromEntries(results.filter((result): result is readonly [string, number] => result !== null)));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [exchangeClient, feeAssets, pair.quote, tradingExchange]);
+
+  // 稼働中（または直近に停止した）ボットの損益
+  const pnl = useMemo(() => calculatePnl({
+    completedOrders,
+    activeOrders,
+    currentPrice: latestPrice,
+    startPrice,
+    initialInvestment: gridSettings.initialInvestment,
+    pair,
+    assetPrices: feeAssetPrices
+  }), [completedOrders, activeOrders, latestPrice, startPrice, gridSettings.initialInvestment, pair, feeAssetPrices]);
+  const quoteDecimals = pair.quote === 'JPY' ? 0 : 2;
+  const unconvertedFees = Object.entries(pnl.unconvertedFees);
+
+  // 緊急停止: ボットを止め、取引所に残っている注文もすべて取り消す
+  const emergencyStop = async () => {
+    if (!exchangeClient) {
+      throw new Error('APIクライアントが初期化されていません。API設定を確認してください');
+    }
+
+    // ボットの停止に失敗しても注文の取消は続ける
+    let stopError: unknown = null;
+    try {
+      await stopGridBot();
+    } catch (error) {
+      stopError = error;
+      console.error('Error in emergencyStop:', error);
+    }
+
+    // 売却するのはボットが購入した保有分だけにする（口座にもともとある分には手を付けない）
+    const inventory = botSymbol === tradingSymbol ? botInventory(completedOrders, pair) : 0;
+    const flattenQuantity = symbolFilters ? roundQuantity(inventory, symbolFilters) : inventory;
+    const flatten = flattenQuantity > 0 && window.confirm(
+      `注文の取消後、ボットが購入した${flattenQuantity} ${pair.base}を成行で売却しますか？\n口座にあるそのほかの${pair.base}は売却しません`
+    );
+    const report = await runKillSwitch({
+      client: exchangeClient,
+      symbol: tradingSymbol,
+      baseAsset: pair.base,
+      quoteAsset: pair.quote,
+      flattenQuantity: flatten ? flattenQuantity : 0
+    });
+    await fetchBalance();
+
+    const message = formatKillSwitchReport(report, pair.base);
+    alert(stopError ? `${message}\nボットの停止処理でエラーが発生しました: ${stopError instanceof Error ? stopError.message : String(stopError)}` : message);
   };
 
-  // 通貨ペアの変更
+  // 稼働中は最新価格でストップロス・利確を監視する
+  // チャートの価格はボットと同じ通貨ペアのときだけ使う（それ以外はuseGridBotがボットの通貨ペアの価格を定期的に確認する）
+  useEffect(() => {
+    if (!isRunning || latestPrice === undefined || tradingSymbol !== botSymbol) return;
+
+    updateBotPrice(latestPrice).catch(error => handleApiError(error, 'ストップロス・利確の執行'));
+  }, [isRunning, latestPrice, tradingSymbol, botSymbol, updateBotPrice, handleApiError]);
+
+  // AI最適化が有効な間は、稼働中のグリッドを定期的に再最適化する
+  // 価格・刻み幅・最小注文額は選択中の通貨ペアのものなので、ボットと同じ通貨ペアを選んでいる間だけ判定する
+  const botPairSelected = tradingSymbol === botSymbol;
+  const reoptimizationSchedule = useMemo(
+    () => ({
+      ...aiOptimization.schedule,
+      enabled: optimizationAvailable && botPairSelected && aiOptimization.enabled && aiOptimization.schedule.enabled
+    }),
+    [optimizationAvailable, botPairSelected, aiOptimization.enabled, aiOptimization.schedule]
+  );
+  const reoptimizer = useReoptimizer({
+    running: isRunning,
+    schedule: reoptimizationSchedule,
+    settings: gridSettings,
+    symbol: botSymbol,
+    timeframe: aiOptimization.timeframe,
+    historyPeriod: aiOptimization.historyPeriod,
+    riskLevel: aiOptimization.riskLevel,
+    latestPrice: botPairSelected ? latestPrice : undefined,
+    minOrderValue,
+    filters: symbolFilters ?? undefined,
+    migrate: migrateGridBot,
+    onApplied: (record: ReoptimizationRecord) => {
+      if (!record.proposed) return;
+      // 移行したグリッドを設定に反映し、再読み込み後も同じ設定で表示する
+      handleSettingsUpdate({ ...gridSettings, ...record.proposed });
+      setAiOptimization(prev => {
+        const saved = { ...prev, lastOptimized: record.at };
+        localStorage.setItem('gridBotAiSettings', JSON.stringify({ ...saved, optimizationInProgress: false }));
+        return saved;
+      });
+      fetchBalance();
+    }
+  });
+
+  // チャートに重ねるグリッドの各レベルの約定・損益と、表示期間中の約定
+  const levelStats = useMemo(() => gridLevelStats(
+    computeGridLines(gridSettings),
+    completedOrders,
+    activeOrders,
+    order => feeInQuote(order, pair, feeAssetPrices) ?? 0
+  ), [gridSettings, completedOrders, activeOrders, pair, feeAssetPrices]);
+  const chartFills = useMemo(
+    () => fillMarkers(priceHistory.map(point => point.time), completedOrders),
+    [priceHistory, completedOrders]
+  );
+  const [hoveredLevel, setHoveredLevel] = useState<GridLevelStats | null>(null);
+
+  // ローソク足に重ねるテクニカル指標（設定はブラウザに保存する）
+  const [indicatorSettings, setIndicatorSettings] = useState<IndicatorSettings>(loadIndicatorSettings);
+  const updateIndicatorSettings = (settings: IndicatorSettings) => {
+    setIndicatorSettings(settings);
+    saveIndicatorSettings(settings);
+  };
+  const chartData = useMemo(() => {
+    const series = buildIndicatorSeries(priceHistory, indicatorSettings);
+    return priceHistory.map((point, i) => ({ ...point, ...series[i], range: [point.low, point.high] }));
+  }, [priceHistory, indicatorSettings]);
+
+  // グリッドラインにカーソルを合わせやすいよう、透明な太い線を重ねる
+  const renderLevelLine = (stats: GridLevelStats) => (props: React.SVGProps<SVGLineElement>) => (
+    <g>
+      <line {...props} strokeDasharray="2 4" />
+      <line
+        x1={props.x1}
+        y1={props.y1}
+        x2={props.x2}
+        y2={props.y2}
+        stroke="transparent"
+        strokeWidth={8}
+        onMouseEnter={() => setHoveredLevel(stats)}
+        onMouseLeave={() => setHoveredLevel(null)}
+      />
+    </g>
+  );
+
+  // 停止した時点の価格をチャートに表示する
+  const stopPoint = stopRecord && stopRecord.reason !== 'MANUAL'
+    ? [...priceHistory].reverse().find(point => new Date(point.time).getTime() <= new Date(stopRecord.stoppedAt).getTime())
+      ?? priceHistory[priceHistory.length - 1]
+    : undefined;
+
+  // 通貨ペアの変更（稼働中のボットの価格・注文と混ざらないよう、停止するまで変更できない）
   const changeTradingPair = (pair: string) => {
+    if (isRunning) return;
     setSelectedPair(pair);
+    setPriceHistory([]);
   };
 
   // グリッド設定フォーム
   const SettingsForm = () => {
     const upperLimitProps = useGridField(
-      localSettings.upperLimit,
-      (value) => handleSettingsUpdate({...localSettings, upperLimit: value})
+      gridSettings.upperLimit,
+      (value) => handleSettingsUpdate({...gridSettings, upperLimit: value})
     );
 
     const lowerLimitProps = useGridField(
-      localSettings.lowerLimit,
-      (value) => handleSettingsUpdate({...localSettings, lowerLimit: value})
+      gridSettings.lowerLimit,
+      (value) => handleSettingsUpdate({...gridSettings, lowerLimit: value})
     );
 
     const gridNumberProps = useGridField(
-      localSettings.gridNumber,
-      (value) => handleSettingsUpdate({...localSettings, gridNumber: value})
+      gridSettings.gridNumber,
+      (value) => handleSettingsUpdate({...gridSettings, gridNumber: value})
     );
 
     const initialInvestmentProps = useGridField(
-      localSettings.initialInvestment,
-      (value) => handleSettingsUpdate({...localSettings, initialInvestment: value})
+      gridSettings.initialInvestment,
+      (value) => handleSettingsUpdate({...gridSettings, initialInvestment: value})
     );
 
     const stopLossProps = useGridField(
-      localSettings.stopLoss,
-      (value) => handleSettingsUpdate({...localSettings, stopLoss: value})
+      gridSettings.stopLoss,
+      (value) => handleSettingsUpdate({...gridSettings, stopLoss: value})
     );
 
     const takeProfitLevelProps = useGridField(
-      localSettings.takeProfitLevel,
-      (value) => handleSettingsUpdate({...localSettings, takeProfitLevel: value})
+      gridSettings.takeProfitLevel,
+      (value) => handleSettingsUpdate({...gridSettings, takeProfitLevel: value})
     );
 
+    const spacing = calculateGridSpacingPercent(gridSettings);
+    const validation = validateGridSettings(gridSettings, { currentPrice: latestPrice, minOrderValue });
+
   return (
       <div className="bg-white p-6 rounded-lg shadow-lg max-w-2xl w-full">
         <h3 className="text-lg font-semibold mb-4">グリッド設定</h3>
         <div className="grid grid-cols-2 gap-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700">上限価格</label>
+            <label className="block text-sm font-medium text-gray-700">上限価格（{pair.quote}）</label>
             <input
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               {...upperLimitProps}
             />
+            <ValidationMessage validation={validation} field="upperLimit" />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">下限価格</label>
+            <label className="block text-sm font-medium text-gray-700">下限価格（{pair.quote}）</label>
             <input
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               {...lowerLimitProps}
             />
+            <ValidationMessage validation={validation} field="lowerLimit" />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700">グリッド本数</label>
@@ -453,27 +971,59 @@ const GridTradingSystem = () => {
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               {...gridNumberProps}
             />
+            <ValidationMessage validation={validation} field="gridNumber" />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">グリッドタイプ</label>
+            <select
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              value={gridSettings.gridType}
+              onChange={(e) => handleSettingsUpdate({...gridSettings, gridType: e.target.value as GridType})}
+            >
+              <option value="arithmetic">等差（価格幅が一定）</option>
+              <option value="geometric">等比（値幅%が一定）</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              1グリッドあたり: {gridSettings.gridType === 'geometric'
+                ? `${spacing.min.toFixed(2)}%`
+                : `${spacing.min.toFixed(2)}% 〜 ${spacing.max.toFixed(2)}%`}
+            </p>
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">初期投資額</label>
+            <label className="block text-sm font-medium text-gray-700">初期投資額（{pair.quote}）</label>
             <input
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               {...initialInvestmentProps}
             />
+            <ValidationMessage validation={validation} field="initialInvestment" />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">ストップロス</label>
+            <label className="block text-sm font-medium text-gray-700">ストップロス（{pair.quote}）</label>
             <input
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               {...stopLossProps}
             />
+            <ValidationMessage validation={validation} field="stopLoss" />
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700">利確レベル</label>
+            <label className="block text-sm font-medium text-gray-700">利確レベル（{pair.quote}）</label>
             <input
               className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
               {...takeProfitLevelProps}
             />
+            <ValidationMessage validation={validation} field="takeProfitLevel" />
+          </div>
+          <div className="col-span-2 flex items-center">
+            <input
+              id="sellOnRiskStop"
+              type="checkbox"
+              className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded cursor-pointer"
+              checked={gridSettings.sellOnRiskStop}
+              onChange={(e) => handleSettingsUpdate({...gridSettings, sellOnRiskStop: e.target.checked})}
+            />
+            <label htmlFor="sellOnRiskStop" className="ml-2 text-sm text-gray-700 cursor-pointer">
+              ストップロス・利確で停止するときに保有している{pair.base}を成行で売却する
+            </label>
           </div>
         </div>
         <div className="mt-6 flex justify-end space-x-4">
@@ -484,7 +1034,8 @@ const GridTradingSystem = () => {
             キャンセル
           </button>
           <button
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={!validation.isValid}
             onClick={() => {
               setShowSettings(false);
             }}
@@ -506,15 +1057,64 @@ const GridTradingSystem = () => {
           <select
             className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
             value={apiSettings.exchange}
-            onChange={(e) => setApiSettings({ ...apiSettings, exchange: e.target.value })}
+            onChange={(e) => {
+              const exchange = e.target.value;
+              // テストネットのない取引所に切り替えた場合はペーパートレードに戻す
+              const tradingMode = apiSettings.tradingMode === 'testnet' && !findExchange(exchange)?.hasTestnet
+                ? 'paper'
+                : apiSettings.tradingMode;
+              // 保管庫を解除中なら切り替え先の取引所のAPIキーを読み込む
+              const credentials = vaultUnlocked
+                ? vault.getCredentials(exchange) ?? { apiKey: '', apiSecret: '' }
+                : {};
+              setApiSettings({ ...apiSettings, ...credentials, exchange, tradingMode });
+            }}
           >
-            <option value="binance">Binance</option>
-            <option value="bitflyer">bitFlyer</option>
-            <option value="coincheck">Coincheck</option>
-            <option value="gmo">GMOコイン</option>
-            <option value="bitbank">bitbank</option>
+            {SELECTABLE_EXCHANGES.map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
           </select>
         </div>
+        <div>
+          <label htmlFor="keyStorage" className="block text-sm font-medium text-gray-700">APIキーの保管場所</label>
+          <select
+            id="keyStorage"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={apiSettings.keyStorage}
+            onChange={(e) => {
+              const keyStorage = e.target.value as KeyStorage;
+              // プロキシサーバーが署名できるのはBinanceのみ
+              const exchange = keyStorage === 'server' ? 'binance' : apiSettings.exchange;
+              setApiSettings({ ...apiSettings, keyStorage, exchange });
+            }}
+          >
+            <option value="server">プロキシサーバー（ブラウザにシークレットを保存しない）</option>
+            <option value="browser">ブラウザ（ローカルストレージ）</option>
+          </select>
+        </div>
+        {apiSettings.keyStorage === 'server' ? (
+          <div className="bg-gray-50 p-3 rounded-md text-sm text-gray-700">
+            {proxyStatus === null ? (
+              <p>プロキシサーバー（server.js）に接続できません</p>
+            ) : !proxyStatus.authConfigured ? (
+              <p>
+                プロキシサーバーにPROXY_AUTH_TOKENが設定されていません。同じ値をREACT_APP_PROXY_AUTH_TOKENにも指定して、
+                server.jsとこの画面を起動し直してください
+              </p>
+            ) : proxyStatus.configured ? (
+              <p>
+                プロキシサーバーのAPIキーを使用します（{proxyStatus.source === 'env' ? '環境変数' : '暗号化ファイル'}・
+                {proxyStatus.testnet ? 'テストネット' : '本番'}）
+              </p>
+            ) : (
+              <p>
+                プロキシサーバーにAPIキーが設定されていません。環境変数 BINANCE_API_KEY / BINANCE_API_SECRET、
+                または node credentials.js で作成した暗号化ファイルを指定してserver.jsを起動してください
+              </p>
+            )}
+          </div>
+        ) : (
+        <>
         <div>
           <label className="block text-sm font-medium text-gray-700">APIキー</label>
           <input
@@ -536,23 +1136,88 @@ const GridTradingSystem = () => {
             placeholder="APIシークレットを入力してください"
           />
         </div>
-        <div className="flex items-center mb-2">
-          <input
-            id="testMode"
-            type="checkbox"
-            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-            checked={apiSettings.testMode}
-            onChange={(e) => setApiSettings({ ...apiSettings, testMode: e.target.checked })}
-          />
-          <label htmlFor="testMode" className="ml-2 block text-sm text-gray-700">
-            テストモード（実際の取引は行いません）
-          </label>
+        <div>
+          <label htmlFor="vaultPassphrase" className="block text-sm font-medium text-gray-700">保管庫のパスフレーズ</label>
+          <div className="mt-1 flex space-x-2">
+            <input
+              id="vaultPassphrase"
+              type="password"
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              value={vaultPassphrase}
+              onChange={(e) => setVaultPassphrase(e.target.value)}
+              disabled={vaultUnlocked}
+              placeholder={hasVault ? 'パスフレーズを入力してください' : '新しいパスフレーズを設定してください'}
+            />
+            {hasVault && (
+              <button
+                className="px-3 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 whitespace-nowrap"
+                onClick={vaultUnlocked ? () => vault.lock() : unlockVault}
+              >
+                {vaultUnlocked ? 'ロック' : 'ロック解除'}
+              </button>
+            )}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            {!hasVault
+              ? 'APIキーはこのパスフレーズで暗号化して保存されます'
+              : vaultUnlocked
+                ? `ロック解除中（${DEFAULT_AUTO_LOCK_MS / 60000}分間操作がないと自動でロックします）`
+                : 'ロック中です。パスフレーズを入力して解除してください'}
+          </p>
+          {hasVault && !vaultUnlocked && (
+            <button
+              className="mt-1 text-xs text-red-600 hover:underline"
+              onClick={() => {
+                if (window.confirm('保管庫を削除します。保存したAPIキーは再入力が必要になります。よろしいですか？')) {
+                  resetVault();
+                  setVaultPassphrase('');
+                }
+              }}
+            >
+              パスフレーズを忘れた場合は保管庫を削除
+            </button>
+          )}
+        </div>
+        {hasPlaintextKeys && (
+          <div className="flex items-center bg-yellow-50 p-3 rounded-md">
+            <AlertTriangle className="text-yellow-600 mr-2" size={20} />
+            <p className="text-sm text-yellow-700">
+              暗号化されていないAPIキーが保存されています（移行するまで使用しません）。
+              パスフレーズを入力して移行すると、暗号化して保管庫に移したうえで平文のデータを削除します
+            </p>
+            <button
+              className="ml-3 px-3 py-2 bg-yellow-600 text-white rounded-md hover:bg-yellow-700 whitespace-nowrap disabled:opacity-50"
+              disabled={!vaultPassphrase && !vaultUnlocked}
+              onClick={migratePlaintextKeys}
+            >
+              暗号化して移行
+            </button>
+          </div>
+        )}
+        </>
+        )}
+        <div>
+          <label htmlFor="tradingMode" className="block text-sm font-medium text-gray-700">取引モード</label>
+          <select
+            id="tradingMode"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={apiSettings.tradingMode}
+            onChange={(e) => setApiSettings({ ...apiSettings, tradingMode: e.target.value as TradingMode })}
+          >
+            <option value="paper">ペーパートレード（仮想残高で取引）</option>
+            <option value="testnet" disabled={!findExchange(apiSettings.exchange)?.hasTestnet}>
+              テストネット（実際の取引は行いません）
+            </option>
+            <option value="mainnet">本番（実際の資金で取引）</option>
+          </select>
         </div>
         
         <div className="flex items-center bg-green-50 p-3 rounded-md">
           <Database className="text-green-600 mr-2" size={20} />
           <p className="text-sm text-green-700">
-            <strong>データは端末に安全に保存されます</strong>（ブラウザのローカルストレージ）
+            {apiSettings.keyStorage === 'server'
+              ? <><strong>APIシークレットはサーバー側でのみ保持されます</strong>（署名はプロキシサーバーが行います）</>
+              : <><strong>APIキーはパスフレーズで暗号化して保存されます</strong>（一定時間操作がないと自動でロックします）</>}
           </p>
         </div>
         
@@ -562,7 +1227,7 @@ const GridTradingSystem = () => {
             • APIキーの権限は最小限に設定してください（取引・残高照会のみ）<br />
             • 出金権限は絶対に付与しないでください<br />
             • IP制限を設定することでセキュリティが向上します<br />
-            • テストモードでは実際の取引は行われません
+            • ペーパートレードとテストネットでは実際の取引は行われません
           </p>
         </div>
       </div>
@@ -576,19 +1241,27 @@ const GridTradingSystem = () => {
         <button
           className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
           onClick={async () => {
-            if (apiSettings.apiKey && apiSettings.apiSecret) {
+            if (apiSettings.tradingMode === 'paper' || hasCredentials(apiSettings)) {
               try {
-                const client = new BinanceApiClient({
-                  apiKey: apiSettings.apiKey,
-                  apiSecret: apiSettings.apiSecret,
-                  testMode: apiSettings.testMode
-                });
+                if (isRunning) {
+                  throw new Error('ボットの稼働中は接続先を変更できません。ボットを停止してから保存してください');
+                }
+                const client = apiSettings.tradingMode === 'paper'
+                  ? getPaperExchange(selectedPair)
+                  : createLiveClient(apiSettings);
+
+                // プロキシの接続先（テストネット・本番）は取引モードと一致している必要がある
+                if (apiSettings.tradingMode !== 'paper' && apiSettings.keyStorage === 'server'
+                  && proxyStatus && proxyStatus.testnet !== (apiSettings.tradingMode === 'testnet')) {
+                  throw new Error(`プロキシサーバーは${proxyStatus.testnet ? 'テストネット' : '本番'}に接続しています`);
+                }
                 
                 // 接続テスト
-                await client.getAccountBalance();
+                await client.getAccountBalance(pair.base, pair.quote);
                 
-                localStorage.setItem('gridBotApiSettings', JSON.stringify(apiSettings));
-                setBinanceClient(client);
+                await storeCredentials();
+                saveApiSettings(apiSettings);
+                setExchangeClient(client);
                 setShowApiSettings(false);
                 alert('APIキーの接続に成功しました！');
               } catch (error) {
@@ -603,10 +1276,11 @@ const GridTradingSystem = () => {
         </button>
         <button
           className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 flex items-center"
-          onClick={() => {
-            if (apiSettings.apiKey && apiSettings.apiSecret) {
+          onClick={async () => {
+            if (apiSettings.tradingMode === 'paper' || hasCredentials(apiSettings)) {
               try {
-                localStorage.setItem('gridBotApiSettings', JSON.stringify(apiSettings));
+                await storeCredentials();
+                saveApiSettings(apiSettings);
                 alert('API設定を永続的に保存しました');
                 setShowApiSettings(false);
               } catch (error) {
@@ -624,9 +1298,31 @@ const GridTradingSystem = () => {
     </div>
   );
 
+  // 承認された提案をグリッド設定に反映する
+  const applyAiProposal = () => {
+    if (!aiProposal) return;
+    updateGridSettings(aiProposal.settings);
+    const saved = { ...aiOptimization, optimizationInProgress: false, lastOptimized: aiProposal.createdAt };
+    setAiOptimization(saved);
+    localStorage.setItem('gridBotAiSettings', JSON.stringify(saved));
+    setAiProposal(null);
+    alert('提案された設定を適用しました。');
+    setShowAiSettings(false);
+  };
+
+  const scheduleEditable = aiOptimization.enabled && aiOptimization.schedule.enabled;
+  // 自動再最適化の設定は稼働中のボットにすぐ反映されるため、変更時に保存する
+  const updateSchedule = (changes: Partial<ReoptimizationSchedule>) => {
+    setAiOptimization(prevState => {
+      const updated = { ...prevState, schedule: { ...prevState.schedule, ...changes } };
+      localStorage.setItem('gridBotAiSettings', JSON.stringify({ ...updated, optimizationInProgress: false }));
+      return updated;
+    });
+  };
+
   // AI最適化設定フォーム
   const AiOptimizationForm = () => (
-    <div className="bg-white p-6 rounded-lg shadow-lg max-w-2xl w-full">
+    <div className="bg-white p-6 rounded-lg shadow-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
       <h3 className="text-lg font-semibold mb-4 flex items-center">
         <Brain className="mr-2 text-purple-600" size={24} />
         AI最適化設定
@@ -639,11 +1335,22 @@ const GridTradingSystem = () => {
             className="h-5 w-5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded cursor-pointer"
             checked={aiOptimization.enabled}
             onChange={(e) => setAiOptimization({ ...aiOptimization, enabled: e.target.checked })}
+            disabled={!optimizationAvailable}
           />
           <label htmlFor="aiEnabled" className="ml-2 block text-base font-medium text-gray-700 cursor-pointer">
             AI最適化を有効にする
           </label>
         </div>
+        {optimizationAvailable ? (
+          <p className="text-xs text-gray-500">
+            Binanceの{marketSymbol}の価格データでバックテストして提案を作成します
+          </p>
+        ) : (
+          <p className="text-sm text-yellow-700 bg-yellow-50 p-2 rounded">
+            AI最適化はBinanceの価格データのみに対応しています。
+            {findExchange(apiSettings.exchange)?.label}の市場に合わせた提案は作成できないため、Binanceを選択してください
+          </p>
+        )}
         
         <div onClick={(e) => e.stopPropagation()}>
           <label className="block text-sm font-medium text-gray-700">分析期間</label>
@@ -701,7 +1408,7 @@ const GridTradingSystem = () => {
               console.log('リスクレベルが変更されました:', e.target.value);
               setAiOptimization(prevState => ({
                 ...prevState,
-                riskLevel: e.target.value
+                riskLevel: e.target.value as RiskLevel
               }));
             }}
             disabled={!aiOptimization.enabled}
@@ -712,6 +1419,86 @@ const GridTradingSystem = () => {
           </select>
         </div>
         
+        <div className="border border-gray-200 rounded-md p-4 space-y-4">
+          <div className="flex items-center">
+            <input
+              id="reoptimizationEnabled"
+              type="checkbox"
+              className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded cursor-pointer"
+              checked={aiOptimization.schedule.enabled}
+              onChange={(e) => updateSchedule({ enabled: e.target.checked })}
+              disabled={!aiOptimization.enabled}
+            />
+            <label htmlFor="reoptimizationEnabled" className="ml-2 block text-sm font-medium text-gray-700 cursor-pointer">
+              稼働中のグリッドを自動で再最適化する
+            </label>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">実行間隔</label>
+            <select
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 cursor-pointer"
+              value={aiOptimization.schedule.intervalHours.toString()}
+              onChange={(e) => updateSchedule({ intervalHours: Number(e.target.value) })}
+              disabled={!scheduleEditable}
+            >
+              <option value="6">6時間ごと</option>
+              <option value="12">12時間ごと</option>
+              <option value="24">24時間ごと</option>
+              <option value="48">48時間ごと</option>
+              <option value="168">1週間ごと</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">レンジ外での待機時間</label>
+            <select
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 cursor-pointer"
+              value={aiOptimization.schedule.outOfRangeMinutes.toString()}
+              onChange={(e) => updateSchedule({ outOfRangeMinutes: Number(e.target.value) })}
+              disabled={!scheduleEditable}
+            >
+              <option value="15">15分</option>
+              <option value="30">30分</option>
+              <option value="60">1時間</option>
+              <option value="120">2時間</option>
+              <option value="240">4時間</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">1日の移行回数の上限</label>
+            <select
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 cursor-pointer"
+              value={aiOptimization.schedule.maxChangesPerDay.toString()}
+              onChange={(e) => updateSchedule({ maxChangesPerDay: Number(e.target.value) })}
+              disabled={!scheduleEditable}
+            >
+              <option value="1">1回</option>
+              <option value="2">2回</option>
+              <option value="3">3回</option>
+              <option value="5">5回</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">改善幅の基準</label>
+            <select
+              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-purple-500 focus:ring-purple-500 cursor-pointer"
+              value={aiOptimization.schedule.minImprovementPercent.toString()}
+              onChange={(e) => updateSchedule({ minImprovementPercent: Number(e.target.value) })}
+              disabled={!scheduleEditable}
+            >
+              <option value="0">0%（改善すれば移行）</option>
+              <option value="0.5">0.5%</option>
+              <option value="1">1%</option>
+              <option value="2">2%</option>
+              <option value="5">5%</option>
+            </select>
+          </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            直近の値動きで現在の設定と提案をバックテストし、損益の差が投資額に対して基準以上のときだけ、注文を取り消して新しいグリッドに移行します。
+          </p>
+        </div>
+
         <div className="bg-purple-50 p-3 rounded-md">
           <p className="text-sm text-purple-700">
             <strong>AI最適化について:</strong><br />
@@ -729,59 +1516,99 @@ const GridTradingSystem = () => {
             </p>
           </div>
         )}
+
+        {aiProposal && (
+          <div className="border border-purple-200 rounded-md p-4">
+            <h4 className="text-sm font-semibold text-purple-700 mb-2">最適化の提案</h4>
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500">
+                  <th className="py-1">項目</th>
+                  <th className="py-1">現在の設定</th>
+                  <th className="py-1">提案</th>
+                </tr>
+              </thead>
+              <tbody>
+                {([
+                  ['上限価格', gridSettings.upperLimit, aiProposal.settings.upperLimit],
+                  ['下限価格', gridSettings.lowerLimit, aiProposal.settings.lowerLimit],
+                  ['グリッド本数', gridSettings.gridNumber, aiProposal.settings.gridNumber],
+                  ['ストップロス', gridSettings.stopLoss, aiProposal.settings.stopLoss],
+                  ['利確レベル', gridSettings.takeProfitLevel, aiProposal.settings.takeProfitLevel]
+                ] as const).map(([label, current, proposed]) => (
+                  <tr key={label}>
+                    <td className="py-1 text-gray-700">{label}</td>
+                    <td className="py-1 text-gray-500">{formatNumber(current, label === 'グリッド本数' ? 0 : 2)}</td>
+                    <td className={`py-1 font-semibold ${current === proposed ? 'text-gray-900' : 'text-purple-700'}`}>
+                      {formatNumber(proposed, label === 'グリッド本数' ? 0 : 2)}
+                    </td>
+                  </tr>
+                ))}
+                <tr>
+                  <td className="py-1 text-gray-700">グリッドタイプ</td>
+                  <td className="py-1 text-gray-500">{gridSettings.gridType === 'geometric' ? '等比' : '等差'}</td>
+                  <td className="py-1 font-semibold text-gray-900">{aiProposal.settings.gridType === 'geometric' ? '等比' : '等差'}</td>
+                </tr>
+              </tbody>
+            </table>
+            <ul className="mt-3 list-disc list-inside space-y-1 text-xs text-gray-700">
+              {aiProposal.reasons.map(reason => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+            <div className="mt-4 flex justify-end space-x-2">
+              <button
+                className="px-3 py-1 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 text-sm"
+                onClick={() => setAiProposal(null)}
+              >
+                却下
+              </button>
+              <button
+                className="px-3 py-1 rounded-md bg-purple-600 text-white hover:bg-purple-700 text-sm"
+                onClick={applyAiProposal}
+              >
+                提案を適用
+              </button>
+            </div>
+          </div>
+        )}
       </div>
       <div className="mt-6 flex justify-end space-x-4">
         <button
           className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
-          onClick={() => setShowAiSettings(false)}
+          onClick={() => {
+            setAiProposal(null);
+            setShowAiSettings(false);
+          }}
         >
           キャンセル
         </button>
         <button
           className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 flex items-center"
-          onClick={() => {
-            if (aiOptimization.enabled) {
-              try {
-                setAiOptimization({ 
-                  ...aiOptimization, 
-                  optimizationInProgress: true 
-                });
-                
-                setTimeout(() => {
-                  const optimizedSettings = {
-                    ...gridSettings,
-                    upperLimit: 31500,
-                    lowerLimit: 24500,
-                    gridNumber: 14
-                  };
-                  
-                  updateGridSettings(optimizedSettings);
-                  
-                  setAiOptimization({
-                    ...aiOptimization,
-                    optimizationInProgress: false,
-                    lastOptimized: new Date().toISOString()
-                  });
-                  
-                  localStorage.setItem('gridBotAiSettings', JSON.stringify({
-                    ...aiOptimization,
-                    optimizationInProgress: false,
-                    lastOptimized: new Date().toISOString()
-                  }));
-                  
-                  alert('AI最適化が完了しました。新しい設定が適用されました。');
-                  setShowAiSettings(false);
-                }, 2000);
-              } catch (error) {
-                handleApiError(error, 'AI最適化');
-                setAiOptimization({ 
-                  ...aiOptimization, 
-                  optimizationInProgress: false 
-                });
-              }
-            } else {
+          onClick={async () => {
+            if (!aiOptimization.enabled || !optimizationAvailable) {
               localStorage.setItem('gridBotAiSettings', JSON.stringify(aiOptimization));
               setShowAiSettings(false);
+              return;
+            }
+
+            setAiOptimization(prev => ({ ...prev, optimizationInProgress: true }));
+            setAiProposal(null);
+            try {
+              const proposal = await runOptimization({
+                symbol: marketSymbol,
+                timeframe: aiOptimization.timeframe,
+                historyPeriod: aiOptimization.historyPeriod,
+                riskLevel: aiOptimization.riskLevel,
+                initialInvestment: gridSettings.initialInvestment,
+                minOrderValue,
+                filters: symbolFilters ?? undefined
+              });
+              setAiProposal(proposal);
+            } catch (error) {
+              handleApiError(error, 'AI最適化');
+            } finally {
+              setAiOptimization(prev => ({ ...prev, optimizationInProgress: false }));
             }
           }}
           disabled={aiOptimization.optimizationInProgress}
@@ -794,7 +1621,7 @@ const GridTradingSystem = () => {
           ) : (
             <>
               <Brain size={16} className="mr-1" />
-              {aiOptimization.enabled ? '最適化を実行' : '設定を保存'}
+              {aiOptimization.enabled && optimizationAvailable ? '最適化を実行' : '設定を保存'}
             </>
           )}
         </button>
@@ -805,22 +1632,17 @@ const GridTradingSystem = () => {
   // API設定フォーム内のクライアント作成部分を修正
   const handleApiSettingsSave = async () => {
     try {
-      const client = new BinanceApiClient({
-        apiKey: apiSettings.apiKey,
-        apiSecret: apiSettings.apiSecret,
-        testMode: apiSettings.testMode
-      });
+      const client = createLiveClient(apiSettings);
 
       const isValid = await client.validateCredentials();
       if (!isValid) {
         throw new Error('APIキーまたはシークレットが無効です');
       }
 
-      localStorage.setItem('binanceApiKey', apiSettings.apiKey);
-      localStorage.setItem('binanceApiSecret', apiSettings.apiSecret);
-      localStorage.setItem('binanceTestMode', String(apiSettings.testMode));
+      await storeCredentials();
+      saveApiSettings(apiSettings);
 
-      setBinanceClient(client);
+      setExchangeClient(client);
       alert('API設定が保存されました');
     } catch (error) {
       console.error('API設定エラー:', error);
@@ -843,22 +1665,25 @@ const GridTradingSystem = () => {
           </h1>
           <div className="flex items-center space-x-3">
             <select
-              className="bg-blue-700 text-white px-3 py-1 rounded-md"
+              className="bg-blue-700 text-white px-3 py-1 rounded-md disabled:opacity-75 disabled:cursor-not-allowed"
               value={selectedPair}
               onChange={(e) => changeTradingPair(e.target.value)}
+              disabled={isRunning}
+              title={isRunning ? 'ボットの稼働中は通貨ペアを変更できません' : undefined}
             >
-              <option value="BTC/USDT">BTC/USDT</option>
-              <option value="ETH/USDT">ETH/USDT</option>
-              <option value="XRP/JPY">XRP/JPY</option>
-              <option value="BTC/JPY">BTC/JPY</option>
+              {TRADING_PAIRS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
             </select>
             <button
               className={`px-4 py-1 rounded-md flex items-center ${
                 isRunning ? 'bg-red-500 hover:bg-red-600' : 'bg-green-500 hover:bg-green-600'
-              }`}
-              onClick={() => {
+              } disabled:opacity-50 disabled:cursor-not-allowed`}
+              disabled={!isRunning && !gridValidation.isValid}
+              title={!isRunning && !gridValidation.isValid ? formatValidationErrors(gridValidation) : undefined}
+              onClick={async () => {
                 try {
-                  toggleBotStatus();
+                  await toggleBotStatus();
                 } catch (error) {
                   handleApiError(error, 'ボットの起動/停止');
                 }
@@ -867,13 +1692,13 @@ const GridTradingSystem = () => {
               {isRunning ? <X size={16} className="mr-1" /> : <Check size={16} className="mr-1" />}
               {isRunning ? '停止' : '開始'}
             </button>
-            {isRunning && (
+            {exchangeClient && (
               <button
                 className="px-4 py-1 rounded-md flex items-center bg-red-700 hover:bg-red-800 text-white"
-                onClick={() => {
+                title="ボットを停止し、取引所に残っている注文をすべて取り消します"
+                onClick={async () => {
                   try {
-                    setIsRunning(false);
-                    alert('緊急停止しました。すべての注文がキャンセルされました。');
+                    await emergencyStop();
                   } catch (error) {
                     handleApiError(error, '緊急停止');
                   }
@@ -889,6 +1714,12 @@ const GridTradingSystem = () => {
             >
               <DollarSign size={20} />
             </button>
+            <button
+              className="p-2 bg-blue-700 rounded-full hover:bg-blue-800"
+              onClick={() => setShowBacktest(true)}
+            >
+              <BarChart2 size={20} />
+            </button>
             <button
               className="p-2 bg-blue-700 rounded-full hover:bg-blue-800"
               onClick={() => setShowAiSettings(true)}
@@ -945,6 +1776,16 @@ const GridTradingSystem = () => {
             <AiOptimizationForm />
           </div>
         )}
+        {showBacktest && (
+          <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center p-4 z-[1000]">
+            <BacktestPanel
+              settings={gridSettings}
+              symbol={marketSymbol}
+              pair={pair}
+              onClose={() => setShowBacktest(false)}
+            />
+          </div>
+        )}
 
         {/* 既存のコンテンツ */}
         <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
@@ -963,6 +1804,14 @@ const GridTradingSystem = () => {
                         {isRunning ? '稼働中' : '停止中'}
                       </div>
                     </dd>
+                    {!isRunning && stopRecord && stopRecord.reason !== 'MANUAL' && (
+                      <dd className="mt-1 text-sm text-red-600">
+                        {STOP_REASON_LABELS[stopRecord.reason]}で停止
+                        （{stopRecord.price?.toLocaleString()} {pair.quote}・{format(new Date(stopRecord.stoppedAt), 'MM/dd HH:mm:ss')}）
+                        {stopRecord.soldQuantity ? ` ${stopRecord.soldQuantity} ${pair.base}を成行で売却` : ''}
+                        {stopRecord.error && <span className="block">{stopRecord.error}</span>}
+                      </dd>
+                    )}
                   </dl>
                 </div>
               </div>
@@ -981,7 +1830,7 @@ const GridTradingSystem = () => {
                     <dt className="text-sm font-medium text-gray-500 truncate">残高</dt>
                     <dd className="flex items-baseline">
                       <div className="text-2xl font-semibold text-gray-900">
-                        {balance.base} BTC / {balance.quote} USDT
+                        {balance.base} {pair.base} / {balance.quote} {pair.quote}
                       </div>
                     </dd>
                   </dl>
@@ -999,12 +1848,32 @@ const GridTradingSystem = () => {
                 </div>
                 <div className="ml-5 w-0 flex-1">
                   <dl>
-                    <dt className="text-sm font-medium text-gray-500 truncate">総利益</dt>
+                    <dt className="text-sm font-medium text-gray-500 truncate">総損益（手数料控除後）</dt>
                     <dd className="flex items-baseline">
-                      <div className="text-2xl font-semibold text-gray-900">
-                        {totalProfit} USDT
+                      <div className={`text-2xl font-semibold ${pnl.totalProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatCurrency(pnl.totalProfit, pair.quote, quoteDecimals)}
+                      </div>
+                      <div className="ml-2 text-sm text-gray-500">
+                        {formatNumber(pnl.returnPercent)}%
                       </div>
                     </dd>
+                    <dd className="mt-2 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-600">
+                      <span>実現損益</span>
+                      <span className="text-right">{formatCurrency(pnl.realizedProfit, pair.quote, quoteDecimals)}</span>
+                      <span>含み損益</span>
+                      <span className="text-right">{formatCurrency(pnl.unrealizedProfit, pair.quote, quoteDecimals)}</span>
+                      <span>グリッド利益（{pnl.roundTrips}回）</span>
+                      <span className="text-right">{formatCurrency(pnl.gridProfit, pair.quote, quoteDecimals)}</span>
+                      <span>値動きによる損益</span>
+                      <span className="text-right">{formatCurrency(pnl.priceMovementProfit, pair.quote, quoteDecimals)}</span>
+                      <span>支払った手数料</span>
+                      <span className="text-right">{formatCurrency(pnl.totalFees, pair.quote, quoteDecimals)}</span>
+                    </dd>
+                    {unconvertedFees.length > 0 && (
+                      <dd className="mt-1 text-xs text-yellow-700">
+                        価格を取得できないため損益に含めていない手数料: {unconvertedFees.map(([asset, fee]) => `${fee} ${asset}`).join('、')}
+                      </dd>
+                    )}
                   </dl>
                 </div>
               </div>
@@ -1012,9 +1881,9 @@ const GridTradingSystem = () => {
           </div>
         </div>
 
-        {/* チャート */}
-        <div className="mt-8">
-          <div className="bg-white shadow rounded-lg p-6">
+        {/* チャートと板情報 */}
+        <div className="mt-8 grid grid-cols-1 gap-6 xl:grid-cols-4">
+          <div className="bg-white shadow rounded-lg p-6 xl:col-span-3">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-lg font-medium text-gray-900">{selectedPair}チャート</h2>
               <div className="flex items-center space-x-4">
@@ -1027,6 +1896,11 @@ const GridTradingSystem = () => {
                   />
                   <span className="ml-1 text-sm text-gray-700">自動更新</span>
                 </label>
+                {autoUpdate && STREAM_STATUS_LABELS[streamStatus] && (
+                  <span className={`text-xs ${streamStatus === 'connected' ? 'text-green-600' : 'text-yellow-600'}`}>
+                    {STREAM_STATUS_LABELS[streamStatus]}
+                  </span>
+                )}
                 {lastUpdated && (
                   <span className="text-xs text-gray-500">
                     最終更新: {lastUpdated.toLocaleTimeString()}
@@ -1057,10 +1931,27 @@ const GridTradingSystem = () => {
                 </div>
               </div>
             </div>
-            <div className="h-96">
+            <ChartIndicatorControls settings={indicatorSettings} onChange={updateIndicatorSettings} />
+            <div className="h-96 relative">
+              {hoveredLevel && (
+                <div className="absolute top-2 left-20 z-10 bg-white bg-opacity-90 border border-gray-200 rounded-md px-3 py-2 text-xs text-gray-700 shadow pointer-events-none">
+                  <p className="font-semibold">
+                    レベル{hoveredLevel.level + 1}（{formatNumber(hoveredLevel.price, quoteDecimals)} {pair.quote}）
+                  </p>
+                  <p>
+                    約定 {hoveredLevel.buyFills + hoveredLevel.sellFills}回（買い{hoveredLevel.buyFills}・売り{hoveredLevel.sellFills}）
+                  </p>
+                  <p className={hoveredLevel.profit >= 0 ? 'text-green-600' : 'text-red-600'}>
+                    利益 {formatNumber(hoveredLevel.profit, quoteDecimals)} {pair.quote}
+                  </p>
+                  <p>
+                    注文 {hoveredLevel.openSide === 'BUY' ? '買い' : hoveredLevel.openSide === 'SELL' ? '売り' : 'なし'}
+                  </p>
+                </div>
+              )}
               {priceHistory && priceHistory.length > 0 ? (
                 <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={priceHistory}>
+                  <ComposedChart data={chartData} syncId="priceChart">
                     <CartesianGrid strokeDasharray="3 3" />
                     <XAxis 
                       dataKey="time"
@@ -1077,26 +1968,59 @@ const GridTradingSystem = () => {
                       domain={['auto', 'auto']}
                       tick={{ fontSize: 12 }}
                     />
-                    <Tooltip 
-                      labelFormatter={(time) => {
-                        const date = new Date(time);
-                        return format(date, 'yyyy/MM/dd HH:mm:ss', { locale: ja });
-                      }}
-                      formatter={(value) => {
-                        // valueが数値かどうかを確認して適切に処理
-                        const numValue = typeof value === 'number' ? value : parseFloat(String(value));
-                        return [`${isNaN(numValue) ? value : numValue.toFixed(2)} USDT`, '価格'];
-                      }}
-                    />
+                    <Tooltip content={<CandleTooltip quote={pair.quote} decimals={quoteDecimals} />} />
                     <Legend />
-                    <Line 
-                      type="monotone" 
-                      dataKey="price" 
-                      stroke="#8884d8"
-                      strokeWidth={2}
-                      dot={false}
-                    />
-                  </LineChart>
+                    {levelStats.map(stats => (
+                      <ReferenceLine
+                        key={`level-${stats.level}`}
+                        y={stats.price}
+                        stroke={LEVEL_COLORS[stats.openSide ?? 'NONE']}
+                        strokeOpacity={stats.openSide ? 0.8 : 0.4}
+                        shape={renderLevelLine(stats)}
+                        label={stats.openSide
+                          ? { value: stats.openSide === 'BUY' ? '買' : '売', position: 'insideRight', fontSize: 10, fill: LEVEL_COLORS[stats.openSide] }
+                          : undefined}
+                      />
+                    ))}
+                    {gridSettings.stopLoss > 0 && (
+                      <ReferenceLine y={gridSettings.stopLoss} stroke="#ef4444" strokeDasharray="4 4" label={{ value: 'ストップロス', position: 'insideBottomLeft', fontSize: 11 }} />
+                    )}
+                    {gridSettings.takeProfitLevel > 0 && (
+                      <ReferenceLine y={gridSettings.takeProfitLevel} stroke="#10b981" strokeDasharray="4 4" label={{ value: '利確', position: 'insideTopLeft', fontSize: 11 }} />
+                    )}
+                    <Bar dataKey="range" name="ローソク足" shape={<CandleShape />} fill={CANDLE_LEGEND_COLOR} isAnimationActive={false} />
+                    {indicatorSettings.sma.enabled && (
+                      <Line type="monotone" dataKey="sma" name={`SMA(${indicatorSettings.sma.period})`} stroke="#f59e0b" dot={false} isAnimationActive={false} />
+                    )}
+                    {indicatorSettings.ema.enabled && (
+                      <Line type="monotone" dataKey="ema" name={`EMA(${indicatorSettings.ema.period})`} stroke="#8b5cf6" dot={false} isAnimationActive={false} />
+                    )}
+                    {indicatorSettings.bollinger.enabled && [
+                      <Line key="bbUpper" type="monotone" dataKey="bbUpper" name="BB上限" stroke="#3b82f6" strokeDasharray="4 2" dot={false} isAnimationActive={false} />,
+                      <Line key="bbMiddle" type="monotone" dataKey="bbMiddle" name={`BB(${indicatorSettings.bollinger.period}, ${indicatorSettings.bollinger.multiplier})`} stroke="#3b82f6" dot={false} isAnimationActive={false} />,
+                      <Line key="bbLower" type="monotone" dataKey="bbLower" name="BB下限" stroke="#3b82f6" strokeDasharray="4 2" dot={false} isAnimationActive={false} />
+                    ]}
+                    {chartFills.map(fill => (
+                      <ReferenceDot
+                        key={`fill-${fill.id}`}
+                        x={fill.time}
+                        y={fill.price}
+                        r={4}
+                        fill={LEVEL_COLORS[fill.side]}
+                        stroke="#fff"
+                      />
+                    ))}
+                    {stopPoint && stopRecord?.price !== undefined && (
+                      <ReferenceDot
+                        x={stopPoint.time}
+                        y={stopRecord.price}
+                        r={6}
+                        fill={stopRecord.reason === 'STOP_LOSS' ? '#ef4444' : '#10b981'}
+                        stroke="#fff"
+                        label={{ value: STOP_REASON_LABELS[stopRecord.reason], position: 'top', fontSize: 11 }}
+                      />
+                    )}
+                  </ComposedChart>
                 </ResponsiveContainer>
               ) : (
                 <div className="h-full flex items-center justify-center bg-gray-50 rounded-md">
@@ -1104,9 +2028,112 @@ const GridTradingSystem = () => {
                 </div>
               )}
             </div>
+            {chartData.length > 0 && (
+              <>
+                <ChartSubPane data={chartData} syncId="priceChart" label="出来高">
+                  <Bar dataKey="volume" isAnimationActive={false}>
+                    {chartData.map(point => (
+                      <Cell key={point.time} fill={candleColor(point)} fillOpacity={0.6} />
+                    ))}
+                  </Bar>
+                </ChartSubPane>
+                {indicatorSettings.rsi.enabled && (
+                  <ChartSubPane data={chartData} syncId="priceChart" label={`RSI(${indicatorSettings.rsi.period})`} domain={[0, 100]}>
+                    <ReferenceLine y={70} stroke="#dc2626" strokeDasharray="3 3" />
+                    <ReferenceLine y={30} stroke="#16a34a" strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="rsi" stroke="#0ea5e9" dot={false} isAnimationActive={false} />
+                  </ChartSubPane>
+                )}
+                {indicatorSettings.atr.enabled && (
+                  <ChartSubPane data={chartData} syncId="priceChart" label={`ATR(${indicatorSettings.atr.period})`} domain={['auto', 'auto']}>
+                    <Line type="monotone" dataKey="atr" stroke="#f97316" dot={false} isAnimationActive={false} />
+                  </ChartSubPane>
+                )}
+              </>
+            )}
           </div>
+          <DepthPanel
+            book={depth.book}
+            status={depth.status}
+            lastResync={depth.lastResync}
+            gridLines={calculatedGridLines}
+            quote={pair.quote}
+            decimals={quoteDecimals}
+          />
         </div>
 
+        {/* 再開時の照合結果 */}
+        {reconcileResult && (
+          <div className="mt-8">
+            <div className="bg-white shadow rounded-lg p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-medium text-gray-900">前回のボットを再開しました</h2>
+                <button
+                  className="text-gray-400 hover:text-gray-600"
+                  onClick={() => setReconcileResult(null)}
+                >
+                  <X size={16} />
+                </button>
+              </div>
+              <p className="text-sm text-gray-600">
+                継続中の注文 {reconcileResult.active.length + reconcileResult.adopted.length}件・
+                閉じている間に約定 {reconcileResult.filled.length}件・
+                ボット以外で取消済み {reconcileResult.closed.length}件
+              </p>
+              {reconcileResult.closed.length > 0 && (
+                <p className="mt-1 text-sm text-yellow-700">
+                  取り消されたグリッドのレベル（{reconcileResult.closed.map(order => `${order.type} ${order.price}`).join('、')}）には注文がありません
+                </p>
+              )}
+              {reviewOrders.length > 0 && (
+                <div className="mt-4">
+                  <h3 className="text-sm font-medium text-red-700 mb-2">
+                    <AlertTriangle size={14} className="inline mr-1" />
+                    グリッドに対応しない注文があります。内容を確認してください
+                  </h3>
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">ID</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">タイプ</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">価格（{pair.quote}）</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">数量（{pair.base}）</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500">理由</th>
+                        <th className="px-4 py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {reviewOrders.map(item => (
+                        <tr key={item.order.orderId}>
+                          <td className="px-4 py-2 text-sm text-gray-900">{item.order.orderId}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{item.order.side}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{item.order.price}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{item.order.quantity}</td>
+                          <td className="px-4 py-2 text-sm text-gray-900">{REVIEW_REASON_LABELS[item.reason]}</td>
+                          <td className="px-4 py-2 text-sm text-right space-x-2">
+                            <button
+                              className="px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700"
+                              onClick={() => cancelReviewOrder(item)}
+                            >
+                              取消
+                            </button>
+                            <button
+                              className="px-2 py-1 rounded bg-gray-200 text-gray-700 hover:bg-gray-300"
+                              onClick={() => setReviewOrders(prev => prev.filter(other => other !== item))}
+                            >
+                              そのままにする
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* アクティブオーダー */}
         <div className="mt-8">
           <div className="bg-white shadow rounded-lg p-6">
@@ -1117,13 +2144,13 @@ const GridTradingSystem = () => {
                   <tr>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ID</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">タイプ</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">価格</th>
-                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">数量</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">価格（{pair.quote}）</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">数量（{pair.base}）</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ステータス</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {activeOrders.map((order: any) => (
+                  {activeOrders.map((order) => (
                     <tr key={order.id}>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.id}</td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{order.type}</td>
@@ -1137,6 +2164,44 @@ const GridTradingSystem = () => {
             </div>
           </div>
         </div>
+
+        {/* 取引履歴 */}
+        <div className="mt-8">
+          <TradeHistoryPanel
+            trades={pairTrades}
+            pair={pair}
+            assetPrices={feeAssetPrices}
+            onClear={clearHistory}
+          />
+        </div>
+
+        {/* データの書き出し */}
+        <div className="mt-8">
+          <ExportPanel
+            trades={trades}
+            activeOrders={activeOrders}
+            botSymbol={botSymbol}
+            exchange={tradingExchange}
+            defaultPair={selectedPair}
+            assetPrices={feeAssetPrices}
+          />
+        </div>
+
+        {/* 年間損益計算書 */}
+        <div className="mt-8">
+          <TaxReportPanel trades={trades} />
+        </div>
+
+        {/* 自動再最適化の履歴 */}
+        <div className="mt-8">
+          <ReoptimizationHistoryPanel
+            history={reoptimizer.history}
+            schedule={reoptimizationSchedule}
+            inProgress={reoptimizer.inProgress}
+            outOfRangeSince={reoptimizer.outOfRangeSince}
+            onClear={reoptimizer.clearHistory}
+          />
+        </div>
       </main>
     </div>
   );
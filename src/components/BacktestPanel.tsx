@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { GridSettings } from '../hooks/useGridSettings';
+import { runBacktest, BacktestResult } from '../services/backtester';
+import { loadCachedCandles, parseCandles, saveCachedCandles } from '../services/marketData';
+import { formatDate, formatNumber } from '../utils/formatters';
+import { TIMEFRAME_OPTIONS } from '../utils/timeframes';
+import { TradingPair } from '../utils/tradingPair';
+
+interface BacktestPanelProps {
+  settings: GridSettings;
+  symbol: string;
+  pair: TradingPair;
+  onClose: () => void;
+}
+
+const EXIT_REASON_LABELS: Record<BacktestResult['exitReason'], string> = {
+  STOP_LOSS: 'ストップロス',
+  TAKE_PROFIT: '利確',
+  END_OF_DATA: 'データ終了'
+};
+
+// 表示する取引履歴の最大件数
+const MAX_TRADE_ROWS = 50;
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ settings, symbol, pair, onClose }) => {
+  const [selectedInterval, setSelectedInterval] = useState(TIMEFRAME_OPTIONS[1].value);
+  const [candleCount, setCandleCount] = useState(() => loadCachedCandles(symbol, TIMEFRAME_OPTIONS[1].value).length);
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 時間枠の変更
+  const handleIntervalChange = (value: string) => {
+    setSelectedInterval(value);
+    setCandleCount(loadCachedCandles(symbol, value).length);
+    setResult(null);
+  };
+
+  // ローソク足ファイルの読み込み（JSON/CSV）
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const candles = parseCandles(await file.text());
+      saveCachedCandles(symbol, selectedInterval, candles);
+      setCandleCount(loadCachedCandles(symbol, selectedInterval).length);
+      setErrorMessage(null);
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'ファイルの読み込みに失敗しました');
+    }
+  };
+
+  // バックテストの実行
+  const handleRun = async () => {
+    setIsRunning(true);
+    setErrorMessage(null);
+    try {
+      const candles = loadCachedCandles(symbol, selectedInterval);
+      setResult(await runBacktest({ candles, settings, symbol }));
+    } catch (error) {
+      setErrorMessage(error instanceof Error ? error.message : 'バックテストに失敗しました');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-lg max-w-3xl w-full max-h-full overflow-y-auto">
+      <h3 className="text-lg font-semibold mb-4">バックテスト</h3>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">時間枠</label>
+          <select
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={selectedInterval}
+            onChange={(e) => handleIntervalChange(e.target.value)}
+          >
+            {TIMEFRAME_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">ローソク足ファイル（JSON/CSV）</label>
+          <input
+            type="file"
+            accept=".json,.csv"
+            className="mt-1 block w-full text-sm"
+            onChange={handleFileChange}
+          />
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        キャッシュ済みのローソク足: {candleCount}本（{symbol}）
+      </p>
+
+      {errorMessage && (
+        <div className="mt-4 bg-red-50 p-3 rounded-md">
+          <p className="text-sm text-red-700">{errorMessage}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4">
+          <dl className="grid grid-cols-3 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">取引回数</dt>
+              <dd className="font-semibold">{result.trades.length}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">実現利益</dt>
+              <dd className="font-semibold">{formatNumber(result.realizedProfit)} {pair.quote}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">手数料合計</dt>
+              <dd className="font-semibold">{formatNumber(result.totalFees)} {pair.quote}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">最大ドローダウン</dt>
+              <dd className="font-semibold">
+                {formatNumber(result.maxDrawdown)} {pair.quote}（{formatNumber(result.maxDrawdownPercent)}%）
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">最終評価額</dt>
+              <dd className="font-semibold">
+                {formatNumber(result.finalEquity)} {pair.quote}（{formatNumber(result.netProfit)}）
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">終了理由</dt>
+              <dd className="font-semibold">
+                {EXIT_REASON_LABELS[result.exitReason]}
+                {result.exitTime && <span className="block text-xs text-gray-500">{formatDate(result.exitTime)}</span>}
+              </dd>
+            </div>
+          </dl>
+          <p className="mt-2 text-xs text-gray-500">
+            最終残高: {formatNumber(result.finalBalance.base, 6)} {pair.base} / {formatNumber(result.finalBalance.quote)} {pair.quote}
+          </p>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">日時</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">タイプ</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">価格（{pair.quote}）</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">数量（{pair.base}）</th>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">利益（{pair.quote}）</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {result.trades.slice(-MAX_TRADE_ROWS).map((trade, index) => (
+                  <tr key={index}>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatDate(trade.time)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{trade.side}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatNumber(trade.price)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatNumber(trade.quantity, 6)}</td>
+                    <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                      {trade.profit !== undefined ? formatNumber(trade.profit) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="mt-6 flex justify-end space-x-4">
+        <button
+          className="px-4 py-2 bg-gray-300 text-gray-700 rounded-md hover:bg-gray-400"
+          onClick={onClose}
+        >
+          閉じる
+        </button>
+        <button
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          onClick={handleRun}
+          disabled={isRunning || candleCount === 0}
+        >
+          {isRunning ? '実行中...' : 'バックテストを実行'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BacktestPanel;
@@ -0,0 +1,110 @@
+import React from 'react';
+import { ComposedChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { IndicatorPoint } from '../utils/chartIndicators';
+import { formatDate, formatNumber } from '../utils/formatters';
+
+// ローソク足チャートの部品（rechartsにはローソク足がないため、高値〜安値の範囲の棒を描き替える）
+
+export interface CandlePoint extends IndicatorPoint {
+  time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export const CANDLE_COLORS = { up: '#16a34a', down: '#dc2626' };
+
+export const candleColor = ({ open, close }: Pick<CandlePoint, 'open' | 'close'>): string =>
+  close >= open ? CANDLE_COLORS.up : CANDLE_COLORS.down;
+
+interface CandleShapeProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: CandlePoint;
+}
+
+// Barの[安値, 高値]の範囲にヒゲを、始値〜終値に実体を描く
+export const CandleShape: React.FC<CandleShapeProps> = ({ x = 0, y = 0, width = 0, height = 0, payload }) => {
+  if (!payload) return null;
+  const { open, high, low, close } = payload;
+  const top = Math.min(y, y + height);
+  const bottom = Math.max(y, y + height);
+  const toY = (price: number) => high === low ? top : top + ((high - price) / (high - low)) * (bottom - top);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyBottom = toY(Math.min(open, close));
+  const center = x + width / 2;
+  const color = candleColor(payload);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={top} y2={bottom} stroke={color} />
+      <rect x={x} y={bodyTop} width={Math.max(width, 1)} height={Math.max(bodyBottom - bodyTop, 1)} fill={color} />
+    </g>
+  );
+};
+
+interface CandleTooltipProps {
+  active?: boolean;
+  payload?: { payload: CandlePoint }[];
+  quote: string;
+  decimals: number;
+}
+
+const INDICATOR_ROWS: { key: keyof IndicatorPoint; label: string }[] = [
+  { key: 'sma', label: 'SMA' },
+  { key: 'ema', label: 'EMA' },
+  { key: 'bbUpper', label: 'BB上限' },
+  { key: 'bbMiddle', label: 'BB中心' },
+  { key: 'bbLower', label: 'BB下限' },
+  { key: 'rsi', label: 'RSI' },
+  { key: 'atr', label: 'ATR' }
+];
+
+// 足の四本値・出来高と、表示中の指標の値
+export const CandleTooltip: React.FC<CandleTooltipProps> = ({ active, payload, quote, decimals }) => {
+  const point = active ? payload?.[0]?.payload : undefined;
+  if (!point) return null;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-md px-3 py-2 text-xs text-gray-700 shadow">
+      <p className="font-semibold mb-1">{formatDate(point.time)}</p>
+      <p>始値 {formatNumber(point.open, decimals)} / 高値 {formatNumber(point.high, decimals)}</p>
+      <p>安値 {formatNumber(point.low, decimals)} / 終値 <span style={{ color: candleColor(point) }}>{formatNumber(point.close, decimals)}</span> {quote}</p>
+      <p>出来高 {formatNumber(point.volume, 4)}</p>
+      {INDICATOR_ROWS.filter(({ key }) => point[key] !== undefined).map(({ key, label }) => (
+        <p key={key}>{label} {formatNumber(point[key] as number, key === 'rsi' ? 1 : decimals)}</p>
+      ))}
+    </div>
+  );
+};
+
+interface ChartSubPaneProps {
+  data: CandlePoint[];
+  // メインチャートとカーソル位置を連動させる
+  syncId: string;
+  label: string;
+  height?: number;
+  domain?: [number | string, number | string];
+  children: React.ReactNode;
+}
+
+// 出来高やオシレーターを表示する、価格チャートの下の小さなチャート
+export const ChartSubPane: React.FC<ChartSubPaneProps> = ({ data, syncId, label, height = 96, domain = [0, 'auto'], children }) => (
+  <div className="mt-2">
+    <p className="text-xs text-gray-500">{label}</p>
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={data} syncId={syncId}>
+          <XAxis dataKey="time" hide />
+          <YAxis domain={domain} tick={{ fontSize: 10 }} width={60} />
+          <Tooltip content={() => null} />
+          {children}
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
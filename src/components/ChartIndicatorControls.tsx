@@ -0,0 +1,63 @@
+import React from 'react';
+import { INDICATOR_LABELS, IndicatorKey, IndicatorSettings } from '../utils/chartIndicators';
+
+interface ChartIndicatorControlsProps {
+  settings: IndicatorSettings;
+  onChange: (settings: IndicatorSettings) => void;
+}
+
+// 価格チャートに重ねる指標の表示切り替えと期間の設定
+const ChartIndicatorControls: React.FC<ChartIndicatorControlsProps> = ({ settings, onChange }) => {
+  const update = <K extends IndicatorKey>(key: K, changes: Partial<IndicatorSettings[K]>) => {
+    onChange({ ...settings, [key]: { ...settings[key], ...changes } });
+  };
+
+  // 2未満や小数の期間は反映しない
+  const updatePeriod = (key: IndicatorKey, value: string) => {
+    const period = Number(value);
+    if (Number.isInteger(period) && period >= 2) update(key, { period });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 mb-3 text-sm">
+      {(Object.keys(INDICATOR_LABELS) as IndicatorKey[]).map(key => (
+        <div key={key} className="flex items-center">
+          <input
+            id={`indicator-${key}`}
+            type="checkbox"
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            checked={settings[key].enabled}
+            onChange={(e) => update(key, { enabled: e.target.checked })}
+          />
+          <label htmlFor={`indicator-${key}`} className="ml-1 text-gray-700">{INDICATOR_LABELS[key]}</label>
+          <input
+            type="number"
+            min={2}
+            className="ml-1 w-14 rounded-md border-gray-300 shadow-sm text-xs py-0.5 focus:border-blue-500 focus:ring-blue-500"
+            value={settings[key].period}
+            onChange={(e) => updatePeriod(key, e.target.value)}
+            disabled={!settings[key].enabled}
+            title="期間"
+          />
+          {key === 'bollinger' && (
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              className="ml-1 w-14 rounded-md border-gray-300 shadow-sm text-xs py-0.5 focus:border-blue-500 focus:ring-blue-500"
+              value={settings.bollinger.multiplier}
+              onChange={(e) => {
+                const multiplier = Number(e.target.value);
+                if (multiplier > 0) update('bollinger', { multiplier });
+              }}
+              disabled={!settings.bollinger.enabled}
+              title="標準偏差の倍率"
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ChartIndicatorControls;
@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { DepthStatus } from '../services/depthStream';
+import { DepthBucket, OrderBookView, aggregateLevels, calculateSpread, gridLevelDistances } from '../services/orderBook';
+import { DepthResync } from '../hooks/useDepthStream';
+import { formatDate, formatNumber } from '../utils/formatters';
+
+interface DepthPanelProps {
+  book: OrderBookView | null;
+  status: DepthStatus;
+  lastResync: DepthResync | null;
+  gridLines: number[];
+  quote: string;
+  decimals: number;
+}
+
+const STATUS_LABELS: Record<DepthStatus, string> = {
+  idle: '停止中',
+  connecting: '接続中...',
+  syncing: '板を取得中...',
+  synced: 'リアルタイム',
+  reconnecting: '再接続中...',
+  closed: '停止中'
+};
+
+// 表示する価格帯の数（片側）
+const BUCKET_COUNT = 10;
+// 価格帯の刻みの候補（仲値に対する倍率）
+const STEP_MULTIPLIERS = [1, 5, 10, 50];
+
+// 仲値の0.01%程度の切りのよい刻み
+const baseStep = (mid: number): number => 10 ** Math.round(Math.log10(mid / 10000));
+
+// 現在価格付近の流動性（まとめた板とスプレッド）と、各グリッドラインの最良気配からの距離
+const DepthPanel: React.FC<DepthPanelProps> = ({ book, status, lastResync, gridLines, quote, decimals }) => {
+  const [multiplier, setMultiplier] = useState(STEP_MULTIPLIERS[1]);
+  const spread = book ? calculateSpread(book) : null;
+  const step = spread ? baseStep(spread.mid) * multiplier : 0;
+
+  const { bids, asks, maxCumulative } = useMemo(() => {
+    if (!book || step <= 0) return { bids: [], asks: [], maxCumulative: 0 };
+    const bids = aggregateLevels(book.bids, step, 'BUY').slice(0, BUCKET_COUNT);
+    const asks = aggregateLevels(book.asks, step, 'SELL').slice(0, BUCKET_COUNT);
+    const maxCumulative = Math.max(bids[bids.length - 1]?.cumulative ?? 0, asks[asks.length - 1]?.cumulative ?? 0);
+    return { bids, asks, maxCumulative };
+  }, [book, step]);
+  const distances = spread ? gridLevelDistances(gridLines, spread) : [];
+
+  const depthRow = (side: 'BUY' | 'SELL') => (bucket: DepthBucket) => (
+    <tr key={`${side}-${bucket.price}`}>
+      <td className={`px-2 py-0.5 ${side === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>{formatNumber(bucket.price, decimals)}</td>
+      <td className="px-2 py-0.5 text-right">{formatNumber(bucket.quantity, 4)}</td>
+      <td className="px-2 py-0.5 text-right">
+        <div className="relative">
+          <div
+            className={`absolute inset-y-0 right-0 ${side === 'BUY' ? 'bg-green-100' : 'bg-red-100'}`}
+            style={{ width: `${maxCumulative > 0 ? (bucket.cumulative / maxCumulative) * 100 : 0}%` }}
+          />
+          <span className="relative">{formatNumber(bucket.cumulative, 4)}</span>
+        </div>
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6 h-full">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-medium text-gray-900">板情報</h2>
+        <span className={`text-xs ${status === 'synced' ? 'text-green-600' : 'text-yellow-600'}`}>{STATUS_LABELS[status]}</span>
+      </div>
+
+      {spread ? (
+        <div className="grid grid-cols-2 gap-2 text-sm mb-3">
+          <div>
+            <p className="text-xs text-gray-500">スプレッド</p>
+            <p className="font-semibold">{formatNumber(spread.absolute, decimals)} {quote}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-500">スプレッド（bps）</p>
+            <p className="font-semibold">{formatNumber(spread.bps, 2)}</p>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 mb-3">板を読み込み中...</p>
+      )}
+
+      <div className="flex items-center justify-between mb-1">
+        <span className="text-xs text-gray-500">価格帯の刻み</span>
+        <select
+          className="rounded-md border-gray-300 shadow-sm text-xs py-0.5 focus:border-blue-500 focus:ring-blue-500"
+          value={multiplier}
+          onChange={(e) => setMultiplier(Number(e.target.value))}
+          disabled={!spread}
+        >
+          {STEP_MULTIPLIERS.map(option => (
+            <option key={option} value={option}>
+              {spread ? formatNumber(baseStep(spread.mid) * option, decimals) : option} {quote}
+            </option>
+          ))}
+        </select>
+      </div>
+      <table className="min-w-full text-xs text-gray-700">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="px-2 py-1 text-left font-medium">価格</th>
+            <th className="px-2 py-1 text-right font-medium">数量</th>
+            <th className="px-2 py-1 text-right font-medium">累計</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...asks].reverse().map(depthRow('SELL'))}
+          {spread && (
+            <tr>
+              <td colSpan={3} className="px-2 py-1 text-center text-gray-500 border-y border-gray-200">
+                仲値 {formatNumber(spread.mid, decimals)}
+              </td>
+            </tr>
+          )}
+          {bids.map(depthRow('BUY'))}
+        </tbody>
+      </table>
+
+      {distances.length > 0 && (
+        <div className="mt-4">
+          <p className="text-xs text-gray-500 mb-1">グリッドラインと最良気配の距離</p>
+          <div className="max-h-48 overflow-y-auto">
+            <table className="min-w-full text-xs text-gray-700">
+              <tbody>
+                {[...distances].reverse().map(distance => (
+                  <tr key={distance.level}>
+                    <td className="px-2 py-0.5">{formatNumber(distance.price, decimals)}</td>
+                    <td className={`px-2 py-0.5 ${distance.side === 'BUY' ? 'text-green-600' : distance.side === 'SELL' ? 'text-red-600' : 'text-gray-500'}`}>
+                      {distance.side === 'BUY' ? '買い気配から' : distance.side === 'SELL' ? '売り気配から' : 'スプレッド内'}
+                    </td>
+                    <td className="px-2 py-0.5 text-right">{formatNumber(distance.distance, decimals)}</td>
+                    <td className="px-2 py-0.5 text-right">{formatNumber(distance.distanceBps, 1)} bps</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {lastResync && (
+        <p className="mt-3 text-xs text-gray-400">
+          板を再取得しました（{formatDate(lastResync.at)}）: {lastResync.reason}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default DepthPanel;
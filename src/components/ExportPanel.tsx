@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { GridOrder } from '../services/gridEngine';
+import { ExportDataset, ExportFormat, ExportRange, buildExport, downloadFile } from '../utils/exportData';
+import { AssetPrices } from '../utils/pnl';
+import { TradeRecord } from '../utils/tradeHistory';
+import { TRADING_PAIRS, parsePair, toExchangeSymbol } from '../utils/tradingPair';
+
+interface ExportPanelProps {
+  // 保存しているすべての通貨ペアの約定
+  trades: TradeRecord[];
+  // 稼働中のボットの未約定の注文とそのシンボル
+  activeOrders: GridOrder[];
+  botSymbol: string | null;
+  exchange: string;
+  defaultPair: string;
+  assetPrices?: AssetPrices;
+}
+
+const DATASET_OPTIONS: { value: ExportDataset; label: string }[] = [
+  { value: 'trades', label: '取引履歴' },
+  { value: 'orders', label: '注文履歴' },
+  { value: 'daily-pnl', label: '日次損益' }
+];
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ trades, activeOrders, botSymbol, exchange, defaultPair, assetPrices }) => {
+  const [dataset, setDataset] = useState<ExportDataset>('trades');
+  const [selectedPair, setSelectedPair] = useState(defaultPair);
+  const [range, setRange] = useState<ExportRange>({ from: '', to: '' });
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportAs = (format: ExportFormat) => {
+    try {
+      const symbol = toExchangeSymbol(selectedPair, exchange);
+      downloadFile(buildExport({
+        dataset,
+        format,
+        symbol,
+        pair: parsePair(selectedPair),
+        range,
+        trades,
+        activeOrders: symbol === botSymbol ? activeOrders : [],
+        assetPrices
+      }));
+      setExportError(null);
+    } catch (error) {
+      console.error('Error in exportAs:', error);
+      setExportError(error instanceof Error ? error.message : '書き出しに失敗しました');
+    }
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">データの書き出し</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">データ</label>
+          <select
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={dataset}
+            onChange={(e) => setDataset(e.target.value as ExportDataset)}
+          >
+            {DATASET_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">通貨ペア</label>
+          <select
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={selectedPair}
+            onChange={(e) => setSelectedPair(e.target.value)}
+          >
+            {TRADING_PAIRS.map(pair => (
+              <option key={pair} value={pair}>{pair}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">開始日（UTC）</label>
+          <input
+            type="date"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={range.from}
+            max={range.to || undefined}
+            onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value }))}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">終了日（UTC）</label>
+          <input
+            type="date"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={range.to}
+            min={range.from || undefined}
+            onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value }))}
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex items-center gap-2">
+        <button
+          className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700"
+          onClick={() => exportAs('csv')}
+        >
+          CSVで書き出す
+        </button>
+        <button
+          className="px-4 py-2 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300"
+          onClick={() => exportAs('json')}
+        >
+          JSONで書き出す
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        このブラウザに保存されている約定から作成します。日時はISO形式（UTC）、数値は丸めずに出力します。
+      </p>
+      {exportError && <p className="mt-2 text-sm text-red-600">{exportError}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
@@ -1,18 +1,23 @@
 import React, { useState } from 'react';
-import { GridSettings } from '../hooks/useGridSettings';
+import { GridSettings, GridType } from '../hooks/useGridSettings';
+import { calculateGridSpacingPercent } from '../utils/grid';
+import { validateGridSettings, GridValidationResult } from '../utils/gridValidation';
+import ValidationMessage from './ValidationMessage';
 
 interface GridSettingsFormProps {
   settings: GridSettings;
   onUpdate: (settings: Partial<GridSettings>) => void;
   onSave: () => boolean;
   onCancel: () => void;
+  validation?: GridValidationResult;
 }
 
 const GridSettingsForm: React.FC<GridSettingsFormProps> = ({ 
   settings, 
   onUpdate, 
   onSave, 
-  onCancel 
+  onCancel,
+  validation = validateGridSettings(settings)
 }) => {
   // 入力フィールドのフォーカス状態
   const [focusedField, setFocusedField] = useState<string | null>(null);
@@ -31,9 +36,13 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
     }
   };
 
+  // 1グリッドあたりの値幅（%）
+  const spacing = calculateGridSpacingPercent(settings);
+
   // フォーム送信処理
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!validation.isValid) return;
     if (onSave()) {
       // 保存成功
     }
@@ -56,6 +65,7 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
             onFocus={() => setFocusedField('upperLimit')}
             onBlur={() => setFocusedField(null)}
           />
+          <ValidationMessage validation={validation} field="upperLimit" />
         </div>
         
         <div>
@@ -70,6 +80,7 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
             onFocus={() => setFocusedField('lowerLimit')}
             onBlur={() => setFocusedField(null)}
           />
+          <ValidationMessage validation={validation} field="lowerLimit" />
         </div>
         
         <div>
@@ -84,8 +95,26 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
             onFocus={() => setFocusedField('gridNumber')}
             onBlur={() => setFocusedField(null)}
           />
+          <ValidationMessage validation={validation} field="gridNumber" />
         </div>
         
+        <div>
+          <label className="block text-sm font-medium text-gray-700">グリッドタイプ</label>
+          <select
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={settings.gridType}
+            onChange={(e) => onUpdate({ gridType: e.target.value as GridType })}
+          >
+            <option value="arithmetic">等差（価格幅が一定）</option>
+            <option value="geometric">等比（値幅%が一定）</option>
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            1グリッドあたり: {settings.gridType === 'geometric'
+              ? `${spacing.min.toFixed(2)}%`
+              : `${spacing.min.toFixed(2)}% 〜 ${spacing.max.toFixed(2)}%`}
+          </p>
+        </div>
+
         <div>
           <label className="block text-sm font-medium text-gray-700">初期投資額</label>
           <input
@@ -98,6 +127,7 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
             onFocus={() => setFocusedField('initialInvestment')}
             onBlur={() => setFocusedField(null)}
           />
+          <ValidationMessage validation={validation} field="initialInvestment" />
         </div>
         
         <div>
@@ -112,6 +142,7 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
             onFocus={() => setFocusedField('stopLoss')}
             onBlur={() => setFocusedField(null)}
           />
+          <ValidationMessage validation={validation} field="stopLoss" />
         </div>
         
         <div>
@@ -126,6 +157,7 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
             onFocus={() => setFocusedField('takeProfitLevel')}
             onBlur={() => setFocusedField(null)}
           />
+          <ValidationMessage validation={validation} field="takeProfitLevel" />
         </div>
       </div>
       
@@ -139,7 +171,8 @@ const GridSettingsForm: React.FC<GridSettingsFormProps> = ({
         </button>
         <button
           type="submit"
-          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={!validation.isValid}
         >
           保存
         </button>
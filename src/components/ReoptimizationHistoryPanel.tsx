@@ -0,0 +1,118 @@
+import React from 'react';
+import { ProposedSettings } from '../services/gridOptimizer';
+import {
+  REOPTIMIZATION_TRIGGER_LABELS,
+  ReoptimizationRecord,
+  ReoptimizationSchedule,
+  ReoptimizationStatus,
+  countRecentChanges
+} from '../services/reoptimizer';
+import { formatDate, formatNumber } from '../utils/formatters';
+
+interface ReoptimizationHistoryPanelProps {
+  history: ReoptimizationRecord[];
+  schedule: ReoptimizationSchedule;
+  inProgress: boolean;
+  // 価格がグリッドの範囲外に出た時刻
+  outOfRangeSince: string | null;
+  onClear?: () => void;
+}
+
+const STATUS_STYLES: Record<ReoptimizationStatus, { label: string; className: string }> = {
+  APPLIED: { label: '移行', className: 'bg-green-100 text-green-800' },
+  SKIPPED: { label: '見送り', className: 'bg-gray-100 text-gray-700' },
+  FAILED: { label: '失敗', className: 'bg-red-100 text-red-800' }
+};
+
+const formatRange = (settings: ProposedSettings): string =>
+  `${formatNumber(settings.lowerLimit)} 〜 ${formatNumber(settings.upperLimit)}（${settings.gridNumber}本）`;
+
+const ReoptimizationHistoryPanel: React.FC<ReoptimizationHistoryPanelProps> = ({
+  history,
+  schedule,
+  inProgress,
+  outOfRangeSince,
+  onClear
+}) => {
+  const recentChanges = countRecentChanges(history, new Date());
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-medium text-gray-900">自動再最適化の履歴</h2>
+        {onClear && history.length > 0 && (
+          <button
+            className="text-sm text-gray-500 hover:text-gray-700"
+            onClick={() => {
+              if (window.confirm('再最適化の履歴をすべて削除しますか？')) onClear();
+            }}
+          >
+            履歴を削除
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-600">
+        {schedule.enabled
+          ? `${schedule.intervalHours}時間ごと、またはレンジ外に${schedule.outOfRangeMinutes}分留まったときに実行（直近24時間の移行 ${recentChanges}/${schedule.maxChangesPerDay}回、改善幅の基準 ${schedule.minImprovementPercent}%）`
+          : '自動再最適化は無効です（AI最適化の設定で有効にできます）'}
+      </p>
+      {inProgress && <p className="mt-1 text-sm text-purple-700">再最適化を実行中...</p>}
+      {outOfRangeSince && (
+        <p className="mt-1 text-sm text-yellow-700">価格がグリッドの範囲外です（{formatDate(outOfRangeSince)}から）</p>
+      )}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">日時</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">契機</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">結果</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">レンジ</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">改善幅</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">詳細</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {[...history].reverse().map(record => (
+              <tr key={`${record.at}-${record.trigger}`}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatDate(record.at)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{REOPTIMIZATION_TRIGGER_LABELS[record.trigger]}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm">
+                  <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_STYLES[record.status].className}`}>
+                    {STATUS_STYLES[record.status].label}
+                  </span>
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {formatRange(record.previous)}
+                  {record.proposed && (
+                    <span className="block text-xs text-gray-500">→ {formatRange(record.proposed)}</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {record.improvementPercent !== undefined ? `${formatNumber(record.improvementPercent)}%` : '-'}
+                </td>
+                <td className="px-4 py-2 text-sm text-gray-700">
+                  {record.message}
+                  {record.migration && (
+                    <span className="block text-xs text-gray-500">
+                      取消 {record.migration.canceledOrders}件 / 新規 {record.migration.placedOrders}件
+                      {record.migration.rebalance &&
+                        ` / 調整 ${record.migration.rebalance.type === 'BUY' ? '買い' : '売り'} ${formatNumber(record.migration.rebalance.amount, 6)}`}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {history.length === 0 && (
+          <p className="py-4 text-center text-sm text-gray-500">再最適化の履歴はありません</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReoptimizationHistoryPanel;
@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { downloadFile } from '../utils/exportData';
+import { formatCurrency, formatNumber } from '../utils/formatters';
+import {
+  COST_METHOD_LABELS,
+  CostMethod,
+  JpyRateTable,
+  generateTaxReport,
+  loadJpyRates,
+  parseOpeningBalances,
+  parseRateTable,
+  saveJpyRates,
+  taxDetailCsv,
+  taxSummaryCsv,
+  toJstDate
+} from '../utils/taxReport';
+import { TradeRecord } from '../utils/tradeHistory';
+
+interface TaxReportPanelProps {
+  // 保存しているすべての通貨ペアの約定
+  trades: TradeRecord[];
+}
+
+// 円換算レートを登録できる資産（USDT建ての約定とBNBで支払った手数料の換算に使う）
+const RATE_ASSETS = ['USDT', 'BNB'];
+
+const TaxReportPanel: React.FC<TaxReportPanelProps> = ({ trades }) => {
+  const years = useMemo(() => {
+    const found = trades
+      .filter(trade => trade.executedAt)
+      .map(trade => Number(toJstDate(trade.executedAt ?? '').slice(0, 4)));
+    return Array.from(new Set([...found, new Date().getFullYear()])).sort((a, b) => b - a);
+  }, [trades]);
+
+  const [year, setYear] = useState(() => years[0]);
+  const [method, setMethod] = useState<CostMethod>('moving-average');
+  const [rates, setRates] = useState<JpyRateTable>(loadJpyRates);
+  const [rateAsset, setRateAsset] = useState(RATE_ASSETS[0]);
+  const [rateText, setRateText] = useState('');
+  const [openingText, setOpeningText] = useState('');
+
+  const report = useMemo(() => generateTaxReport({
+    trades,
+    year,
+    method,
+    rates,
+    openingBalances: parseOpeningBalances(openingText)
+  }), [trades, year, method, rates, openingText]);
+  const complete = report.missingRates.length === 0;
+
+  // 貼り付けたレートを登録済みのレートに追加して保存する
+  const importRates = () => {
+    const imported = parseRateTable(rateText);
+    const count = Object.keys(imported).length;
+    if (count === 0) {
+      alert('「日付,レート」の形式で入力してください（例: 2024-01-01,141.5）');
+      return;
+    }
+    const next = { ...rates, [rateAsset]: { ...rates[rateAsset], ...imported } };
+    saveJpyRates(next);
+    setRates(next);
+    setRateText('');
+    alert(`${rateAsset}の円換算レートを${count}日分登録しました`);
+  };
+
+  const download = (kind: 'summary' | 'detail') => {
+    const content = kind === 'summary' ? taxSummaryCsv(report) : taxDetailCsv(report);
+    downloadFile({
+      filename: `crypto_tax_${year}_${method}_${kind}.csv`,
+      mimeType: 'text/csv;charset=utf-8',
+      content
+    });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 mb-4">年間損益計算書（雑所得）</h2>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">年分</label>
+          <select
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={year}
+            onChange={(e) => setYear(Number(e.target.value))}
+          >
+            {years.map(option => (
+              <option key={option} value={option}>{option}年</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">計算方法</label>
+          <select
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as CostMethod)}
+          >
+            {(Object.keys(COST_METHOD_LABELS) as CostMethod[]).map(option => (
+              <option key={option} value={option}>{COST_METHOD_LABELS[option]}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">円換算レート（日付,レート）</label>
+          <div className="mt-1 flex gap-2">
+            <select
+              className="rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+              value={rateAsset}
+              onChange={(e) => setRateAsset(e.target.value)}
+            >
+              {RATE_ASSETS.map(asset => (
+                <option key={asset} value={asset}>
+                  {asset}（{Object.keys(rates[asset] ?? {}).length}日分）
+                </option>
+              ))}
+            </select>
+            <button
+              className="px-3 py-1 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+              disabled={!rateText.trim()}
+              onClick={importRates}
+            >
+              登録
+            </button>
+          </div>
+          <textarea
+            className="mt-2 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 font-mono text-xs"
+            rows={4}
+            placeholder={'2024-01-01,141.5\n2024-01-02,142.1'}
+            value={rateText}
+            onChange={(e) => setRateText(e.target.value)}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">ボット開始前の保有分（資産,数量,取得価額）</label>
+          <textarea
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 font-mono text-xs"
+            rows={5}
+            placeholder="BTC,0.05,300000"
+            value={openingText}
+            onChange={(e) => setOpeningText(e.target.value)}
+          />
+          <p className="mt-1 text-xs text-gray-500">最初の約定があった年の年始残高として計算します</p>
+        </div>
+      </div>
+
+      {!complete && (
+        <div className="mt-4 p-3 rounded-md bg-red-50 text-sm text-red-700">
+          円換算レートがない日があるため計算できません（{report.missingRates.length}件）:
+          <span className="block text-xs">{report.missingRates.slice(0, 10).join('、')}{report.missingRates.length > 10 ? ' …' : ''}</span>
+        </div>
+      )}
+      {Object.keys(report.unconvertedFees).length > 0 && (
+        <p className="mt-2 text-sm text-yellow-700">
+          レートがなく必要経費に含めていない手数料があります:{' '}
+          {Object.entries(report.unconvertedFees).map(([asset, fee]) => `${formatNumber(fee, 6)} ${asset}`).join('、')}
+        </p>
+      )}
+      {report.shortfalls.length > 0 && (
+        <p className="mt-2 text-sm text-yellow-700">
+          保有数量を超える売却が{report.shortfalls.length}件あります。ボット開始前の保有分を入力してください。
+        </p>
+      )}
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">暗号資産</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">売却価額</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">売却原価</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">手数料等</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">所得金額</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">年末残高</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {report.assets.map(summary => (
+              <tr key={summary.asset}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{summary.asset}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatCurrency(summary.sold.amount, 'JPY', 0)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatCurrency(summary.costOfSales, 'JPY', 0)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatCurrency(summary.fees, 'JPY', 0)}</td>
+                <td className={`px-4 py-2 whitespace-nowrap text-sm ${summary.income >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                  {formatCurrency(summary.income, 'JPY', 0)}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {formatNumber(summary.closing.quantity, 8)}
+                  <span className="block text-xs text-gray-500">{formatCurrency(summary.closing.cost, 'JPY', 0)}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {report.assets.length === 0 && (
+          <p className="py-4 text-center text-sm text-gray-500">{year}年の約定はありません</p>
+        )}
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-semibold mr-auto">所得金額の合計: {formatCurrency(report.totalIncome, 'JPY', 0)}</span>
+        <button
+          className="px-4 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+          disabled={!complete}
+          onClick={() => download('summary')}
+        >
+          計算書（集計）CSV
+        </button>
+        <button
+          className="px-4 py-2 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+          disabled={!complete}
+          onClick={() => download('detail')}
+        >
+          取引明細CSV
+        </button>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        約定日は日本時間で判定します。購入時の手数料は取得価額に含め、売却時の手数料は必要経費として計上します。申告前に取引所の年間取引報告書と照合してください。
+      </p>
+    </div>
+  );
+};
+
+export default TaxReportPanel;
@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import { formatDate, formatNumber } from '../utils/formatters';
+import { AssetPrices, feeInQuote } from '../utils/pnl';
+import { TradingPair } from '../utils/tradingPair';
+import {
+  DEFAULT_TRADE_HISTORY_FILTER,
+  SideFilter,
+  TradeHistoryFilter,
+  TradeRecord,
+  buildTradeHistory,
+  filterTradeHistory,
+  paginate
+} from '../utils/tradeHistory';
+
+interface TradeHistoryPanelProps {
+  trades: TradeRecord[];
+  pair: TradingPair;
+  // BNBなどで支払った手数料の換算に使う価格
+  assetPrices?: AssetPrices;
+  onClear?: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const SIDE_OPTIONS: { value: SideFilter; label: string }[] = [
+  { value: 'ALL', label: 'すべて' },
+  { value: 'BUY', label: '買い' },
+  { value: 'SELL', label: '売り' }
+];
+
+const TradeHistoryPanel: React.FC<TradeHistoryPanelProps> = ({ trades, pair, assetPrices, onClear }) => {
+  const [filter, setFilter] = useState<TradeHistoryFilter>(DEFAULT_TRADE_HISTORY_FILTER);
+  const [page, setPage] = useState(1);
+
+  const history = useMemo(
+    () => buildTradeHistory(trades, trade => feeInQuote(trade, pair, assetPrices) ?? 0),
+    [trades, pair, assetPrices]
+  );
+  const filtered = useMemo(() => filterTradeHistory(history, filter), [history, filter]);
+  const current = paginate(filtered, page, PAGE_SIZE);
+
+  // 絞り込み結果の往復の合計
+  const roundTrips = filtered.filter(entry => entry.roundTrip);
+  const totalNetProfit = roundTrips.reduce((sum, entry) => sum + (entry.roundTrip?.netProfit ?? 0), 0);
+  const totalFees = filtered.reduce((sum, entry) => sum + (feeInQuote(entry, pair, assetPrices) ?? 0), 0);
+
+  // 絞り込みを変えたら最初のページに戻す
+  const updateFilter = (changes: Partial<TradeHistoryFilter>) => {
+    setFilter(prev => ({ ...prev, ...changes }));
+    setPage(1);
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-medium text-gray-900">取引履歴</h2>
+        {onClear && trades.length > 0 && (
+          <button
+            className="text-sm text-gray-500 hover:text-gray-700"
+            onClick={() => {
+              if (window.confirm('取引履歴をすべて削除しますか？')) onClear();
+            }}
+          >
+            履歴を削除
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700">開始日</label>
+          <input
+            type="date"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={filter.from}
+            max={filter.to || undefined}
+            onChange={(e) => updateFilter({ from: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">終了日</label>
+          <input
+            type="date"
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={filter.to}
+            min={filter.from || undefined}
+            onChange={(e) => updateFilter({ to: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700">売買</label>
+          <select
+            className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500"
+            value={filter.side}
+            onChange={(e) => updateFilter({ side: e.target.value as SideFilter })}
+          >
+            {SIDE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <dl className="mt-4 grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <dt className="text-gray-500">約定件数</dt>
+          <dd className="font-semibold">{filtered.length}件（往復 {roundTrips.length}回）</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">往復の利益（手数料控除後）</dt>
+          <dd className={`font-semibold ${totalNetProfit >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {formatNumber(totalNetProfit)} {pair.quote}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">手数料合計（{pair.quote}換算）</dt>
+          <dd className="font-semibold">{formatNumber(totalFees)} {pair.quote}</dd>
+        </div>
+      </dl>
+
+      <div className="mt-4 overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">日時</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">タイプ</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">価格（{pair.quote}）</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">数量（{pair.base}）</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">手数料</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">ステータス</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">往復の利益（{pair.quote}）</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {current.items.map(entry => (
+              <tr key={entry.clientOrderId ?? `${entry.symbol}:${entry.id}`}>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {entry.executedAt ? formatDate(entry.executedAt) : '-'}
+                </td>
+                <td className={`px-4 py-2 whitespace-nowrap text-sm ${entry.type === 'BUY' ? 'text-green-600' : 'text-red-600'}`}>
+                  {entry.type === 'BUY' ? '買い' : '売り'}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatNumber(entry.price)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{formatNumber(entry.amount, 6)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {entry.fee !== undefined ? formatNumber(entry.fee, 4) : '-'}
+                  {entry.feeAsset && entry.feeAsset !== pair.quote && (
+                    <span className="ml-1 text-xs text-gray-500">{entry.feeAsset}</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {entry.status}
+                  {entry.reconciled && <span className="block text-xs text-gray-500">再開時に検出</span>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                  {entry.roundTrip ? (
+                    <>
+                      <span className={entry.roundTrip.netProfit >= 0 ? 'text-green-600' : 'text-red-600'}>
+                        {formatNumber(entry.roundTrip.netProfit)}
+                      </span>
+                      <span className="block text-xs text-gray-500">
+                        買い {formatNumber(entry.roundTrip.buyPrice)} → 売り {formatNumber(entry.price)}
+                      </span>
+                    </>
+                  ) : entry.profit !== undefined ? (
+                    // 開始時に保有していた分の売りは対応する買いがないため、グリッド幅から計算した利益を表示する
+                    formatNumber(entry.profit)
+                  ) : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length === 0 && (
+          <p className="py-4 text-center text-sm text-gray-500">該当する約定はありません</p>
+        )}
+      </div>
+
+      {current.totalPages > 1 && (
+        <div className="mt-4 flex justify-between items-center text-sm">
+          <button
+            className="px-3 py-1 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+            disabled={current.page <= 1}
+            onClick={() => setPage(current.page - 1)}
+          >
+            前へ
+          </button>
+          <span className="text-gray-600">{current.page} / {current.totalPages} ページ</span>
+          <button
+            className="px-3 py-1 rounded-md bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+            disabled={current.page >= current.totalPages}
+            onClick={() => setPage(current.page + 1)}
+          >
+            次へ
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TradeHistoryPanel;
@@ -0,0 +1,23 @@
+import React from 'react';
+import { GridField, GridValidationResult } from '../utils/gridValidation';
+
+interface ValidationMessageProps {
+  validation: GridValidationResult;
+  field: GridField;
+}
+
+// 入力欄の下にエラー（赤）または警告（黄）を表示
+const ValidationMessage: React.FC<ValidationMessageProps> = ({ validation, field }) => {
+  const error = validation.errors[field];
+  const warning = validation.warnings[field];
+
+  if (error) {
+    return <p className="mt-1 text-xs text-red-600">{error}</p>;
+  }
+  if (warning) {
+    return <p className="mt-1 text-xs text-yellow-600">{warning}</p>;
+  }
+  return null;
+};
+
+export default ValidationMessage;
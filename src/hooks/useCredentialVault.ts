@@ -0,0 +1,59 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { CredentialVault, DEFAULT_AUTO_LOCK_MS } from '../services/credentialVault';
+
+// 画面操作があれば自動ロックまでの時間を延長する
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'touchstart', 'wheel'];
+
+interface UseCredentialVaultOptions {
+  autoLockMs?: number;
+  onLock?: () => void;
+}
+
+export const useCredentialVault = ({ autoLockMs = DEFAULT_AUTO_LOCK_MS, onLock }: UseCredentialVaultOptions = {}) => {
+  const [unlocked, setUnlocked] = useState(false);
+  const [hasVault, setHasVault] = useState(false);
+
+  // コールバックは最新のものを参照する
+  const onLockRef = useRef(onLock);
+  onLockRef.current = onLock;
+
+  const vaultRef = useRef<CredentialVault | null>(null);
+  if (!vaultRef.current) {
+    vaultRef.current = new CredentialVault({
+      autoLockMs,
+      onLockChange: isUnlocked => {
+        setUnlocked(isUnlocked);
+        setHasVault(vaultRef.current?.exists() ?? false);
+        if (!isUnlocked) onLockRef.current?.();
+      }
+    });
+  }
+  const vault = vaultRef.current;
+
+  useEffect(() => {
+    setHasVault(vault.exists());
+  }, [vault]);
+
+  // パスフレーズを忘れた場合に保管庫ごと削除する
+  const resetVault = useCallback(() => {
+    vault.reset();
+    setHasVault(false);
+  }, [vault]);
+
+  useEffect(() => {
+    if (!unlocked) return;
+
+    const touch = () => vault.touch();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, touch, { passive: true }));
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, touch));
+    };
+  }, [vault, unlocked]);
+
+  // 画面を閉じるときはメモリ上の鍵を破棄する
+  useEffect(() => {
+    return () => vault.lock();
+  }, [vault]);
+
+  return { vault, unlocked, hasVault: unlocked || hasVault, resetVault };
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect, useRef } from 'react';
+import { DepthStatus, DepthStream } from '../services/depthStream';
+import { fetchDepth } from '../services/marketData';
+import { OrderBookView } from '../services/orderBook';
+
+interface UseDepthStreamOptions {
+  symbol: string;
+  enabled: boolean;
+}
+
+export interface DepthResync {
+  at: string;
+  reason: string;
+}
+
+export const useDepthStream = ({ symbol, enabled }: UseDepthStreamOptions) => {
+  const [status, setStatus] = useState<DepthStatus>('idle');
+  const [book, setBook] = useState<OrderBookView | null>(null);
+  const [lastResync, setLastResync] = useState<DepthResync | null>(null);
+  const streamRef = useRef<DepthStream | null>(null);
+
+  // 有効な間だけ接続を維持
+  useEffect(() => {
+    if (!enabled) return;
+
+    const stream = new DepthStream({
+      fetchSnapshot: fetchDepth,
+      onBook: setBook,
+      onStatusChange: setStatus,
+      onResync: reason => setLastResync({ at: new Date().toISOString(), reason })
+    });
+    streamRef.current = stream;
+    stream.connect();
+
+    return () => {
+      stream.disconnect();
+      streamRef.current = null;
+    };
+  }, [enabled]);
+
+  // 通貨ペアの変更時は前の通貨ペアの板を消して購読を切り替える
+  useEffect(() => {
+    setBook(null);
+    streamRef.current?.subscribe(symbol);
+  }, [symbol, enabled]);
+
+  return { status, book, lastResync };
+};
@@ -0,0 +1,146 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GridEngine, GridEngineState, GridExchangeClient, MigrationOptions } from '../services/gridEngine';
+import { RiskLimits } from '../services/riskWatcher';
+import { GridSession, clearGridSession, saveGridSession } from '../services/reconciliation';
+
+interface StartOptions {
+  client: GridExchangeClient;
+  symbol: string;
+  gridLines: number[];
+  initialInvestment: number;
+  feeRate?: number;
+  // 保存したボットを再開する口座（取引モードと取引所）
+  account: string;
+  riskLimits?: RiskLimits;
+  sellOnRiskStop?: boolean;
+}
+
+interface ResumeOptions {
+  client: GridExchangeClient;
+  session: GridSession;
+}
+
+// 約定確認のポーリング間隔
+const SYNC_INTERVAL = 5000;
+
+export const useGridBot = () => {
+  const engineRef = useRef<GridEngine | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [state, setState] = useState<GridEngineState>({
+    symbol: '',
+    startPrice: null,
+    activeOrders: [],
+    completedOrders: [],
+    totalProfit: 0,
+    stopRecord: null
+  });
+
+  const createEngine = useCallback((options: StartOptions) => {
+    const engine: GridEngine = new GridEngine({
+      ...options,
+      onUpdate: nextState => {
+        setState(nextState);
+        // 稼働中は再読み込み後に再開できるよう保存し、停止したら破棄する
+        const session = engine.getSession();
+        if (session) {
+          saveGridSession(session);
+        } else {
+          clearGridSession();
+        }
+      },
+      // ストップロス・利確でエンジンが自ら停止した場合も反映する
+      onStop: () => setIsRunning(false)
+    });
+    engineRef.current = engine;
+    return engine;
+  }, []);
+
+  // ボットの開始
+  const start = useCallback(async (options: StartOptions) => {
+    const engine = createEngine(options);
+    await engine.start();
+    setIsRunning(true);
+  }, [createEngine]);
+
+  // 保存したボットを取引所の注文と照合して再開する
+  const resume = useCallback(async ({ client, session }: ResumeOptions) => {
+    const engine = createEngine({
+      client,
+      symbol: session.symbol,
+      gridLines: session.gridLines,
+      initialInvestment: session.initialInvestment,
+      feeRate: session.feeRate,
+      account: session.account,
+      riskLimits: session.riskLimits,
+      sellOnRiskStop: session.sellOnRiskStop
+    });
+    try {
+      return await engine.resume(session);
+    } finally {
+      setIsRunning(engine.isRunning());
+    }
+  }, [createEngine]);
+
+  // ボットの停止
+  const stop = useCallback(async () => {
+    const engine = engineRef.current;
+    setIsRunning(false);
+    if (engine) {
+      await engine.stop();
+    }
+  }, []);
+
+  // 稼働中のグリッドを新しいグリッドラインに移行する
+  const migrate = useCallback(async (options: MigrationOptions) => {
+    const engine = engineRef.current;
+    if (!engine) {
+      throw new Error('ボットが稼働していません');
+    }
+    try {
+      return await engine.migrate(options);
+    } finally {
+      setIsRunning(engine.isRunning());
+    }
+  }, []);
+
+  // 最新価格をストップロス・利確の監視に渡す
+  const updatePrice = useCallback(async (price: number) => {
+    return engineRef.current?.updatePrice(price) ?? null;
+  }, []);
+
+  // 稼働中は定期的に約定を確認し、ボットの通貨ペアの価格でストップロス・利確を判定する
+  // （エンジンが操作を順に実行するため、画面の価格による判定や停止と重なっても発注とキャンセルは行き違わない）
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const intervalId = setInterval(() => {
+      const engine = engineRef.current;
+      if (!engine) return;
+      engine.syncFills()
+        .catch(error => {
+          console.error('約定確認エラー:', error);
+        })
+        .then(() => engine.checkPrice())
+        .catch(error => {
+          console.error('ストップロス・利確の監視エラー:', error);
+        });
+    }, SYNC_INTERVAL);
+
+    return () => clearInterval(intervalId);
+  }, [isRunning]);
+
+  return {
+    isRunning,
+    symbol: state.symbol,
+    startPrice: state.startPrice,
+    activeOrders: state.activeOrders,
+    completedOrders: state.completedOrders,
+    totalProfit: state.totalProfit,
+    stopRecord: state.stopRecord,
+    start,
+    resume,
+    stop,
+    migrate,
+    updatePrice
+  };
+};
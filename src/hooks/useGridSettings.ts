@@ -1,23 +1,40 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import {
+  calculateGridInterval as computeGridInterval,
+  calculateGridLines as computeGridLines,
+  calculateGridSpacingPercent as computeGridSpacingPercent
+} from '../utils/grid';
+import { validateGridSettings, GridValidationOptions } from '../utils/gridValidation';
+
+// arithmetic: 等差（価格幅が一定） / geometric: 等比（値幅の割合が一定）
+export type GridType = 'arithmetic' | 'geometric';
 
 export interface GridSettings {
   upperLimit: number;
   lowerLimit: number;
   gridNumber: number;
+  gridType: GridType;
   initialInvestment: number;
   stopLoss: number;
   takeProfitLevel: number;
+  // ストップロス・利確で停止するときに保有分を成行で売却する
+  sellOnRiskStop?: boolean;
 }
 
-export const useGridSettings = (initialSettings?: Partial<GridSettings>) => {
+export const useGridSettings = (
+  initialSettings?: Partial<GridSettings>,
+  validationOptions?: GridValidationOptions
+) => {
   // デフォルト設定
   const defaultSettings: GridSettings = {
     upperLimit: 30000,
     lowerLimit: 25000,
     gridNumber: 10,
+    gridType: 'arithmetic',
     initialInvestment: 1000,
     stopLoss: 24000,
     takeProfitLevel: 31000,
+    sellOnRiskStop: false,
   };
 
   // ローカルストレージからの復元を試みる
@@ -37,6 +54,14 @@ export const useGridSettings = (initialSettings?: Partial<GridSettings>) => {
   const [settings, setSettings] = useState<GridSettings>(loadSettings);
   const [isDirty, setIsDirty] = useState(false);
 
+  // 項目間の整合性チェック
+  const minOrderValue = validationOptions?.minOrderValue;
+  const currentPrice = validationOptions?.currentPrice;
+  const validation = useMemo(
+    () => validateGridSettings(settings, { minOrderValue, currentPrice }),
+    [settings, minOrderValue, currentPrice]
+  );
+
   // 設定の更新
   const updateSettings = (newSettings: Partial<GridSettings>) => {
     setSettings(prev => {
@@ -46,8 +71,13 @@ export const useGridSettings = (initialSettings?: Partial<GridSettings>) => {
     });
   };
 
-  // 設定の保存
+  // 設定の保存（エラーがある間は保存しない）
   const saveSettings = () => {
+    if (!validation.isValid) {
+      console.warn('設定にエラーがあるため保存しません:', validation.errors);
+      return false;
+    }
+
     try {
       localStorage.setItem('gridBotSettings', JSON.stringify(settings));
       setIsDirty(false);
@@ -60,28 +90,28 @@ export const useGridSettings = (initialSettings?: Partial<GridSettings>) => {
 
   // グリッド間隔を計算
   const calculateGridInterval = (): number => {
-    return (settings.upperLimit - settings.lowerLimit) / settings.gridNumber;
+    return computeGridInterval(settings);
   };
 
   // グリッドラインを計算
   const calculateGridLines = (): number[] => {
-    const { upperLimit, lowerLimit, gridNumber } = settings;
-    const interval = (upperLimit - lowerLimit) / gridNumber;
-    
-    return Array.from({ length: gridNumber + 1 }, (_, i) => 
-      lowerLimit + (interval * i)
-    );
+    return computeGridLines(settings);
+  };
+
+  // 1グリッドあたりの値幅（%）を計算
+  const calculateGridSpacingPercent = () => {
+    return computeGridSpacingPercent(settings);
   };
 
   // 変更を自動保存
   useEffect(() => {
-    if (isDirty) {
+    if (isDirty && validation.isValid) {
       const timer = setTimeout(() => {
         saveSettings();
       }, 1000);
       return () => clearTimeout(timer);
     }
-  }, [settings, isDirty]);
+  }, [settings, isDirty, validation.isValid]);
 
   return {
     settings,
@@ -89,6 +119,8 @@ export const useGridSettings = (initialSettings?: Partial<GridSettings>) => {
     saveSettings,
     calculateGridInterval,
     calculateGridLines,
+    calculateGridSpacingPercent,
+    validation,
     isDirty
   };
 }; 
\ No newline at end of file
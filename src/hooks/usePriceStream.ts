@@ -0,0 +1,53 @@
+import { useState, useEffect, useRef } from 'react';
+import { PriceStream, StreamKline, StreamStatus, StreamTrade } from '../services/priceStream';
+
+interface UsePriceStreamOptions {
+  symbol: string;
+  interval: string;
+  enabled: boolean;
+  onTrade: (trade: StreamTrade) => void;
+  onKline: (kline: StreamKline) => void;
+  onReconnect?: () => void;
+}
+
+export const usePriceStream = ({
+  symbol,
+  interval,
+  enabled,
+  onTrade,
+  onKline,
+  onReconnect
+}: UsePriceStreamOptions) => {
+  const [status, setStatus] = useState<StreamStatus>('idle');
+  const streamRef = useRef<PriceStream | null>(null);
+
+  // コールバックは最新のものを参照する
+  const handlersRef = useRef({ onTrade, onKline, onReconnect });
+  handlersRef.current = { onTrade, onKline, onReconnect };
+
+  // 有効な間だけ接続を維持
+  useEffect(() => {
+    if (!enabled) return;
+
+    const stream = new PriceStream({
+      onTrade: trade => handlersRef.current.onTrade(trade),
+      onKline: kline => handlersRef.current.onKline(kline),
+      onReconnect: () => handlersRef.current.onReconnect?.(),
+      onStatusChange: setStatus
+    });
+    streamRef.current = stream;
+    stream.connect();
+
+    return () => {
+      stream.disconnect();
+      streamRef.current = null;
+    };
+  }, [enabled]);
+
+  // 通貨ペア・時間枠の変更時は購読のみ切り替える
+  useEffect(() => {
+    streamRef.current?.subscribe(symbol, interval);
+  }, [symbol, interval, enabled]);
+
+  return { status };
+};
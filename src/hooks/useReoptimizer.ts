@@ -0,0 +1,131 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GridSettings } from './useGridSettings';
+import { MigrationOptions, MigrationResult } from '../services/gridEngine';
+import { RiskLevel } from '../services/gridOptimizer';
+import {
+  ReoptimizationRecord,
+  ReoptimizationSchedule,
+  ReoptimizationScheduler,
+  loadReoptimizationHistory,
+  runReoptimization,
+  saveReoptimizationHistory
+} from '../services/reoptimizer';
+import { SymbolFilters } from '../utils/symbolFilters';
+
+interface UseReoptimizerOptions {
+  // ボットの稼働中だけ判定する
+  running: boolean;
+  schedule: ReoptimizationSchedule;
+  settings: GridSettings;
+  // ローソク足を取得するシンボル
+  symbol: string;
+  timeframe: string;
+  historyPeriod: number;
+  riskLevel: RiskLevel;
+  latestPrice?: number;
+  minOrderValue?: number;
+  filters?: Pick<SymbolFilters, 'tickSize'>;
+  migrate: (options: MigrationOptions) => Promise<MigrationResult>;
+  onApplied: (record: ReoptimizationRecord) => void;
+}
+
+// 価格の更新がない間も経過時間で判定できるよう定期的に確認する
+const CHECK_INTERVAL = 60 * 1000;
+
+export const useReoptimizer = ({
+  running,
+  schedule,
+  settings,
+  symbol,
+  timeframe,
+  historyPeriod,
+  riskLevel,
+  latestPrice,
+  minOrderValue,
+  filters,
+  migrate,
+  onApplied
+}: UseReoptimizerOptions) => {
+  const [history, setHistory] = useState<ReoptimizationRecord[]>(loadReoptimizationHistory);
+  const [inProgress, setInProgress] = useState(false);
+  const schedulerRef = useRef<ReoptimizationScheduler | null>(null);
+  const inProgressRef = useRef(false);
+
+  // 判定と実行には最新の設定を使う
+  const optionsRef = useRef({ schedule, settings, symbol, timeframe, historyPeriod, riskLevel, minOrderValue, filters, migrate, onApplied, history });
+  optionsRef.current = { schedule, settings, symbol, timeframe, historyPeriod, riskLevel, minOrderValue, filters, migrate, onApplied, history };
+
+  const addRecord = useCallback((record: ReoptimizationRecord) => {
+    setHistory(prev => {
+      const next = [...prev, record];
+      saveReoptimizationHistory(next);
+      return next;
+    });
+  }, []);
+
+  const check = useCallback(async () => {
+    const scheduler = schedulerRef.current;
+    if (!scheduler || inProgressRef.current) return;
+
+    const options = optionsRef.current;
+    const trigger = scheduler.due(options.history);
+    if (!trigger) return;
+
+    inProgressRef.current = true;
+    setInProgress(true);
+    try {
+      const record = await runReoptimization({ ...options, trigger });
+      const proposed = record.status === 'APPLIED' ? record.proposed : undefined;
+      scheduler.markRun(proposed && { lowerLimit: proposed.lowerLimit, upperLimit: proposed.upperLimit });
+      addRecord(record);
+      if (record.status === 'APPLIED') {
+        options.onApplied(record);
+      }
+    } finally {
+      inProgressRef.current = false;
+      setInProgress(false);
+    }
+  }, [addRecord]);
+
+  // 稼働開始時・スケジュールやレンジの変更時に判定をやり直す（前回の実行時刻は履歴から引き継ぐ）
+  useEffect(() => {
+    if (!running || !schedule.enabled) {
+      schedulerRef.current = null;
+      return;
+    }
+
+    const last = optionsRef.current.history[optionsRef.current.history.length - 1];
+    schedulerRef.current = new ReoptimizationScheduler({
+      schedule,
+      lowerLimit: settings.lowerLimit,
+      upperLimit: settings.upperLimit,
+      lastRunAt: last?.at
+    });
+
+    const intervalId = setInterval(() => {
+      check().catch(error => console.error('再最適化エラー:', error));
+    }, CHECK_INTERVAL);
+
+    return () => clearInterval(intervalId);
+  }, [running, schedule, settings.lowerLimit, settings.upperLimit, check]);
+
+  // 最新価格でレンジ外に留まっている時間を計る
+  useEffect(() => {
+    if (latestPrice === undefined || !schedulerRef.current) return;
+
+    schedulerRef.current.updatePrice(latestPrice);
+    check().catch(error => console.error('再最適化エラー:', error));
+  }, [latestPrice, check]);
+
+  const clearHistory = useCallback(() => {
+    saveReoptimizationHistory([]);
+    setHistory([]);
+  }, []);
+
+  return {
+    history,
+    inProgress,
+    outOfRangeSince: schedulerRef.current?.getOutOfRangeSince() ?? null,
+    clearHistory
+  };
+};
@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GridOrder } from '../services/gridEngine';
+import { TradeRecord } from '../utils/tradeHistory';
+
+const STORAGE_KEY = 'gridBotTradeHistory';
+// 保存する約定の最大件数（古いものから削除）
+const MAX_RECORDS = 5000;
+
+// 取引所をまたいでも重複しないようclientOrderIdを優先して識別する
+const recordKey = (record: TradeRecord) => record.clientOrderId ?? `${record.symbol}:${record.id}`;
+
+const loadHistory = (): TradeRecord[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('取引履歴の読み込みエラー:', error);
+    return [];
+  }
+};
+
+// ボットの約定を取引履歴として保存する（停止・再起動後も残す）
+export const useTradeHistory = (symbol: string, completedOrders: GridOrder[]) => {
+  const [trades, setTrades] = useState<TradeRecord[]>(loadHistory);
+
+  useEffect(() => {
+    if (completedOrders.length === 0) return;
+
+    setTrades(prev => {
+      const known = new Set(prev.map(recordKey));
+      const added = completedOrders
+        .map(order => ({ ...order, symbol }))
+        .filter(record => !known.has(recordKey(record)));
+      if (added.length === 0) return prev;
+
+      const next = [...prev, ...added].slice(-MAX_RECORDS);
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.error('取引履歴の保存エラー:', error);
+      }
+      return next;
+    });
+  }, [symbol, completedOrders]);
+
+  const clearHistory = useCallback(() => {
+    localStorage.removeItem(STORAGE_KEY);
+    setTrades([]);
+  }, []);
+
+  return { trades, clearHistory };
+};
@@ -0,0 +1,144 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+
+// Binanceには接続せず、呼び出し内容だけを確認する
+const mockAxios: any = jest.fn();
+mockAxios.get = jest.fn();
+jest.mock('axios', () => mockAxios);
+jest.mock('../credentials', () => ({
+  loadCredentials: () => ({ apiKey: 'test-key', apiSecret: 'test-secret', source: 'env' })
+}));
+
+const TOKEN = 'test-token';
+
+interface TestResponse {
+  status: number;
+  body: any;
+}
+
+describe('server.js', () => {
+  let server: http.Server | null = null;
+
+  // 環境変数を指定してserver.jsを読み込み直し、空いているポートで起動する
+  const startServer = async (env: Record<string, string>) => {
+    const saved = { ...process.env };
+    Object.assign(process.env, env);
+    let app: any;
+    jest.isolateModules(() => {
+      app = require('../server');
+    });
+    process.env = saved;
+
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  };
+
+  const request = (path: string, options: { method?: string; token?: string; body?: object } = {}) =>
+    new Promise<TestResponse>((resolve, reject) => {
+      const { port } = server!.address() as AddressInfo;
+      const req = http.request({
+        host: '127.0.0.1',
+        port,
+        path,
+        method: options.method ?? 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(options.token && { Authorization: `Bearer ${options.token}` })
+        }
+      }, res => {
+        let data = '';
+        res.on('data', chunk => {
+          data += chunk;
+        });
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(options.body ? JSON.stringify(options.body) : undefined);
+    });
+
+  beforeEach(() => {
+    mockAxios.mockReset();
+    mockAxios.get.mockReset();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    if (server) {
+      await new Promise(resolve => server!.close(resolve));
+      server = null;
+    }
+  });
+
+  test('PROXY_AUTH_TOKENが未設定なら署名付きルートを受け付けない', async () => {
+    await startServer({ PROXY_AUTH_TOKEN: '' });
+
+    const status = await request('/api/status');
+    expect(status.body).toMatchObject({ configured: true, authConfigured: false });
+
+    for (const path of ['/api/balance', '/api/orders?symbol=BTCUSDT', '/api/export/trades?symbol=BTCUSDT']) {
+      const response = await request(path);
+      expect(response.status).toBe(503);
+      expect(response.body.error).toContain('PROXY_AUTH_TOKEN');
+    }
+    expect((await request('/api/orders', { method: 'POST', body: { symbol: 'BTCUSDT' } })).status).toBe(503);
+    expect(mockAxios).not.toHaveBeenCalled();
+    expect(mockAxios.get).not.toHaveBeenCalled();
+  });
+
+  test('トークンが一致したときだけ署名してBinanceに中継する', async () => {
+    await startServer({ PROXY_AUTH_TOKEN: TOKEN });
+    mockAxios.get.mockResolvedValue({ data: { serverTime: Date.now() } });
+    mockAxios.mockResolvedValue({ data: { balances: [{ asset: 'BTC', free: '0.5', locked: '0.1' }] } });
+
+    expect((await request('/api/balance')).status).toBe(401);
+    expect((await request('/api/balance', { token: 'wrong-token' })).status).toBe(401);
+    expect(mockAxios).not.toHaveBeenCalled();
+
+    const response = await request('/api/balance', { token: TOKEN });
+    expect(response).toEqual({ status: 200, body: [{ asset: 'BTC', free: 0.5, locked: 0.1 }] });
+    const [{ url, headers }] = mockAxios.mock.calls[0];
+    expect(url).toMatch(/\/api\/v3\/account\?timestamp=\d+&recvWindow=5000&signature=[0-9a-f]{64}$/);
+    expect(headers['X-MBX-APIKEY']).toBe('test-key');
+    expect(JSON.stringify(mockAxios.mock.calls)).not.toContain('test-secret');
+  });
+
+  test('不正な注文内容とシンボルは中継しない', async () => {
+    await startServer({ PROXY_AUTH_TOKEN: TOKEN });
+
+    const order = await request('/api/orders', {
+      method: 'POST',
+      token: TOKEN,
+      body: { symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: '0.01' }
+    });
+    expect(order).toEqual({ status: 400, body: { error: '指値注文には価格が必要です' } });
+
+    const price = await request(`/api/price/${encodeURIComponent('BTCUSDT&symbols=x')}`);
+    expect(price).toEqual({ status: 400, body: { error: 'symbolが不正です' } });
+    expect(mockAxios).not.toHaveBeenCalled();
+
+    mockAxios.mockResolvedValue({ data: { symbol: 'BTCUSDT', price: '27000.00' } });
+    expect(await request('/api/price/btcusdt')).toEqual({ status: 200, body: { symbol: 'BTCUSDT', price: '27000.00' } });
+    expect(mockAxios.mock.calls[0][0]).toMatchObject({ params: { symbol: 'BTCUSDT' } });
+  });
+
+  test('フィクスチャモードでは記録したklineと板を返す', async () => {
+    await startServer({ PROXY_AUTH_TOKEN: TOKEN, MARKET_DATA_MODE: 'fixture' });
+
+    const klines = await request('/api/klines?symbol=BTCUSDT&interval=1h&limit=3');
+    expect(klines.status).toBe(200);
+    expect(klines.body).toHaveLength(3);
+
+    const depth = await request('/api/depth?symbol=BTCUSDT&limit=5');
+    expect(depth.status).toBe(200);
+    expect(depth.body.lastUpdateId).toBe(4821500);
+    expect(depth.body.bids).toHaveLength(5);
+    expect((await request('/api/depth?symbol=XRPJPY')).status).toBe(404);
+    expect(mockAxios).not.toHaveBeenCalled();
+    expect(mockAxios.get).not.toHaveBeenCalled();
+  });
+});
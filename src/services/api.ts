@@ -1,27 +1,54 @@
-import axios from 'axios';
+import { parseSymbolFilters } from '../utils/symbolFilters';
+import { AssetBalance, Fill, Order, OrderParams, Ticker } from './exchanges/types';
 
-// APIのベースURL
-const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || 'http://localhost:3001';
+// プロキシサーバー（server.js）のURL
+const API_BASE_URL = process.env.REACT_APP_API_BASE_URL || process.env.REACT_APP_PROXY_URL || 'http://localhost:4000';
+// server.jsのPROXY_AUTH_TOKENと同じ値（未設定だとプロキシの認証付きルートは利用できない）
+const PROXY_AUTH_TOKEN = process.env.REACT_APP_PROXY_AUTH_TOKEN;
 
-// Axiosインスタンスの作成
-const apiClient = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-});
+const DEFAULT_HEADERS: Record<string, string> = {
+  'Content-Type': 'application/json',
+  ...(PROXY_AUTH_TOKEN ? { Authorization: `Bearer ${PROXY_AUTH_TOKEN}` } : {})
+};
+
+interface RequestConfig {
+  url: string;
+  method?: 'GET' | 'POST' | 'DELETE';
+  params?: Record<string, string | number>;
+  data?: unknown;
+}
+
+// プロキシがエラー時に返す本文（{ error, details }）を保持する
+class ApiResponseError extends Error {
+  constructor(readonly response: { status: number; data?: { message?: string; error?: string } }) {
+    super(`HTTP error! status: ${response.status}`);
+  }
+}
+
+export type ApiResult<T> =
+  | { error: false; data: T }
+  | { error: true; message: string };
+
+// APIキーはサーバー側で保持されるため、状態にはシークレットを含まない
+export interface ProxyStatus {
+  exchange: string;
+  testnet: boolean;
+  configured: boolean;
+  source: 'env' | 'file' | null;
+  // PROXY_AUTH_TOKENが設定され、認証付きルートを利用できるか
+  authConfigured: boolean;
+}
 
 // エラーハンドリング
-const handleApiError = (error: unknown) => {
-  if (error && typeof error === 'object' && 'response' in error) {
-    const axiosError = error as { response?: { data?: { message?: string } } };
-    console.error('API Error:', axiosError.response?.data);
+const handleApiError = (error: unknown): ApiResult<never> => {
+  if (error instanceof ApiResponseError) {
+    console.error('API Error:', error.response.data);
     return {
       error: true,
-      message: axiosError.response?.data?.message || 'APIリクエストに失敗しました',
+      message: error.response.data?.message || error.response.data?.error || 'APIリクエストに失敗しました',
     };
   }
-  
+
   if (error instanceof Error) {
     console.error('Unexpected Error:', error);
     return {
@@ -29,7 +56,7 @@ const handleApiError = (error: unknown) => {
       message: error.message || '予期せぬエラーが発生しました',
     };
   }
-  
+
   console.error('Unknown Error:', error);
   return {
     error: true,
@@ -37,44 +64,70 @@ const handleApiError = (error: unknown) => {
   };
 };
 
+const request = async <T>({ url, method = 'GET', params, data }: RequestConfig): Promise<ApiResult<T>> => {
+  try {
+    const query = params
+      ? `?${new URLSearchParams(Object.entries(params).map(([key, value]) => [key, String(value)]))}`
+      : '';
+    const response = await fetch(`${API_BASE_URL}${url}${query}`, {
+      method,
+      headers: DEFAULT_HEADERS,
+      body: data === undefined ? undefined : JSON.stringify(data),
+    });
+    const text = await response.text();
+    const body = text ? JSON.parse(text) : null;
+
+    if (!response.ok) {
+      throw new ApiResponseError({ status: response.status, data: body });
+    }
+    return {
+      error: false,
+      data: body,
+    };
+  } catch (error) {
+    return handleApiError(error);
+  }
+};
+
 // API関数
 export const api = {
+  // プロキシの接続先とAPIキーの設定状況
+  getStatus: () => request<ProxyStatus>({ url: '/api/status' }),
+
+  // 残高情報の取得（資産ごと）
+  getBalances: () => request<AssetBalance[]>({ url: '/api/balance' }),
+
   // 残高情報の取得
-  getBalance: async (symbol: string) => {
-    try {
-      const response = await apiClient.get(`/api/balance/${symbol}`);
-      return {
-        error: false,
-        data: response.data,
-      };
-    } catch (error) {
-      return handleApiError(error);
-    }
-  },
+  getBalance: (asset: string) => request<AssetBalance>({ url: `/api/balance/${asset}` }),
 
   // 価格情報の取得
-  getPrice: async (symbol: string) => {
-    try {
-      const response = await apiClient.get(`/api/price/${symbol}`);
-      return {
-        error: false,
-        data: response.data,
-      };
-    } catch (error) {
-      return handleApiError(error);
-    }
-  },
+  getPrice: (symbol: string) => request<Ticker>({ url: `/api/price/${symbol}` }),
 
   // アカウント情報の取得
-  getAccountInfo: async () => {
-    try {
-      const response = await apiClient.get('/api/account');
-      return {
-        error: false,
-        data: response.data,
-      };
-    } catch (error) {
-      return handleApiError(error);
-    }
-  },
-}; 
\ No newline at end of file
+  getAccountInfo: () => request<Record<string, unknown>>({ url: '/api/account' }),
+
+  // ローソク足（Binanceのkline配列）の取得
+  getKlines: (symbol: string, interval: string, limit: number) =>
+    request<unknown[]>({ url: '/api/klines', params: { symbol, interval, limit } }),
+
+  // 通貨ペアの取引ルールの取得
+  getExchangeInfo: (symbol: string) =>
+    request<Parameters<typeof parseSymbolFilters>[0]>({ url: `/api/exchangeInfo/${symbol}` }),
+
+  // 注文
+  getOpenOrders: (symbol: string) => request<Order[]>({ url: '/api/orders', params: { symbol } }),
+
+  getOrder: (symbol: string, orderId: string) =>
+    request<Order>({ url: `/api/orders/${orderId}`, params: { symbol } }),
+
+  getOrderFills: (symbol: string, orderId: string) =>
+    request<Fill[]>({ url: `/api/orders/${orderId}/fills`, params: { symbol } }),
+
+  createOrder: (orderParams: OrderParams) =>
+    request<Order>({ url: '/api/orders', method: 'POST', data: orderParams }),
+
+  cancelOrder: (symbol: string, orderId: string) =>
+    request<Order>({ url: `/api/orders/${orderId}`, method: 'DELETE', params: { symbol } }),
+
+  cancelAllOrders: (symbol: string) => request<Order[]>({ url: '/api/orders', method: 'DELETE', params: { symbol } }),
+};
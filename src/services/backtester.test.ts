@@ -0,0 +1,57 @@
+import { runBacktest } from './backtester';
+import { Candle } from './marketData';
+import { GridSettings } from '../hooks/useGridSettings';
+
+const HOUR = 60 * 60 * 1000;
+
+const settings: GridSettings = {
+  upperLimit: 30000,
+  lowerLimit: 25000,
+  gridNumber: 10,
+  gridType: 'arithmetic',
+  initialInvestment: 1000,
+  stopLoss: 24000,
+  takeProfitLevel: 31000
+};
+
+const candle = (index: number, open: number, high: number, low: number, close: number): Candle => ({
+  openTime: Date.UTC(2024, 0, 1) + index * HOUR,
+  open,
+  high,
+  low,
+  close,
+  volume: 1
+});
+
+describe('runBacktest', () => {
+  test('レンジ内の往復で利益が出る', async () => {
+    const candles = Array.from({ length: 10 }, (_, i) =>
+      i % 2 === 0
+        ? candle(i, 27600, 28800, 27400, 28700)
+        : candle(i, 28700, 28900, 26300, 26400)
+    );
+
+    const result = await runBacktest({ candles, settings });
+
+    expect(result.exitReason).toBe('END_OF_DATA');
+    expect(result.trades.filter(t => t.side === 'SELL' && t.profit !== undefined).length).toBeGreaterThan(0);
+    expect(result.realizedProfit).toBeGreaterThan(0);
+    expect(result.totalFees).toBeGreaterThan(0);
+  });
+
+  test('ストップロスを下回ると全ポジションを決済して終了する', async () => {
+    const candles = [
+      candle(0, 27600, 27800, 27000, 27200),
+      candle(1, 27200, 27300, 23500, 23800),
+      candle(2, 23800, 29000, 23700, 28900)
+    ];
+
+    const result = await runBacktest({ candles, settings });
+
+    expect(result.exitReason).toBe('STOP_LOSS');
+    expect(result.exitTime).toBe(new Date(candles[1].openTime).toISOString());
+    expect(result.finalBalance.base).toBeCloseTo(0, 8);
+    expect(result.maxDrawdown).toBeGreaterThan(0);
+    expect(result.netProfit).toBeLessThan(0);
+  });
+});
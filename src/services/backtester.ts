@@ -0,0 +1,178 @@
+import { GridSettings } from '../hooks/useGridSettings';
+import { calculateGridLines } from '../utils/grid';
+import { Balance } from './exchanges/types';
+import { GridEngine } from './gridEngine';
+import { Candle } from './marketData';
+import { PaperExchange } from './paperExchange';
+import { checkRiskLimits } from './riskWatcher';
+
+export type BacktestExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'END_OF_DATA';
+
+export interface BacktestTrade {
+  time: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  quantity: number;
+  fee: number;
+  profit?: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  realizedProfit: number;
+  totalFees: number;
+  maxDrawdown: number;
+  maxDrawdownPercent: number;
+  finalBalance: Balance;
+  finalEquity: number;
+  netProfit: number;
+  exitReason: BacktestExitReason;
+  exitTime: string | null;
+}
+
+interface BacktestOptions {
+  candles: Candle[];
+  settings: GridSettings;
+  symbol?: string;
+  feeRate?: number;
+}
+
+const DEFAULT_SYMBOL = 'BACKTEST';
+const DEFAULT_FEE_RATE = 0.001;
+
+// ローソク足内の値動きを近似（陽線: 始値→安値→高値→終値、陰線: 始値→高値→安値→終値）
+const candlePath = (candle: Candle): number[] => {
+  return candle.close >= candle.open
+    ? [candle.open, candle.low, candle.high, candle.close]
+    : [candle.open, candle.high, candle.low, candle.close];
+};
+
+// ストップロス/利確の判定
+const checkExit = (price: number, settings: GridSettings): BacktestExitReason | null => {
+  return checkRiskLimits(price, { stopLoss: settings.stopLoss, takeProfit: settings.takeProfitLevel })?.reason ?? null;
+};
+
+// 過去のローソク足でグリッド取引をシミュレーション
+export const runBacktest = async ({
+  candles,
+  settings,
+  symbol = DEFAULT_SYMBOL,
+  feeRate = DEFAULT_FEE_RATE
+}: BacktestOptions): Promise<BacktestResult> => {
+  if (candles.length === 0) {
+    throw new Error('ローソク足データがありません');
+  }
+
+  let currentTime = new Date(candles[0].openTime);
+  const now = () => currentTime;
+
+  const exchange = new PaperExchange({
+    initialBalance: { base: 0, quote: settings.initialInvestment },
+    feeRate,
+    storageKey: null,
+    now,
+    debug: false
+  });
+  const gridLines = calculateGridLines(settings);
+  const engine = new GridEngine({
+    client: exchange,
+    symbol,
+    gridLines,
+    initialInvestment: settings.initialInvestment,
+    feeRate,
+    now,
+    debug: false
+  });
+
+  // 売り注文に必要なベース通貨はエンジンが開始時に成行で購入する
+  const startPrice = candles[0].open;
+  exchange.updatePrice(symbol, startPrice);
+  await engine.start();
+
+  let exitReason: BacktestExitReason = 'END_OF_DATA';
+  let exitTime: string | null = null;
+  let lastPrice = startPrice;
+  let peakEquity = settings.initialInvestment;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+
+  const recordEquity = (price: number) => {
+    const total = exchange.getTotalBalance();
+    const equity = total.quote + total.base * price;
+    peakEquity = Math.max(peakEquity, equity);
+    const drawdown = peakEquity - equity;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = peakEquity > 0 ? (drawdown / peakEquity) * 100 : 0;
+    }
+  };
+
+  simulation:
+  for (const candle of candles) {
+    currentTime = new Date(candle.openTime);
+    const path = candlePath(candle);
+
+    for (let i = 0; i < path.length; i++) {
+      const reason = checkExit(path[i], settings);
+      // 始値でのギャップ以外は閾値で約定したとみなす
+      const price = reason && i > 0
+        ? (reason === 'STOP_LOSS' ? settings.stopLoss : settings.takeProfitLevel)
+        : path[i];
+
+      exchange.updatePrice(symbol, price);
+      await engine.syncFills();
+      recordEquity(price);
+      lastPrice = price;
+
+      if (reason) {
+        exitReason = reason;
+        exitTime = currentTime.toISOString();
+        break simulation;
+      }
+    }
+  }
+
+  // 残りの注文を取り消し、決済時はベース通貨を成行で売却
+  await engine.stop();
+  if (exitReason !== 'END_OF_DATA') {
+    const { base } = await exchange.getAccountBalance();
+    if (base > 0) {
+      await exchange.createOrder({ symbol, side: 'SELL', type: 'MARKET', quantity: base.toString() });
+    }
+    recordEquity(lastPrice);
+  }
+
+  const engineState = engine.getState();
+  const profits = new Map(engineState.completedOrders.map(order => [order.id, order.profit]));
+  const trades: BacktestTrade[] = exchange.getOrders()
+    .filter(order => order.status === 'FILLED')
+    .map(order => ({
+      time: order.filledAt || order.createdAt,
+      side: order.side,
+      price: parseFloat(order.executedPrice ?? order.price),
+      quantity: parseFloat(order.quantity),
+      fee: order.fee || 0,
+      profit: profits.get(order.orderId)
+    }));
+
+  // 買い注文の手数料はベース通貨で支払うため約定価格で換算
+  const totalFees = trades.reduce((sum, trade) =>
+    sum + (trade.side === 'BUY' ? trade.fee * trade.price : trade.fee)
+  , 0);
+
+  const finalBalance = exchange.getTotalBalance();
+  const finalEquity = finalBalance.quote + finalBalance.base * lastPrice;
+
+  return {
+    trades,
+    realizedProfit: engineState.totalProfit,
+    totalFees,
+    maxDrawdown,
+    maxDrawdownPercent,
+    finalBalance,
+    finalEquity,
+    netProfit: finalEquity - settings.initialInvestment,
+    exitReason,
+    exitTime
+  };
+};
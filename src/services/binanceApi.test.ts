@@ -0,0 +1,226 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHmac, webcrypto } from 'crypto';
+import { BinanceApiClient } from './binanceApi';
+
+const API_KEY = 'test-api-key';
+const API_SECRET = 'test-api-secret';
+
+// jestのnode環境にはfetchとWeb Crypto APIがないため、Node標準モジュールで代替する
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const nodeFetch = ((input: string, init: RequestInit = {}) =>
+  new Promise((resolve, reject) => {
+    const request = http.request(input, {
+      method: init.method ?? 'GET',
+      headers: init.headers as Record<string, string>
+    }, response => {
+      let body = '';
+      response.on('data', chunk => { body += chunk; });
+      response.on('end', () => {
+        const status = response.statusCode ?? 0;
+        resolve({ ok: status >= 200 && status < 300, status, text: async () => body } as Response);
+      });
+    });
+    request.on('error', reject);
+    request.end();
+  })) as typeof fetch;
+
+interface MockRequest {
+  method: string;
+  path: string;
+  params: URLSearchParams;
+  apiKey?: string;
+}
+
+// Binance REST APIの署名検証と時刻チェックを再現するモックサーバー
+const createMockServer = () => {
+  const requests: MockRequest[] = [];
+  const orders: any[] = [];
+  let clockOffset = 0;
+  let nextOrderId = 1;
+
+  const serverTime = () => Date.now() + clockOffset;
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const params = url.searchParams;
+    const path = url.pathname.replace('/api/v3', '');
+    const send = (status: number, body: any) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    requests.push({ method: req.method ?? 'GET', path, params, apiKey: req.headers['x-mbx-apikey'] as string });
+
+    if (path === '/time') return send(200, { serverTime: serverTime() });
+    if (path === '/ticker/price') return send(200, { symbol: params.get('symbol'), price: '27500.00000000' });
+
+    // 署名付きエンドポイント
+    const query = url.search.slice(1);
+    const payload = query.replace(/&signature=[0-9a-f]+$/, '');
+    const expected = createHmac('sha256', API_SECRET).update(payload).digest('hex');
+    if (req.headers['x-mbx-apikey'] !== API_KEY) {
+      return send(401, { code: -2015, msg: 'Invalid API-key, IP, or permissions for action.' });
+    }
+    if (params.get('signature') !== expected) {
+      return send(400, { code: -1022, msg: 'Signature for this request is not valid.' });
+    }
+    const timestamp = Number(params.get('timestamp'));
+    const recvWindow = Number(params.get('recvWindow') ?? 5000);
+    if (timestamp >= serverTime() + 1000 || serverTime() - timestamp > recvWindow) {
+      return send(400, { code: -1021, msg: "Timestamp for this request is outside of the recvWindow." });
+    }
+
+    if (path === '/account') {
+      return send(200, {
+        balances: [
+          { asset: 'BTC', free: '0.50000000', locked: '0.10000000' },
+          { asset: 'USDT', free: '1000.00000000', locked: '0.00000000' }
+        ]
+      });
+    }
+    if (path === '/order' && req.method === 'POST') {
+      const order = {
+        symbol: params.get('symbol'),
+        orderId: nextOrderId++,
+        price: params.get('price') ?? '0.00000000',
+        origQty: params.get('quantity'),
+        side: params.get('side'),
+        type: params.get('type'),
+        timeInForce: params.get('timeInForce'),
+        status: 'NEW',
+        clientOrderId: params.get('newClientOrderId') ?? undefined
+      };
+      orders.push(order);
+      return send(200, order);
+    }
+    const order = orders.find(o => o.orderId === Number(params.get('orderId')));
+    if (path === '/order' && req.method === 'GET') {
+      return order ? send(200, order) : send(400, { code: -2013, msg: 'Order does not exist.' });
+    }
+    if (path === '/order' && req.method === 'DELETE') {
+      if (!order) return send(400, { code: -2011, msg: 'Unknown order sent.' });
+      order.status = 'CANCELED';
+      return send(200, order);
+    }
+    if (path === '/openOrders') {
+      return send(200, orders.filter(o => o.symbol === params.get('symbol') && o.status === 'NEW'));
+    }
+    send(404, { code: -1100, msg: 'Not found' });
+  });
+
+  return {
+    server,
+    requests,
+    setClockOffset: (offset: number) => { clockOffset = offset; }
+  };
+};
+
+describe('BinanceApiClient', () => {
+  let mock: ReturnType<typeof createMockServer>;
+  let client: BinanceApiClient;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    mock = createMockServer();
+    await new Promise<void>(resolve => mock.server.listen(0, '127.0.0.1', resolve));
+    const { port } = mock.server.address() as AddressInfo;
+    client = new BinanceApiClient({
+      apiKey: API_KEY,
+      apiSecret: API_SECRET,
+      testMode: true,
+      baseUrl: `http://127.0.0.1:${port}/api/v3`,
+      fetch: nodeFetch
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await new Promise(resolve => mock.server.close(resolve));
+  });
+
+  test('署名付きリクエストでアカウント残高を取得する', async () => {
+    const balance = await client.getAccountBalance();
+
+    expect(balance).toEqual({ base: 0.5, quote: 1000 });
+    const account = mock.requests.find(r => r.path === '/account');
+    expect(account?.apiKey).toBe(API_KEY);
+    expect(account?.params.get('recvWindow')).toBe('5000');
+    expect(account?.params.get('timestamp')).toBeTruthy();
+  });
+
+  test('注文の作成・照会・未約定一覧・キャンセルが実際のエンドポイントを使う', async () => {
+    const order = await client.createOrder({
+      symbol: 'BTCUSDT',
+      side: 'BUY',
+      type: 'LIMIT',
+      quantity: '0.00100',
+      price: '27000.00'
+    });
+    expect(order).toEqual({
+      symbol: 'BTCUSDT',
+      orderId: '1',
+      price: '27000.00',
+      quantity: '0.00100',
+      side: 'BUY',
+      status: 'NEW'
+    });
+    const created = mock.requests.find(r => r.method === 'POST');
+    expect(created?.params.get('timeInForce')).toBe('GTC');
+
+    expect((await client.getOrder('BTCUSDT', '1')).status).toBe('NEW');
+    expect(await client.getOpenOrders('BTCUSDT')).toHaveLength(1);
+    expect((await client.cancelOrder('BTCUSDT', '1')).status).toBe('CANCELED');
+    expect(await client.getOpenOrders('BTCUSDT')).toHaveLength(0);
+  });
+
+  test('clientOrderIdはnewClientOrderIdとして送信する', async () => {
+    const order = await client.createOrder({
+      symbol: 'BTCUSDT',
+      side: 'SELL',
+      type: 'LIMIT',
+      quantity: '0.00100',
+      price: '28000.00',
+      clientOrderId: 'grid-abc-3S1'
+    });
+
+    const created = mock.requests.find(r => r.method === 'POST');
+    expect(created?.params.get('newClientOrderId')).toBe('grid-abc-3S1');
+    expect(created?.params.has('clientOrderId')).toBe(false);
+    expect(order.clientOrderId).toBe('grid-abc-3S1');
+  });
+
+  test('現在価格は/ticker/priceから署名なしで取得する', async () => {
+    const ticker = await client.getCurrentPrice('BTCUSDT');
+
+    expect(ticker).toEqual({ symbol: 'BTCUSDT', price: '27500.00000000' });
+    const request = mock.requests.find(r => r.path === '/ticker/price');
+    expect(request?.params.get('signature')).toBeNull();
+  });
+
+  test('サーバー時刻がずれていても同期してから署名する', async () => {
+    mock.setClockOffset(60000);
+
+    await expect(client.validateCredentials()).resolves.toBe(true);
+    expect(mock.requests[0].path).toBe('/time');
+  });
+
+  test('-1021エラーでは時刻を再同期して1回だけ再送する', async () => {
+    await client.syncTime();
+    mock.setClockOffset(-30000);
+
+    await expect(client.getAccountBalance()).resolves.toEqual({ base: 0.5, quote: 1000 });
+    expect(mock.requests.map(r => r.path)).toEqual(['/time', '/account', '/time', '/account']);
+  });
+
+  test('Binanceのエラーコードを例外に含める', async () => {
+    const error = await client.getOrder('BTCUSDT', '999').catch(e => e);
+
+    expect(error.code).toBe(-2013);
+    expect(error.message).toContain('Order does not exist.');
+  });
+});
@@ -1,3 +1,8 @@
+import { SymbolFilters, parseSymbolFilters } from '../utils/symbolFilters';
+import { Candle, parseCandles } from './marketData';
+import { RequestParams, buildQueryString, hmacSha256Hex, toBalance } from './exchanges/common';
+import { AssetBalance, Balance, ExchangeAdapter, Fill, Order, OrderParams, Ticker } from './exchanges/types';
+
 const TEST_API_BASE_URL = 'https://testnet.binance.vision/api/v3';
 const MAIN_API_BASE_URL = 'https://api.binance.com/api/v3';
 
@@ -5,6 +10,11 @@ interface BinanceConfig {
   apiKey: string;
   apiSecret: string;
   testMode: boolean;
+  // モックサーバーなどへの接続先（指定時はtestModeより優先）
+  baseUrl?: string;
+  // 署名付きリクエストの有効期間（ミリ秒）
+  recvWindow?: number;
+  fetch?: typeof fetch;
 }
 
 interface BinanceError extends Error {
@@ -12,40 +22,79 @@ interface BinanceError extends Error {
   msg?: string;
 }
 
-export interface Balance {
-  base: number;
-  quote: number;
-}
-
 interface RawBalance {
   asset: string;
   free: string;
   locked: string;
 }
 
-export interface Order {
+// /order・/openOrdersのレスポンス
+interface RawOrder {
   symbol: string;
   orderId: number;
   price: string;
-  quantity: string;
+  origQty: string;
   side: 'BUY' | 'SELL';
   status: string;
+  clientOrderId?: string;
+}
+
+interface RawTrade {
+  orderId: number;
+  price: string;
+  qty: string;
+  commission: string;
+  commissionAsset: string;
+  time: number;
 }
 
-class BinanceApiClient {
+const DEFAULT_RECV_WINDOW = 5000;
+// タイムスタンプがサーバー時刻とずれている場合のエラーコード
+const TIMESTAMP_ERROR_CODE = -1021;
+
+const toOrder = (raw: RawOrder): Order => ({
+  symbol: raw.symbol,
+  orderId: String(raw.orderId),
+  price: raw.price,
+  quantity: raw.origQty,
+  side: raw.side,
+  status: raw.status,
+  clientOrderId: raw.clientOrderId
+});
+
+const toFill = (raw: RawTrade): Fill => ({
+  orderId: String(raw.orderId),
+  price: parseFloat(raw.price),
+  quantity: parseFloat(raw.qty),
+  fee: parseFloat(raw.commission),
+  feeAsset: raw.commissionAsset,
+  time: raw.time
+});
+
+class BinanceApiClient implements ExchangeAdapter {
+  readonly id = 'binance' as const;
   private apiKey: string;
   private apiSecret: string;
   private baseUrl: string;
+  private recvWindow: number;
+  private fetcher: typeof fetch;
+  // サーバー時刻とローカル時刻の差（ミリ秒）
+  private timeOffset: number | null = null;
   private readonly DEBUG = true;
+  // 通貨ペアごとの注文制限（取得中のリクエストも共有する）
+  private symbolFilters = new Map<string, Promise<SymbolFilters>>();
 
   constructor(config: BinanceConfig) {
     this.apiKey = config.apiKey;
     this.apiSecret = config.apiSecret;
-    this.baseUrl = config.testMode ? TEST_API_BASE_URL : MAIN_API_BASE_URL;
+    this.baseUrl = config.baseUrl ?? (config.testMode ? TEST_API_BASE_URL : MAIN_API_BASE_URL);
+    this.recvWindow = config.recvWindow ?? DEFAULT_RECV_WINDOW;
+    this.fetcher = config.fetch ?? ((input, init) => fetch(input, init));
     this.debug('BinanceApiClientの初期化:', {
       apiKeyLength: this.apiKey.length,
       apiSecretLength: this.apiSecret.length,
-      testMode: config.testMode
+      testMode: config.testMode,
+      baseUrl: this.baseUrl
     });
   }
 
@@ -61,27 +110,7 @@ class BinanceApiClient {
 
   private async generateSignature(queryString: string): Promise<string> {
     try {
-      const encoder = new TextEncoder();
-      const keyData = encoder.encode(this.apiSecret);
-      const messageData = encoder.encode(queryString);
-
-      const cryptoKey = await crypto.subtle.importKey(
-        'raw',
-        keyData,
-        { name: 'HMAC', hash: 'SHA-256' },
-        false,
-        ['sign']
-      );
-
-      const signature = await crypto.subtle.sign(
-        'HMAC',
-        cryptoKey,
-        messageData
-      );
-
-      return Array.from(new Uint8Array(signature))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
+      return await hmacSha256Hex(this.apiSecret, queryString);
     } catch (error) {
       this.error('署名生成エラー:', error);
       if (error instanceof Error) {
@@ -92,33 +121,86 @@ class BinanceApiClient {
     }
   }
 
-  private async makeRequest(endpoint: string, method: string = 'GET', body?: any) {
+  // レスポンスを解析し、Binanceのエラー（{ code, msg }）は例外にする
+  private async parseResponse(response: Response) {
+    const text = await response.text();
+    let data: any = null;
     try {
-      const options: RequestInit = {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-      };
+      data = text ? JSON.parse(text) : null;
+    } catch (error) {
+      data = null;
+    }
 
-      if (body) {
-        options.body = JSON.stringify(body);
+    if (!response.ok) {
+      if (data && typeof data.code === 'number') {
+        const binanceError: BinanceError = new Error(`Binance APIエラー (${data.code}): ${data.msg}`);
+        binanceError.code = data.code;
+        binanceError.msg = data.msg;
+        throw binanceError;
       }
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
 
-      const response = await fetch(`${this.baseUrl}${endpoint}`, options);
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    return data;
+  }
 
-      return await response.json();
+  // 署名不要の公開エンドポイント
+  private async makeRequest(endpoint: string, method: string = 'GET', params: RequestParams = {}) {
+    try {
+      const queryString = buildQueryString(params);
+      const url = `${this.baseUrl}${endpoint}${queryString ? `?${queryString}` : ''}`;
+      const response = await this.fetcher(url, { method });
+      return await this.parseResponse(response);
     } catch (error) {
       console.error('[BinanceAPI Error]', error);
-      if (error instanceof Error) {
-        throw error;
-      } else {
-        throw new Error('APIリクエストに失敗しました');
+      throw this.handleError(error, 'APIリクエストに失敗しました');
+    }
+  }
+
+  // サーバー時刻との差を測定する（往復時間の中間をサーバー時刻とみなす）
+  async syncTime(): Promise<number> {
+    const requestedAt = Date.now();
+    const { serverTime } = await this.makeRequest('/time');
+    const receivedAt = Date.now();
+    this.timeOffset = serverTime - Math.round((requestedAt + receivedAt) / 2);
+    this.debug('サーバー時刻と同期しました:', { offset: this.timeOffset });
+    return this.timeOffset;
+  }
+
+  // timestamp・recvWindow・signatureを付けた署名付きリクエスト
+  private async signedRequest(
+    endpoint: string,
+    method: string = 'GET',
+    params: RequestParams = {},
+    retried = false
+  ): Promise<any> {
+    try {
+      if (this.timeOffset === null) {
+        await this.syncTime();
       }
+
+      const queryString = buildQueryString({
+        ...params,
+        recvWindow: this.recvWindow,
+        timestamp: Date.now() + (this.timeOffset ?? 0)
+      });
+      const signature = await this.generateSignature(queryString);
+      const response = await this.fetcher(`${this.baseUrl}${endpoint}?${queryString}&signature=${signature}`, {
+        method,
+        headers: {
+          'X-MBX-APIKEY': this.apiKey
+        }
+      });
+      return await this.parseResponse(response);
+    } catch (error) {
+      // 時刻ずれのエラーは同期し直して1回だけ再送する
+      if (!retried && (error as BinanceError).code === TIMESTAMP_ERROR_CODE) {
+        this.debug('タイムスタンプエラーのため時刻を再同期します');
+        this.timeOffset = null;
+        return this.signedRequest(endpoint, method, params, true);
+      }
+      console.error('[BinanceAPI Error]', error);
+      throw this.handleError(error, 'APIリクエストに失敗しました');
     }
   }
 
@@ -127,7 +209,7 @@ class BinanceApiClient {
       const binanceError = error as BinanceError;
       if (binanceError.code) {
         this.error(`Binance APIエラー ${binanceError.code}:`, binanceError.msg);
-        return new Error(`Binance APIエラー (${binanceError.code}): ${binanceError.msg}`);
+        return binanceError;
       }
       if (error.message.includes('Failed to fetch')) {
         return new Error('ネットワーク接続エラーが発生しました。インターネット接続を確認してください。');
@@ -139,26 +221,7 @@ class BinanceApiClient {
 
   async validateCredentials(): Promise<boolean> {
     try {
-      const timestamp = Date.now().toString();
-      const queryString = `timestamp=${timestamp}`;
-      const signature = await this.generateSignature(queryString);
-      
-      const url = `${this.baseUrl}/account?${queryString}&signature=${signature}`;
-      
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'X-MBX-APIKEY': this.apiKey
-        }
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        this.error('認証エラー:', errorText);
-        return false;
-      }
-
-      const data = await response.json();
+      await this.signedRequest('/account');
       return true;
     } catch (error) {
       this.error('認証検証エラー:', error);
@@ -171,19 +234,14 @@ class BinanceApiClient {
     }
   }
 
-  async getAccountBalance(): Promise<Balance> {
+  async getBalances(): Promise<AssetBalance[]> {
     try {
-      const response = await this.makeRequest('/balance');
-      const balances = response as RawBalance[];
-      
-      // BTCとUSDTの残高を取得
-      const btcBalance = balances.find(b => b.asset === 'BTC')?.free || '0';
-      const usdtBalance = balances.find(b => b.asset === 'USDT')?.free || '0';
-      
-      return {
-        base: parseFloat(btcBalance),
-        quote: parseFloat(usdtBalance)
-      };
+      const response = await this.signedRequest('/account');
+      return (response.balances as RawBalance[]).map(b => ({
+        asset: b.asset,
+        free: parseFloat(b.free),
+        locked: parseFloat(b.locked)
+      }));
     } catch (error) {
       console.error('Error in fetchBalance:', error);
       if (error instanceof Error) {
@@ -194,9 +252,13 @@ class BinanceApiClient {
     }
   }
 
-  async getCurrentPrice(symbol: string): Promise<{ symbol: string; price: string }> {
+  async getAccountBalance(baseAsset: string = 'BTC', quoteAsset: string = 'USDT'): Promise<Balance> {
+    return toBalance(await this.getBalances(), baseAsset, quoteAsset);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<Ticker> {
     try {
-      return await this.makeRequest(`/ticker?symbol=${symbol}`);
+      return await this.makeRequest('/ticker/price', 'GET', { symbol });
     } catch (error) {
       console.error('Error in getCurrentPrice:', error);
       if (error instanceof Error) {
@@ -207,15 +269,59 @@ class BinanceApiClient {
     }
   }
 
-  async createOrder(orderParams: {
-    symbol: string;
-    side: 'BUY' | 'SELL';
-    type: string;
-    quantity: string;
-    price?: string;
-  }): Promise<Order> {
+  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<Candle[]> {
     try {
-      return await this.makeRequest('/orders', 'POST', orderParams);
+      return parseCandles(await this.makeRequest('/klines', 'GET', { symbol, interval, limit }));
+    } catch (error) {
+      console.error('Error in getKlines:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('ローソク足の取得に失敗しました');
+      }
+    }
+  }
+
+  // exchangeInfoから通貨ペアの注文制限を取得してキャッシュする
+  async getSymbolFilters(symbol: string): Promise<SymbolFilters> {
+    const cached = this.symbolFilters.get(symbol);
+    if (cached) return cached;
+
+    const request = this.makeRequest('/exchangeInfo', 'GET', { symbol }).then(response => {
+      const symbolInfo = response.symbols?.find((s: any) => s.symbol === symbol);
+      if (!symbolInfo) {
+        throw new Error(`${symbol}の取引ルールが見つかりません`);
+      }
+      const filters = parseSymbolFilters(symbolInfo);
+      this.debug('注文制限を取得しました:', filters);
+      return filters;
+    });
+
+    this.symbolFilters.set(symbol, request);
+    try {
+      return await request;
+    } catch (error) {
+      // 失敗した結果はキャッシュしない
+      this.symbolFilters.delete(symbol);
+      console.error('Error in getSymbolFilters:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('取引ルールの取得に失敗しました');
+      }
+    }
+  }
+
+  async createOrder(orderParams: OrderParams): Promise<Order> {
+    try {
+      const { clientOrderId, ...params } = orderParams;
+      const response = await this.signedRequest('/order', 'POST', {
+        ...params,
+        newClientOrderId: clientOrderId,
+        // 指値注文は約定するまで有効（GTC）
+        timeInForce: orderParams.type === 'LIMIT' ? 'GTC' : undefined
+      });
+      return toOrder(response);
     } catch (error) {
       console.error('Error in createOrder:', error);
       if (error instanceof Error) {
@@ -226,9 +332,36 @@ class BinanceApiClient {
     }
   }
 
-  async cancelOrder(symbol: string, orderId: number): Promise<any> {
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
     try {
-      return await this.makeRequest(`/orders/${orderId}?symbol=${symbol}`, 'DELETE');
+      return toOrder(await this.signedRequest('/order', 'GET', { symbol, orderId }));
+    } catch (error) {
+      console.error('Error in getOrder:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('注文状況の取得に失敗しました');
+      }
+    }
+  }
+
+  async getOpenOrders(symbol: string): Promise<Order[]> {
+    try {
+      const response = await this.signedRequest('/openOrders', 'GET', { symbol });
+      return (response as RawOrder[]).map(toOrder);
+    } catch (error) {
+      console.error('Error in getOpenOrders:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('未約定注文の取得に失敗しました');
+      }
+    }
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<Order> {
+    try {
+      return toOrder(await this.signedRequest('/order', 'DELETE', { symbol, orderId }));
     } catch (error) {
       console.error('Error in cancelOrder:', error);
       if (error instanceof Error) {
@@ -238,6 +371,35 @@ class BinanceApiClient {
       }
     }
   }
+
+  async getOrderFills(symbol: string, orderId: string): Promise<Fill[]> {
+    try {
+      const response: RawTrade[] = await this.signedRequest('/myTrades', 'GET', { symbol, orderId });
+      return response.map(toFill);
+    } catch (error) {
+      console.error('Error in getOrderFills:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('約定明細の取得に失敗しました');
+      }
+    }
+  }
+
+  async cancelAllOrders(symbol: string): Promise<Order[]> {
+    try {
+      const response: RawOrder[] = await this.signedRequest('/openOrders', 'DELETE', { symbol });
+      // OCO注文はorderReportsにまとめて返るため、単独の注文だけを取り出す
+      return response.filter(raw => raw.orderId !== undefined).map(toOrder);
+    } catch (error) {
+      console.error('Error in cancelAllOrders:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('注文の一括キャンセルに失敗しました');
+      }
+    }
+  }
 }
 
 export { BinanceApiClient }; 
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * @jest-environment node
+ */
+import { webcrypto } from 'crypto';
+import { CredentialVault, readPlaintextCredentials } from './credentialVault';
+
+// jestのnode環境にはWeb Crypto APIがないため、Node標準モジュールで代替する
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const createStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    }
+  };
+};
+
+const CREDENTIALS = { apiKey: 'test-api-key', apiSecret: 'test-api-secret' };
+
+describe('CredentialVault', () => {
+  let storage: ReturnType<typeof createStorage>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    storage = createStorage();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('APIキーを暗号化して保存し、パスフレーズで復号する', async () => {
+    const vault = new CredentialVault({ storage, iterations: 1000 });
+    await vault.create('correct horse', { binance: CREDENTIALS });
+
+    const saved = storage.items.get('gridBotCredentialVault') ?? '';
+    expect(saved).not.toContain(CREDENTIALS.apiSecret);
+
+    const reopened = new CredentialVault({ storage });
+    await expect(reopened.unlock('wrong')).rejects.toThrow('パスフレーズが正しくありません');
+    expect(reopened.isUnlocked()).toBe(false);
+
+    await reopened.unlock('correct horse');
+    expect(reopened.getCredentials('binance')).toEqual(CREDENTIALS);
+    vault.lock();
+    reopened.lock();
+  });
+
+  test('一定時間操作がなければ自動でロックする', async () => {
+    jest.useFakeTimers();
+    const onLockChange = jest.fn();
+    const vault = new CredentialVault({ storage, iterations: 1000, autoLockMs: 1000, onLockChange });
+    await vault.create('passphrase', { binance: CREDENTIALS });
+
+    vault.touch();
+    jest.advanceTimersByTime(900);
+    vault.touch();
+    jest.advanceTimersByTime(900);
+    expect(vault.isUnlocked()).toBe(true);
+
+    jest.advanceTimersByTime(100);
+    expect(vault.isUnlocked()).toBe(false);
+    expect(vault.getCredentials('binance')).toBeNull();
+    expect(onLockChange).toHaveBeenLastCalledWith(false);
+  });
+
+  test('平文のAPIキーを移行して削除する', async () => {
+    storage.setItem('gridBotApiSettings', JSON.stringify({ exchange: 'bitflyer', tradingMode: 'mainnet', ...CREDENTIALS }));
+    storage.setItem('binanceApiKey', 'legacy-key');
+    storage.setItem('binanceApiSecret', 'legacy-secret');
+
+    const vault = new CredentialVault({ storage, iterations: 1000 });
+    expect(await vault.migratePlaintext('passphrase')).toEqual(['binance', 'bitflyer']);
+
+    expect(readPlaintextCredentials(storage)).toEqual({});
+    expect(storage.getItem('binanceApiSecret')).toBeNull();
+    expect(JSON.parse(storage.getItem('gridBotApiSettings') ?? '{}')).toEqual({ exchange: 'bitflyer', tradingMode: 'mainnet' });
+    expect(vault.getCredentials('bitflyer')).toEqual(CREDENTIALS);
+    expect(vault.getCredentials('binance')).toEqual({ apiKey: 'legacy-key', apiSecret: 'legacy-secret' });
+    vault.lock();
+  });
+});
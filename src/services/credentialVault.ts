@@ -0,0 +1,242 @@
+import { ExchangeCredentials } from './exchanges/types';
+
+const VAULT_STORAGE_KEY = 'gridBotCredentialVault';
+const API_SETTINGS_KEY = 'gridBotApiSettings';
+// 旧バージョンが平文で保存していたキー
+const LEGACY_KEYS = ['binanceApiKey', 'binanceApiSecret'];
+
+// PBKDF2の反復回数（OWASP推奨値）
+const DEFAULT_ITERATIONS = 600000;
+export const DEFAULT_AUTO_LOCK_MS = 15 * 60 * 1000;
+
+// 取引所IDごとのAPIキー
+export type VaultContents = Record<string, ExchangeCredentials>;
+
+type StorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+interface StoredVault {
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  iv: string;
+  data: string;
+}
+
+interface CredentialVaultConfig {
+  storage?: StorageLike;
+  iterations?: number;
+  autoLockMs?: number;
+  onLockChange?: (unlocked: boolean) => void;
+}
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...Array.from(bytes)));
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+// 平文で保存されたAPIキー（API設定・旧形式）を取引所IDごとに読み出す
+export const readPlaintextCredentials = (storage: StorageLike = localStorage): VaultContents => {
+  const contents: VaultContents = {};
+
+  const apiKey = storage.getItem('binanceApiKey');
+  const apiSecret = storage.getItem('binanceApiSecret');
+  if (apiKey && apiSecret) {
+    contents.binance = { apiKey, apiSecret };
+  }
+
+  const savedSettings = storage.getItem(API_SETTINGS_KEY);
+  if (savedSettings) {
+    const settings = JSON.parse(savedSettings);
+    if (settings.apiKey && settings.apiSecret) {
+      contents[settings.exchange ?? 'binance'] = { apiKey: settings.apiKey, apiSecret: settings.apiSecret };
+    }
+  }
+  return contents;
+};
+
+// 平文のAPIキーを削除する（API設定のその他の項目は残す）
+export const wipePlaintextCredentials = (storage: StorageLike = localStorage) => {
+  LEGACY_KEYS.forEach(key => storage.removeItem(key));
+
+  const savedSettings = storage.getItem(API_SETTINGS_KEY);
+  if (savedSettings) {
+    const { apiKey, apiSecret, ...settings } = JSON.parse(savedSettings);
+    storage.setItem(API_SETTINGS_KEY, JSON.stringify(settings));
+  }
+};
+
+// パスフレーズから導出した鍵（PBKDF2）でAPIキーをAES-GCM暗号化して保存する
+// 解除中のみ鍵と内容をメモリに保持し、一定時間操作がなければ自動でロックする
+class CredentialVault {
+  private storage: StorageLike;
+  private iterations: number;
+  private autoLockMs: number;
+  private config: CredentialVaultConfig;
+  private key: CryptoKey | null = null;
+  private salt: Uint8Array | null = null;
+  private contents: VaultContents | null = null;
+  private lockTimer: ReturnType<typeof setTimeout> | null = null;
+  // ログには状態の変化のみを出し、開発サーバー以外では出力しない
+  private readonly DEBUG = process.env.NODE_ENV === 'development';
+
+  constructor(config: CredentialVaultConfig = {}) {
+    this.config = config;
+    this.storage = config.storage ?? localStorage;
+    this.iterations = config.iterations ?? DEFAULT_ITERATIONS;
+    this.autoLockMs = config.autoLockMs ?? DEFAULT_AUTO_LOCK_MS;
+  }
+
+  private debug(...args: any[]) {
+    if (this.DEBUG) {
+      console.log('[CredentialVault]', ...args);
+    }
+  }
+
+  private readStored(): StoredVault | null {
+    const saved = this.storage.getItem(VAULT_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  }
+
+  private async persist() {
+    if (!this.key || !this.salt || !this.contents) {
+      throw new Error('保管庫がロックされています');
+    }
+    // 保存のたびに新しいIVを使う
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      this.key,
+      new TextEncoder().encode(JSON.stringify(this.contents))
+    );
+    const stored: StoredVault = {
+      version: 1,
+      kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: this.iterations, salt: toBase64(this.salt) },
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(data))
+    };
+    this.storage.setItem(VAULT_STORAGE_KEY, JSON.stringify(stored));
+  }
+
+  private setUnlocked(key: CryptoKey, salt: Uint8Array, contents: VaultContents) {
+    this.key = key;
+    this.salt = salt;
+    this.contents = contents;
+    this.touch();
+    this.config.onLockChange?.(true);
+  }
+
+  exists(): boolean {
+    return this.storage.getItem(VAULT_STORAGE_KEY) !== null;
+  }
+
+  isUnlocked(): boolean {
+    return this.contents !== null;
+  }
+
+  // 新しいパスフレーズで保管庫を作成する（既存の保管庫は上書き）
+  async create(passphrase: string, contents: VaultContents = {}) {
+    if (!passphrase) {
+      throw new Error('パスフレーズを入力してください');
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    this.setUnlocked(await deriveKey(passphrase, salt, this.iterations), salt, { ...contents });
+    await this.persist();
+    this.debug('保管庫を作成しました');
+  }
+
+  async unlock(passphrase: string): Promise<VaultContents> {
+    const stored = this.readStored();
+    if (!stored) {
+      throw new Error('保管庫が作成されていません');
+    }
+
+    const salt = fromBase64(stored.kdf.salt);
+    const key = await deriveKey(passphrase, salt, stored.kdf.iterations);
+    let contents: VaultContents;
+    try {
+      const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(stored.iv) }, key, fromBase64(stored.data));
+      contents = JSON.parse(new TextDecoder().decode(data));
+    } catch (error) {
+      throw new Error('パスフレーズが正しくありません');
+    }
+
+    this.iterations = stored.kdf.iterations;
+    this.setUnlocked(key, salt, contents);
+    this.debug('保管庫のロックを解除しました');
+    return { ...contents };
+  }
+
+  // 平文のAPIキーを保管庫に移し、暗号化できたら平文を削除する
+  async migratePlaintext(passphrase: string): Promise<string[]> {
+    const plaintext = readPlaintextCredentials(this.storage);
+    if (this.isUnlocked() || this.exists()) {
+      if (!this.isUnlocked()) {
+        await this.unlock(passphrase);
+      }
+      this.contents = { ...plaintext, ...this.contents };
+      await this.persist();
+    } else {
+      await this.create(passphrase, plaintext);
+    }
+    wipePlaintextCredentials(this.storage);
+    this.debug('平文のAPIキーを移行しました:', Object.keys(plaintext));
+    return Object.keys(plaintext);
+  }
+
+  getCredentials(exchange: string): ExchangeCredentials | null {
+    if (!this.contents) return null;
+    this.touch();
+    return this.contents[exchange] ?? null;
+  }
+
+  async setCredentials(exchange: string, credentials: ExchangeCredentials) {
+    if (!this.contents) {
+      throw new Error('保管庫がロックされています');
+    }
+    this.contents = { ...this.contents, [exchange]: credentials };
+    await this.persist();
+    this.touch();
+  }
+
+  // 操作があったときに自動ロックまでの時間を延長する
+  touch() {
+    if (!this.contents) return;
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+    }
+    this.lockTimer = setTimeout(() => {
+      this.debug('操作がないため自動でロックしました');
+      this.lock();
+    }, this.autoLockMs);
+  }
+
+  lock() {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+    const wasUnlocked = this.contents !== null;
+    this.key = null;
+    this.salt = null;
+    this.contents = null;
+    if (wasUnlocked) {
+      this.config.onLockChange?.(false);
+    }
+  }
+
+  // パスフレーズを忘れた場合に保管庫ごと削除する
+  reset() {
+    this.lock();
+    this.storage.removeItem(VAULT_STORAGE_KEY);
+  }
+}
+
+export { CredentialVault };
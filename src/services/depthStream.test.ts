@@ -0,0 +1,162 @@
+import recordedDepth from '../../fixtures/depth/BTCUSDT.json';
+import { DepthStatus, DepthStream } from './depthStream';
+import { DepthSnapshot, OrderBookView, parseDepthSnapshot } from './orderBook';
+import { WebSocketLike } from './priceStream';
+
+// テスト用のWebSocket代替
+class FakeSocket implements WebSocketLike {
+  readyState = 0;
+  sent: any[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const { snapshot, updates } = recordedDepth;
+
+// スナップショットの応答を任意の時点で返せるようにする
+const createStream = () => {
+  const sockets: FakeSocket[] = [];
+  const books: OrderBookView[] = [];
+  const statuses: DepthStatus[] = [];
+  const resyncs: string[] = [];
+  const pending: (() => void)[] = [];
+  const fetchSnapshot = jest.fn((symbol: string) => new Promise<DepthSnapshot>(resolve => {
+    pending.push(() => resolve(parseDepthSnapshot(snapshot)));
+  }));
+
+  const stream = new DepthStream({
+    url: 'ws://localhost:4001/ws',
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    fetchSnapshot,
+    onBook: book => books.push(book),
+    onStatusChange: status => statuses.push(status),
+    onResync: reason => resyncs.push(reason)
+  });
+
+  // 保留中のスナップショットを返し、適用まで待つ
+  const respond = async () => {
+    pending.shift()?.();
+    await Promise.resolve();
+    await Promise.resolve();
+  };
+
+  return { stream, sockets, books, statuses, resyncs, fetchSnapshot, respond };
+};
+
+describe('DepthStream', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('記録した板: 取得中の差分を貯め、スナップショット以降の差分を適用する', async () => {
+    const { stream, sockets, books, statuses, fetchSnapshot, respond } = createStream();
+    stream.subscribe('BTCUSDT');
+    stream.connect();
+    sockets[0].open();
+
+    expect(sockets[0].sent).toEqual([{ method: 'SUBSCRIBE', params: ['btcusdt@depth@100ms'], id: 1 }]);
+    expect(fetchSnapshot).toHaveBeenCalledWith('BTCUSDT');
+
+    updates.slice(0, 4).forEach(update => sockets[0].receive(update));
+    expect(books).toHaveLength(0);
+    await respond();
+
+    expect(statuses).toEqual(['connecting', 'syncing', 'synced']);
+    expect(books[books.length - 1].lastUpdateId).toBe(updates[3].u);
+
+    updates.slice(4).forEach(update => sockets[0].receive(update));
+    const book = books[books.length - 1];
+    expect(book.lastUpdateId).toBe(updates[updates.length - 1].u);
+    // 記録の途中で追加された気配がスプレッドを狭める
+    expect(book.bids[0][0]).toBe(28908.2);
+    expect(book.asks[0][0]).toBe(28908.3);
+    expect(book.bids.every(([, quantity]) => quantity > 0)).toBe(true);
+  });
+
+  test('更新IDが途切れたらスナップショットから取り直す', async () => {
+    const { stream, sockets, books, resyncs, fetchSnapshot, respond } = createStream();
+    stream.subscribe('BTCUSDT');
+    stream.connect();
+    sockets[0].open();
+    await respond();
+
+    sockets[0].receive(updates[2]);
+    // 1件欠落
+    sockets[0].receive(updates[4]);
+
+    expect(resyncs).toHaveLength(1);
+    expect(resyncs[0]).toContain('連続していません');
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+
+    // 取り直し中の差分は貯めておき、スナップショットの後に適用する
+    const count = books.length;
+    sockets[0].receive(updates[2]);
+    expect(books).toHaveLength(count);
+    await respond();
+    expect(books[books.length - 1].lastUpdateId).toBe(updates[2].u);
+  });
+
+  test('スナップショットが貯めた差分より古ければ待ってから取り直す', async () => {
+    const { stream, sockets, resyncs, fetchSnapshot, respond } = createStream();
+    stream.subscribe('BTCUSDT');
+    stream.connect();
+    sockets[0].open();
+
+    sockets[0].receive(updates[5]);
+    await respond();
+
+    expect(resyncs[0]).toContain('差分が欠けています');
+    expect(fetchSnapshot).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1000);
+    expect(fetchSnapshot).toHaveBeenCalledTimes(2);
+  });
+
+  test('通貨ペアを切り替えると購読を変えて板を作り直す', async () => {
+    const { stream, sockets, fetchSnapshot, respond } = createStream();
+    stream.subscribe('BTCUSDT');
+    stream.connect();
+    sockets[0].open();
+    await respond();
+
+    stream.subscribe('ETHUSDT');
+
+    expect(sockets[0].sent.slice(1)).toEqual([
+      { method: 'UNSUBSCRIBE', params: ['btcusdt@depth@100ms'], id: 2 },
+      { method: 'SUBSCRIBE', params: ['ethusdt@depth@100ms'], id: 3 }
+    ]);
+    expect(fetchSnapshot).toHaveBeenLastCalledWith('ETHUSDT');
+
+    stream.disconnect();
+  });
+});
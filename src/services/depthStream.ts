@@ -0,0 +1,225 @@
+import { DepthSnapshot, DepthUpdate, OrderBook, OrderBookView, parseDepthUpdate } from './orderBook';
+import { WebSocketLike } from './priceStream';
+
+// Binanceの差分板ストリーム（開発時はstream-mock-server.jsを指定）
+const DEFAULT_STREAM_URL = process.env.REACT_APP_STREAM_URL || 'wss://stream.binance.com:9443/ws';
+const INITIAL_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+const SOCKET_OPEN = 1;
+// 画面に渡す板の段数
+const DEFAULT_VIEW_DEPTH = 50;
+
+// syncing: スナップショットを取得して差分と突き合わせている / synced: 板を更新中
+export type DepthStatus = 'idle' | 'connecting' | 'syncing' | 'synced' | 'reconnecting' | 'closed';
+
+interface DepthStreamConfig {
+  fetchSnapshot: (symbol: string) => Promise<DepthSnapshot>;
+  url?: string;
+  createSocket?: (url: string) => WebSocketLike;
+  viewDepth?: number;
+  onBook?: (book: OrderBookView) => void;
+  onStatusChange?: (status: DepthStatus) => void;
+  // 更新IDの欠落などで板を取り直したとき
+  onResync?: (reason: string) => void;
+}
+
+// 差分板ストリームを購読し、RESTのスナップショットと合わせてローカルの板を保つ
+// 更新IDが途切れたらスナップショットから取り直す
+class DepthStream {
+  private url: string;
+  private createSocket: (url: string) => WebSocketLike;
+  private config: DepthStreamConfig;
+  private socket: WebSocketLike | null = null;
+  private symbol = '';
+  private requestId = 1;
+  private book: OrderBook | null = null;
+  // スナップショットの取得中に届いた差分
+  private buffer: DepthUpdate[] = [];
+  // 取り直しのたびに増やし、古いスナップショットの応答を無視する
+  private generation = 0;
+  private retryDelay = INITIAL_RETRY_DELAY;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+  private readonly DEBUG = process.env.NODE_ENV === 'development';
+
+  constructor(config: DepthStreamConfig) {
+    this.config = config;
+    this.url = config.url ?? DEFAULT_STREAM_URL;
+    this.createSocket = config.createSocket ?? (url => new WebSocket(url));
+  }
+
+  private debug(...args: any[]) {
+    if (this.DEBUG) {
+      console.log('[DepthStream]', ...args);
+    }
+  }
+
+  private setStatus(status: DepthStatus) {
+    this.config.onStatusChange?.(status);
+  }
+
+  private streamName(symbol: string): string {
+    return `${symbol.toLowerCase()}@depth@100ms`;
+  }
+
+  private send(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', symbol: string) {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN || !symbol) return;
+    this.socket.send(JSON.stringify({ method, params: [this.streamName(symbol)], id: this.requestId++ }));
+  }
+
+  // 通貨ペアを切り替える（板は新しい通貨ペアのスナップショットから作り直す）
+  subscribe(symbol: string) {
+    if (symbol === this.symbol) return;
+    this.send('UNSUBSCRIBE', this.symbol);
+    this.symbol = symbol;
+    this.send('SUBSCRIBE', symbol);
+    if (this.socket?.readyState === SOCKET_OPEN) {
+      this.resync();
+    }
+  }
+
+  connect() {
+    this.shouldReconnect = true;
+    if (this.socket) return;
+
+    this.setStatus('connecting');
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.debug('接続しました:', this.url);
+      this.send('SUBSCRIBE', this.symbol);
+      this.resync();
+    };
+
+    socket.onmessage = (event) => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = (event) => {
+      console.error('[DepthStream Error]', event);
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.book = null;
+      this.generation++;
+      if (!this.shouldReconnect) {
+        this.setStatus('closed');
+        return;
+      }
+      this.setStatus('reconnecting');
+      this.scheduleRetry(() => this.connect());
+    };
+  }
+
+  disconnect() {
+    this.shouldReconnect = false;
+    this.generation++;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+    this.book = null;
+    this.setStatus('closed');
+  }
+
+  private scheduleRetry(action: () => void) {
+    this.debug(`${this.retryDelay}ms後に再試行します`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      action();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+  }
+
+  // 届いている差分を貯めながらスナップショットを取得し、スナップショット以降の差分を適用する
+  private async resync(reason?: string) {
+    if (!this.symbol) return;
+    if (reason) {
+      this.debug('板を取り直します:', reason);
+      this.config.onResync?.(reason);
+    }
+
+    const generation = ++this.generation;
+    const symbol = this.symbol;
+    this.book = null;
+    this.buffer = [];
+    this.setStatus('syncing');
+
+    let snapshot: DepthSnapshot;
+    try {
+      snapshot = await this.config.fetchSnapshot(symbol);
+    } catch (error) {
+      console.error('[DepthStream Error] 板のスナップショットの取得に失敗しました:', error);
+      if (generation === this.generation) {
+        this.scheduleRetry(() => this.resync());
+      }
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    const book = new OrderBook(snapshot);
+    const buffered = this.buffer;
+    this.buffer = [];
+    for (const update of buffered) {
+      if (book.apply(update) === 'gap') {
+        // スナップショットが差分より古い場合は、少し待ってから取り直す
+        const reason = `スナップショット（${snapshot.lastUpdateId}）の後の差分が欠けています（${update.firstUpdateId}〜）`;
+        this.debug('板を取り直します:', reason);
+        this.config.onResync?.(reason);
+        this.scheduleRetry(() => this.resync());
+        return;
+      }
+    }
+
+    this.book = book;
+    this.retryDelay = INITIAL_RETRY_DELAY;
+    this.setStatus('synced');
+    this.emit();
+  }
+
+  private emit() {
+    if (this.book) {
+      this.config.onBook?.(this.book.view(this.config.viewDepth ?? DEFAULT_VIEW_DEPTH));
+    }
+  }
+
+  private handleMessage(data: any) {
+    let message: any;
+    try {
+      message = JSON.parse(typeof data === 'string' ? data : data.toString());
+    } catch (error) {
+      console.error('[DepthStream Error] メッセージの解析に失敗しました:', error);
+      return;
+    }
+
+    const payload = message.data ?? message;
+    if (payload.e !== 'depthUpdate' || payload.s !== this.symbol) return;
+
+    let update: DepthUpdate;
+    try {
+      update = parseDepthUpdate(payload);
+    } catch (error) {
+      console.error('[DepthStream Error] 差分の解析に失敗しました:', error);
+      return;
+    }
+
+    if (!this.book) {
+      this.buffer.push(update);
+      return;
+    }
+    if (this.book.apply(update) === 'gap') {
+      this.resync(`更新IDが連続していません（${this.book.getLastUpdateId()}の次が${update.firstUpdateId}）`);
+      return;
+    }
+    this.emit();
+  }
+}
+
+export { DepthStream };
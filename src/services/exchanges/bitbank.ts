@@ -0,0 +1,210 @@
+import { Candle } from '../marketData';
+import { SymbolFilters } from '../../utils/symbolFilters';
+import { RequestParams, candlePeriods, hmacSha256Hex, readJson, toBalance, toCandleType, withQuery } from './common';
+import {
+  AssetBalance,
+  Balance,
+  ExchangeAdapter,
+  ExchangeAdapterOptions,
+  ExchangeCredentials,
+  Order,
+  OrderParams,
+  Ticker
+} from './types';
+
+const BASE_URL = 'https://api.bitbank.cc';
+const PUBLIC_BASE_URL = 'https://public.bitbank.cc';
+
+interface RawOrder {
+  order_id: number;
+  pair: string;
+  side: 'buy' | 'sell';
+  type: string;
+  start_amount: string;
+  price?: string;
+  status: string;
+}
+
+const STATUS_MAP: Record<string, string> = {
+  UNFILLED: 'NEW',
+  PARTIALLY_FILLED: 'PARTIALLY_FILLED',
+  FULLY_FILLED: 'FILLED',
+  CANCELED_UNFILLED: 'CANCELED',
+  CANCELED_PARTIALLY_FILLED: 'CANCELED'
+};
+
+const toOrder = (raw: RawOrder): Order => ({
+  symbol: raw.pair,
+  orderId: String(raw.order_id),
+  price: raw.price ?? '0',
+  quantity: raw.start_amount,
+  side: raw.side === 'buy' ? 'BUY' : 'SELL',
+  status: STATUS_MAP[raw.status] ?? raw.status
+});
+
+// 小数点以下の桁数から刻み幅を求める（2 → 0.01）
+const digitsToStep = (digits: number): number => parseFloat((10 ** -digits).toFixed(digits));
+
+class BitbankAdapter implements ExchangeAdapter {
+  readonly id = 'bitbank' as const;
+  private apiKey: string;
+  private apiSecret: string;
+  private baseUrl: string;
+  private publicBaseUrl: string;
+  private fetcher: typeof fetch;
+  private now: () => number;
+  private lastNonce = 0;
+
+  constructor(credentials: ExchangeCredentials, options: ExchangeAdapterOptions = {}) {
+    this.apiKey = credentials.apiKey;
+    this.apiSecret = credentials.apiSecret;
+    this.baseUrl = options.baseUrl ?? BASE_URL;
+    this.publicBaseUrl = options.publicBaseUrl ?? PUBLIC_BASE_URL;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  private nextNonce(): string {
+    this.lastNonce = Math.max(this.now(), this.lastNonce + 1);
+    return String(this.lastNonce);
+  }
+
+  private async parse(response: Response) {
+    const data = await readJson(response);
+    if (!response.ok || data?.success !== 1) {
+      console.error('[bitbank Error]', data ?? response.status);
+      throw new Error(data?.data?.code
+        ? `bitbank APIエラー (${data.data.code})`
+        : `bitbank APIエラー: HTTP error! status: ${response.status}`);
+    }
+    return data.data;
+  }
+
+  private async publicRequest(path: string) {
+    return this.parse(await this.fetcher(`${this.publicBaseUrl}${path}`, { method: 'GET' }));
+  }
+
+  // 署名: GETはHMAC-SHA256(ACCESS-NONCE + パス（クエリ含む）)、POSTはHMAC-SHA256(ACCESS-NONCE + 本文)
+  private async privateRequest(method: 'GET' | 'POST', path: string, options: { params?: RequestParams; body?: object } = {}) {
+    const pathWithQuery = withQuery(path, options.params);
+    const body = options.body ? JSON.stringify(options.body) : '';
+    const nonce = this.nextNonce();
+    const signature = await hmacSha256Hex(this.apiSecret, nonce + (method === 'GET' ? pathWithQuery : body));
+
+    const response = await this.fetcher(`${this.baseUrl}${pathWithQuery}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        'ACCESS-KEY': this.apiKey,
+        'ACCESS-NONCE': nonce,
+        'ACCESS-SIGNATURE': signature
+      },
+      body: body || undefined
+    });
+    return this.parse(response);
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    try {
+      await this.getBalances();
+      return true;
+    } catch (error) {
+      console.error('[bitbank Error] 認証検証エラー:', error);
+      return false;
+    }
+  }
+
+  async getBalances(): Promise<AssetBalance[]> {
+    const response = await this.privateRequest('GET', '/v1/user/assets');
+    const assets: { asset: string; free_amount: string; locked_amount: string }[] = response.assets;
+    return assets.map(a => ({
+      asset: a.asset.toUpperCase(),
+      free: parseFloat(a.free_amount),
+      locked: parseFloat(a.locked_amount)
+    }));
+  }
+
+  async getAccountBalance(baseAsset: string = 'BTC', quoteAsset: string = 'JPY'): Promise<Balance> {
+    return toBalance(await this.getBalances(), baseAsset, quoteAsset);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<Ticker> {
+    const ticker = await this.publicRequest(`/${symbol}/ticker`);
+    return { symbol, price: ticker.last };
+  }
+
+  // ローソク足は日付（1時間足以下）または年単位で取得する
+  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<Candle[]> {
+    const candleType = toCandleType(interval);
+    const candles: Candle[] = [];
+
+    for (const period of candlePeriods(interval, limit, this.now())) {
+      const response = await this.publicRequest(`/${symbol}/candlestick/${candleType}/${period}`);
+      const ohlcv: [string, string, string, string, string, number][] = response.candlestick[0]?.ohlcv ?? [];
+      candles.unshift(...ohlcv.map(([open, high, low, close, volume, time]) => ({
+        openTime: time,
+        open: parseFloat(open),
+        high: parseFloat(high),
+        low: parseFloat(low),
+        close: parseFloat(close),
+        volume: parseFloat(volume)
+      })));
+      if (candles.length >= limit) break;
+    }
+
+    return candles.sort((a, b) => a.openTime - b.openTime).slice(-limit);
+  }
+
+  async getSymbolFilters(symbol: string): Promise<SymbolFilters> {
+    const response = await this.privateRequest('GET', '/v1/spot/pairs');
+    const pairs: { name: string; unit_amount: string; price_digits: number; amount_digits: number }[] = response.pairs;
+    const pair = pairs.find(p => p.name === symbol);
+    if (!pair) {
+      throw new Error(`${symbol}の取引ルールが見つかりません`);
+    }
+    const tickSize = digitsToStep(pair.price_digits);
+    return {
+      symbol,
+      tickSize,
+      minPrice: tickSize,
+      stepSize: digitsToStep(pair.amount_digits),
+      minQty: parseFloat(pair.unit_amount),
+      minNotional: 0
+    };
+  }
+
+  async createOrder(orderParams: OrderParams): Promise<Order> {
+    const isMarket = orderParams.type === 'MARKET';
+    const order: RawOrder = await this.privateRequest('POST', '/v1/user/spot/order', {
+      body: {
+        pair: orderParams.symbol,
+        amount: orderParams.quantity,
+        price: isMarket ? undefined : orderParams.price,
+        side: orderParams.side === 'BUY' ? 'buy' : 'sell',
+        type: isMarket ? 'market' : 'limit'
+      }
+    });
+    return toOrder(order);
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    const order: RawOrder = await this.privateRequest('GET', '/v1/user/spot/order', {
+      params: { pair: symbol, order_id: orderId }
+    });
+    return toOrder(order);
+  }
+
+  async getOpenOrders(symbol: string): Promise<Order[]> {
+    const response = await this.privateRequest('GET', '/v1/user/spot/active_orders', { params: { pair: symbol } });
+    return (response.orders as RawOrder[]).map(toOrder);
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<Order> {
+    const order: RawOrder = await this.privateRequest('POST', '/v1/user/spot/cancel_order', {
+      body: { pair: symbol, order_id: Number(orderId) }
+    });
+    return toOrder(order);
+  }
+}
+
+export { BitbankAdapter };
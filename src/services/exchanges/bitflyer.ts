@@ -0,0 +1,208 @@
+import { Candle } from '../marketData';
+import { SymbolFilters } from '../../utils/symbolFilters';
+import { RequestParams, aggregateTrades, asCanceled, hmacSha256Hex, readJson, toBalance, withQuery } from './common';
+import {
+  AssetBalance,
+  Balance,
+  ExchangeAdapter,
+  ExchangeAdapterOptions,
+  ExchangeCredentials,
+  Order,
+  OrderParams,
+  Ticker
+} from './types';
+
+const BASE_URL = 'https://api.bitflyer.com';
+// 約定履歴からローソク足を作るため、取得できる最大件数を使う
+const EXECUTION_COUNT = 500;
+
+// 公開APIで取得できないため、公式の取引ルールを転記
+const SYMBOL_RULES: Record<string, Omit<SymbolFilters, 'symbol'>> = {
+  BTC_JPY: { tickSize: 1, minPrice: 1, stepSize: 0.00000001, minQty: 0.001, minNotional: 0 },
+  ETH_JPY: { tickSize: 1, minPrice: 1, stepSize: 0.00000001, minQty: 0.01, minNotional: 0 },
+  XRP_JPY: { tickSize: 0.01, minPrice: 0.01, stepSize: 0.000001, minQty: 0.1, minNotional: 0 }
+};
+
+interface RawChildOrder {
+  child_order_acceptance_id: string;
+  product_code: string;
+  side: 'BUY' | 'SELL';
+  price: number;
+  size: number;
+  executed_size: number;
+  child_order_state: 'ACTIVE' | 'COMPLETED' | 'CANCELED' | 'EXPIRED' | 'REJECTED';
+}
+
+const STATUS_MAP: Record<RawChildOrder['child_order_state'], string> = {
+  ACTIVE: 'NEW',
+  COMPLETED: 'FILLED',
+  CANCELED: 'CANCELED',
+  EXPIRED: 'EXPIRED',
+  REJECTED: 'REJECTED'
+};
+
+const toOrder = (raw: RawChildOrder): Order => ({
+  symbol: raw.product_code,
+  orderId: raw.child_order_acceptance_id,
+  price: String(raw.price),
+  quantity: String(raw.size),
+  side: raw.side,
+  status: raw.child_order_state === 'ACTIVE' && raw.executed_size > 0
+    ? 'PARTIALLY_FILLED'
+    : STATUS_MAP[raw.child_order_state]
+});
+
+class BitflyerAdapter implements ExchangeAdapter {
+  readonly id = 'bitflyer' as const;
+  private apiKey: string;
+  private apiSecret: string;
+  private baseUrl: string;
+  private fetcher: typeof fetch;
+  private now: () => number;
+
+  constructor(credentials: ExchangeCredentials, options: ExchangeAdapterOptions = {}) {
+    this.apiKey = credentials.apiKey;
+    this.apiSecret = credentials.apiSecret;
+    this.baseUrl = options.baseUrl ?? BASE_URL;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  // 署名: HMAC-SHA256(ACCESS-TIMESTAMP + メソッド + パス（クエリ含む） + 本文)
+  private async request(method: string, path: string, options: { params?: RequestParams; body?: object; auth?: boolean } = {}) {
+    const pathWithQuery = withQuery(path, options.params);
+    const body = options.body ? JSON.stringify(options.body) : '';
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (options.auth) {
+      const timestamp = String(Math.floor(this.now() / 1000));
+      headers['ACCESS-KEY'] = this.apiKey;
+      headers['ACCESS-TIMESTAMP'] = timestamp;
+      headers['ACCESS-SIGN'] = await hmacSha256Hex(this.apiSecret, timestamp + method + pathWithQuery + body);
+    }
+
+    const response = await this.fetcher(`${this.baseUrl}${pathWithQuery}`, {
+      method,
+      headers,
+      body: body || undefined
+    });
+    const data = await readJson(response);
+
+    if (!response.ok) {
+      const message = data?.error_message ?? `HTTP error! status: ${response.status}`;
+      console.error('[bitFlyer Error]', data ?? response.status);
+      throw new Error(`bitFlyer APIエラー (${data?.status ?? response.status}): ${message}`);
+    }
+    return data;
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    try {
+      await this.getBalances();
+      return true;
+    } catch (error) {
+      console.error('[bitFlyer Error] 認証検証エラー:', error);
+      return false;
+    }
+  }
+
+  async getBalances(): Promise<AssetBalance[]> {
+    const balances: { currency_code: string; amount: number; available: number }[] =
+      await this.request('GET', '/v1/me/getbalance', { auth: true });
+    return balances.map(b => ({
+      asset: b.currency_code,
+      free: b.available,
+      locked: b.amount - b.available
+    }));
+  }
+
+  async getAccountBalance(baseAsset: string = 'BTC', quoteAsset: string = 'JPY'): Promise<Balance> {
+    return toBalance(await this.getBalances(), baseAsset, quoteAsset);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<Ticker> {
+    const ticker = await this.request('GET', '/v1/ticker', { params: { product_code: symbol } });
+    return { symbol, price: String(ticker.ltp) };
+  }
+
+  // ローソク足APIがないため、直近の約定履歴から組み立てる
+  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<Candle[]> {
+    const executions: { price: number; size: number; exec_date: string }[] = await this.request('GET', '/v1/executions', {
+      params: { product_code: symbol, count: EXECUTION_COUNT }
+    });
+    return aggregateTrades(
+      executions.map(e => ({ time: new Date(`${e.exec_date}Z`).getTime(), price: e.price, quantity: e.size })),
+      interval,
+      limit
+    );
+  }
+
+  async getSymbolFilters(symbol: string): Promise<SymbolFilters> {
+    const rules = SYMBOL_RULES[symbol];
+    if (!rules) {
+      throw new Error(`${symbol}の取引ルールが登録されていません`);
+    }
+    return { symbol, ...rules };
+  }
+
+  async createOrder(orderParams: OrderParams): Promise<Order> {
+    const isMarket = orderParams.type === 'MARKET';
+    const response = await this.request('POST', '/v1/me/sendchildorder', {
+      auth: true,
+      body: {
+        product_code: orderParams.symbol,
+        child_order_type: isMarket ? 'MARKET' : 'LIMIT',
+        side: orderParams.side,
+        price: isMarket ? undefined : Number(orderParams.price),
+        size: Number(orderParams.quantity),
+        time_in_force: 'GTC'
+      }
+    });
+
+    // 受付IDのみ返るため、発注内容から注文情報を組み立てる
+    return {
+      symbol: orderParams.symbol,
+      orderId: response.child_order_acceptance_id,
+      price: orderParams.price ?? '0',
+      quantity: orderParams.quantity,
+      side: orderParams.side,
+      status: 'NEW'
+    };
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    const orders: RawChildOrder[] = await this.request('GET', '/v1/me/getchildorders', {
+      auth: true,
+      params: { product_code: symbol, child_order_acceptance_id: orderId }
+    });
+    if (orders.length === 0) {
+      throw new Error(`注文が見つかりません: ${orderId}`);
+    }
+    return toOrder(orders[0]);
+  }
+
+  async getOpenOrders(symbol: string): Promise<Order[]> {
+    const orders: RawChildOrder[] = await this.request('GET', '/v1/me/getchildorders', {
+      auth: true,
+      params: { product_code: symbol, child_order_state: 'ACTIVE' }
+    });
+    return orders.map(toOrder);
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<Order> {
+    const order = await this.getOrder(symbol, orderId);
+    await this.request('POST', '/v1/me/cancelchildorder', {
+      auth: true,
+      body: { product_code: symbol, child_order_acceptance_id: orderId }
+    });
+    return asCanceled(order);
+  }
+
+  async cancelAllOrders(symbol: string): Promise<Order[]> {
+    const orders = await this.getOpenOrders(symbol);
+    await this.request('POST', '/v1/me/cancelallchildorders', { auth: true, body: { product_code: symbol } });
+    return orders.map(asCanceled);
+  }
+}
+
+export { BitflyerAdapter };
@@ -0,0 +1,200 @@
+import { Candle } from '../marketData';
+import { SymbolFilters } from '../../utils/symbolFilters';
+import { RequestParams, aggregateTrades, asCanceled, hmacSha256Hex, readJson, toBalance, withQuery } from './common';
+import {
+  AssetBalance,
+  Balance,
+  ExchangeAdapter,
+  ExchangeAdapterOptions,
+  ExchangeCredentials,
+  Order,
+  OrderParams,
+  Ticker
+} from './types';
+
+const BASE_URL = 'https://coincheck.com';
+const TRADE_COUNT = 100;
+
+// 公開APIで取得できないため、公式の取引ルールを転記
+const SYMBOL_RULES: Record<string, Omit<SymbolFilters, 'symbol'>> = {
+  btc_jpy: { tickSize: 1, minPrice: 1, stepSize: 0.00000001, minQty: 0.001, minNotional: 500 },
+  eth_jpy: { tickSize: 1, minPrice: 1, stepSize: 0.00000001, minQty: 0.001, minNotional: 500 },
+  xrp_jpy: { tickSize: 0.001, minPrice: 0.001, stepSize: 0.000001, minQty: 1, minNotional: 500 }
+};
+
+// 残高レスポンスのうち通貨以外の項目
+const NON_ASSET_KEYS = /^success$|_(reserved|lend_in_use|lent|debt|tsumitate)$/;
+
+const STATUS_MAP: Record<string, string> = {
+  NEW: 'NEW',
+  PARTIALLY_FILLED: 'PARTIALLY_FILLED',
+  FILLED: 'FILLED',
+  CANCELED: 'CANCELED',
+  EXPIRED: 'EXPIRED',
+  PARTIALLY_FILLED_CANCELED: 'CANCELED',
+  PARTIALLY_FILLED_EXPIRED: 'EXPIRED'
+};
+
+const toSide = (orderType: string): 'BUY' | 'SELL' => (orderType.endsWith('buy') ? 'BUY' : 'SELL');
+
+class CoincheckAdapter implements ExchangeAdapter {
+  readonly id = 'coincheck' as const;
+  private apiKey: string;
+  private apiSecret: string;
+  private baseUrl: string;
+  private fetcher: typeof fetch;
+  private now: () => number;
+  private lastNonce = 0;
+
+  constructor(credentials: ExchangeCredentials, options: ExchangeAdapterOptions = {}) {
+    this.apiKey = credentials.apiKey;
+    this.apiSecret = credentials.apiSecret;
+    this.baseUrl = options.baseUrl ?? BASE_URL;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  // ACCESS-NONCEは単調増加である必要がある
+  private nextNonce(): string {
+    this.lastNonce = Math.max(this.now(), this.lastNonce + 1);
+    return String(this.lastNonce);
+  }
+
+  // 署名: HMAC-SHA256(ACCESS-NONCE + URL + 本文)
+  private async request(method: string, path: string, options: { params?: RequestParams; body?: object; auth?: boolean } = {}) {
+    const url = `${this.baseUrl}${withQuery(path, options.params)}`;
+    const body = options.body ? JSON.stringify(options.body) : '';
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    if (options.auth) {
+      const nonce = this.nextNonce();
+      headers['ACCESS-KEY'] = this.apiKey;
+      headers['ACCESS-NONCE'] = nonce;
+      headers['ACCESS-SIGNATURE'] = await hmacSha256Hex(this.apiSecret, nonce + url + body);
+    }
+
+    const response = await this.fetcher(url, { method, headers, body: body || undefined });
+    const data = await readJson(response);
+
+    if (!response.ok || data?.success === false) {
+      const message = data?.error ?? `HTTP error! status: ${response.status}`;
+      console.error('[Coincheck Error]', data ?? response.status);
+      throw new Error(`Coincheck APIエラー: ${message}`);
+    }
+    return data;
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    try {
+      await this.getBalances();
+      return true;
+    } catch (error) {
+      console.error('[Coincheck Error] 認証検証エラー:', error);
+      return false;
+    }
+  }
+
+  async getBalances(): Promise<AssetBalance[]> {
+    const response: Record<string, any> = await this.request('GET', '/api/accounts/balance', { auth: true });
+    return Object.keys(response)
+      .filter(key => !NON_ASSET_KEYS.test(key))
+      .map(key => ({
+        asset: key.toUpperCase(),
+        free: parseFloat(response[key]),
+        locked: parseFloat(response[`${key}_reserved`] ?? '0')
+      }));
+  }
+
+  async getAccountBalance(baseAsset: string = 'BTC', quoteAsset: string = 'JPY'): Promise<Balance> {
+    return toBalance(await this.getBalances(), baseAsset, quoteAsset);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<Ticker> {
+    const ticker = await this.request('GET', '/api/ticker', { params: { pair: symbol } });
+    return { symbol, price: String(ticker.last) };
+  }
+
+  // ローソク足APIがないため、直近の約定履歴から組み立てる
+  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<Candle[]> {
+    const response = await this.request('GET', '/api/trades', { params: { pair: symbol, limit: TRADE_COUNT } });
+    const trades: { rate: string; amount: string; created_at: string }[] = response.data;
+    return aggregateTrades(
+      trades.map(t => ({ time: new Date(t.created_at).getTime(), price: parseFloat(t.rate), quantity: parseFloat(t.amount) })),
+      interval,
+      limit
+    );
+  }
+
+  async getSymbolFilters(symbol: string): Promise<SymbolFilters> {
+    const rules = SYMBOL_RULES[symbol];
+    if (!rules) {
+      throw new Error(`${symbol}の取引ルールが登録されていません`);
+    }
+    return { symbol, ...rules };
+  }
+
+  async createOrder(orderParams: OrderParams): Promise<Order> {
+    const isMarket = orderParams.type === 'MARKET';
+    const body: Record<string, string> = { pair: orderParams.symbol };
+
+    if (!isMarket) {
+      body.order_type = orderParams.side === 'BUY' ? 'buy' : 'sell';
+      body.rate = orderParams.price ?? '';
+      body.amount = orderParams.quantity;
+    } else if (orderParams.side === 'BUY') {
+      // 成行買いは数量ではなく円建ての金額で指定する
+      const { price } = await this.getCurrentPrice(orderParams.symbol);
+      body.order_type = 'market_buy';
+      body.market_buy_amount = String(Math.ceil(parseFloat(price) * parseFloat(orderParams.quantity)));
+    } else {
+      body.order_type = 'market_sell';
+      body.amount = orderParams.quantity;
+    }
+
+    const response = await this.request('POST', '/api/exchange/orders', { auth: true, body });
+    return {
+      symbol: response.pair,
+      orderId: String(response.id),
+      price: response.rate ?? '0',
+      quantity: response.amount ?? orderParams.quantity,
+      side: toSide(response.order_type),
+      status: 'NEW'
+    };
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    const response = await this.request('GET', `/api/exchange/orders/${orderId}`, { auth: true });
+    return {
+      symbol: response.pair,
+      orderId: String(response.id),
+      price: response.rate ?? '0',
+      quantity: response.amount ?? '0',
+      side: toSide(response.order_type),
+      status: STATUS_MAP[response.status] ?? response.status
+    };
+  }
+
+  async getOpenOrders(symbol: string): Promise<Order[]> {
+    const response = await this.request('GET', '/api/exchange/orders/opens', { auth: true });
+    const orders: { id: number; order_type: string; rate: string | null; pair: string; pending_amount: string | null }[] =
+      response.orders;
+    return orders
+      .filter(order => order.pair === symbol)
+      .map(order => ({
+        symbol: order.pair,
+        orderId: String(order.id),
+        price: order.rate ?? '0',
+        quantity: order.pending_amount ?? '0',
+        side: toSide(order.order_type),
+        status: 'NEW'
+      }));
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<Order> {
+    const order = await this.getOrder(symbol, orderId);
+    await this.request('DELETE', `/api/exchange/orders/${orderId}`, { auth: true });
+    return asCanceled(order);
+  }
+}
+
+export { CoincheckAdapter };
@@ -0,0 +1,144 @@
+import { Candle } from '../marketData';
+import { findTimeframe } from '../../utils/timeframes';
+import { AssetBalance, Balance, Order } from './types';
+
+export type RequestParams = Record<string, string | number | undefined>;
+
+// 各取引所の署名で共通のHMAC-SHA256（16進数）
+export const hmacSha256Hex = async (secret: string, message: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+};
+
+export const buildQueryString = (params: RequestParams): string => {
+  return Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+    .join('&');
+};
+
+export const withQuery = (path: string, params: RequestParams = {}): string => {
+  const queryString = buildQueryString(params);
+  return queryString ? `${path}?${queryString}` : path;
+};
+
+// 本文をJSONとして読み込む（空やJSON以外はnull）
+export const readJson = async (response: Response): Promise<any> => {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// 資産一覧から通貨ペアの残高（利用可能分）を取り出す
+export const toBalance = (balances: AssetBalance[], baseAsset: string, quoteAsset: string): Balance => {
+  const free = (asset: string) =>
+    balances.find(b => b.asset.toUpperCase() === asset.toUpperCase())?.free ?? 0;
+  return {
+    base: free(baseAsset),
+    quote: free(quoteAsset)
+  };
+};
+
+// 時間枠（15m、1hなど）をGMOコイン・bitbankの表記に変換
+const CANDLE_TYPES: Record<string, string> = {
+  '15m': '15min',
+  '1h': '1hour',
+  '4h': '4hour',
+  '1d': '1day',
+  '1w': '1week',
+  '1M': '1month'
+};
+
+export const toCandleType = (interval: string): string => {
+  const candleType = CANDLE_TYPES[interval];
+  if (!candleType) {
+    throw new Error(`未対応の時間枠です: ${interval}`);
+  }
+  return candleType;
+};
+
+export const intervalToMs = (interval: string): number => {
+  const timeframe = findTimeframe(interval);
+  if (!timeframe) {
+    throw new Error(`未対応の時間枠です: ${interval}`);
+  }
+  return timeframe.interval;
+};
+
+const JST_OFFSET = 9 * 60 * 60 * 1000;
+
+// 日付・年単位で分割されたローソク足APIで、limit本をまかなう期間（新しい順）
+// 1時間足以下はYYYYMMDD、4時間足以上はYYYY（いずれも日本時間）
+export const candlePeriods = (interval: string, limit: number, now: number): string[] => {
+  const intervalMs = intervalToMs(interval);
+  const daily = intervalMs <= 60 * 60 * 1000;
+  const end = new Date(now + JST_OFFSET);
+  const start = new Date(now - intervalMs * limit + JST_OFFSET);
+  const periods: string[] = [];
+
+  if (daily) {
+    const cursor = new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate()));
+    while (cursor.getTime() >= Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate())) {
+      periods.push(cursor.toISOString().slice(0, 10).replace(/-/g, ''));
+      cursor.setUTCDate(cursor.getUTCDate() - 1);
+    }
+  } else {
+    for (let year = end.getUTCFullYear(); year >= start.getUTCFullYear(); year--) {
+      periods.push(String(year));
+    }
+  }
+  return periods;
+};
+
+export interface TradeTick {
+  time: number;
+  price: number;
+  quantity: number;
+}
+
+// ローソク足APIのない取引所向けに、約定履歴からローソク足を組み立てる
+export const aggregateTrades = (trades: TradeTick[], interval: string, limit: number): Candle[] => {
+  const intervalMs = intervalToMs(interval);
+  const candles = new Map<number, Candle>();
+
+  [...trades]
+    .sort((a, b) => a.time - b.time)
+    .forEach(trade => {
+      const openTime = Math.floor(trade.time / intervalMs) * intervalMs;
+      const candle = candles.get(openTime);
+      if (!candle) {
+        candles.set(openTime, {
+          openTime,
+          open: trade.price,
+          high: trade.price,
+          low: trade.price,
+          close: trade.price,
+          volume: trade.quantity
+        });
+        return;
+      }
+      candle.high = Math.max(candle.high, trade.price);
+      candle.low = Math.min(candle.low, trade.price);
+      candle.close = trade.price;
+      candle.volume += trade.quantity;
+    });
+
+  return Array.from(candles.values()).slice(-limit);
+};
+
+// 注文を返さない取消APIのために、取消済みとしての注文情報を組み立てる
+export const asCanceled = (order: Order): Order => ({ ...order, status: 'CANCELED' });
@@ -0,0 +1,270 @@
+/**
+ * @jest-environment node
+ */
+import { createHmac, webcrypto } from 'crypto';
+import { SELECTABLE_EXCHANGES, createExchangeAdapter } from './index';
+import { ExchangeAdapter } from './types';
+import binanceFixture from './__fixtures__/binance.json';
+import bitflyerFixture from './__fixtures__/bitflyer.json';
+import coincheckFixture from './__fixtures__/coincheck.json';
+import gmoFixture from './__fixtures__/gmo.json';
+import bitbankFixture from './__fixtures__/bitbank.json';
+
+// jestのnode環境にはWeb Crypto APIがないため、Node標準モジュールで代替する
+Object.defineProperty(globalThis, 'crypto', { value: webcrypto, configurable: true });
+
+const API_KEY = 'test-api-key';
+const API_SECRET = 'test-api-secret';
+const NOW = Date.UTC(2024, 0, 1);
+const HOUR = 60 * 60 * 1000;
+
+interface Fixture {
+  routes: Record<string, unknown>;
+  error: { route: string; status: number; body: unknown; message: string };
+}
+
+interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body: string;
+}
+
+// 記録済みレスポンスを「メソッド パス」で返すfetch
+const createReplayFetch = (fixture: Fixture, override?: Fixture['error']) => {
+  const requests: RecordedRequest[] = [];
+
+  const replayFetch = (async (input: string, init: RequestInit = {}) => {
+    const url = new URL(input);
+    const method = init.method ?? 'GET';
+    const route = `${method} ${url.pathname}`;
+    requests.push({ method, url, headers: (init.headers ?? {}) as Record<string, string>, body: (init.body as string) ?? '' });
+
+    if (override && override.route === route) {
+      return { ok: override.status < 300, status: override.status, text: async () => JSON.stringify(override.body) };
+    }
+    if (!(route in fixture.routes)) {
+      throw new Error(`記録されていないリクエストです: ${route}`);
+    }
+    const body = fixture.routes[route];
+    return { ok: true, status: 200, text: async () => (body === null ? '' : JSON.stringify(body)) };
+  }) as unknown as typeof fetch;
+
+  return { replayFetch, requests };
+};
+
+const hmac = (message: string) => createHmac('sha256', API_SECRET).update(message).digest('hex');
+
+interface ContractCase {
+  exchange: string;
+  fixture: Fixture;
+  symbol: string;
+  quoteAsset: string;
+  orderId: string;
+  // 署名付きリクエストならAPIキーと署名を検証する（署名対象外ならnull）
+  verify: (request: RecordedRequest) => { apiKey: string; signature: string; expected: string } | null;
+}
+
+const cases: ContractCase[] = [
+  {
+    exchange: 'binance',
+    fixture: binanceFixture,
+    symbol: 'BTCUSDT',
+    quoteAsset: 'USDT',
+    orderId: '28905001',
+    verify: ({ url, headers }) => {
+      const signature = url.searchParams.get('signature');
+      if (!signature) return null;
+      const payload = url.search.slice(1).replace(/&signature=[0-9a-f]+$/, '');
+      return { apiKey: headers['X-MBX-APIKEY'], signature, expected: hmac(payload) };
+    }
+  },
+  {
+    exchange: 'bitflyer',
+    fixture: bitflyerFixture,
+    symbol: 'BTC_JPY',
+    quoteAsset: 'JPY',
+    orderId: 'JRF20240101-000000-050159',
+    verify: ({ method, url, headers, body }) => {
+      if (!headers['ACCESS-SIGN']) return null;
+      const expected = hmac(headers['ACCESS-TIMESTAMP'] + method + url.pathname + url.search + body);
+      return { apiKey: headers['ACCESS-KEY'], signature: headers['ACCESS-SIGN'], expected };
+    }
+  },
+  {
+    exchange: 'coincheck',
+    fixture: coincheckFixture,
+    symbol: 'btc_jpy',
+    quoteAsset: 'JPY',
+    orderId: '12345',
+    verify: ({ url, headers, body }) => {
+      if (!headers['ACCESS-SIGNATURE']) return null;
+      const expected = hmac(headers['ACCESS-NONCE'] + url.toString() + body);
+      return { apiKey: headers['ACCESS-KEY'], signature: headers['ACCESS-SIGNATURE'], expected };
+    }
+  },
+  {
+    exchange: 'gmo',
+    fixture: gmoFixture,
+    symbol: 'BTC',
+    quoteAsset: 'JPY',
+    orderId: '637000',
+    verify: ({ method, url, headers, body }) => {
+      if (!headers['API-SIGN']) return null;
+      const expected = hmac(headers['API-TIMESTAMP'] + method + url.pathname.replace(/^\/private/, '') + body);
+      return { apiKey: headers['API-KEY'], signature: headers['API-SIGN'], expected };
+    }
+  },
+  {
+    exchange: 'bitbank',
+    fixture: bitbankFixture,
+    symbol: 'btc_jpy',
+    quoteAsset: 'JPY',
+    orderId: '28905001',
+    verify: ({ method, url, headers, body }) => {
+      if (!headers['ACCESS-SIGNATURE']) return null;
+      const expected = hmac(headers['ACCESS-NONCE'] + (method === 'GET' ? url.pathname + url.search : body));
+      return { apiKey: headers['ACCESS-KEY'], signature: headers['ACCESS-SIGNATURE'], expected };
+    }
+  }
+];
+
+describe.each(cases)('ExchangeAdapter契約: $exchange', ({ exchange, fixture, symbol, quoteAsset, orderId, verify }) => {
+  let adapter: ExchangeAdapter;
+  let requests: RecordedRequest[];
+
+  const create = (override?: Fixture['error']) => {
+    const replay = createReplayFetch(fixture, override);
+    requests = replay.requests;
+    return createExchangeAdapter(exchange, { apiKey: API_KEY, apiSecret: API_SECRET }, {
+      fetch: replay.replayFetch,
+      now: () => NOW
+    });
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    adapter = create();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('残高を資産ごとに取得する', async () => {
+    const balances = await adapter.getBalances();
+    const btc = balances.find(b => b.asset === 'BTC');
+
+    expect(btc?.free).toBeCloseTo(4.12);
+    expect(btc?.locked).toBeCloseTo(6.12);
+    expect(await adapter.getAccountBalance('BTC', quoteAsset)).toEqual({ base: 4.12, quote: 508000 });
+  });
+
+  test('現在価格を取得する', async () => {
+    const ticker = await adapter.getCurrentPrice(symbol);
+
+    expect(ticker.symbol).toBe(symbol);
+    expect(parseFloat(ticker.price)).toBe(6287842);
+  });
+
+  test('ローソク足を古い順に取得する', async () => {
+    const candles = await adapter.getKlines(symbol, '1h', 3);
+
+    expect(candles.map(c => c.openTime)).toEqual([NOW - 3 * HOUR, NOW - 2 * HOUR, NOW - HOUR]);
+    expect(candles[2].close).toBe(6287842);
+    candles.forEach(c => {
+      expect(c.high).toBeGreaterThanOrEqual(Math.max(c.open, c.close));
+      expect(c.low).toBeLessThanOrEqual(Math.min(c.open, c.close));
+      expect(c.volume).toBeGreaterThan(0);
+    });
+  });
+
+  test('注文制限を取得する', async () => {
+    const filters = await adapter.getSymbolFilters(symbol);
+
+    expect(filters.symbol).toBe(symbol);
+    expect(filters.tickSize).toBeGreaterThan(0);
+    expect(filters.stepSize).toBeGreaterThan(0);
+    expect(filters.minQty).toBeGreaterThan(0);
+    expect(filters.minNotional).toBeGreaterThanOrEqual(0);
+  });
+
+  test('指値注文の発注・照会・一覧・取消を共通の形式で返す', async () => {
+    const created = await adapter.createOrder({
+      symbol,
+      side: 'BUY',
+      type: 'LIMIT',
+      quantity: '0.01',
+      price: '6200000'
+    });
+    expect(created).toMatchObject({ symbol, orderId, side: 'BUY', status: 'NEW' });
+    expect(parseFloat(created.price)).toBe(6200000);
+    expect(parseFloat(created.quantity)).toBe(0.01);
+
+    const order = await adapter.getOrder(symbol, orderId);
+    expect(order).toMatchObject({ symbol, orderId, side: 'BUY', status: 'NEW' });
+
+    const openOrders = await adapter.getOpenOrders(symbol);
+    expect(openOrders.map(o => o.orderId)).toEqual([orderId]);
+
+    const canceled = await adapter.cancelOrder(symbol, orderId);
+    expect(canceled).toMatchObject({ orderId, status: 'CANCELED' });
+  });
+
+  test('一括取消に対応していれば取り消した注文を返す', async () => {
+    if (!adapter.cancelAllOrders) return;
+
+    const canceled = await adapter.cancelAllOrders(symbol);
+    expect(canceled).toEqual([expect.objectContaining({ symbol, orderId, status: 'CANCELED' })]);
+  });
+
+  test('約定明細に対応していれば実際の手数料と資産を返す', async () => {
+    if (!adapter.getOrderFills) return;
+
+    const fills = await adapter.getOrderFills(symbol, orderId);
+    expect(fills.length).toBeGreaterThan(0);
+    fills.forEach(fill => {
+      expect(fill.orderId).toBe(orderId);
+      expect(fill.quantity).toBeGreaterThan(0);
+      expect(fill.fee).toBeGreaterThanOrEqual(0);
+      expect(fill.feeAsset).toMatch(/^[A-Z]+$/);
+    });
+  });
+
+  test('署名付きリクエストは取引所の方式で署名する', async () => {
+    await adapter.getBalances();
+    await adapter.createOrder({ symbol, side: 'SELL', type: 'LIMIT', quantity: '0.01', price: '6400000' });
+
+    const signed = requests.map(verify).filter(Boolean);
+    expect(signed.length).toBeGreaterThanOrEqual(2);
+    signed.forEach(result => {
+      expect(result?.apiKey).toBe(API_KEY);
+      expect(result?.signature).toBe(result?.expected);
+    });
+  });
+
+  test('取引所のエラーメッセージを例外に含める', async () => {
+    adapter = create(fixture.error);
+
+    await expect(adapter.getBalances()).rejects.toThrow(fixture.error.message);
+    await expect(adapter.validateCredentials()).resolves.toBe(false);
+  });
+});
+
+describe('createExchangeAdapter', () => {
+  test('テストネットのない取引所ではエラーにする', () => {
+    expect(() => createExchangeAdapter('bitflyer', { apiKey: API_KEY, apiSecret: API_SECRET }, { testMode: true }))
+      .toThrow('テストネット');
+  });
+
+  test('未対応の取引所はエラーにする', () => {
+    expect(() => createExchangeAdapter('unknown', { apiKey: API_KEY, apiSecret: API_SECRET })).toThrow('未対応');
+  });
+});
+
+describe('SELECTABLE_EXCHANGES', () => {
+  test('注文を中継できない国内取引所は選択肢に含めない', () => {
+    expect(SELECTABLE_EXCHANGES.map(option => option.id)).toEqual(['binance']);
+  });
+});
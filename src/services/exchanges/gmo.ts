@@ -0,0 +1,230 @@
+import { Candle } from '../marketData';
+import { SymbolFilters } from '../../utils/symbolFilters';
+import {
+  RequestParams,
+  asCanceled,
+  candlePeriods,
+  hmacSha256Hex,
+  readJson,
+  toBalance,
+  toCandleType,
+  withQuery
+} from './common';
+import {
+  AssetBalance,
+  Balance,
+  ExchangeAdapter,
+  ExchangeAdapterOptions,
+  ExchangeCredentials,
+  Order,
+  OrderParams,
+  Ticker
+} from './types';
+
+const BASE_URL = 'https://api.coin.z.com';
+
+interface RawOrder {
+  orderId: number;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  size: string;
+  executedSize: string;
+  price: string;
+  status: 'WAITING' | 'ORDERED' | 'MODIFYING' | 'CANCELLING' | 'CANCELED' | 'EXECUTED' | 'EXPIRED';
+}
+
+const toStatus = (raw: RawOrder): string => {
+  switch (raw.status) {
+    case 'EXECUTED':
+      return 'FILLED';
+    case 'CANCELED':
+      return 'CANCELED';
+    case 'EXPIRED':
+      return 'EXPIRED';
+    default:
+      return parseFloat(raw.executedSize) > 0 ? 'PARTIALLY_FILLED' : 'NEW';
+  }
+};
+
+const toOrder = (raw: RawOrder): Order => ({
+  symbol: raw.symbol,
+  orderId: String(raw.orderId),
+  price: raw.price,
+  quantity: raw.size,
+  side: raw.side,
+  status: toStatus(raw)
+});
+
+class GmoCoinAdapter implements ExchangeAdapter {
+  readonly id = 'gmo' as const;
+  private apiKey: string;
+  private apiSecret: string;
+  private baseUrl: string;
+  private fetcher: typeof fetch;
+  private now: () => number;
+
+  constructor(credentials: ExchangeCredentials, options: ExchangeAdapterOptions = {}) {
+    this.apiKey = credentials.apiKey;
+    this.apiSecret = credentials.apiSecret;
+    this.baseUrl = options.baseUrl ?? BASE_URL;
+    this.fetcher = options.fetch ?? ((input, init) => fetch(input, init));
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  private async request(method: string, path: string, options: { params?: RequestParams; body?: object; auth?: boolean } = {}) {
+    const prefix = options.auth ? '/private' : '/public';
+    const body = options.body ? JSON.stringify(options.body) : '';
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+    // 署名: HMAC-SHA256(API-TIMESTAMP + メソッド + パス（/private・クエリを除く） + 本文)
+    if (options.auth) {
+      const timestamp = String(this.now());
+      headers['API-KEY'] = this.apiKey;
+      headers['API-TIMESTAMP'] = timestamp;
+      headers['API-SIGN'] = await hmacSha256Hex(this.apiSecret, timestamp + method + path + body);
+    }
+
+    const response = await this.fetcher(`${this.baseUrl}${prefix}${withQuery(path, options.params)}`, {
+      method,
+      headers,
+      body: body || undefined
+    });
+    const data = await readJson(response);
+
+    if (!response.ok || data?.status !== 0) {
+      const error = data?.messages?.[0];
+      console.error('[GMO Error]', data ?? response.status);
+      throw new Error(error
+        ? `GMOコイン APIエラー (${error.message_code}): ${error.message_string}`
+        : `GMOコイン APIエラー: HTTP error! status: ${response.status}`);
+    }
+    return data.data;
+  }
+
+  async validateCredentials(): Promise<boolean> {
+    try {
+      await this.getBalances();
+      return true;
+    } catch (error) {
+      console.error('[GMO Error] 認証検証エラー:', error);
+      return false;
+    }
+  }
+
+  async getBalances(): Promise<AssetBalance[]> {
+    const assets: { symbol: string; amount: string; available: string }[] =
+      await this.request('GET', '/v1/account/assets', { auth: true });
+    return assets.map(a => ({
+      asset: a.symbol,
+      free: parseFloat(a.available),
+      locked: parseFloat(a.amount) - parseFloat(a.available)
+    }));
+  }
+
+  async getAccountBalance(baseAsset: string = 'BTC', quoteAsset: string = 'JPY'): Promise<Balance> {
+    return toBalance(await this.getBalances(), baseAsset, quoteAsset);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<Ticker> {
+    const tickers: { symbol: string; last: string }[] = await this.request('GET', '/v1/ticker', { params: { symbol } });
+    const ticker = tickers.find(t => t.symbol === symbol);
+    if (!ticker) {
+      throw new Error(`${symbol}の価格データがありません`);
+    }
+    return { symbol, price: ticker.last };
+  }
+
+  // ローソク足は日付（1時間足以下）または年単位で取得する
+  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<Candle[]> {
+    const candleType = toCandleType(interval);
+    const candles: Candle[] = [];
+
+    for (const date of candlePeriods(interval, limit, this.now())) {
+      const rows: { openTime: string; open: string; high: string; low: string; close: string; volume: string }[] =
+        await this.request('GET', '/v1/klines', { params: { symbol, interval: candleType, date } });
+      candles.unshift(...rows.map(row => ({
+        openTime: Number(row.openTime),
+        open: parseFloat(row.open),
+        high: parseFloat(row.high),
+        low: parseFloat(row.low),
+        close: parseFloat(row.close),
+        volume: parseFloat(row.volume)
+      })));
+      if (candles.length >= limit) break;
+    }
+
+    return candles.sort((a, b) => a.openTime - b.openTime).slice(-limit);
+  }
+
+  async getSymbolFilters(symbol: string): Promise<SymbolFilters> {
+    const symbols: { symbol: string; minOrderSize: string; sizeStep: string; tickSize: string }[] =
+      await this.request('GET', '/v1/symbols');
+    const rule = symbols.find(s => s.symbol === symbol);
+    if (!rule) {
+      throw new Error(`${symbol}の取引ルールが見つかりません`);
+    }
+    return {
+      symbol,
+      tickSize: parseFloat(rule.tickSize),
+      minPrice: parseFloat(rule.tickSize),
+      stepSize: parseFloat(rule.sizeStep),
+      minQty: parseFloat(rule.minOrderSize),
+      minNotional: 0
+    };
+  }
+
+  async createOrder(orderParams: OrderParams): Promise<Order> {
+    const isMarket = orderParams.type === 'MARKET';
+    const orderId: string = await this.request('POST', '/v1/order', {
+      auth: true,
+      body: {
+        symbol: orderParams.symbol,
+        side: orderParams.side,
+        executionType: isMarket ? 'MARKET' : 'LIMIT',
+        price: isMarket ? undefined : orderParams.price,
+        size: orderParams.quantity
+      }
+    });
+
+    // 注文IDのみ返るため、発注内容から注文情報を組み立てる
+    return {
+      symbol: orderParams.symbol,
+      orderId: String(orderId),
+      price: orderParams.price ?? '0',
+      quantity: orderParams.quantity,
+      side: orderParams.side,
+      status: 'NEW'
+    };
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    const response: { list?: RawOrder[] } = await this.request('GET', '/v1/orders', { auth: true, params: { orderId } });
+    const order = (response.list ?? []).find(o => String(o.orderId) === orderId);
+    if (!order) {
+      throw new Error(`注文が見つかりません: ${orderId}`);
+    }
+    return toOrder(order);
+  }
+
+  async getOpenOrders(symbol: string): Promise<Order[]> {
+    const response: { list?: RawOrder[] } = await this.request('GET', '/v1/activeOrders', { auth: true, params: { symbol } });
+    // 注文がない場合はlistが省略される
+    return (response.list ?? []).map(toOrder);
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<Order> {
+    const order = await this.getOrder(symbol, orderId);
+    await this.request('POST', '/v1/cancelOrder', { auth: true, body: { orderId: Number(orderId) } });
+    return asCanceled(order);
+  }
+
+  async cancelAllOrders(symbol: string): Promise<Order[]> {
+    const orders = await this.getOpenOrders(symbol);
+    const canceledIds: number[] = await this.request('POST', '/v1/cancelBulkOrder', { auth: true, body: { symbols: [symbol] } });
+    return orders
+      .filter(order => canceledIds.map(String).includes(order.orderId))
+      .map(asCanceled);
+  }
+}
+
+export { GmoCoinAdapter };
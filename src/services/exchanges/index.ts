@@ -0,0 +1,61 @@
+import { BinanceApiClient } from '../binanceApi';
+import { BitbankAdapter } from './bitbank';
+import { BitflyerAdapter } from './bitflyer';
+import { CoincheckAdapter } from './coincheck';
+import { GmoCoinAdapter } from './gmo';
+import { ProxyExchangeAdapter } from './proxy';
+import { ExchangeAdapter, ExchangeAdapterOptions, ExchangeCredentials, ExchangeId } from './types';
+
+export interface ExchangeOption {
+  id: ExchangeId;
+  label: string;
+  hasTestnet: boolean;
+  // 画面から実際の取引（本番・テストネット）ができるか
+  // 国内取引所のプライベートAPIはCORSに対応しておらず、プロキシサーバーもBinanceのみ中継するため、ペーパートレードのみとする
+  liveTrading: boolean;
+}
+
+export { ProxyExchangeAdapter };
+
+export const EXCHANGE_OPTIONS: ExchangeOption[] = [
+  { id: 'binance', label: 'Binance', hasTestnet: true, liveTrading: true },
+  { id: 'bitflyer', label: 'bitFlyer', hasTestnet: false, liveTrading: false },
+  { id: 'coincheck', label: 'Coincheck', hasTestnet: false, liveTrading: false },
+  { id: 'gmo', label: 'GMOコイン', hasTestnet: false, liveTrading: false },
+  { id: 'bitbank', label: 'bitbank', hasTestnet: false, liveTrading: false }
+];
+
+// 画面で選択できる取引所（国内取引所のアダプターは、注文・価格データの取得を中継できるようになるまで選択肢に出さない）
+export const SELECTABLE_EXCHANGES = EXCHANGE_OPTIONS.filter(option => option.liveTrading);
+
+export const findExchange = (id: string): ExchangeOption | undefined => {
+  return EXCHANGE_OPTIONS.find(option => option.id === id);
+};
+
+// API設定の取引所に対応するアダプターを作成する
+export const createExchangeAdapter = (
+  exchange: string,
+  credentials: ExchangeCredentials,
+  options: ExchangeAdapterOptions & { testMode?: boolean } = {}
+): ExchangeAdapter => {
+  const option = findExchange(exchange);
+  if (!option) {
+    throw new Error(`未対応の取引所です: ${exchange}`);
+  }
+  if (options.testMode && !option.hasTestnet) {
+    throw new Error(`${option.label}にはテストネットがありません。ペーパートレードを利用してください`);
+  }
+
+  switch (option.id) {
+    case 'binance':
+      return new BinanceApiClient({ ...credentials, ...options, testMode: options.testMode ?? false });
+    case 'bitflyer':
+      return new BitflyerAdapter(credentials, options);
+    case 'coincheck':
+      return new CoincheckAdapter(credentials, options);
+    case 'gmo':
+      return new GmoCoinAdapter(credentials, options);
+    case 'bitbank':
+      return new BitbankAdapter(credentials, options);
+  }
+};
@@ -0,0 +1,79 @@
+import { api } from '../api';
+import { ProxyExchangeAdapter } from './proxy';
+
+jest.mock('../api', () => ({
+  api: {
+    getStatus: jest.fn(),
+    getBalances: jest.fn(),
+    getExchangeInfo: jest.fn(),
+    createOrder: jest.fn()
+  }
+}));
+
+const mockedApi = api as jest.Mocked<typeof api>;
+
+describe('ProxyExchangeAdapter', () => {
+  let adapter: ProxyExchangeAdapter;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.clearAllMocks();
+    adapter = new ProxyExchangeAdapter();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('プロキシの残高から通貨ペアの残高を取り出す', async () => {
+    mockedApi.getBalances.mockResolvedValue({
+      error: false,
+      data: [
+        { asset: 'BTC', free: 0.5, locked: 0.1 },
+        { asset: 'USDT', free: 1200, locked: 0 }
+      ]
+    });
+
+    expect(await adapter.getAccountBalance('BTC', 'USDT')).toEqual({ base: 0.5, quote: 1200 });
+  });
+
+  test('プロキシのエラーメッセージを例外に含める', async () => {
+    mockedApi.createOrder.mockResolvedValue({ error: true, message: 'Binance APIエラー (-2010): insufficient balance' });
+
+    await expect(adapter.createOrder({ symbol: 'BTCUSDT', side: 'BUY', type: 'LIMIT', quantity: '0.01', price: '30000' }))
+      .rejects.toThrow('-2010');
+  });
+
+  test('サーバーにAPIキーがなければ認証に失敗する', async () => {
+    mockedApi.getStatus.mockResolvedValue({
+      error: false,
+      data: { exchange: 'binance', testnet: true, configured: false, source: null, authConfigured: true }
+    });
+
+    await expect(adapter.validateCredentials()).resolves.toBe(false);
+    expect(mockedApi.getBalances).not.toHaveBeenCalled();
+  });
+
+  test('取引ルールはキャッシュし、失敗時は再取得する', async () => {
+    mockedApi.getExchangeInfo
+      .mockResolvedValueOnce({ error: true, message: '取引ルールの取得に失敗しました' })
+      .mockResolvedValue({
+        error: false,
+        data: {
+          symbol: 'BTCUSDT',
+          filters: [
+            { filterType: 'PRICE_FILTER', minPrice: '0.01', tickSize: '0.01' },
+            { filterType: 'LOT_SIZE', minQty: '0.00001', stepSize: '0.00001' },
+            { filterType: 'NOTIONAL', minNotional: '5' }
+          ]
+        }
+      });
+
+    await expect(adapter.getSymbolFilters('BTCUSDT')).rejects.toThrow('取引ルール');
+    const filters = await adapter.getSymbolFilters('BTCUSDT');
+    await adapter.getSymbolFilters('BTCUSDT');
+
+    expect(filters).toMatchObject({ symbol: 'BTCUSDT', tickSize: 0.01, minNotional: 5 });
+    expect(mockedApi.getExchangeInfo).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,90 @@
+import { api, ApiResult } from '../api';
+import { Candle, parseCandles } from '../marketData';
+import { parseSymbolFilters, SymbolFilters } from '../../utils/symbolFilters';
+import { toBalance } from './common';
+import { AssetBalance, Balance, ExchangeAdapter, Fill, Order, OrderParams, Ticker } from './types';
+
+const unwrap = <T>(result: ApiResult<T>): T => {
+  if (result.error) {
+    throw new Error(result.message);
+  }
+  return result.data;
+};
+
+// server.jsが保持するAPIキーで署名して取引するBinanceアダプター
+// ブラウザはシークレットを持たず、プロキシの認証付きルートだけを呼び出す
+class ProxyExchangeAdapter implements ExchangeAdapter {
+  readonly id = 'binance' as const;
+  private symbolFilters = new Map<string, Promise<SymbolFilters>>();
+
+  async validateCredentials(): Promise<boolean> {
+    try {
+      const status = unwrap(await api.getStatus());
+      if (!status.configured) {
+        return false;
+      }
+      await this.getBalances();
+      return true;
+    } catch (error) {
+      console.error('[Proxy Error] 認証検証エラー:', error);
+      return false;
+    }
+  }
+
+  async getBalances(): Promise<AssetBalance[]> {
+    return unwrap(await api.getBalances());
+  }
+
+  async getAccountBalance(baseAsset: string = 'BTC', quoteAsset: string = 'USDT'): Promise<Balance> {
+    return toBalance(await this.getBalances(), baseAsset, quoteAsset);
+  }
+
+  async getCurrentPrice(symbol: string): Promise<Ticker> {
+    return unwrap(await api.getPrice(symbol));
+  }
+
+  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<Candle[]> {
+    return parseCandles(unwrap(await api.getKlines(symbol, interval, limit)));
+  }
+
+  async getSymbolFilters(symbol: string): Promise<SymbolFilters> {
+    const cached = this.symbolFilters.get(symbol);
+    if (cached) return cached;
+
+    const request = api.getExchangeInfo(symbol).then(result => parseSymbolFilters(unwrap(result)));
+    this.symbolFilters.set(symbol, request);
+    try {
+      return await request;
+    } catch (error) {
+      // 失敗した結果はキャッシュしない
+      this.symbolFilters.delete(symbol);
+      throw error;
+    }
+  }
+
+  async createOrder(orderParams: OrderParams): Promise<Order> {
+    return unwrap(await api.createOrder(orderParams));
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    return unwrap(await api.getOrder(symbol, orderId));
+  }
+
+  async getOrderFills(symbol: string, orderId: string): Promise<Fill[]> {
+    return unwrap(await api.getOrderFills(symbol, orderId));
+  }
+
+  async getOpenOrders(symbol: string): Promise<Order[]> {
+    return unwrap(await api.getOpenOrders(symbol));
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<Order> {
+    return unwrap(await api.cancelOrder(symbol, orderId));
+  }
+
+  async cancelAllOrders(symbol: string): Promise<Order[]> {
+    return unwrap(await api.cancelAllOrders(symbol));
+  }
+}
+
+export { ProxyExchangeAdapter };
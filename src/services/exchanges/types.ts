@@ -0,0 +1,85 @@
+import { Candle } from '../marketData';
+import { SymbolFilters } from '../../utils/symbolFilters';
+
+export type ExchangeId = 'binance' | 'bitflyer' | 'coincheck' | 'gmo' | 'bitbank';
+
+export interface Balance {
+  base: number;
+  quote: number;
+}
+
+export interface AssetBalance {
+  asset: string;
+  free: number;
+  locked: number;
+}
+
+// 注文状態はBinanceの表記（NEW / PARTIALLY_FILLED / FILLED / CANCELED / REJECTED / EXPIRED）に揃える
+export interface Order {
+  symbol: string;
+  orderId: string;
+  price: string;
+  quantity: string;
+  side: 'BUY' | 'SELL';
+  status: string;
+  // 発注時に指定した識別子（対応している取引所のみ）
+  clientOrderId?: string;
+}
+
+// 約定明細（手数料は実際に支払った資産建て。BinanceではBNBで支払う場合がある）
+export interface Fill {
+  orderId: string;
+  price: number;
+  quantity: number;
+  fee: number;
+  feeAsset: string;
+  time: number;
+}
+
+export interface OrderParams {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  type: string;
+  quantity: string;
+  price?: string;
+  // 対応していない取引所では送信しない
+  clientOrderId?: string;
+}
+
+export interface Ticker {
+  symbol: string;
+  price: string;
+}
+
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+// テストやモックサーバー向けに接続先と時刻を差し替えられるようにする
+export interface ExchangeAdapterOptions {
+  baseUrl?: string;
+  publicBaseUrl?: string;
+  fetch?: typeof fetch;
+  now?: () => number;
+}
+
+// 取引所ごとの差異を吸収する共通インターフェース
+// シンボルは各取引所の表記（BTCUSDT、BTC_JPY、btc_jpyなど）で指定する
+export interface ExchangeAdapter {
+  readonly id: ExchangeId;
+  validateCredentials(): Promise<boolean>;
+  getBalances(): Promise<AssetBalance[]>;
+  getAccountBalance(baseAsset?: string, quoteAsset?: string): Promise<Balance>;
+  getCurrentPrice(symbol: string): Promise<Ticker>;
+  getKlines(symbol: string, interval: string, limit?: number): Promise<Candle[]>;
+  getSymbolFilters(symbol: string): Promise<SymbolFilters>;
+  createOrder(orderParams: OrderParams): Promise<Order>;
+  getOrder(symbol: string, orderId: string): Promise<Order>;
+  getOpenOrders(symbol: string): Promise<Order[]>;
+  cancelOrder(symbol: string, orderId: string): Promise<Order>;
+  // 一括取消のAPIがある取引所のみ実装する
+  cancelAllOrders?(symbol: string): Promise<Order[]>;
+  // 注文ごとの約定明細（手数料）を取得できる取引所のみ実装する
+  getOrderFills?(symbol: string, orderId: string): Promise<Fill[]>;
+}
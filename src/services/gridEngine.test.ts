@@ -0,0 +1,114 @@
+import { GridEngine } from './gridEngine';
+import { PaperExchange } from './paperExchange';
+
+const SYMBOL = 'BTCUSDT';
+const GRID_LINES = [25000, 26000, 27000, 28000, 29000, 30000];
+const NOW = new Date(Date.UTC(2024, 0, 1));
+
+describe('GridEngine', () => {
+  let exchange: PaperExchange;
+  let engine: GridEngine;
+
+  // 価格を動かして約定を反映する
+  const moveTo = async (price: number) => {
+    exchange.updatePrice(SYMBOL, price);
+    await engine.syncFills();
+  };
+
+  beforeEach(() => {
+    // ベース通貨を持たない口座でも開始できる
+    exchange = new PaperExchange({
+      initialBalance: { base: 0, quote: 10000 },
+      storageKey: null,
+      now: () => NOW
+    });
+    exchange.updatePrice(SYMBOL, 27600);
+    engine = new GridEngine({
+      client: exchange,
+      symbol: SYMBOL,
+      gridLines: GRID_LINES,
+      initialInvestment: 1000,
+      riskLimits: { stopLoss: 24000, takeProfit: 0 },
+      now: () => NOW
+    });
+  });
+
+  // 発注を遅らせ、約定確認中に他の操作が割り込む状況を作る
+  const delayOrders = () => {
+    const createOrder = exchange.createOrder.bind(exchange);
+    jest.spyOn(exchange, 'createOrder').mockImplementation(async params => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return createOrder(params);
+    });
+  };
+
+  test('売り注文に必要なベース通貨を成行で購入してから注文を並べる', async () => {
+    const createOrder = jest.spyOn(exchange, 'createOrder');
+    await engine.start();
+
+    const orderQuantity = 1000 / 5 / 27600;
+    expect(createOrder.mock.calls[0][0]).toMatchObject({ side: 'BUY', type: 'MARKET', quantity: '0.01451' });
+
+    const { activeOrders, completedOrders, totalProfit } = engine.getState();
+    // 現在価格に最も近い28000は空けておく
+    expect(activeOrders.map(o => `${o.type}@${o.price}`)).toEqual([
+      'BUY@25000', 'BUY@26000', 'BUY@27000', 'SELL@29000', 'SELL@30000'
+    ]);
+    expect(activeOrders.every(o => o.amount === 0.00724)).toBe(true);
+    expect(completedOrders).toEqual([
+      expect.objectContaining({ type: 'BUY', price: 27600, amount: 0.01451, level: -1, rebalance: true })
+    ]);
+    // 購入した数量（手数料控除後）で売り注文をまかなえる
+    expect(0.01451 * 0.999).toBeGreaterThanOrEqual(2 * orderQuantity);
+    expect(exchange.getTotalBalance().base).toBeCloseTo(0.01451 * 0.999, 8);
+    expect(totalProfit).toBe(0);
+  });
+
+  test('買いが約定したら1つ上に売り、その売りが約定したら1つ下に買い直す', async () => {
+    await engine.start();
+    const buy = engine.getState().activeOrders.find(o => o.price === 27000)!;
+
+    await moveTo(26900);
+    const sell = engine.getState().activeOrders.find(o => o.price === 28000)!;
+    expect(sell).toMatchObject({ type: 'SELL', level: 3, openedBy: buy.id });
+    // 受け取った数量（手数料控除後）だけを売りに出す
+    expect(sell.amount).toBe(0.00723);
+
+    await moveTo(28000);
+    const { activeOrders, completedOrders, totalProfit } = engine.getState();
+    expect(activeOrders.find(o => o.price === 27000)).toMatchObject({ type: 'BUY', level: 2 });
+    expect(activeOrders.some(o => o.id === sell.id)).toBe(false);
+    expect(completedOrders.map(o => o.id)).toEqual([completedOrders[0].id, buy.id, sell.id]);
+    expect(completedOrders[2].profit).toBeCloseTo(1000 * 0.00723);
+    expect(totalProfit).toBeCloseTo(1000 * 0.00723);
+  });
+
+  test('開始時に購入した分の売りは利益に計上しない', async () => {
+    await engine.start();
+
+    await moveTo(29100);
+    const { activeOrders, completedOrders, totalProfit } = engine.getState();
+    const sell = completedOrders.find(o => o.price === 29000)!;
+
+    expect(sell).toMatchObject({ type: 'SELL', status: 'FILLED' });
+    expect(sell.profit).toBeUndefined();
+    expect(totalProfit).toBe(0);
+    expect(activeOrders.find(o => o.price === 28000)).toMatchObject({ type: 'BUY', level: 3 });
+  });
+
+  test('約定確認中にストップロスが発動しても、発注中の反対注文を取り消してから停止する', async () => {
+    await engine.start();
+    exchange.updatePrice(SYMBOL, 26900);
+    delayOrders();
+
+    const sync = engine.syncFills();
+    const trigger = engine.updatePrice(23900);
+    await sync;
+
+    expect(await trigger).toMatchObject({ reason: 'STOP_LOSS' });
+    expect(engine.isRunning()).toBe(false);
+    expect(engine.getState().completedOrders.map(o => o.price)).toContain(27000);
+    expect(engine.getState().activeOrders).toEqual([]);
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([]);
+  });
+});
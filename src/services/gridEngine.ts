@@ -0,0 +1,678 @@
+import { ExchangeAdapter, Order as ExchangeOrder } from './exchanges/types';
+import {
+  SymbolFilters,
+  checkOrderFilters,
+  formatPrice,
+  formatQuantity,
+  roundPrice,
+  roundQuantity,
+  roundQuantityUp
+} from '../utils/symbolFilters';
+import { RiskLimits, RiskTrigger, RiskWatcher, STOP_REASON_LABELS, StopReason, checkRiskLimits } from './riskWatcher';
+import { GridSession, ReconcileResult, buildClientOrderId, createSessionId, reconcileOrders } from './reconciliation';
+
+// グリッドエンジンが利用する取引所クライアントのメソッド
+export type GridExchangeClient = Pick<
+  ExchangeAdapter,
+  'getCurrentPrice' | 'createOrder' | 'cancelOrder' | 'getOrder' | 'getOpenOrders' | 'getOrderFills' | 'getSymbolFilters'
+>;
+
+export interface GridOrder {
+  id: string;
+  type: 'BUY' | 'SELL';
+  price: number;
+  amount: number;
+  level: number;
+  status?: string;
+  executedAt?: string;
+  profit?: number;
+  // 手数料（feeAssetがなければ約定代金に手数料率を掛けた決済通貨建ての見積り）
+  fee?: number;
+  feeAsset?: string;
+  // 買いの約定を受けて出した売り注文の場合、その買い注文のID
+  openedBy?: string;
+  clientOrderId?: string;
+  // ページを閉じている間に約定し、再開時に検出した注文（executedAtは検出時刻）
+  reconciled?: boolean;
+  // グリッドの移行時に保有量を合わせるために出した成行注文（levelは-1）
+  rebalance?: boolean;
+}
+
+// 停止の記録（ストップロス・利確の場合はしきい値と発動価格を含む）
+export interface StopRecord {
+  reason: StopReason;
+  stoppedAt: string;
+  price?: number;
+  threshold?: number;
+  soldQuantity?: number;
+  error?: string;
+}
+
+export interface GridEngineState {
+  symbol: string;
+  // 開始時の価格（開始時に売り注文の分として購入したベース通貨の取得価格とみなす）
+  startPrice: number | null;
+  activeOrders: GridOrder[];
+  completedOrders: GridOrder[];
+  totalProfit: number;
+  stopRecord: StopRecord | null;
+}
+
+export interface MigrationOptions {
+  gridLines: number[];
+  riskLimits?: RiskLimits;
+}
+
+export interface MigrationResult {
+  canceledOrders: number;
+  // 新しいグリッドの売り注文に必要な数量に合わせた成行注文
+  rebalance: GridOrder | null;
+  placedOrders: number;
+}
+
+interface GridEngineConfig {
+  client: GridExchangeClient;
+  symbol: string;
+  gridLines: number[];
+  initialInvestment: number;
+  feeRate?: number;
+  // 保存したセッションを別の口座で再開しないための識別子
+  account?: string;
+  riskLimits?: RiskLimits;
+  // ストップロス・利確の発動時に保有分を成行で売却する
+  sellOnRiskStop?: boolean;
+  onUpdate?: (state: GridEngineState) => void;
+  onStop?: (record: StopRecord) => void;
+  now?: () => Date;
+  debug?: boolean;
+}
+
+class GridEngine {
+  private client: GridExchangeClient;
+  private symbol: string;
+  private gridLines: number[];
+  private initialInvestment: number;
+  private feeRate: number;
+  private account: string;
+  private sessionId = '';
+  private nextSequence = 1;
+  private riskLimits: RiskLimits;
+  private sellOnRiskStop: boolean;
+  private riskWatcher: RiskWatcher | null = null;
+  private stopRecord: StopRecord | null = null;
+  private onUpdate?: (state: GridEngineState) => void;
+  private onStop?: (record: StopRecord) => void;
+  private now: () => Date;
+  private readonly DEBUG: boolean;
+  private orderQuantity = 0;
+  private startPrice: number | null = null;
+  private filters: SymbolFilters | null = null;
+  private activeOrders: GridOrder[] = [];
+  private completedOrders: GridOrder[] = [];
+  private totalProfit = 0;
+  private running = false;
+  // 発注・キャンセルを伴う操作を1つずつ実行する（約定確認中の発注が停止時のキャンセルと行き違わないようにする）
+  private queue: Promise<unknown> = Promise.resolve();
+  private pendingSync: Promise<void> | null = null;
+
+  constructor(config: GridEngineConfig) {
+    this.client = config.client;
+    this.symbol = config.symbol;
+    this.gridLines = [...config.gridLines].sort((a, b) => a - b);
+    this.initialInvestment = config.initialInvestment;
+    // 買い約定の手数料はベース通貨から差し引かれる（Binanceの標準0.1%）
+    this.feeRate = config.feeRate ?? 0.001;
+    this.account = config.account ?? '';
+    this.riskLimits = config.riskLimits ?? { stopLoss: 0, takeProfit: 0 };
+    this.sellOnRiskStop = config.sellOnRiskStop ?? false;
+    this.onUpdate = config.onUpdate;
+    this.onStop = config.onStop;
+    this.now = config.now ?? (() => new Date());
+    this.DEBUG = config.debug ?? false;
+  }
+
+  private debug(...args: any[]) {
+    if (this.DEBUG) {
+      console.log('[GridEngine]', ...args);
+    }
+  }
+
+  private emit() {
+    this.onUpdate?.(this.getState());
+  }
+
+  // 前の操作が終わってから実行する（前の操作の失敗は後続に影響させない）
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  getState(): GridEngineState {
+    return {
+      symbol: this.symbol,
+      startPrice: this.startPrice,
+      activeOrders: [...this.activeOrders],
+      completedOrders: [...this.completedOrders],
+      totalProfit: this.totalProfit,
+      stopRecord: this.stopRecord
+    };
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  // 稼働中のグリッドを再開できるよう保存する内容（停止中はnull）
+  getSession(): GridSession | null {
+    if (!this.running || this.startPrice === null) return null;
+
+    return {
+      version: 1,
+      sessionId: this.sessionId,
+      account: this.account,
+      symbol: this.symbol,
+      gridLines: [...this.gridLines],
+      initialInvestment: this.initialInvestment,
+      orderQuantity: this.orderQuantity,
+      startPrice: this.startPrice,
+      feeRate: this.feeRate,
+      riskLimits: this.riskLimits,
+      sellOnRiskStop: this.sellOnRiskStop,
+      activeOrders: [...this.activeOrders],
+      completedOrders: [...this.completedOrders],
+      totalProfit: this.totalProfit,
+      nextSequence: this.nextSequence,
+      savedAt: this.now().toISOString()
+    };
+  }
+
+  private async placeOrder(
+    level: number,
+    side: 'BUY' | 'SELL',
+    quantity: number = this.orderQuantity,
+    openedBy?: string
+  ): Promise<GridOrder> {
+    const price = this.gridLines[level];
+    const filters = this.requireFilters();
+    const amount = roundQuantity(quantity, filters);
+    // 再開時に取引所の注文とグリッドを対応付けるための識別子
+    const clientOrderId = buildClientOrderId(this.sessionId, level, side, this.nextSequence++);
+    const order: ExchangeOrder = await this.client.createOrder({
+      symbol: this.symbol,
+      side,
+      type: 'LIMIT',
+      quantity: formatQuantity(amount, filters),
+      price: formatPrice(price, filters),
+      clientOrderId
+    });
+
+    const gridOrder: GridOrder = {
+      id: order.orderId,
+      type: side,
+      price,
+      amount,
+      level,
+      status: order.status || 'NEW',
+      clientOrderId,
+      ...(openedBy && { openedBy })
+    };
+    this.activeOrders.push(gridOrder);
+    this.debug('注文を発注しました:', gridOrder);
+    return gridOrder;
+  }
+
+  private requireFilters(): SymbolFilters {
+    if (!this.filters) {
+      throw new Error('取引ルールが読み込まれていません');
+    }
+    return this.filters;
+  }
+
+  // 取引所の刻み幅にグリッドを合わせ、すべての注文が制限を満たすか確認する
+  private async loadFilters(): Promise<void> {
+    const filters = await this.client.getSymbolFilters(this.symbol);
+    const gridLines = this.gridLines.map(price => roundPrice(price, filters));
+
+    if (gridLines.some((price, index) => index > 0 && price <= gridLines[index - 1])) {
+      throw new Error(`グリッド間隔が価格の刻み幅（${filters.tickSize}）より小さくなっています`);
+    }
+
+    // 売り注文は買い約定の手数料分だけ数量が減る
+    const quantity = this.orderQuantity * (1 - this.feeRate);
+    for (const price of gridLines) {
+      const reason = checkOrderFilters(price, quantity, filters);
+      if (reason) {
+        throw new Error(`グリッド注文が取引所の制限を満たしません: ${reason}`);
+      }
+    }
+
+    this.filters = filters;
+    this.gridLines = gridLines;
+    this.debug('注文制限を適用しました:', filters);
+  }
+
+  // 現在価格を基準に並べる注文（現在価格に最も近いラインは空けておき、約定後の反対注文用に使う）
+  private ladder(currentPrice: number): { level: number; side: 'BUY' | 'SELL' }[] {
+    const nearestLevel = this.gridLines.reduce((nearest, price, index) =>
+      Math.abs(price - currentPrice) < Math.abs(this.gridLines[nearest] - currentPrice) ? index : nearest
+    , 0);
+
+    return this.gridLines
+      .map((price, level) => ({ level, side: price < currentPrice ? 'BUY' as const : 'SELL' as const }))
+      .filter(({ level }) => level !== nearestLevel);
+  }
+
+  private async fetchCurrentPrice(): Promise<number> {
+    const ticker = await this.client.getCurrentPrice(this.symbol);
+    const currentPrice = parseFloat(ticker.price);
+    if (isNaN(currentPrice) || currentPrice <= 0) {
+      throw new Error('現在価格を取得できませんでした');
+    }
+    return currentPrice;
+  }
+
+  // 現在価格を基準に買い注文と売り注文を並べる
+  // 売り注文に出すベース通貨は、口座の既存の保有分を使わず開始時に成行で購入する
+  start(): Promise<void> {
+    return this.exclusive(() => this.startGrid());
+  }
+
+  private async startGrid(): Promise<void> {
+    if (this.running) return;
+    if (this.gridLines.length < 2) {
+      throw new Error('グリッドラインが不足しています');
+    }
+
+    const currentPrice = await this.fetchCurrentPrice();
+    const hit = checkRiskLimits(currentPrice, this.riskLimits);
+    if (hit) {
+      throw new Error(`現在価格が${STOP_REASON_LABELS[hit.reason]}の価格（${hit.threshold}）に達しています`);
+    }
+
+    const gridCount = this.gridLines.length - 1;
+    this.orderQuantity = this.initialInvestment / gridCount / currentPrice;
+    this.startPrice = currentPrice;
+    await this.loadFilters();
+    this.running = true;
+    this.stopRecord = null;
+    this.sessionId = createSessionId(this.now());
+    this.nextSequence = 1;
+    this.riskWatcher = new RiskWatcher({ limits: this.riskLimits, now: this.now });
+
+    const ladder = this.ladder(currentPrice);
+    try {
+      await this.rebalance(ladder.filter(({ side }) => side === 'SELL').length * this.orderQuantity, currentPrice);
+      for (const { level, side } of ladder) {
+        await this.placeOrder(level, side);
+      }
+    } catch (error) {
+      await this.cancelAll();
+      throw error;
+    } finally {
+      this.emit();
+    }
+  }
+
+  // 保存したセッションを取引所の注文と突き合わせて再開する
+  // 閉じている間に約定した注文は通常の約定と同じく反対注文を出す
+  resume(session: GridSession): Promise<ReconcileResult> {
+    return this.exclusive(() => this.resumeSession(session));
+  }
+
+  private async resumeSession(session: GridSession): Promise<ReconcileResult> {
+    if (this.running) {
+      throw new Error('ボットはすでに稼働しています');
+    }
+    if (session.symbol !== this.symbol || session.account !== this.account) {
+      throw new Error('保存されたボットの取引所または通貨ペアが一致しません');
+    }
+
+    this.gridLines = [...session.gridLines];
+    this.orderQuantity = session.orderQuantity;
+    this.startPrice = session.startPrice;
+    this.sessionId = session.sessionId;
+    this.nextSequence = session.nextSequence;
+    this.completedOrders = [...session.completedOrders];
+    this.totalProfit = session.totalProfit;
+    this.filters = await this.client.getSymbolFilters(this.symbol);
+
+    const result = await reconcileOrders({
+      client: this.client,
+      symbol: this.symbol,
+      sessionId: this.sessionId,
+      gridLines: this.gridLines,
+      orderQuantity: this.orderQuantity,
+      savedOrders: session.activeOrders
+    });
+    this.debug('取引所の注文と照合しました:', result);
+
+    this.activeOrders = [...result.active, ...result.adopted, ...result.filled];
+    this.running = true;
+    this.stopRecord = null;
+    this.riskWatcher = new RiskWatcher({ limits: this.riskLimits, now: this.now });
+
+    try {
+      for (const order of result.filled) {
+        await this.handleFill(order, true);
+      }
+    } finally {
+      this.emit();
+    }
+    return result;
+  }
+
+  // 稼働中のグリッドを新しいグリッドラインに移行する
+  // 古い注文をキャンセルし、新しい売り注文に必要な保有量に合わせて成行で売買してから注文を並べ直す
+  // キャンセル以降に失敗した場合は、中途半端なグリッドで稼働し続けないよう停止する
+  migrate(options: MigrationOptions): Promise<MigrationResult> {
+    return this.exclusive(() => this.migrateGrid(options));
+  }
+
+  private async migrateGrid({ gridLines, riskLimits = this.riskLimits }: MigrationOptions): Promise<MigrationResult> {
+    if (!this.running) {
+      throw new Error('ボットが稼働していません');
+    }
+    if (gridLines.length < 2) {
+      throw new Error('グリッドラインが不足しています');
+    }
+
+    // 移行前に約定を反映しておく（実行中の約定確認は終わってから移行が始まる）
+    await this.syncOrders();
+    if (!this.running) {
+      throw new Error('ボットが停止したため移行を中止しました');
+    }
+
+    const currentPrice = await this.fetchCurrentPrice();
+    const hit = checkRiskLimits(currentPrice, riskLimits);
+    if (hit) {
+      throw new Error(`現在価格が${STOP_REASON_LABELS[hit.reason]}の価格（${hit.threshold}）に達しています`);
+    }
+
+    // 新しいグリッドが取引所の制限を満たすかを、注文をキャンセルする前に確認する
+    const previous = { gridLines: this.gridLines, orderQuantity: this.orderQuantity, filters: this.filters };
+    this.gridLines = [...gridLines].sort((a, b) => a - b);
+    this.orderQuantity = this.initialInvestment / (this.gridLines.length - 1) / currentPrice;
+    try {
+      await this.loadFilters();
+    } catch (error) {
+      this.gridLines = previous.gridLines;
+      this.orderQuantity = previous.orderQuantity;
+      this.filters = previous.filters;
+      throw error;
+    }
+
+    // 保有しているベース通貨はすべて売り注文に出ている
+    const position = this.activeOrders.filter(o => o.type === 'SELL').reduce((sum, o) => sum + o.amount, 0);
+    const canceledOrders = this.activeOrders.length;
+    const fail = (stage: string, error: unknown): Error => {
+      const message = error instanceof Error ? error.message : String(error);
+      this.finishStop({ reason: 'MANUAL', stoppedAt: this.now().toISOString(), price: currentPrice, error: `${stage}: ${message}` });
+      return new Error(`グリッドの移行中に${stage}に失敗したため停止しました: ${message}`);
+    };
+
+    try {
+      await this.cancelAll();
+    } catch (error) {
+      throw fail('古い注文のキャンセル', error);
+    }
+
+    const ladder = this.ladder(currentPrice);
+    let rebalance: GridOrder | null = null;
+    try {
+      const required = ladder.filter(({ side }) => side === 'SELL').length * this.orderQuantity;
+      rebalance = await this.rebalance(required - position, currentPrice);
+      for (const { level, side } of ladder) {
+        await this.placeOrder(level, side);
+      }
+    } catch (error) {
+      await this.cancelAll().catch(cancelError => {
+        console.error('[GridEngine Error] 移行中の注文のキャンセルに失敗しました:', cancelError);
+      });
+      throw fail('新しいグリッドの発注', error);
+    }
+
+    this.riskLimits = riskLimits;
+    this.riskWatcher = new RiskWatcher({ limits: this.riskLimits, now: this.now });
+    this.running = true;
+    this.debug('グリッドを移行しました:', { gridLines: this.gridLines, rebalance });
+    this.emit();
+
+    return { canceledOrders, rebalance, placedOrders: ladder.length };
+  }
+
+  // 保有量の過不足を成行注文で調整する（取引所の最小数量に満たない差は調整しない）
+  private async rebalance(difference: number, price: number): Promise<GridOrder | null> {
+    const filters = this.requireFilters();
+    const side = difference > 0 ? 'BUY' : 'SELL';
+    // 買いの手数料はベース通貨から差し引かれるため、その分多く買う（売り注文の数量を下回らないよう切り上げ）
+    const amount = side === 'BUY'
+      ? roundQuantityUp(difference / (1 - this.feeRate), filters)
+      : roundQuantity(-difference, filters);
+    if (amount <= 0 || amount < filters.minQty) {
+      return null;
+    }
+
+    const order = await this.client.createOrder({
+      symbol: this.symbol,
+      side,
+      type: 'MARKET',
+      quantity: formatQuantity(amount, filters)
+    });
+    const completed: GridOrder = {
+      id: order.orderId,
+      type: side,
+      price,
+      amount,
+      level: -1,
+      status: 'FILLED',
+      executedAt: this.now().toISOString(),
+      fee: price * amount * this.feeRate,
+      rebalance: true,
+      ...(await this.fetchFee({ id: order.orderId, type: side, price, amount, level: -1 }))
+    };
+    this.completedOrders.push(completed);
+    this.debug('保有量を調整しました:', completed);
+    return completed;
+  }
+
+  // 最新価格でストップロス・利確を判定し、越えていれば停止する
+  updatePrice(price: number): Promise<RiskTrigger | null> {
+    return this.exclusive(() => this.applyPrice(price));
+  }
+
+  // 取引所からボット自身の通貨ペアの価格を取得して判定する
+  // 画面で選択中の通貨ペアや自動更新の設定に関係なく監視を続けるために使う
+  checkPrice(): Promise<RiskTrigger | null> {
+    return this.exclusive(async () => {
+      if (!this.running) return null;
+      return this.applyPrice(await this.fetchCurrentPrice());
+    });
+  }
+
+  private async applyPrice(price: number): Promise<RiskTrigger | null> {
+    if (!this.running || !this.riskWatcher) return null;
+
+    const trigger = this.riskWatcher.update(price);
+    if (trigger) {
+      await this.exitOnTrigger(trigger);
+    }
+    return trigger;
+  }
+
+  private async exitOnTrigger(trigger: RiskTrigger): Promise<void> {
+    this.debug(`${STOP_REASON_LABELS[trigger.reason]}が発動しました:`, trigger);
+    const record: StopRecord = {
+      reason: trigger.reason,
+      stoppedAt: trigger.triggeredAt,
+      price: trigger.price,
+      threshold: trigger.threshold
+    };
+    // 保有しているベース通貨はすべて売り注文に出ているため、その数量を売却対象とする
+    const sellQuantity = (orders: GridOrder[]) =>
+      orders.filter(o => o.type === 'SELL').reduce((sum, o) => sum + o.amount, 0);
+    const position = sellQuantity(this.activeOrders);
+
+    try {
+      await this.cancelAll();
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+    }
+
+    try {
+      if (this.sellOnRiskStop) {
+        // キャンセルできなかった売り注文の分は売却しない
+        record.soldQuantity = await this.sellAtMarket(position - sellQuantity(this.activeOrders));
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      record.error = record.error ? `${record.error} / ${message}` : message;
+    } finally {
+      this.finishStop(record);
+    }
+
+    if (record.error) {
+      throw new Error(`${STOP_REASON_LABELS[trigger.reason]}による停止処理でエラーが発生しました: ${record.error}`);
+    }
+  }
+
+  private async sellAtMarket(quantity: number): Promise<number> {
+    const filters = this.requireFilters();
+    const amount = roundQuantity(quantity, filters);
+    if (amount <= 0 || amount < filters.minQty) {
+      return 0;
+    }
+
+    await this.client.createOrder({
+      symbol: this.symbol,
+      side: 'SELL',
+      type: 'MARKET',
+      quantity: formatQuantity(amount, filters)
+    });
+    this.debug('保有分を成行で売却しました:', amount);
+    return amount;
+  }
+
+  private finishStop(record: StopRecord) {
+    this.stopRecord = record;
+    this.emit();
+    this.onStop?.(record);
+  }
+
+  // 約定した注文を検出し、1グリッド隣に反対注文を出す
+  // 前回の確認が順番待ちか実行中なら、重ねて実行せずその完了を待つ
+  syncFills(): Promise<void> {
+    if (!this.pendingSync) {
+      this.pendingSync = this.exclusive(() => this.syncOrders()).finally(() => {
+        this.pendingSync = null;
+      });
+    }
+    return this.pendingSync;
+  }
+
+  private async syncOrders(): Promise<void> {
+    if (!this.running) return;
+
+    try {
+      for (const order of [...this.activeOrders]) {
+        const status = await this.client.getOrder(this.symbol, order.id);
+        if (status.status !== 'FILLED') continue;
+
+        await this.handleFill(order);
+        // 確認中に停止した場合は以降の注文を処理しない
+        if (!this.running) break;
+      }
+    } finally {
+      this.emit();
+    }
+  }
+
+  // 取引所から実際の手数料を取得できれば見積りの代わりに使う（BNB払いなど）
+  private async fetchFee(order: GridOrder): Promise<Pick<GridOrder, 'fee' | 'feeAsset'> | null> {
+    if (!this.client.getOrderFills) return null;
+
+    try {
+      const fills = await this.client.getOrderFills(this.symbol, order.id);
+      const assets = Array.from(new Set(fills.map(fill => fill.feeAsset)));
+      // 複数の資産で支払った場合は見積りのままにする
+      if (assets.length !== 1) return null;
+      return { fee: fills.reduce((sum, fill) => sum + fill.fee, 0), feeAsset: assets[0] };
+    } catch (error) {
+      console.error('[GridEngine Error] 約定明細の取得に失敗しました:', order.id, error);
+      return null;
+    }
+  }
+
+  private async handleFill(order: GridOrder, reconciled = false): Promise<void> {
+    this.activeOrders = this.activeOrders.filter(o => o.id !== order.id);
+
+    const completed: GridOrder = {
+      ...order,
+      status: 'FILLED',
+      executedAt: this.now().toISOString(),
+      fee: order.price * order.amount * this.feeRate,
+      ...(reconciled && { reconciled }),
+      ...(await this.fetchFee(order))
+    };
+
+    // 利益はグリッドの買いと対になる売りだけに計上する（開始時・移行時に購入した分の売りは含めない）
+    if (order.type === 'SELL' && order.openedBy) {
+      const buyPrice = this.completedOrders.find(o => o.id === order.openedBy)?.price ?? this.gridLines[order.level - 1];
+      completed.profit = (order.price - buyPrice) * order.amount;
+      this.totalProfit += completed.profit;
+    }
+    this.completedOrders.push(completed);
+
+    // 確認中に停止した場合は反対注文を出さない
+    if (!this.running) return;
+
+    const nextLevel = order.type === 'BUY' ? order.level + 1 : order.level - 1;
+    if (nextLevel < 0 || nextLevel >= this.gridLines.length) return;
+    // 再開時に引き継いだ注文がすでにある場合は重ねて発注しない
+    if (this.activeOrders.some(o => o.level === nextLevel)) {
+      this.debug('反対注文のレベルに注文があるため発注しません:', nextLevel);
+      return;
+    }
+
+    if (order.type === 'BUY') {
+      // 受け取った数量（手数料控除後）だけを売りに出す
+      await this.placeOrder(nextLevel, 'SELL', order.amount * (1 - this.feeRate), order.id);
+    } else {
+      await this.placeOrder(nextLevel, 'BUY');
+    }
+  }
+
+  // 未約定の注文をすべてキャンセルして停止する（実行中の発注が終わるのを待ってからキャンセルする）
+  stop(): Promise<void> {
+    return this.exclusive(async () => {
+      try {
+        await this.cancelAll();
+      } finally {
+        this.finishStop({ reason: 'MANUAL', stoppedAt: this.now().toISOString() });
+      }
+    });
+  }
+
+  private async cancelAll(): Promise<void> {
+    this.running = false;
+    const failed: GridOrder[] = [];
+
+    for (const order of this.activeOrders) {
+      try {
+        await this.client.cancelOrder(this.symbol, order.id);
+      } catch (error) {
+        console.error('[GridEngine Error] 注文のキャンセルに失敗しました:', order.id, error);
+        failed.push(order);
+      }
+    }
+
+    this.activeOrders = failed;
+    this.emit();
+
+    if (failed.length > 0) {
+      throw new Error(`${failed.length}件の注文をキャンセルできませんでした`);
+    }
+  }
+}
+
+export { GridEngine };
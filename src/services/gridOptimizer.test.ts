@@ -0,0 +1,89 @@
+import { calculateGridLines } from '../utils/grid';
+import { analyzeMarket, candleLimitFor, proposeGridSettings, runOptimization } from './gridOptimizer';
+import { Candle } from './marketData';
+
+const HOUR = 60 * 60 * 1000;
+
+// 27000を中心に上下する値動き（trendは1本あたりの変化率）
+const makeCandles = (count: number, trend = 0): Candle[] =>
+  Array.from({ length: count }, (_, i) => {
+    const close = 27000 * (1 + trend) ** i + Math.sin(i / 3) * 500;
+    const open = i === 0 ? close : 27000 * (1 + trend) ** (i - 1) + Math.sin((i - 1) / 3) * 500;
+    return {
+      openTime: i * HOUR,
+      open,
+      high: Math.max(open, close) + 100,
+      low: Math.min(open, close) - 100,
+      close,
+      volume: 1
+    };
+  });
+
+describe('candleLimitFor', () => {
+  test('分析期間と時間枠から本数を求め、取得できる範囲に収める', () => {
+    expect(candleLimitFor('1h', 30)).toBe(720);
+    expect(candleLimitFor('15m', 90)).toBe(1000);
+    expect(candleLimitFor('1d', 7)).toBe(30);
+    expect(() => candleLimitFor('2h', 7)).toThrow('時間枠が不正です');
+  });
+});
+
+describe('analyzeMarket', () => {
+  test('トレンドの有無を判定する', () => {
+    expect(Math.abs(analyzeMarket(makeCandles(200)).trendStrength)).toBeLessThan(1.5);
+    expect(analyzeMarket(makeCandles(200, 0.002)).trendStrength).toBeGreaterThan(1.5);
+    expect(() => analyzeMarket(makeCandles(10))).toThrow('30本以上');
+  });
+});
+
+describe('proposeGridSettings', () => {
+  const candles = makeCandles(200);
+
+  test('リスクが高いほどレンジを狭く、グリッドを細かくする', () => {
+    const low = proposeGridSettings({ candles, riskLevel: 'low', initialInvestment: 10000 }).settings;
+    const high = proposeGridSettings({ candles, riskLevel: 'high', initialInvestment: 10000 }).settings;
+
+    expect(low.upperLimit - low.lowerLimit).toBeGreaterThan(high.upperLimit - high.lowerLimit);
+    const spacing = (s: typeof low) => (s.upperLimit - s.lowerLimit) / s.gridNumber;
+    expect(spacing(low)).toBeGreaterThan(spacing(high));
+  });
+
+  test('現在価格を含むレンジと、レンジの外側のストップロス・利確を提案し、根拠を示す', () => {
+    const proposal = proposeGridSettings({ candles, riskLevel: 'medium', initialInvestment: 10000 });
+    const { settings, analysis } = proposal;
+
+    expect(settings.lowerLimit).toBeLessThan(analysis.currentPrice);
+    expect(settings.upperLimit).toBeGreaterThan(analysis.currentPrice);
+    expect(settings.stopLoss).toBeLessThan(settings.lowerLimit);
+    expect(settings.takeProfitLevel).toBeGreaterThan(settings.upperLimit);
+    expect(calculateGridLines(settings)).toHaveLength(settings.gridNumber + 1);
+    expect(proposal.reasons.length).toBeGreaterThan(3);
+    expect(proposal.reasons.join('')).toContain('明確なトレンドはない');
+  });
+
+  test('上昇トレンドでは上限を広げ、最小注文額を満たすよう本数を減らす', () => {
+    const proposal = proposeGridSettings({ candles: makeCandles(200, 0.002), riskLevel: 'high', initialInvestment: 50, minOrderValue: 10 });
+
+    expect(proposal.reasons.join('')).toContain('上昇トレンド');
+    expect(proposal.settings.gridNumber).toBe(5);
+    expect(proposal.reasons.join('')).toContain('5本に減らしました');
+  });
+});
+
+describe('runOptimization', () => {
+  test('時間枠と期間に応じた本数のローソク足を取得して提案する', async () => {
+    const fetchCandles = jest.fn().mockResolvedValue(makeCandles(168));
+
+    const proposal = await runOptimization({
+      symbol: 'BTCUSDT',
+      timeframe: '1h',
+      historyPeriod: 7,
+      riskLevel: 'medium',
+      initialInvestment: 10000,
+      fetchCandles
+    });
+
+    expect(fetchCandles).toHaveBeenCalledWith('BTCUSDT', '1h', 168);
+    expect(proposal.analysis.candleCount).toBe(168);
+  });
+});
@@ -0,0 +1,261 @@
+import { GridSettings } from '../hooks/useGridSettings';
+import { DEFAULT_MIN_ORDER_VALUE } from '../utils/gridValidation';
+import {
+  averageTrueRange,
+  bollingerBands,
+  lastValue,
+  mean,
+  percentile,
+  realizedVolatility
+} from '../utils/indicators';
+import { SymbolFilters, roundPrice } from '../utils/symbolFilters';
+import { findTimeframe } from '../utils/timeframes';
+import { Candle, fetchKlines } from './marketData';
+
+// 過去のローソク足のボラティリティとトレンドからグリッド設定を提案する
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+interface RiskProfile {
+  label: string;
+  // レンジの基準にする終値のパーセンタイル
+  lowerPercentile: number;
+  upperPercentile: number;
+  // レンジの外側に加える余裕（ATRの倍数）
+  rangeBufferAtr: number;
+  // グリッドの値幅（ATRの倍数）
+  spacingAtr: number;
+  // ストップロス・利確をレンジからどれだけ離すか（ATRの倍数）
+  riskStopAtr: number;
+}
+
+// 低リスクほどレンジを広く・グリッドを粗くし、高リスクほどレンジを狭く・グリッドを細かくする
+export const RISK_PROFILES: Record<RiskLevel, RiskProfile> = {
+  low: { label: '低リスク', lowerPercentile: 5, upperPercentile: 95, rangeBufferAtr: 1.5, spacingAtr: 1.5, riskStopAtr: 3 },
+  medium: { label: '中リスク', lowerPercentile: 10, upperPercentile: 90, rangeBufferAtr: 1, spacingAtr: 1, riskStopAtr: 2 },
+  high: { label: '高リスク', lowerPercentile: 20, upperPercentile: 80, rangeBufferAtr: 0.5, spacingAtr: 0.6, riskStopAtr: 1 }
+};
+
+export interface MarketAnalysis {
+  candleCount: number;
+  from: string;
+  to: string;
+  currentPrice: number;
+  atr: number;
+  atrPercent: number;
+  // 対数収益率の標準偏差（1本あたりと年率、%）
+  volatilityPercent: number;
+  annualizedVolatilityPercent: number;
+  bollingerWidthPercent: number;
+  averageBollingerWidthPercent: number;
+  // 期間中の価格変化率（%）と、それがボラティリティに対してどれだけ大きいか
+  trendPercent: number;
+  trendStrength: number;
+  percentiles: Record<number, number>;
+}
+
+export type ProposedSettings = Pick<
+  GridSettings,
+  'upperLimit' | 'lowerLimit' | 'gridNumber' | 'gridType' | 'stopLoss' | 'takeProfitLevel'
+>;
+
+export interface OptimizationProposal {
+  settings: ProposedSettings;
+  analysis: MarketAnalysis;
+  riskLevel: RiskLevel;
+  // 提案の根拠（表示用の文章）
+  reasons: string[];
+  createdAt: string;
+}
+
+interface ProposalOptions {
+  candles: Candle[];
+  riskLevel: RiskLevel;
+  initialInvestment: number;
+  minOrderValue?: number;
+  feeRate?: number;
+  filters?: Pick<SymbolFilters, 'tickSize'>;
+}
+
+interface OptimizationOptions extends Omit<ProposalOptions, 'candles'> {
+  symbol: string;
+  timeframe: string;
+  // 分析期間（日）
+  historyPeriod: number;
+  fetchCandles?: (symbol: string, interval: string, limit: number) => Promise<Candle[]>;
+}
+
+// プロキシ（server.js）から一度に取得できるローソク足の本数
+export const MAX_OPTIMIZATION_CANDLES = 1000;
+const MIN_CANDLES = 30;
+const ATR_PERIOD = 14;
+const BOLLINGER_PERIOD = 20;
+const PERCENTILES = [5, 10, 20, 50, 80, 90, 95];
+const DEFAULT_FEE_RATE = 0.001;
+// グリッドの値幅は往復の手数料の2倍以上にする
+const MIN_SPACING_FEE_MULTIPLE = 2;
+const MAX_PROPOSED_GRIDS = 100;
+// トレンドの強さがこれを超えたらレンジをトレンドの方向に広げる
+const STRONG_TREND = 1.5;
+// バンド幅が期間平均のこの割合を下回ったら収縮（スクイーズ）とみなす
+const SQUEEZE_RATIO = 0.6;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+const toPercent = (value: number) => `${value.toFixed(2)}%`;
+
+// 分析期間と時間枠から必要なローソク足の本数を求める
+export const candleLimitFor = (timeframe: string, historyPeriod: number): number => {
+  const option = findTimeframe(timeframe);
+  if (!option) {
+    throw new Error(`時間枠が不正です: ${timeframe}`);
+  }
+  const count = Math.ceil((historyPeriod * 24 * 60 * 60 * 1000) / option.interval);
+  return Math.min(Math.max(count, MIN_CANDLES), MAX_OPTIMIZATION_CANDLES);
+};
+
+export const analyzeMarket = (candles: Candle[]): MarketAnalysis => {
+  if (candles.length < MIN_CANDLES) {
+    throw new Error(`分析には${MIN_CANDLES}本以上のローソク足が必要です（${candles.length}本）`);
+  }
+
+  const closes = candles.map(candle => candle.close);
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  const currentPrice = last.close;
+  const atr = lastValue(averageTrueRange(candles, ATR_PERIOD)) ?? 0;
+  const volatility = realizedVolatility(closes);
+  const candleInterval = (last.openTime - first.openTime) / (candles.length - 1);
+  const bands = bollingerBands(closes, BOLLINGER_PERIOD).filter((band): band is NonNullable<typeof band> => band !== null);
+  const drift = Math.log(currentPrice / first.close);
+
+  return {
+    candleCount: candles.length,
+    from: new Date(first.openTime).toISOString(),
+    to: new Date(last.openTime).toISOString(),
+    currentPrice,
+    atr,
+    atrPercent: (atr / currentPrice) * 100,
+    volatilityPercent: volatility * 100,
+    annualizedVolatilityPercent: candleInterval > 0 ? volatility * Math.sqrt(YEAR_MS / candleInterval) * 100 : 0,
+    bollingerWidthPercent: (bands[bands.length - 1]?.width ?? 0) * 100,
+    averageBollingerWidthPercent: mean(bands.map(band => band.width)) * 100,
+    trendPercent: (currentPrice / first.close - 1) * 100,
+    // 期間中の値動きが、ランダムな値動きで想定される幅（σ√n）の何倍か
+    trendStrength: volatility > 0 ? drift / (volatility * Math.sqrt(candles.length - 1)) : 0,
+    percentiles: Object.fromEntries(PERCENTILES.map(p => [p, percentile(closes, p)]))
+  };
+};
+
+// 分析結果とリスクレベルからグリッド設定を提案する
+export const proposeGridSettings = ({
+  candles,
+  riskLevel,
+  initialInvestment,
+  minOrderValue = DEFAULT_MIN_ORDER_VALUE,
+  feeRate = DEFAULT_FEE_RATE,
+  filters
+}: ProposalOptions): OptimizationProposal => {
+  const analysis = analyzeMarket(candles);
+  const profile = RISK_PROFILES[riskLevel];
+  const { currentPrice, atr } = analysis;
+  const round = (price: number) => filters ? roundPrice(price, filters) : Number(price.toPrecision(6));
+  const reasons: string[] = [];
+
+  reasons.push(
+    `${analysis.candleCount}本のローソク足を分析しました。ATR(${ATR_PERIOD})は${toPercent(analysis.atrPercent)}、` +
+    `実現ボラティリティは1本あたり${toPercent(analysis.volatilityPercent)}（年率${analysis.annualizedVolatilityPercent.toFixed(0)}%）です。`
+  );
+
+  // レンジ: 終値のパーセンタイルにATRの余裕を加える
+  const closes = candles.map(candle => candle.close);
+  let lower = percentile(closes, profile.lowerPercentile) - atr * profile.rangeBufferAtr;
+  let upper = percentile(closes, profile.upperPercentile) + atr * profile.rangeBufferAtr;
+  reasons.push(
+    `${profile.label}のため、終値の${profile.lowerPercentile}〜${profile.upperPercentile}パーセンタイルに` +
+    `ATRの${profile.rangeBufferAtr}倍の余裕を加えてレンジとしました。`
+  );
+
+  if (Math.abs(analysis.trendStrength) >= STRONG_TREND) {
+    const extension = atr * (profile.rangeBufferAtr + 1);
+    if (analysis.trendStrength > 0) upper += extension;
+    else lower -= extension;
+    reasons.push(
+      `期間中に${toPercent(analysis.trendPercent)}の${analysis.trendStrength > 0 ? '上昇' : '下落'}トレンドがあるため、` +
+      `${analysis.trendStrength > 0 ? '上限' : '下限'}を広げました。トレンドが続くとレンジを外れやすく、グリッド取引に不利な相場です。`
+    );
+  } else {
+    reasons.push(`期間中の値動きは${toPercent(analysis.trendPercent)}で、明確なトレンドはないためレンジ相場向きです。`);
+  }
+
+  if (analysis.bollingerWidthPercent < analysis.averageBollingerWidthPercent * SQUEEZE_RATIO) {
+    lower -= atr;
+    upper += atr;
+    reasons.push(
+      `ボリンジャーバンド幅（${toPercent(analysis.bollingerWidthPercent)}）が期間平均（${toPercent(analysis.averageBollingerWidthPercent)}）より` +
+      '大きく縮小しており、急な値動きに備えてレンジを広げました。'
+    );
+  }
+
+  // 現在価格がレンジの中に入るようにする
+  lower = Math.max(Math.min(lower, currentPrice - atr), currentPrice * 0.01);
+  upper = Math.max(upper, currentPrice + atr);
+  const lowerLimit = round(lower);
+  const upperLimit = round(upper);
+
+  // 値幅: ATRの倍数とし、往復の手数料を下回らないようにする
+  const minSpacing = currentPrice * feeRate * 2 * MIN_SPACING_FEE_MULTIPLE;
+  const spacing = Math.max(atr * profile.spacingAtr, minSpacing);
+  if (spacing === minSpacing) {
+    reasons.push(`ATRが小さいため、グリッドの値幅を往復手数料の${MIN_SPACING_FEE_MULTIPLE}倍（${toPercent((spacing / currentPrice) * 100)}）にしました。`);
+  }
+
+  // レンジが広い場合は値幅の割合を揃えるため等比グリッドにする
+  const gridType = upperLimit / lowerLimit > 1.3 ? 'geometric' : 'arithmetic';
+  let gridNumber = gridType === 'geometric'
+    ? Math.round(Math.log(upperLimit / lowerLimit) / Math.log(1 + spacing / currentPrice))
+    : Math.round((upperLimit - lowerLimit) / spacing);
+  gridNumber = Math.min(Math.max(gridNumber, 2), MAX_PROPOSED_GRIDS);
+  reasons.push(
+    `値幅をATRの${profile.spacingAtr}倍（約${toPercent((spacing / currentPrice) * 100)}）とし、` +
+    `${gridType === 'geometric' ? '等比' : '等差'}グリッドで${gridNumber}本にしました。`
+  );
+
+  // 1本あたりの注文額が最小注文額を下回らないよう本数を減らす
+  const affordable = Math.floor(initialInvestment / minOrderValue);
+  if (gridNumber > affordable) {
+    gridNumber = Math.max(affordable, 1);
+    reasons.push(`初期投資額に対して最小注文額（${minOrderValue}）を満たすため、グリッド本数を${gridNumber}本に減らしました。`);
+  }
+
+  const stopLoss = round(Math.max(lowerLimit - atr * profile.riskStopAtr, 0));
+  const takeProfitLevel = round(upperLimit + atr * profile.riskStopAtr);
+  reasons.push(`ストップロスと利確はレンジからATRの${profile.riskStopAtr}倍離した価格にしました。`);
+
+  return {
+    settings: { upperLimit, lowerLimit, gridNumber, gridType, stopLoss, takeProfitLevel },
+    analysis,
+    riskLevel,
+    reasons,
+    createdAt: new Date().toISOString()
+  };
+};
+
+// 分析期間・時間枠のローソク足を取得して設定を提案する
+export const runOptimization = async ({
+  symbol,
+  timeframe,
+  historyPeriod,
+  fetchCandles = fetchKlines,
+  ...options
+}: OptimizationOptions): Promise<OptimizationProposal> => {
+  const limit = candleLimitFor(timeframe, historyPeriod);
+  const candles = await fetchCandles(symbol, timeframe, limit);
+  const proposal = proposeGridSettings({ candles, ...options });
+
+  const requested = Math.ceil((historyPeriod * 24 * 60 * 60 * 1000) / (findTimeframe(timeframe)?.interval ?? 1));
+  if (requested > limit) {
+    proposal.reasons.unshift(`過去${historyPeriod}日分は${requested}本になるため、直近${limit}本で分析しました。`);
+  } else if (requested < limit) {
+    proposal.reasons.unshift(`過去${historyPeriod}日分は${requested}本で指標の計算に足りないため、直近${limit}本で分析しました。`);
+  }
+  return proposal;
+};
@@ -0,0 +1,124 @@
+import { PaperExchange } from './paperExchange';
+import { formatKillSwitchReport, runKillSwitch } from './killSwitch';
+
+const SYMBOL = 'BTCUSDT';
+const NOW = new Date(Date.UTC(2024, 0, 1));
+
+describe('runKillSwitch', () => {
+  let exchange: PaperExchange;
+  const sleep = jest.fn(async () => {});
+
+  const placeOrders = async () => {
+    await exchange.createOrder({ symbol: SYMBOL, side: 'BUY', type: 'LIMIT', quantity: '0.1', price: '26000' });
+    await exchange.createOrder({ symbol: SYMBOL, side: 'BUY', type: 'LIMIT', quantity: '0.1', price: '25000' });
+    await exchange.createOrder({ symbol: SYMBOL, side: 'SELL', type: 'LIMIT', quantity: '0.5', price: '29000' });
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    sleep.mockClear();
+    exchange = new PaperExchange({
+      initialBalance: { base: 1, quote: 10000 },
+      storageKey: null,
+      now: () => NOW,
+      debug: false
+    });
+    exchange.updatePrice(SYMBOL, 27000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('一括取消で全注文を取り消し、残っていないことを確認する', async () => {
+    await placeOrders();
+
+    const report = await runKillSwitch({ client: exchange, symbol: SYMBOL, baseAsset: 'BTC', quoteAsset: 'USDT', sleep });
+
+    expect(report).toMatchObject({ success: true, usedCancelAll: true, remainingOrderIds: [], failed: [] });
+    expect(report.canceledOrderIds).toHaveLength(3);
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([]);
+    expect(await exchange.getAccountBalance('BTC', 'USDT')).toEqual({ base: 1, quote: 10000 });
+  });
+
+  test('一括取消が失敗したら1件ずつ取り消し、失敗した注文は再試行する', async () => {
+    await placeOrders();
+    jest.spyOn(exchange, 'cancelAllOrders').mockRejectedValue(new Error('503'));
+    const cancelOrder = exchange.cancelOrder.bind(exchange);
+    let failures = 2;
+    jest.spyOn(exchange, 'cancelOrder').mockImplementation(async (symbol, orderId) => {
+      if (failures-- > 0) throw new Error('タイムアウト');
+      return cancelOrder(symbol, orderId);
+    });
+
+    const report = await runKillSwitch({ client: exchange, symbol: SYMBOL, baseAsset: 'BTC', quoteAsset: 'USDT', sleep });
+
+    expect(report).toMatchObject({ success: true, usedCancelAll: false, attempts: 3, failed: [] });
+    expect(report.canceledOrderIds).toHaveLength(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([]);
+  });
+
+  test('取り消せない注文が残れば失敗として報告し、売却は行わない', async () => {
+    await placeOrders();
+    const [stuck] = await exchange.getOpenOrders(SYMBOL);
+    jest.spyOn(exchange, 'cancelAllOrders').mockRejectedValue(new Error('503'));
+    const cancelOrder = exchange.cancelOrder.bind(exchange);
+    jest.spyOn(exchange, 'cancelOrder').mockImplementation(async (symbol, orderId) => {
+      if (orderId === stuck.orderId) throw new Error('Unknown order');
+      return cancelOrder(symbol, orderId);
+    });
+    const createOrder = jest.spyOn(exchange, 'createOrder');
+
+    const report = await runKillSwitch({
+      client: exchange,
+      symbol: SYMBOL,
+      baseAsset: 'BTC',
+      quoteAsset: 'USDT',
+      flattenQuantity: 1,
+      maxRetries: 2,
+      sleep
+    });
+
+    expect(report.success).toBe(false);
+    expect(report.remainingOrderIds).toEqual([stuck.orderId]);
+    expect(report.failed).toEqual([{ orderId: stuck.orderId, message: 'Unknown order' }]);
+    expect(report.canceledOrderIds).toHaveLength(2);
+    expect(report.flattenedQuantity).toBeUndefined();
+    expect(createOrder).not.toHaveBeenCalled();
+    expect(formatKillSwitchReport(report, 'BTC')).toContain(`残っている注文: ${stuck.orderId}`);
+  });
+
+  test('指定すれば取消後にボットの保有分だけを成行で売却する', async () => {
+    await placeOrders();
+
+    const report = await runKillSwitch({
+      client: exchange,
+      symbol: SYMBOL,
+      baseAsset: 'BTC',
+      quoteAsset: 'USDT',
+      flattenQuantity: 0.3,
+      sleep
+    });
+
+    expect(report).toMatchObject({ success: true, flattenedQuantity: 0.3 });
+    // 口座のほかの保有分は残す
+    expect((await exchange.getAccountBalance('BTC', 'USDT')).base).toBeCloseTo(0.7);
+    expect(formatKillSwitchReport(report, 'BTC')).toContain('保有分を成行で売却しました: 0.3 BTC');
+  });
+
+  test('ボットの保有分が口座の残高より多ければ残高までを売却する', async () => {
+    const report = await runKillSwitch({
+      client: exchange,
+      symbol: SYMBOL,
+      baseAsset: 'BTC',
+      quoteAsset: 'USDT',
+      flattenQuantity: 2,
+      sleep
+    });
+
+    expect(report).toMatchObject({ success: true, flattenedQuantity: 1 });
+    expect((await exchange.getAccountBalance('BTC', 'USDT')).base).toBe(0);
+  });
+});
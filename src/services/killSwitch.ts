@@ -0,0 +1,166 @@
+import { TradingClient } from './paperExchange';
+import { formatQuantity, roundQuantity } from '../utils/symbolFilters';
+
+interface KillSwitchConfig {
+  client: TradingClient;
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  // 取消後に成行で売却する基軸通貨の数量（ボットが購入した保有分。口座の残高を上限とし、ほかの保有分は売却しない）
+  flattenQuantity?: number;
+  maxRetries?: number;
+  retryDelayMs?: number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface KillSwitchFailure {
+  orderId: string;
+  message: string;
+}
+
+export interface KillSwitchReport {
+  symbol: string;
+  canceledOrderIds: string[];
+  failed: KillSwitchFailure[];
+  // 確認時点でまだ取引所に残っている注文
+  remainingOrderIds: string[];
+  usedCancelAll: boolean;
+  attempts: number;
+  flattenedQuantity?: number;
+  flattenError?: string;
+  success: boolean;
+}
+
+const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// 未約定の注文をすべて取り消し、取引所に残っていないことを確認する
+// 一括取消に対応していればそれを使い、失敗した場合は1件ずつ取り消す
+export const runKillSwitch = async ({
+  client,
+  symbol,
+  baseAsset,
+  quoteAsset,
+  flattenQuantity = 0,
+  maxRetries = DEFAULT_MAX_RETRIES,
+  retryDelayMs = DEFAULT_RETRY_DELAY_MS,
+  sleep = ms => new Promise(resolve => setTimeout(resolve, ms))
+}: KillSwitchConfig): Promise<KillSwitchReport> => {
+  const canceled = new Set<string>();
+  const failures = new Map<string, string>();
+  let remainingOrderIds: string[] = [];
+  let usedCancelAll = false;
+  let attempts = 0;
+
+  while (attempts <= maxRetries) {
+    if (attempts > 0) {
+      await sleep(retryDelayMs);
+    }
+    attempts++;
+
+    let openOrders;
+    try {
+      openOrders = await client.getOpenOrders(symbol);
+    } catch (error) {
+      failures.set('*', `注文一覧の取得に失敗しました: ${errorMessage(error)}`);
+      continue;
+    }
+    failures.delete('*');
+    remainingOrderIds = openOrders.map(order => order.orderId);
+    if (remainingOrderIds.length === 0) break;
+
+    if (client.cancelAllOrders) {
+      try {
+        const result = await client.cancelAllOrders(symbol);
+        result.forEach(order => canceled.add(order.orderId));
+        usedCancelAll = true;
+        continue;
+      } catch (error) {
+        console.error('[KillSwitch Error]', '一括取消に失敗しました:', error);
+      }
+    }
+
+    for (const order of openOrders) {
+      try {
+        await client.cancelOrder(symbol, order.orderId);
+        canceled.add(order.orderId);
+        failures.delete(order.orderId);
+      } catch (error) {
+        failures.set(order.orderId, errorMessage(error));
+      }
+    }
+  }
+
+  // 最後の取消の後に残っている注文がないか確認する
+  if (remainingOrderIds.length > 0) {
+    try {
+      remainingOrderIds = (await client.getOpenOrders(symbol)).map(order => order.orderId);
+    } catch (error) {
+      failures.set('*', `注文一覧の取得に失敗しました: ${errorMessage(error)}`);
+    }
+  }
+  // 取り消せていれば途中の失敗は記録しない
+  remainingOrderIds.forEach(id => canceled.delete(id));
+  Array.from(failures.keys())
+    .filter(id => id !== '*' && !remainingOrderIds.includes(id))
+    .forEach(id => failures.delete(id));
+
+  const report: KillSwitchReport = {
+    symbol,
+    canceledOrderIds: Array.from(canceled),
+    failed: Array.from(failures, ([orderId, message]) => ({ orderId, message })),
+    remainingOrderIds,
+    usedCancelAll,
+    attempts,
+    success: false
+  };
+
+  // 注文が残っていると残高がロックされたままなので、売却は取消が完了した場合のみ行う
+  if (flattenQuantity > 0 && remainingOrderIds.length === 0 && !failures.has('*')) {
+    try {
+      const [{ base }, filters] = await Promise.all([
+        client.getAccountBalance(baseAsset, quoteAsset),
+        client.getSymbolFilters(symbol)
+      ]);
+      const quantity = roundQuantity(Math.min(flattenQuantity, base), filters);
+      if (quantity > 0 && quantity >= filters.minQty) {
+        await client.createOrder({ symbol, side: 'SELL', type: 'MARKET', quantity: formatQuantity(quantity, filters) });
+        report.flattenedQuantity = quantity;
+      } else {
+        report.flattenedQuantity = 0;
+      }
+    } catch (error) {
+      report.flattenError = errorMessage(error);
+    }
+  }
+
+  report.success = remainingOrderIds.length === 0 && report.failed.length === 0 && !report.flattenError;
+  return report;
+};
+
+export const formatKillSwitchReport = (report: KillSwitchReport, baseAsset: string): string => {
+  const lines = [
+    report.success ? '緊急停止が完了しました' : '緊急停止が完了していません。取引所の画面で注文を確認してください',
+    `取り消した注文: ${report.canceledOrderIds.length}件${report.usedCancelAll ? '（一括取消）' : ''}`
+  ];
+
+  if (report.remainingOrderIds.length > 0) {
+    lines.push(`残っている注文: ${report.remainingOrderIds.join(', ')}`);
+  }
+  report.failed.forEach(({ orderId, message }) => {
+    lines.push(orderId === '*' ? message : `取消失敗 ${orderId}: ${message}`);
+  });
+  if (report.flattenedQuantity !== undefined) {
+    lines.push(
+      report.flattenedQuantity > 0
+        ? `保有分を成行で売却しました: ${report.flattenedQuantity} ${baseAsset}`
+        : `売却できる${baseAsset}の残高はありませんでした`
+    );
+  }
+  if (report.flattenError) {
+    lines.push(`成行売却に失敗しました: ${report.flattenError}`);
+  }
+  return lines.join('\n');
+};
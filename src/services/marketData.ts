@@ -0,0 +1,129 @@
+import { DepthSnapshot, parseDepthSnapshot } from './orderBook';
+
+export interface Candle {
+  openTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+// プロキシサーバー（server.js）のURL
+const PROXY_BASE_URL = process.env.REACT_APP_PROXY_URL || 'http://localhost:4000';
+const CANDLE_CACHE_PREFIX = 'gridBotCandles';
+
+const toCandle = (openTime: unknown, open: unknown, high: unknown, low: unknown, close: unknown, volume: unknown): Candle => {
+  const time = typeof openTime === 'string' && isNaN(Number(openTime))
+    ? new Date(openTime).getTime()
+    : Number(openTime);
+
+  const candle = {
+    openTime: time,
+    open: Number(open),
+    high: Number(high),
+    low: Number(low),
+    close: Number(close),
+    volume: Number(volume ?? 0)
+  };
+
+  if ([candle.openTime, candle.open, candle.high, candle.low, candle.close].some(isNaN)) {
+    throw new Error('ローソク足データの形式が不正です');
+  }
+  return candle;
+};
+
+// Binanceのkline配列、オブジェクト配列、CSVのいずれかをローソク足に変換
+export const parseCandles = (input: string | unknown[]): Candle[] => {
+  let rows: unknown[];
+
+  if (typeof input === 'string') {
+    const text = input.trim();
+    if (text.startsWith('[') || text.startsWith('{')) {
+      rows = JSON.parse(text);
+    } else {
+      // CSV: openTime,open,high,low,close,volume（ヘッダー行は任意）
+      rows = text.split(/\r?\n/)
+        .map(line => line.split(','))
+        .filter(columns => columns.length >= 5 && !isNaN(Number(columns[1])));
+    }
+  } else {
+    rows = input;
+  }
+
+  if (!Array.isArray(rows)) {
+    throw new Error('ローソク足データは配列である必要があります');
+  }
+
+  return rows
+    .map(row => {
+      if (Array.isArray(row)) {
+        return toCandle(row[0], row[1], row[2], row[3], row[4], row[5]);
+      }
+      const candle = row as Record<string, unknown>;
+      return toCandle(
+        candle.openTime ?? candle.time,
+        candle.open,
+        candle.high,
+        candle.low,
+        candle.close,
+        candle.volume
+      );
+    })
+    .sort((a, b) => a.openTime - b.openTime);
+};
+
+const cacheKey = (symbol: string, interval: string) => `${CANDLE_CACHE_PREFIX}:${symbol}:${interval}`;
+
+// キャッシュ済みのローソク足を読み込む
+export const loadCachedCandles = (symbol: string, interval: string): Candle[] => {
+  try {
+    const saved = localStorage.getItem(cacheKey(symbol, interval));
+    return saved ? parseCandles(JSON.parse(saved)) : [];
+  } catch (error) {
+    console.error('ローソク足キャッシュの読み込みエラー:', error);
+    return [];
+  }
+};
+
+// ローソク足をキャッシュに保存（既存データとマージ）
+export const saveCachedCandles = (symbol: string, interval: string, candles: Candle[]): boolean => {
+  try {
+    const merged = new Map<number, Candle>();
+    [...loadCachedCandles(symbol, interval), ...candles].forEach(candle => {
+      merged.set(candle.openTime, candle);
+    });
+    const sorted = Array.from(merged.values()).sort((a, b) => a.openTime - b.openTime);
+    localStorage.setItem(cacheKey(symbol, interval), JSON.stringify(sorted));
+    return true;
+  } catch (error) {
+    console.error('ローソク足キャッシュの保存エラー:', error);
+    return false;
+  }
+};
+
+// プロキシ経由でローソク足を取得（オフライン時はサーバー側でフィクスチャを返す）
+export const fetchKlines = async (symbol: string, interval: string, limit = 100): Promise<Candle[]> => {
+  const params = new URLSearchParams({ symbol, interval, limit: limit.toString() });
+  const response = await fetch(`${PROXY_BASE_URL}/api/klines?${params}`);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `ローソク足の取得に失敗しました (HTTP ${response.status})`);
+  }
+
+  return parseCandles(await response.json());
+};
+
+// プロキシ経由で板のスナップショットを取得（オフライン時はサーバー側で記録した板を返す）
+export const fetchDepth = async (symbol: string, limit = 100): Promise<DepthSnapshot> => {
+  const params = new URLSearchParams({ symbol, limit: limit.toString() });
+  const response = await fetch(`${PROXY_BASE_URL}/api/depth?${params}`);
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `板情報の取得に失敗しました (HTTP ${response.status})`);
+  }
+
+  return parseDepthSnapshot(await response.json());
+};
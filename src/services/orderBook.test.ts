@@ -0,0 +1,98 @@
+import {
+  DepthUpdate,
+  OrderBook,
+  aggregateLevels,
+  calculateSpread,
+  gridLevelDistances,
+  parseDepthSnapshot,
+  parseDepthUpdate
+} from './orderBook';
+
+const snapshot = parseDepthSnapshot({
+  lastUpdateId: 100,
+  bids: [['27000.00', '1.0'], ['26999.00', '2.0'], ['26990.00', '0.5']],
+  asks: [['27001.00', '1.5'], ['27002.50', '1.0']]
+});
+
+const update = (firstUpdateId: number, finalUpdateId: number, changes: Partial<DepthUpdate> = {}): DepthUpdate => ({
+  symbol: 'BTCUSDT',
+  eventTime: 0,
+  firstUpdateId,
+  finalUpdateId,
+  bids: [],
+  asks: [],
+  ...changes
+});
+
+describe('OrderBook', () => {
+  test('スナップショットより古い差分を無視し、連続する差分を適用する', () => {
+    const book = new OrderBook(snapshot);
+
+    expect(book.apply(update(95, 100, { bids: [[27000, 9]] }))).toBe('stale');
+    // 最初の差分はスナップショットの次のIDを含めばよい
+    expect(book.apply(update(98, 103, { bids: [[27000, 0], [27000.5, 3]], asks: [[27001, 0.2]] }))).toBe('applied');
+    expect(book.apply(update(104, 104, { asks: [[27002.5, 0]] }))).toBe('applied');
+
+    expect(book.view()).toEqual({
+      lastUpdateId: 104,
+      bids: [[27000.5, 3], [26999, 2], [26990, 0.5]],
+      asks: [[27001, 0.2]]
+    });
+    expect(book.view(1).bids).toEqual([[27000.5, 3]]);
+  });
+
+  test('更新IDが途切れた差分は適用しない', () => {
+    const book = new OrderBook(snapshot);
+
+    expect(book.apply(update(102, 105))).toBe('gap');
+    expect(book.apply(update(101, 105))).toBe('applied');
+    expect(book.apply(update(107, 108, { bids: [[27000, 5]] }))).toBe('gap');
+    expect(book.getLastUpdateId()).toBe(105);
+    expect(book.view().bids[0]).toEqual([27000, 1]);
+  });
+});
+
+describe('parseDepthUpdate', () => {
+  test('depthUpdateイベントを変換し、不正な数値を拒否する', () => {
+    expect(parseDepthUpdate({ e: 'depthUpdate', E: 1, s: 'BTCUSDT', U: 5, u: 7, b: [['1.5', '2']], a: [] })).toEqual({
+      symbol: 'BTCUSDT',
+      eventTime: 1,
+      firstUpdateId: 5,
+      finalUpdateId: 7,
+      bids: [[1.5, 2]],
+      asks: []
+    });
+    expect(() => parseDepthUpdate({ U: 1, u: 1, b: [['x', '1']], a: [] })).toThrow('板情報の形式が不正です');
+    expect(() => parseDepthSnapshot({ bids: [], asks: [] })).toThrow('更新ID');
+  });
+});
+
+describe('calculateSpread / aggregateLevels / gridLevelDistances', () => {
+  const view = new OrderBook(snapshot).view();
+  const spread = calculateSpread(view);
+
+  test('スプレッドを価格差とbpsで求める', () => {
+    expect(spread).toEqual({ bestBid: 27000, bestAsk: 27001, mid: 27000.5, absolute: 1, bps: expect.any(Number) });
+    expect(spread?.bps).toBeCloseTo(0.37, 2);
+    expect(calculateSpread({ bids: [], asks: view.asks })).toBeNull();
+  });
+
+  test('価格帯ごとに数量と累計をまとめる', () => {
+    expect(aggregateLevels(view.bids, 5, 'BUY')).toEqual([
+      { price: 27000, quantity: 1, cumulative: 1 },
+      { price: 26995, quantity: 2, cumulative: 3 },
+      { price: 26990, quantity: 0.5, cumulative: 3.5 }
+    ]);
+    expect(aggregateLevels(view.asks, 5, 'SELL')).toEqual([
+      { price: 27005, quantity: 2.5, cumulative: 2.5 }
+    ]);
+  });
+
+  test('各グリッドラインと最良気配の距離を求める', () => {
+    if (!spread) throw new Error('スプレッドがありません');
+    const distances = gridLevelDistances([26900, 27000.7, 27101], spread);
+
+    expect(distances.map(({ side, distance }) => [side, distance])).toEqual([['BUY', 100], ['INSIDE', 0], ['SELL', 100]]);
+    expect(distances[0].distanceBps).toBeCloseTo((100 / 27000.5) * 10000);
+  });
+});
@@ -0,0 +1,192 @@
+// 板情報（BinanceのRESTスナップショットと差分更新）
+// 差分の適用手順: https://developers.binance.com/docs/binance-spot-api-docs/web-socket-streams#how-to-manage-a-local-order-book-correctly
+
+// [価格, 数量]
+export type PriceLevel = [number, number];
+
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+export interface DepthUpdate {
+  symbol: string;
+  eventTime: number;
+  // この差分に含まれる最初と最後の更新ID
+  firstUpdateId: number;
+  finalUpdateId: number;
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+// applied: 反映した / stale: スナップショットより古いため無視した / gap: 更新IDが連続していない（取り直しが必要）
+export type DepthApplyResult = 'applied' | 'stale' | 'gap';
+
+export interface OrderBookView {
+  lastUpdateId: number;
+  // 買いは高い順、売りは安い順
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+export interface Spread {
+  bestBid: number;
+  bestAsk: number;
+  mid: number;
+  absolute: number;
+  // 仲値に対するスプレッド（1bps = 0.01%）
+  bps: number;
+}
+
+export interface DepthBucket {
+  price: number;
+  quantity: number;
+  // 最良気配からこの価格帯までの累計数量
+  cumulative: number;
+}
+
+export interface GridLevelDistance {
+  level: number;
+  price: number;
+  // 買い注文を置く（最良買い気配以下）か売り注文を置く（最良売り気配以上）か、スプレッドの内側か
+  side: 'BUY' | 'SELL' | 'INSIDE';
+  // 最も近い最良気配からの価格差と、仲値に対する割合（bps）
+  distance: number;
+  distanceBps: number;
+}
+
+const toLevels = (rows: unknown): PriceLevel[] => {
+  if (!Array.isArray(rows)) {
+    throw new Error('板情報の形式が不正です');
+  }
+  return rows.map(row => {
+    const price = Number(row?.[0]);
+    const quantity = Number(row?.[1]);
+    if (isNaN(price) || isNaN(quantity)) {
+      throw new Error('板情報の形式が不正です');
+    }
+    return [price, quantity];
+  });
+};
+
+// GET /api/v3/depth のレスポンスを変換
+export const parseDepthSnapshot = (raw: any): DepthSnapshot => {
+  const lastUpdateId = Number(raw?.lastUpdateId);
+  if (!Number.isInteger(lastUpdateId)) {
+    throw new Error('板情報の更新IDがありません');
+  }
+  return { lastUpdateId, bids: toLevels(raw.bids), asks: toLevels(raw.asks) };
+};
+
+// depthUpdateイベントを変換
+export const parseDepthUpdate = (payload: any): DepthUpdate => ({
+  symbol: payload.s,
+  eventTime: payload.E,
+  firstUpdateId: payload.U,
+  finalUpdateId: payload.u,
+  bids: toLevels(payload.b),
+  asks: toLevels(payload.a)
+});
+
+// スナップショットに差分を順に適用して板を保つ
+class OrderBook {
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private lastUpdateId: number;
+  // スナップショット以降に最初の差分を適用したか
+  private bridged = false;
+
+  constructor(snapshot: DepthSnapshot) {
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.setLevels(this.bids, snapshot.bids);
+    this.setLevels(this.asks, snapshot.asks);
+  }
+
+  private setLevels(side: Map<number, number>, levels: PriceLevel[]) {
+    levels.forEach(([price, quantity]) => {
+      if (quantity === 0) {
+        side.delete(price);
+      } else {
+        side.set(price, quantity);
+      }
+    });
+  }
+
+  getLastUpdateId(): number {
+    return this.lastUpdateId;
+  }
+
+  apply(update: DepthUpdate): DepthApplyResult {
+    if (update.finalUpdateId <= this.lastUpdateId) {
+      return 'stale';
+    }
+    // 最初の差分はスナップショットの次のIDを含み、以降は前の差分の次のIDから始まる
+    const expected = this.lastUpdateId + 1;
+    const continuous = this.bridged
+      ? update.firstUpdateId === expected
+      : update.firstUpdateId <= expected;
+    if (!continuous) {
+      return 'gap';
+    }
+
+    this.setLevels(this.bids, update.bids);
+    this.setLevels(this.asks, update.asks);
+    this.lastUpdateId = update.finalUpdateId;
+    this.bridged = true;
+    return 'applied';
+  }
+
+  // 最良気配から指定した段数までの板
+  view(depth = Infinity): OrderBookView {
+    const sorted = (side: Map<number, number>, descending: boolean): PriceLevel[] =>
+      Array.from(side.entries())
+        .sort((a, b) => descending ? b[0] - a[0] : a[0] - b[0])
+        .slice(0, depth);
+
+    return {
+      lastUpdateId: this.lastUpdateId,
+      bids: sorted(this.bids, true),
+      asks: sorted(this.asks, false)
+    };
+  }
+}
+
+export const calculateSpread = ({ bids, asks }: Pick<OrderBookView, 'bids' | 'asks'>): Spread | null => {
+  if (bids.length === 0 || asks.length === 0) return null;
+  const bestBid = bids[0][0];
+  const bestAsk = asks[0][0];
+  const mid = (bestBid + bestAsk) / 2;
+  const absolute = bestAsk - bestBid;
+  return { bestBid, bestAsk, mid, absolute, bps: (absolute / mid) * 10000 };
+};
+
+// 価格帯（step刻み）ごとに数量をまとめる。買いは切り捨て、売りは切り上げた価格帯に入れる
+export const aggregateLevels = (levels: PriceLevel[], step: number, side: 'BUY' | 'SELL'): DepthBucket[] => {
+  const buckets: DepthBucket[] = [];
+  let cumulative = 0;
+  levels.forEach(([price, quantity]) => {
+    const bucketPrice = step > 0
+      ? (side === 'BUY' ? Math.floor(price / step) : Math.ceil(price / step)) * step
+      : price;
+    cumulative += quantity;
+    const last = buckets[buckets.length - 1];
+    if (last && Math.abs(last.price - bucketPrice) < step / 2) {
+      last.quantity += quantity;
+      last.cumulative = cumulative;
+    } else {
+      buckets.push({ price: bucketPrice, quantity, cumulative });
+    }
+  });
+  return buckets;
+};
+
+// 各グリッドラインと最良気配の距離
+export const gridLevelDistances = (gridLines: number[], spread: Spread): GridLevelDistance[] =>
+  gridLines.map((price, level) => {
+    const side = price <= spread.bestBid ? 'BUY' : price >= spread.bestAsk ? 'SELL' : 'INSIDE';
+    const distance = side === 'BUY' ? spread.bestBid - price : side === 'SELL' ? price - spread.bestAsk : 0;
+    return { level, price, side, distance, distanceBps: (distance / spread.mid) * 10000 };
+  });
+
+export { OrderBook };
@@ -0,0 +1,103 @@
+import { PaperExchange, createPaperExchangeForPair } from './paperExchange';
+import { parsePair } from '../utils/tradingPair';
+
+const SYMBOL = 'BTCUSDT';
+const NOW = new Date(Date.UTC(2024, 0, 1));
+
+describe('PaperExchange', () => {
+  let exchange: PaperExchange;
+
+  const limit = (side: 'BUY' | 'SELL', price: number, quantity: number) =>
+    exchange.createOrder({ symbol: SYMBOL, side, type: 'LIMIT', price: String(price), quantity: String(quantity) });
+
+  beforeEach(() => {
+    exchange = new PaperExchange({
+      initialBalance: { base: 0.1, quote: 10000 },
+      storageKey: null,
+      now: () => NOW
+    });
+    exchange.updatePrice(SYMBOL, 27000);
+  });
+
+  test('市場価格を越えた指値注文は発注時の市場価格で約定する', async () => {
+    const buy = await limit('BUY', 27500, 0.01);
+    expect(buy.status).toBe('FILLED');
+    expect(exchange.getOrders()[0]).toMatchObject({ price: '27500', executedPrice: '27000', fee: 0.01 * 0.001 });
+    // 指値との差額はロックから戻る
+    expect(await exchange.getAccountBalance()).toEqual({ base: 0.1 + 0.01 * 0.999, quote: 10000 - 270 });
+
+    await limit('SELL', 26500, 0.01);
+    expect(exchange.getOrders()[1]).toMatchObject({ status: 'FILLED', executedPrice: '27000' });
+    const balance = await exchange.getAccountBalance();
+    expect(balance.quote).toBeCloseTo(10000 - 270 + 270 * 0.999);
+    expect(exchange.getTotalBalance()).toEqual(balance);
+  });
+
+  test('指値注文は資産をロックし、価格が越えたら指値で約定する', async () => {
+    const buy = await limit('BUY', 26000, 0.1);
+    const sell = await limit('SELL', 28000, 0.05);
+
+    expect(await exchange.getAccountBalance()).toEqual({ base: 0.05, quote: 7400 });
+    expect(exchange.getTotalBalance()).toEqual({ base: 0.1, quote: 10000 });
+    expect((await exchange.getOpenOrders(SYMBOL)).map(o => o.orderId)).toEqual([buy.orderId, sell.orderId]);
+
+    exchange.updatePrice(SYMBOL, 25900);
+    expect(await exchange.getOrder(SYMBOL, buy.orderId)).toMatchObject({ status: 'FILLED' });
+    expect(exchange.getOrders()[0].executedPrice).toBe('26000');
+    expect(exchange.getTotalBalance()).toEqual({ base: 0.1 + 0.1 * 0.999, quote: 7400 });
+
+    // 前回の価格との間を通過した注文も約定する
+    exchange.updatePrice(SYMBOL, 28100);
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([]);
+    expect(exchange.getTotalBalance().quote).toBeCloseTo(7400 + 1400 * 0.999);
+  });
+
+  test('ロック中の資産を除いた残高が足りなければ注文を拒否する', async () => {
+    await limit('BUY', 26000, 0.3);
+
+    await expect(limit('BUY', 26000, 0.1)).rejects.toThrow('残高不足です');
+    await expect(limit('SELL', 28000, 0.2)).rejects.toThrow('残高不足です');
+    await expect(exchange.createOrder({ symbol: 'ETHUSDT', side: 'BUY', type: 'MARKET', quantity: '1' }))
+      .rejects.toThrow('注文価格が不正です');
+    expect(exchange.getOrders()).toHaveLength(1);
+    expect(await exchange.getAccountBalance()).toEqual({ base: 0.1, quote: 2200 });
+  });
+
+  test('キャンセルでロックを解除し、約定済みやキャンセル済みの注文は取り消せない', async () => {
+    const buy = await limit('BUY', 26000, 0.1);
+    const sell = await limit('SELL', 28000, 0.1);
+
+    expect(await exchange.cancelOrder(SYMBOL, buy.orderId)).toMatchObject({ status: 'CANCELED' });
+    expect(await exchange.cancelAllOrders(SYMBOL)).toEqual([expect.objectContaining({ orderId: sell.orderId })]);
+    expect(await exchange.getAccountBalance()).toEqual({ base: 0.1, quote: 10000 });
+    await expect(exchange.cancelOrder(SYMBOL, buy.orderId)).rejects.toThrow('キャンセルできない注文です');
+    await expect(exchange.cancelOrder(SYMBOL, '99')).rejects.toThrow('注文が見つかりません');
+  });
+});
+
+describe('createPaperExchangeForPair', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('通貨ペアごとに保存した口座を読み込み直す', async () => {
+    const btc = createPaperExchangeForPair(parsePair('BTC/USDT'));
+    btc.updatePrice(SYMBOL, 27000);
+    const order = await btc.createOrder({ symbol: SYMBOL, side: 'BUY', type: 'LIMIT', price: '26000', quantity: '0.1' });
+
+    const reloaded = createPaperExchangeForPair(parsePair('BTC/USDT'));
+    expect(await reloaded.getOpenOrders(SYMBOL)).toEqual([expect.objectContaining({ orderId: order.orderId, status: 'NEW' })]);
+    expect(await reloaded.getAccountBalance()).toEqual({ base: 0.1, quote: 7400 });
+    expect(await reloaded.getCurrentPrice(SYMBOL)).toEqual({ symbol: SYMBOL, price: '27000' });
+
+    // 約定とキャンセルは読み込み直した口座でも続けられる
+    reloaded.updatePrice(SYMBOL, 25000);
+    expect(await reloaded.getOrder(SYMBOL, order.orderId)).toMatchObject({ status: 'FILLED' });
+    expect(createPaperExchangeForPair(parsePair('BTC/USDT')).getTotalBalance().base).toBeCloseTo(0.1 + 0.1 * 0.999);
+
+    // 別の通貨ペアの口座は影響を受けない
+    const xrp = createPaperExchangeForPair(parsePair('XRP/JPY'));
+    expect(await xrp.getAccountBalance()).toEqual({ base: 10000, quote: 1500000 });
+    expect(xrp.getOrders()).toEqual([]);
+  });
+});
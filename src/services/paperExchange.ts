@@ -0,0 +1,317 @@
+import { Balance, ExchangeAdapter, Order, OrderParams, Ticker } from './exchanges/types';
+import { DEFAULT_SYMBOL_FILTERS, SymbolFilters } from '../utils/symbolFilters';
+import { TradingPair, formatPair, toExchangeSymbol } from '../utils/tradingPair';
+
+// 取引所アダプターと同じ形で扱える取引クライアント
+export type TradingClient = Pick<
+  ExchangeAdapter,
+  | 'getAccountBalance'
+  | 'getCurrentPrice'
+  | 'createOrder'
+  | 'cancelOrder'
+  | 'cancelAllOrders'
+  | 'getOrder'
+  | 'getOpenOrders'
+  | 'getOrderFills'
+  | 'getSymbolFilters'
+>;
+
+interface PaperExchangeConfig {
+  initialBalance?: Balance;
+  feeRate?: number;
+  storageKey?: string | null;
+  symbolFilters?: Partial<Omit<SymbolFilters, 'symbol'>>;
+  now?: () => Date;
+  debug?: boolean;
+}
+
+export interface PaperOrder extends Order {
+  type: string;
+  createdAt: string;
+  filledAt?: string;
+  // 約定価格（発注時にすでに市場価格を越えていた指値注文は、指値より有利な市場価格で約定する）
+  executedPrice?: string;
+  fee?: number;
+}
+
+interface PaperExchangeState {
+  balance: Balance;
+  locked: Balance;
+  orders: PaperOrder[];
+  prices: Record<string, number>;
+  nextOrderId: number;
+}
+
+const DEFAULT_BALANCE: Balance = { base: 0.1, quote: 10000 };
+// Binanceの標準手数料率（0.1%）
+const DEFAULT_FEE_RATE = 0.001;
+const DEFAULT_STORAGE_KEY = 'gridBotPaperExchange';
+
+// 通貨ペアごとの仮想口座の初期残高
+const PAIR_INITIAL_BALANCES: Record<string, Balance> = {
+  'BTC/USDT': DEFAULT_BALANCE,
+  'ETH/USDT': { base: 2, quote: 10000 },
+  'XRP/JPY': { base: 10000, quote: 1500000 },
+  'BTC/JPY': { base: 0.1, quote: 1500000 }
+};
+
+class PaperExchange implements TradingClient {
+  private feeRate: number;
+  private storageKey: string | null;
+  private symbolFilters: Omit<SymbolFilters, 'symbol'>;
+  private state: PaperExchangeState;
+  private now: () => Date;
+  private readonly DEBUG: boolean;
+
+  constructor(config: PaperExchangeConfig = {}) {
+    this.feeRate = config.feeRate ?? DEFAULT_FEE_RATE;
+    this.storageKey = config.storageKey === undefined ? DEFAULT_STORAGE_KEY : config.storageKey;
+    this.symbolFilters = { ...DEFAULT_SYMBOL_FILTERS, ...config.symbolFilters };
+    this.now = config.now ?? (() => new Date());
+    this.DEBUG = config.debug ?? false;
+    this.state = this.loadState(config.initialBalance ?? DEFAULT_BALANCE);
+  }
+
+  private debug(...args: any[]) {
+    if (this.DEBUG) {
+      console.log('[PaperExchange]', ...args);
+    }
+  }
+
+  private loadState(initialBalance: Balance): PaperExchangeState {
+    const initialState: PaperExchangeState = {
+      balance: { ...initialBalance },
+      locked: { base: 0, quote: 0 },
+      orders: [],
+      prices: {},
+      nextOrderId: 1
+    };
+
+    if (!this.storageKey) return initialState;
+
+    try {
+      const saved = localStorage.getItem(this.storageKey);
+      if (!saved) return initialState;
+      const state: PaperExchangeState = { ...initialState, ...JSON.parse(saved) };
+      // 以前の保存データは注文IDが数値のため文字列に揃える
+      state.orders = state.orders.map(order => ({ ...order, orderId: String(order.orderId) }));
+      return state;
+    } catch (error) {
+      console.error('ペーパートレード状態の読み込みエラー:', error);
+      return initialState;
+    }
+  }
+
+  private saveState() {
+    if (!this.storageKey) return;
+
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(this.state));
+    } catch (error) {
+      console.error('ペーパートレード状態の保存エラー:', error);
+    }
+  }
+
+  // 残高と注文をすべて初期状態に戻す
+  reset(initialBalance: Balance = DEFAULT_BALANCE) {
+    this.state = {
+      balance: { ...initialBalance },
+      locked: { base: 0, quote: 0 },
+      orders: [],
+      prices: this.state.prices,
+      nextOrderId: 1
+    };
+    this.saveState();
+  }
+
+  getOrders(): PaperOrder[] {
+    return this.state.orders.map(order => ({ ...order }));
+  }
+
+  // 仮想口座は通貨ペアごとに分かれているため、資産名は使わない
+  async getAccountBalance(baseAsset?: string, quoteAsset?: string): Promise<Balance> {
+    return { ...this.state.balance };
+  }
+
+  // 注文でロック中の資産を含めた残高
+  getTotalBalance(): Balance {
+    const { balance, locked } = this.state;
+    return {
+      base: balance.base + locked.base,
+      quote: balance.quote + locked.quote
+    };
+  }
+
+  async getCurrentPrice(symbol: string): Promise<Ticker> {
+    const price = this.state.prices[symbol];
+    if (price === undefined) {
+      throw new Error(`${symbol}の価格データがありません`);
+    }
+    return { symbol, price: price.toString() };
+  }
+
+  // 実際の取引所と同じ刻み幅で注文を組み立てられるよう制限を返す
+  async getSymbolFilters(symbol: string): Promise<SymbolFilters> {
+    return { symbol, ...this.symbolFilters };
+  }
+
+  async createOrder(orderParams: OrderParams): Promise<Order> {
+    const quantity = parseFloat(orderParams.quantity);
+    const marketPrice = this.state.prices[orderParams.symbol];
+    const isMarket = orderParams.type === 'MARKET';
+    const price = isMarket ? marketPrice : parseFloat(orderParams.price || '');
+
+    if (isNaN(quantity) || quantity <= 0) {
+      throw new Error('注文数量が不正です');
+    }
+    if (price === undefined || isNaN(price) || price <= 0) {
+      throw new Error('注文価格が不正です');
+    }
+
+    // 注文に必要な資産をロックする
+    const { balance, locked } = this.state;
+    if (orderParams.side === 'BUY') {
+      const cost = price * quantity;
+      if (balance.quote < cost) {
+        throw new Error('残高不足です');
+      }
+      balance.quote -= cost;
+      locked.quote += cost;
+    } else {
+      if (balance.base < quantity) {
+        throw new Error('残高不足です');
+      }
+      balance.base -= quantity;
+      locked.base += quantity;
+    }
+
+    const order: PaperOrder = {
+      symbol: orderParams.symbol,
+      orderId: String(this.state.nextOrderId++),
+      price: price.toString(),
+      quantity: quantity.toString(),
+      side: orderParams.side,
+      type: orderParams.type,
+      status: 'NEW',
+      clientOrderId: orderParams.clientOrderId,
+      createdAt: this.now().toISOString()
+    };
+    this.state.orders.push(order);
+    this.debug('注文を受け付けました:', order);
+
+    // 成行注文と、すでに価格を越えている指値注文は市場価格で即時約定
+    const crossed = marketPrice !== undefined && (
+      orderParams.side === 'BUY' ? marketPrice <= price : marketPrice >= price
+    );
+    if (isMarket || crossed) {
+      this.fillOrder(order, marketPrice);
+    }
+
+    this.saveState();
+    return { ...order };
+  }
+
+  async getOrder(symbol: string, orderId: string): Promise<Order> {
+    const order = this.state.orders.find(o => o.symbol === symbol && o.orderId === orderId);
+    if (!order) {
+      throw new Error(`注文が見つかりません: ${orderId}`);
+    }
+    return { ...order };
+  }
+
+  async getOpenOrders(symbol: string): Promise<Order[]> {
+    return this.state.orders
+      .filter(order => order.symbol === symbol && order.status === 'NEW')
+      .map(order => ({ ...order }));
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<Order> {
+    const order = this.state.orders.find(o => o.symbol === symbol && o.orderId === orderId);
+    if (!order) {
+      throw new Error(`注文が見つかりません: ${orderId}`);
+    }
+    if (order.status !== 'NEW') {
+      throw new Error(`キャンセルできない注文です: ${order.status}`);
+    }
+
+    const price = parseFloat(order.price);
+    const quantity = parseFloat(order.quantity);
+    const { balance, locked } = this.state;
+    if (order.side === 'BUY') {
+      locked.quote -= price * quantity;
+      balance.quote += price * quantity;
+    } else {
+      locked.base -= quantity;
+      balance.base += quantity;
+    }
+
+    order.status = 'CANCELED';
+    this.saveState();
+    return { ...order };
+  }
+
+  async cancelAllOrders(symbol: string): Promise<Order[]> {
+    const openOrders = this.state.orders.filter(o => o.symbol === symbol && o.status === 'NEW');
+    const canceled: Order[] = [];
+    for (const order of openOrders) {
+      canceled.push(await this.cancelOrder(symbol, order.orderId));
+    }
+    return canceled;
+  }
+
+  // 価格を更新し、越えた指値注文を約定させる
+  updatePrice(symbol: string, price: number) {
+    const previous = this.state.prices[symbol];
+    this.state.prices[symbol] = price;
+
+    const low = previous === undefined ? price : Math.min(previous, price);
+    const high = previous === undefined ? price : Math.max(previous, price);
+
+    this.state.orders
+      .filter(order => order.symbol === symbol && order.status === 'NEW')
+      .forEach(order => {
+        const orderPrice = parseFloat(order.price);
+        if (order.side === 'BUY' ? low <= orderPrice : high >= orderPrice) {
+          this.fillOrder(order);
+        }
+      });
+
+    this.saveState();
+  }
+
+  // 約定処理（手数料は受け取る側の資産から差し引く）
+  // 指値より安く買えた場合は、ロックした代金との差額を残高に戻す
+  private fillOrder(order: PaperOrder, price = parseFloat(order.price)) {
+    const quantity = parseFloat(order.quantity);
+    const { balance, locked } = this.state;
+
+    if (order.side === 'BUY') {
+      const fee = quantity * this.feeRate;
+      const lockedCost = parseFloat(order.price) * quantity;
+      locked.quote -= lockedCost;
+      balance.quote += lockedCost - price * quantity;
+      balance.base += quantity - fee;
+      order.fee = fee;
+    } else {
+      const fee = price * quantity * this.feeRate;
+      locked.base -= quantity;
+      balance.quote += price * quantity - fee;
+      order.fee = fee;
+    }
+
+    order.status = 'FILLED';
+    order.executedPrice = price.toString();
+    order.filledAt = this.now().toISOString();
+    this.debug('注文が約定しました:', order);
+  }
+}
+
+// 通貨ペアごとに独立した仮想口座を作る（シンボルは価格データと同じBinance形式）
+const createPaperExchangeForPair = (pair: TradingPair): PaperExchange => {
+  return new PaperExchange({
+    storageKey: `${DEFAULT_STORAGE_KEY}:${toExchangeSymbol(pair, 'binance')}`,
+    initialBalance: PAIR_INITIAL_BALANCES[formatPair(pair)] ?? { base: 0, quote: DEFAULT_BALANCE.quote }
+  });
+};
+
+export { PaperExchange, createPaperExchangeForPair };
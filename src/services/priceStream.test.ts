@@ -0,0 +1,157 @@
+import { PriceStream, StreamKline, StreamStatus, StreamTrade, WebSocketLike } from './priceStream';
+
+// テスト用のWebSocket代替
+class FakeSocket implements WebSocketLike {
+  readyState = 0;
+  sent: any[] = [];
+  onopen: ((event: any) => void) | null = null;
+  onclose: ((event: any) => void) | null = null;
+  onerror: ((event: any) => void) | null = null;
+  onmessage: ((event: any) => void) | null = null;
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+
+  open() {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  receive(message: object) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop() {
+    this.readyState = 3;
+    this.onclose?.({});
+  }
+}
+
+const createStream = () => {
+  const sockets: FakeSocket[] = [];
+  const trades: StreamTrade[] = [];
+  const klines: StreamKline[] = [];
+  const statuses: StreamStatus[] = [];
+  const onReconnect = jest.fn();
+
+  const stream = new PriceStream({
+    url: 'ws://localhost:4001/ws',
+    createSocket: () => {
+      const socket = new FakeSocket();
+      sockets.push(socket);
+      return socket;
+    },
+    onTrade: trade => trades.push(trade),
+    onKline: kline => klines.push(kline),
+    onStatusChange: status => statuses.push(status),
+    onReconnect
+  });
+
+  return { stream, sockets, trades, klines, statuses, onReconnect };
+};
+
+describe('PriceStream', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('接続時に購読し、約定とローソク足を配信する', () => {
+    const { stream, sockets, trades, klines } = createStream();
+    stream.subscribe('BTCUSDT', '15m');
+    stream.connect();
+    sockets[0].open();
+
+    expect(sockets[0].sent).toEqual([
+      { method: 'SUBSCRIBE', params: ['btcusdt@trade', 'btcusdt@kline_15m'], id: 1 }
+    ]);
+
+    sockets[0].receive({ e: 'trade', s: 'BTCUSDT', p: '27500.10', q: '0.01', T: 1700000000000 });
+    sockets[0].receive({
+      e: 'kline',
+      s: 'BTCUSDT',
+      k: { t: 1699999200000, i: '15m', o: '27400', h: '27600', l: '27350', c: '27500.10', v: '12.5', x: false }
+    });
+
+    expect(trades).toEqual([{ symbol: 'BTCUSDT', price: 27500.1, quantity: 0.01, time: 1700000000000 }]);
+    expect(klines[0].candle).toEqual({
+      openTime: 1699999200000,
+      open: 27400,
+      high: 27600,
+      low: 27350,
+      close: 27500.1,
+      volume: 12.5
+    });
+  });
+
+  test('購読の切り替えは差分だけを送る', () => {
+    const { stream, sockets } = createStream();
+    stream.subscribe('BTCUSDT', '15m');
+    stream.connect();
+    sockets[0].open();
+
+    stream.subscribe('BTCUSDT', '1h');
+
+    expect(sockets[0].sent.slice(1)).toEqual([
+      { method: 'UNSUBSCRIBE', params: ['btcusdt@kline_15m'], id: 2 },
+      { method: 'SUBSCRIBE', params: ['btcusdt@kline_1h'], id: 3 }
+    ]);
+  });
+
+  test('切断されると再接続して購読し直す', () => {
+    const { stream, sockets, statuses, onReconnect } = createStream();
+    stream.subscribe('ETHUSDT', '1h');
+    stream.connect();
+    sockets[0].open();
+
+    sockets[0].drop();
+    expect(statuses[statuses.length - 1]).toBe('reconnecting');
+    expect(sockets).toHaveLength(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(sockets).toHaveLength(2);
+
+    sockets[1].open();
+    expect(sockets[1].sent).toEqual([
+      { method: 'SUBSCRIBE', params: ['ethusdt@trade', 'ethusdt@kline_1h'], id: 2 }
+    ]);
+    expect(onReconnect).toHaveBeenCalledTimes(1);
+    expect(statuses[statuses.length - 1]).toBe('connected');
+  });
+
+  test('再接続の間隔は指数的に延びる', () => {
+    const { stream, sockets } = createStream();
+    stream.connect();
+
+    sockets[0].drop();
+    jest.advanceTimersByTime(1000);
+    sockets[1].drop();
+    jest.advanceTimersByTime(1999);
+    expect(sockets).toHaveLength(2);
+    jest.advanceTimersByTime(1);
+    expect(sockets).toHaveLength(3);
+  });
+
+  test('disconnect後は再接続しない', () => {
+    const { stream, sockets, statuses } = createStream();
+    stream.connect();
+    sockets[0].open();
+
+    stream.disconnect();
+    jest.advanceTimersByTime(60000);
+
+    expect(sockets).toHaveLength(1);
+    expect(statuses[statuses.length - 1]).toBe('closed');
+  });
+});
@@ -0,0 +1,193 @@
+import { Candle } from './marketData';
+
+// BinanceのWebSocketストリーム（開発時はstream-mock-server.jsを指定）
+const DEFAULT_STREAM_URL = process.env.REACT_APP_STREAM_URL || 'wss://stream.binance.com:9443/ws';
+const INITIAL_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+const SOCKET_OPEN = 1;
+
+export type StreamStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'closed';
+
+export interface StreamTrade {
+  symbol: string;
+  price: number;
+  quantity: number;
+  time: number;
+}
+
+export interface StreamKline {
+  symbol: string;
+  interval: string;
+  candle: Candle;
+  isClosed: boolean;
+}
+
+// テストやモックサーバーでも使えるWebSocketの最小インターフェース
+export interface WebSocketLike {
+  readyState: number;
+  send(data: string): void;
+  close(): void;
+  onopen: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onmessage: ((event: any) => void) | null;
+}
+
+interface PriceStreamConfig {
+  url?: string;
+  createSocket?: (url: string) => WebSocketLike;
+  onTrade?: (trade: StreamTrade) => void;
+  onKline?: (kline: StreamKline) => void;
+  onStatusChange?: (status: StreamStatus) => void;
+  onReconnect?: () => void;
+}
+
+class PriceStream {
+  private url: string;
+  private createSocket: (url: string) => WebSocketLike;
+  private config: PriceStreamConfig;
+  private socket: WebSocketLike | null = null;
+  private streams: string[] = [];
+  private requestId = 1;
+  private reconnectDelay = INITIAL_RECONNECT_DELAY;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasConnected = false;
+  private shouldReconnect = false;
+  // 開発サーバーでのみ接続状況をログに出す
+  private readonly DEBUG = process.env.NODE_ENV === 'development';
+
+  constructor(config: PriceStreamConfig = {}) {
+    this.config = config;
+    this.url = config.url ?? DEFAULT_STREAM_URL;
+    this.createSocket = config.createSocket ?? (url => new WebSocket(url));
+  }
+
+  private debug(...args: any[]) {
+    if (this.DEBUG) {
+      console.log('[PriceStream]', ...args);
+    }
+  }
+
+  private setStatus(status: StreamStatus) {
+    this.config.onStatusChange?.(status);
+  }
+
+  private send(method: 'SUBSCRIBE' | 'UNSUBSCRIBE', params: string[]) {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN || params.length === 0) return;
+    this.socket.send(JSON.stringify({ method, params, id: this.requestId++ }));
+  }
+
+  // 通貨ペアと時間枠の購読を切り替える
+  subscribe(symbol: string, interval: string) {
+    const lower = symbol.toLowerCase();
+    const next = [`${lower}@trade`, `${lower}@kline_${interval}`];
+    const removed = this.streams.filter(stream => !next.includes(stream));
+    const added = next.filter(stream => !this.streams.includes(stream));
+
+    this.streams = next;
+    this.send('UNSUBSCRIBE', removed);
+    this.send('SUBSCRIBE', added);
+  }
+
+  connect() {
+    this.shouldReconnect = true;
+    if (this.socket) return;
+
+    this.setStatus(this.hasConnected ? 'reconnecting' : 'connecting');
+    const socket = this.createSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.debug('接続しました:', this.url);
+      this.reconnectDelay = INITIAL_RECONNECT_DELAY;
+      // 再接続時は購読中のストリームを登録し直す
+      this.send('SUBSCRIBE', this.streams);
+      this.setStatus('connected');
+      if (this.hasConnected) {
+        this.config.onReconnect?.();
+      }
+      this.hasConnected = true;
+    };
+
+    socket.onmessage = (event) => {
+      this.handleMessage(event.data);
+    };
+
+    socket.onerror = (event) => {
+      console.error('[PriceStream Error]', event);
+    };
+
+    socket.onclose = () => {
+      // disconnect()で破棄済みのソケットは無視する
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (!this.shouldReconnect) {
+        this.setStatus('closed');
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect() {
+    this.setStatus('reconnecting');
+    this.debug(`${this.reconnectDelay}ms後に再接続します`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connect();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  disconnect() {
+    this.shouldReconnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.socket) {
+      this.socket.close();
+      this.socket = null;
+    }
+    this.setStatus('closed');
+  }
+
+  private handleMessage(data: any) {
+    let message: any;
+    try {
+      message = JSON.parse(typeof data === 'string' ? data : data.toString());
+    } catch (error) {
+      console.error('[PriceStream Error] メッセージの解析に失敗しました:', error);
+      return;
+    }
+
+    // 結合ストリーム形式（{ stream, data }）にも対応
+    const payload = message.data ?? message;
+
+    if (payload.e === 'trade') {
+      this.config.onTrade?.({
+        symbol: payload.s,
+        price: parseFloat(payload.p),
+        quantity: parseFloat(payload.q),
+        time: payload.T
+      });
+    } else if (payload.e === 'kline') {
+      const k = payload.k;
+      this.config.onKline?.({
+        symbol: payload.s,
+        interval: k.i,
+        isClosed: k.x,
+        candle: {
+          openTime: k.t,
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c),
+          volume: parseFloat(k.v)
+        }
+      });
+    }
+  }
+}
+
+export { PriceStream };
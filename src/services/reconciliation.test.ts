@@ -0,0 +1,154 @@
+import { GridEngine } from './gridEngine';
+import { PaperExchange } from './paperExchange';
+import { GridSession, buildClientOrderId, parseClientOrderId, reconcileOrders } from './reconciliation';
+
+const SYMBOL = 'BTCUSDT';
+const ACCOUNT = 'paper:binance';
+const GRID_LINES = [25000, 26000, 27000, 28000, 29000, 30000];
+const NOW = new Date(Date.UTC(2024, 0, 1));
+
+describe('clientOrderId', () => {
+  test('セッション・レベル・売買を埋め込み、取り出せる', () => {
+    const id = buildClientOrderId('lqv3k0ab12', 3, 'SELL', 12);
+
+    expect(id).toBe('grid-lqv3k0ab12-3S12');
+    expect(id.length).toBeLessThanOrEqual(36);
+    expect(parseClientOrderId(id)).toEqual({ sessionId: 'lqv3k0ab12', level: 3, side: 'SELL' });
+    expect(parseClientOrderId('web_1234')).toBeNull();
+    expect(parseClientOrderId(undefined)).toBeNull();
+  });
+});
+
+describe('起動時の注文照合', () => {
+  let exchange: PaperExchange;
+
+  const createEngine = (account = ACCOUNT) => new GridEngine({
+    client: exchange,
+    symbol: SYMBOL,
+    gridLines: GRID_LINES,
+    initialInvestment: 1000,
+    account,
+    now: () => NOW,
+    debug: false
+  });
+
+  // ボットを開始し、ページを閉じる直前に保存される内容を返す
+  const startAndSave = async (): Promise<GridSession> => {
+    const engine = createEngine();
+    await engine.start();
+    const session = engine.getSession();
+    if (!session) throw new Error('セッションが保存されていません');
+    return session;
+  };
+
+  beforeEach(() => {
+    exchange = new PaperExchange({
+      initialBalance: { base: 1, quote: 10000 },
+      storageKey: null,
+      now: () => NOW,
+      debug: false
+    });
+    exchange.updatePrice(SYMBOL, 27600);
+  });
+
+  test('閉じている間の約定を検出して反対注文を出し、注文の状態を復元する', async () => {
+    const session = await startAndSave();
+    const buy27000 = session.activeOrders.find(o => o.level === 2);
+    const sell30000 = session.activeOrders.find(o => o.level === 5);
+
+    // ページを閉じている間に買いが約定し、売り注文が手動で取り消された
+    exchange.updatePrice(SYMBOL, 26900);
+    await exchange.cancelOrder(SYMBOL, sell30000!.id);
+
+    const engine = createEngine();
+    const result = await engine.resume(session);
+
+    expect(result.filled.map(o => o.id)).toEqual([buy27000!.id]);
+    expect(result.closed).toEqual([expect.objectContaining({ id: sell30000!.id, status: 'CANCELED' })]);
+    expect(result.review).toEqual([]);
+    expect(engine.isRunning()).toBe(true);
+
+    const { activeOrders, completedOrders } = engine.getState();
+    // 開始時に売り注文の分を購入した成行注文に続いて、閉じている間の約定を記録する
+    expect(completedOrders).toEqual([
+      expect.objectContaining({ level: -1, rebalance: true }),
+      expect.objectContaining({ id: buy27000!.id, status: 'FILLED', reconciled: true })
+    ]);
+    // 約定した買いの1つ上に売り注文を出し、取り消されたレベルは空のまま
+    expect(activeOrders.map(o => `${o.type}@${o.level}`).sort()).toEqual(['BUY@0', 'BUY@1', 'SELL@3', 'SELL@4']);
+    expect(activeOrders.find(o => o.level === 3)?.openedBy).toBe(buy27000!.id);
+    expect(completedOrders[1].fee).toBeCloseTo(27000 * buy27000!.amount * 0.001);
+    expect((await exchange.getOpenOrders(SYMBOL)).map(o => o.orderId).sort())
+      .toEqual(activeOrders.map(o => o.id).sort());
+
+    // 再開後の保存内容は同じセッションを引き継ぐ
+    expect(engine.getSession()).toMatchObject({ sessionId: session.sessionId, nextSequence: session.nextSequence + 1 });
+  });
+
+  test('保存後に出した注文は引き継ぎ、以前のボットや手動の注文は確認対象にする', async () => {
+    const session = await startAndSave();
+    const [saved, ...rest] = session.activeOrders;
+
+    // 最初と最後の注文を保存する前にページを閉じた
+    const savedOrders = rest.slice(0, -1);
+    const unsaved = rest[rest.length - 1];
+    const previous = await exchange.createOrder({
+      symbol: SYMBOL, side: 'BUY', type: 'LIMIT', quantity: '0.01', price: '24000',
+      clientOrderId: buildClientOrderId('oldsession', 0, 'BUY', 1)
+    });
+    const manual = await exchange.createOrder({
+      symbol: SYMBOL, side: 'SELL', type: 'LIMIT', quantity: '0.2', price: '35000', clientOrderId: 'web_manual'
+    });
+
+    const result = await reconcileOrders({
+      client: exchange,
+      symbol: SYMBOL,
+      sessionId: session.sessionId,
+      gridLines: session.gridLines,
+      orderQuantity: session.orderQuantity,
+      savedOrders
+    });
+
+    expect(result.active.map(o => o.id)).toEqual(savedOrders.map(o => o.id));
+    // 保存内容にない注文も同じセッションのclientOrderIdならグリッドのレベルに戻す
+    expect(result.adopted).toEqual([
+      expect.objectContaining({ id: saved.id, level: saved.level, type: saved.type }),
+      expect.objectContaining({ id: unsaved.id, level: unsaved.level, type: unsaved.type, clientOrderId: unsaved.clientOrderId })
+    ]);
+    expect(result.review).toEqual([
+      { order: expect.objectContaining({ orderId: previous.orderId }), reason: 'PREVIOUS_SESSION' },
+      { order: expect.objectContaining({ orderId: manual.orderId }), reason: 'UNKNOWN' }
+    ]);
+  });
+
+  test('clientOrderIdのない取引所では空いているグリッドの価格と数量で照合する', async () => {
+    const session = await startAndSave();
+    const [first, ...rest] = session.activeOrders;
+    // clientOrderIdを返さない取引所を再現する
+    const client = {
+      getOpenOrders: async (symbol: string) =>
+        (await exchange.getOpenOrders(symbol)).map(({ clientOrderId, ...order }) => order),
+      getOrder: (symbol: string, orderId: string) => exchange.getOrder(symbol, orderId)
+    };
+    const manual = await exchange.createOrder({ symbol: SYMBOL, side: 'BUY', type: 'LIMIT', quantity: '0.1', price: '26000' });
+
+    const result = await reconcileOrders({
+      client,
+      symbol: SYMBOL,
+      sessionId: session.sessionId,
+      gridLines: session.gridLines,
+      orderQuantity: session.orderQuantity,
+      savedOrders: rest
+    });
+
+    expect(result.adopted).toEqual([expect.objectContaining({ id: first.id, level: first.level })]);
+    // 数量がグリッドと異なる注文は対応付けない
+    expect(result.review).toEqual([{ order: expect.objectContaining({ orderId: manual.orderId }), reason: 'UNKNOWN' }]);
+  });
+
+  test('別の口座で保存したセッションは再開しない', async () => {
+    const session = await startAndSave();
+
+    await expect(createEngine('mainnet:binance').resume(session)).rejects.toThrow('一致しません');
+  });
+});
@@ -0,0 +1,181 @@
+import { ExchangeAdapter, Order } from './exchanges/types';
+import { GridOrder } from './gridEngine';
+import { RiskLimits } from './riskWatcher';
+
+const SESSION_STORAGE_KEY = 'gridBotSession';
+// clientOrderIdの接頭辞（grid-<セッションID>-<レベル><B|S><連番>）
+const CLIENT_ORDER_ID_PREFIX = 'grid';
+const CLIENT_ORDER_ID_PATTERN = /^grid-([0-9a-z]+)-(\d+)([BS])\d+$/;
+// 価格で照合する場合に許容する数量のずれ（手数料・刻み幅の丸め分）
+const QUANTITY_TOLERANCE = 0.01;
+
+export type ReconcileClient = Pick<ExchangeAdapter, 'getOpenOrders' | 'getOrder'>;
+
+// ページを閉じても稼働中のグリッドを復元できるよう保存する内容
+export interface GridSession {
+  version: 1;
+  sessionId: string;
+  // 取引モードと取引所（ペーパートレードの注文を実口座で照合しないため）
+  account: string;
+  symbol: string;
+  gridLines: number[];
+  initialInvestment: number;
+  orderQuantity: number;
+  startPrice: number;
+  feeRate: number;
+  riskLimits: RiskLimits;
+  sellOnRiskStop: boolean;
+  activeOrders: GridOrder[];
+  completedOrders: GridOrder[];
+  totalProfit: number;
+  nextSequence: number;
+  savedAt: string;
+}
+
+// PREVIOUS_SESSION: 以前のボットが出した注文 / UNKNOWN: ボット以外の注文
+export type ReviewReason = 'PREVIOUS_SESSION' | 'UNKNOWN';
+
+export interface OrderForReview {
+  order: Order;
+  reason: ReviewReason;
+}
+
+export interface ReconcileResult {
+  // 保存時点から引き続き未約定の注文
+  active: GridOrder[];
+  // 保存後に発注され、記録されていなかったこのセッションの注文
+  adopted: GridOrder[];
+  // ページを閉じている間に約定した注文
+  filled: GridOrder[];
+  // ボット以外で取り消された（または失効した）注文
+  closed: GridOrder[];
+  // グリッドに対応付けられない未約定の注文（ユーザーの確認が必要）
+  review: OrderForReview[];
+}
+
+interface ReconcileConfig {
+  client: ReconcileClient;
+  symbol: string;
+  sessionId: string;
+  gridLines: number[];
+  orderQuantity: number;
+  savedOrders: GridOrder[];
+}
+
+export const REVIEW_REASON_LABELS: Record<ReviewReason, string> = {
+  PREVIOUS_SESSION: '以前のボットの注文',
+  UNKNOWN: 'ボット以外の注文'
+};
+
+export const createSessionId = (now: Date): string =>
+  `${now.getTime().toString(36)}${Math.floor(Math.random() * 36 ** 4).toString(36).padStart(4, '0')}`;
+
+export const buildClientOrderId = (sessionId: string, level: number, side: 'BUY' | 'SELL', sequence: number): string =>
+  `${CLIENT_ORDER_ID_PREFIX}-${sessionId}-${level}${side[0]}${sequence}`;
+
+export const parseClientOrderId = (clientOrderId?: string): { sessionId: string; level: number; side: 'BUY' | 'SELL' } | null => {
+  const match = clientOrderId?.match(CLIENT_ORDER_ID_PATTERN);
+  if (!match) return null;
+  return { sessionId: match[1], level: parseInt(match[2], 10), side: match[3] === 'B' ? 'BUY' : 'SELL' };
+};
+
+const OPEN_STATUSES = ['NEW', 'PARTIALLY_FILLED'];
+
+const toGridOrder = (order: Order, level: number, gridLines: number[]): GridOrder => ({
+  id: order.orderId,
+  type: order.side,
+  price: gridLines[level],
+  amount: parseFloat(order.quantity),
+  level,
+  status: order.status,
+  clientOrderId: order.clientOrderId
+});
+
+// clientOrderIdに対応していない取引所では、空いているグリッドの価格と数量で照合する
+const matchByPrice = (order: Order, gridLines: number[], orderQuantity: number, occupied: Set<number>): number => {
+  const price = parseFloat(order.price);
+  const quantity = parseFloat(order.quantity);
+  if (Math.abs(quantity - orderQuantity) > orderQuantity * QUANTITY_TOLERANCE) return -1;
+
+  return gridLines.findIndex((line, level) =>
+    !occupied.has(level) && Math.abs(line - price) <= line * 1e-9
+  );
+};
+
+// 保存したグリッドの注文と取引所の未約定注文を突き合わせる
+export const reconcileOrders = async ({
+  client,
+  symbol,
+  sessionId,
+  gridLines,
+  orderQuantity,
+  savedOrders
+}: ReconcileConfig): Promise<ReconcileResult> => {
+  const result: ReconcileResult = { active: [], adopted: [], filled: [], closed: [], review: [] };
+  const openOrders = new Map((await client.getOpenOrders(symbol)).map(order => [order.orderId, order]));
+
+  for (const saved of savedOrders) {
+    const open = openOrders.get(saved.id);
+    if (open) {
+      openOrders.delete(saved.id);
+      result.active.push({ ...saved, status: open.status });
+      continue;
+    }
+
+    // 一覧にない注文は個別に照会して約定か取消かを判定する
+    const order = await client.getOrder(symbol, saved.id);
+    if (order.status === 'FILLED') {
+      result.filled.push(saved);
+    } else if (OPEN_STATUSES.includes(order.status)) {
+      result.active.push({ ...saved, status: order.status });
+    } else {
+      result.closed.push({ ...saved, status: order.status });
+    }
+  }
+
+  const occupied = new Set([...result.active, ...result.filled].map(order => order.level));
+  for (const order of Array.from(openOrders.values())) {
+    const parsed = parseClientOrderId(order.clientOrderId);
+    if (parsed && parsed.sessionId === sessionId && parsed.level < gridLines.length) {
+      occupied.add(parsed.level);
+      result.adopted.push(toGridOrder(order, parsed.level, gridLines));
+      continue;
+    }
+    if (parsed || order.clientOrderId !== undefined) {
+      result.review.push({ order, reason: parsed ? 'PREVIOUS_SESSION' : 'UNKNOWN' });
+      continue;
+    }
+
+    const level = matchByPrice(order, gridLines, orderQuantity, occupied);
+    if (level >= 0) {
+      occupied.add(level);
+      result.adopted.push(toGridOrder(order, level, gridLines));
+    } else {
+      result.review.push({ order, reason: 'UNKNOWN' });
+    }
+  }
+
+  return result;
+};
+
+export const loadGridSession = (): GridSession | null => {
+  try {
+    const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (error) {
+    console.error('ボットの状態の読み込みエラー:', error);
+    return null;
+  }
+};
+
+export const saveGridSession = (session: GridSession) => {
+  try {
+    localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('ボットの状態の保存エラー:', error);
+  }
+};
+
+export const clearGridSession = () => {
+  localStorage.removeItem(SESSION_STORAGE_KEY);
+};
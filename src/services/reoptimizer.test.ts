@@ -0,0 +1,248 @@
+import { GridSettings } from '../hooks/useGridSettings';
+import { GridEngine, MigrationOptions } from './gridEngine';
+import { Candle } from './marketData';
+import { PaperExchange } from './paperExchange';
+import {
+  DEFAULT_REOPTIMIZATION_SCHEDULE,
+  ReoptimizationRecord,
+  ReoptimizationSchedule,
+  ReoptimizationScheduler,
+  runReoptimization
+} from './reoptimizer';
+
+const SYMBOL = 'BTCUSDT';
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const NOW = new Date(Date.UTC(2024, 0, 1));
+
+const SCHEDULE: ReoptimizationSchedule = { ...DEFAULT_REOPTIMIZATION_SCHEDULE, enabled: true };
+
+// 27000を中心に上下する値動き
+const makeCandles = (count: number): Candle[] =>
+  Array.from({ length: count }, (_, i) => {
+    const close = 27000 + Math.sin(i / 3) * 500;
+    const open = i === 0 ? close : 27000 + Math.sin((i - 1) / 3) * 500;
+    return {
+      openTime: i * HOUR,
+      open,
+      high: Math.max(open, close) + 100,
+      low: Math.min(open, close) - 100,
+      close,
+      volume: 1
+    };
+  });
+
+const applied = (at: Date): ReoptimizationRecord => ({
+  at: at.toISOString(),
+  trigger: 'SCHEDULE',
+  status: 'APPLIED',
+  message: '',
+  previous: { upperLimit: 30000, lowerLimit: 25000, gridNumber: 5, gridType: 'arithmetic', stopLoss: 0, takeProfitLevel: 0 }
+});
+
+describe('ReoptimizationScheduler', () => {
+  let now: Date;
+  const createScheduler = (schedule = SCHEDULE) => new ReoptimizationScheduler({
+    schedule,
+    lowerLimit: 25000,
+    upperLimit: 30000,
+    lastRunAt: NOW.toISOString(),
+    now: () => now
+  });
+
+  beforeEach(() => {
+    now = NOW;
+  });
+
+  test('設定した間隔が経過したら定期実行する', () => {
+    const scheduler = createScheduler();
+
+    now = new Date(NOW.getTime() + 23 * HOUR);
+    expect(scheduler.due([])).toBeNull();
+    now = new Date(NOW.getTime() + 24 * HOUR);
+    expect(scheduler.due([])).toBe('SCHEDULE');
+
+    scheduler.markRun();
+    expect(scheduler.due([])).toBeNull();
+    expect(createScheduler({ ...SCHEDULE, enabled: false }).due([])).toBeNull();
+  });
+
+  test('価格がレンジ外に留まった時間で実行し、レンジ内に戻ればリセットする', () => {
+    const scheduler = createScheduler();
+
+    scheduler.updatePrice(31000);
+    now = new Date(NOW.getTime() + 59 * MINUTE);
+    scheduler.updatePrice(31500);
+    expect(scheduler.due([])).toBeNull();
+    expect(scheduler.getOutOfRangeSince()).toBe(NOW.toISOString());
+
+    scheduler.updatePrice(29000);
+    now = new Date(NOW.getTime() + 90 * MINUTE);
+    scheduler.updatePrice(24000);
+    expect(scheduler.due([])).toBeNull();
+    now = new Date(NOW.getTime() + 150 * MINUTE);
+    expect(scheduler.due([])).toBe('OUT_OF_RANGE');
+
+    // 移行後は新しいレンジで判定する
+    scheduler.markRun({ lowerLimit: 20000, upperLimit: 25000 });
+    scheduler.updatePrice(24000);
+    expect(scheduler.getOutOfRangeSince()).toBeNull();
+  });
+
+  test('直近24時間の移行回数が上限に達していれば実行しない', () => {
+    const scheduler = createScheduler();
+    now = new Date(NOW.getTime() + 48 * HOUR);
+    const history = [applied(new Date(now.getTime() - 2 * HOUR)), applied(new Date(now.getTime() - HOUR))];
+
+    expect(scheduler.due(history)).toBeNull();
+    expect(scheduler.due([applied(new Date(now.getTime() - 25 * HOUR)), history[1]])).toBe('SCHEDULE');
+    expect(scheduler.due([{ ...history[0], status: 'SKIPPED' }, history[1]])).toBe('SCHEDULE');
+  });
+});
+
+describe('runReoptimization', () => {
+  // 現在価格から離れていて約定しないグリッド
+  const settings: GridSettings = {
+    upperLimit: 12000,
+    lowerLimit: 10000,
+    gridNumber: 10,
+    gridType: 'arithmetic',
+    initialInvestment: 10000,
+    stopLoss: 0,
+    takeProfitLevel: 0
+  };
+  const candles = makeCandles(200);
+  const options = {
+    trigger: 'SCHEDULE' as const,
+    symbol: SYMBOL,
+    settings,
+    timeframe: '1h',
+    historyPeriod: 7,
+    riskLevel: 'medium' as const,
+    fetchCandles: async () => candles,
+    now: () => NOW
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('バックテストの損益が基準以上に改善する場合はグリッドを移行する', async () => {
+    const migrate = jest.fn(async ({ gridLines }: MigrationOptions) =>
+      ({ canceledOrders: 10, rebalance: null, placedOrders: gridLines.length - 1 }));
+
+    const record = await runReoptimization({ ...options, schedule: SCHEDULE, migrate });
+
+    expect(record.status).toBe('APPLIED');
+    expect(record.at).toBe(NOW.toISOString());
+    expect(record.previous.upperLimit).toBe(12000);
+    expect(record.improvementPercent).toBeGreaterThanOrEqual(SCHEDULE.minImprovementPercent);
+    expect(record.proposedNetProfit).toBeGreaterThan(record.currentNetProfit ?? 0);
+    const [{ gridLines, riskLimits }] = migrate.mock.calls[0];
+    expect(gridLines).toHaveLength((record.proposed?.gridNumber ?? 0) + 1);
+    expect(gridLines[0]).toBe(record.proposed?.lowerLimit);
+    expect(riskLimits).toEqual({ stopLoss: record.proposed?.stopLoss, takeProfit: record.proposed?.takeProfitLevel });
+    expect(record.migration?.canceledOrders).toBe(10);
+  });
+
+  test('改善幅が基準に満たない場合は見送る', async () => {
+    const migrate = jest.fn();
+
+    const record = await runReoptimization({ ...options, schedule: { ...SCHEDULE, minImprovementPercent: 1000 }, migrate });
+
+    expect(record.status).toBe('SKIPPED');
+    expect(record.message).toContain('基準（1000%）に満たない');
+    expect(record.proposed).toBeDefined();
+    expect(migrate).not.toHaveBeenCalled();
+  });
+
+  test('移行に失敗した場合はエラーを記録する', async () => {
+    const migrate = jest.fn().mockRejectedValue(new Error('残高不足です'));
+
+    const record = await runReoptimization({ ...options, schedule: SCHEDULE, migrate });
+
+    expect(record).toMatchObject({ status: 'FAILED', message: '残高不足です' });
+  });
+});
+
+describe('GridEngine.migrate', () => {
+  let exchange: PaperExchange;
+  let engine: GridEngine;
+
+  beforeEach(async () => {
+    exchange = new PaperExchange({
+      initialBalance: { base: 0.05, quote: 10000 },
+      storageKey: null,
+      now: () => NOW,
+      debug: false
+    });
+    exchange.updatePrice(SYMBOL, 27600);
+    engine = new GridEngine({
+      client: exchange,
+      symbol: SYMBOL,
+      gridLines: [25000, 26000, 27000, 28000, 29000, 30000],
+      initialInvestment: 1000,
+      now: () => NOW,
+      debug: false
+    });
+    await engine.start();
+  });
+
+  test('古い注文をキャンセルし、不足する保有量を成行で買ってから新しいグリッドを並べる', async () => {
+    exchange.updatePrice(SYMBOL, 30200);
+
+    const result = await engine.migrate({
+      gridLines: [30000, 31000, 32000, 33000, 34000, 35000],
+      riskLimits: { stopLoss: 29000, takeProfit: 36000 }
+    });
+
+    expect(result.canceledOrders).toBe(5);
+    expect(result.placedOrders).toBe(5);
+    expect(result.rebalance).toMatchObject({ type: 'BUY', level: -1, status: 'FILLED', rebalance: true });
+
+    const { activeOrders, completedOrders } = engine.getState();
+    expect(activeOrders.map(o => o.price)).toEqual([31000, 32000, 33000, 34000, 35000]);
+    expect(activeOrders.every(o => o.type === 'SELL')).toBe(true);
+    expect(completedOrders).toContainEqual(result.rebalance);
+    expect(exchange.getOrders().filter(o => o.status === 'NEW')).toHaveLength(5);
+    expect(engine.isRunning()).toBe(true);
+
+    // 新しいストップロスで停止する
+    expect(await engine.updatePrice(28900)).toMatchObject({ reason: 'STOP_LOSS', threshold: 29000 });
+  });
+
+  test('現在価格がストップロスに達している場合は注文を残したまま中止する', async () => {
+    await expect(engine.migrate({
+      gridLines: [30000, 31000, 32000],
+      riskLimits: { stopLoss: 28000, takeProfit: 0 }
+    })).rejects.toThrow('ストップロス');
+
+    expect(engine.isRunning()).toBe(true);
+    expect(engine.getState().activeOrders).toHaveLength(5);
+  });
+
+  test('約定確認中に呼ばれた場合は、確認が終わってから移行する', async () => {
+    exchange.updatePrice(SYMBOL, 26900);
+    // 反対注文の発注を遅らせ、発注中に移行を始める
+    const createOrder = exchange.createOrder.bind(exchange);
+    jest.spyOn(exchange, 'createOrder').mockImplementation(async params => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return createOrder(params);
+    });
+
+    const sync = engine.syncFills();
+    const result = await engine.migrate({ gridLines: [25500, 26500, 27500, 28500] });
+    await sync;
+
+    // 約定確認で出した反対注文も移行時にキャンセルされ、取引所に追跡外の注文が残らない
+    expect(result.canceledOrders).toBe(5);
+    const open = exchange.getOrders().filter(o => o.status === 'NEW').map(o => o.orderId);
+    expect(open).toEqual(engine.getState().activeOrders.map(o => o.id));
+    expect(engine.getState().activeOrders.map(o => o.price)).toEqual([25500, 27500, 28500]);
+    expect(engine.isRunning()).toBe(true);
+  });
+});
@@ -0,0 +1,239 @@
+import { GridSettings } from '../hooks/useGridSettings';
+import { calculateGridLines } from '../utils/grid';
+import { SymbolFilters } from '../utils/symbolFilters';
+import { runBacktest } from './backtester';
+import { MigrationOptions, MigrationResult } from './gridEngine';
+import { ProposedSettings, RiskLevel, candleLimitFor, proposeGridSettings } from './gridOptimizer';
+import { Candle, fetchKlines } from './marketData';
+
+// 稼働中のグリッドの定期的な再最適化
+export interface ReoptimizationSchedule {
+  enabled: boolean;
+  // 定期的に再最適化する間隔（時間）
+  intervalHours: number;
+  // 価格がグリッドの範囲外にこの時間（分）留まったら再最適化する
+  outOfRangeMinutes: number;
+  // 24時間あたりにグリッドを移行する回数の上限
+  maxChangesPerDay: number;
+  // 提案を採用するのに必要な改善幅（バックテストの損益の差、投資額に対する%）
+  minImprovementPercent: number;
+}
+
+export const DEFAULT_REOPTIMIZATION_SCHEDULE: ReoptimizationSchedule = {
+  enabled: false,
+  intervalHours: 24,
+  outOfRangeMinutes: 60,
+  maxChangesPerDay: 2,
+  minImprovementPercent: 0.5
+};
+
+export type ReoptimizationTrigger = 'SCHEDULE' | 'OUT_OF_RANGE';
+
+export const REOPTIMIZATION_TRIGGER_LABELS: Record<ReoptimizationTrigger, string> = {
+  SCHEDULE: '定期実行',
+  OUT_OF_RANGE: 'レンジ外'
+};
+
+// APPLIED: グリッドを移行した / SKIPPED: 改善が小さいため見送った / FAILED: エラー
+export type ReoptimizationStatus = 'APPLIED' | 'SKIPPED' | 'FAILED';
+
+export interface ReoptimizationRecord {
+  at: string;
+  trigger: ReoptimizationTrigger;
+  status: ReoptimizationStatus;
+  message: string;
+  previous: ProposedSettings;
+  proposed?: ProposedSettings;
+  reasons?: string[];
+  // 直近のローソク足でのバックテストの損益（現在の設定と提案）
+  currentNetProfit?: number;
+  proposedNetProfit?: number;
+  improvementPercent?: number;
+  migration?: MigrationResult;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_STORAGE_KEY = 'gridBotReoptimizationHistory';
+const MAX_HISTORY = 100;
+
+// 直近24時間にグリッドを移行した回数
+export const countRecentChanges = (history: ReoptimizationRecord[], now: Date): number =>
+  history.filter(record => record.status === 'APPLIED' && now.getTime() - new Date(record.at).getTime() < DAY_MS).length;
+
+interface SchedulerConfig {
+  schedule: ReoptimizationSchedule;
+  lowerLimit: number;
+  upperLimit: number;
+  // 前回の再最適化の時刻（なければ作成時刻から数える）
+  lastRunAt?: string | null;
+  now?: () => Date;
+}
+
+// 最新価格と経過時間から、再最適化を実行する時期かを判定する
+class ReoptimizationScheduler {
+  private schedule: ReoptimizationSchedule;
+  private lowerLimit: number;
+  private upperLimit: number;
+  private lastRunAt: number;
+  private outOfRangeSince: number | null = null;
+  private now: () => Date;
+
+  constructor(config: SchedulerConfig) {
+    this.schedule = config.schedule;
+    this.lowerLimit = config.lowerLimit;
+    this.upperLimit = config.upperLimit;
+    this.now = config.now ?? (() => new Date());
+    this.lastRunAt = config.lastRunAt ? new Date(config.lastRunAt).getTime() : this.now().getTime();
+  }
+
+  getOutOfRangeSince(): string | null {
+    return this.outOfRangeSince === null ? null : new Date(this.outOfRangeSince).toISOString();
+  }
+
+  updatePrice(price: number) {
+    if (!isFinite(price) || price <= 0) return;
+    const outside = price < this.lowerLimit || price > this.upperLimit;
+    if (!outside) {
+      this.outOfRangeSince = null;
+    } else if (this.outOfRangeSince === null) {
+      this.outOfRangeSince = this.now().getTime();
+    }
+  }
+
+  // 実行する理由（実行しない場合はnull）。1日の移行回数の上限に達していれば実行しない
+  due(history: ReoptimizationRecord[]): ReoptimizationTrigger | null {
+    if (!this.schedule.enabled) return null;
+    const now = this.now();
+    if (countRecentChanges(history, now) >= this.schedule.maxChangesPerDay) return null;
+
+    if (
+      this.outOfRangeSince !== null &&
+      now.getTime() - this.outOfRangeSince >= this.schedule.outOfRangeMinutes * 60 * 1000
+    ) {
+      return 'OUT_OF_RANGE';
+    }
+    if (now.getTime() - this.lastRunAt >= this.schedule.intervalHours * 60 * 60 * 1000) {
+      return 'SCHEDULE';
+    }
+    return null;
+  }
+
+  // 実行したら（見送った場合も）次の判定を最初からやり直す
+  markRun(range?: { lowerLimit: number; upperLimit: number }) {
+    this.lastRunAt = this.now().getTime();
+    this.outOfRangeSince = null;
+    if (range) {
+      this.lowerLimit = range.lowerLimit;
+      this.upperLimit = range.upperLimit;
+    }
+  }
+}
+
+interface ReoptimizationOptions {
+  trigger: ReoptimizationTrigger;
+  symbol: string;
+  settings: GridSettings;
+  timeframe: string;
+  historyPeriod: number;
+  riskLevel: RiskLevel;
+  schedule: ReoptimizationSchedule;
+  migrate: (options: MigrationOptions) => Promise<MigrationResult>;
+  minOrderValue?: number;
+  feeRate?: number;
+  filters?: Pick<SymbolFilters, 'tickSize'>;
+  fetchCandles?: (symbol: string, interval: string, limit: number) => Promise<Candle[]>;
+  now?: () => Date;
+}
+
+const pickSettings = ({ upperLimit, lowerLimit, gridNumber, gridType, stopLoss, takeProfitLevel }: ProposedSettings): ProposedSettings =>
+  ({ upperLimit, lowerLimit, gridNumber, gridType, stopLoss, takeProfitLevel });
+
+const isSameSettings = (a: ProposedSettings, b: ProposedSettings): boolean =>
+  (Object.keys(pickSettings(a)) as (keyof ProposedSettings)[]).every(key => a[key] === b[key]);
+
+// 提案を作り、現在の設定より改善する場合だけ稼働中のグリッドを移行する
+// 改善幅は同じローソク足で両方の設定をバックテストした損益の差で判定する
+export const runReoptimization = async ({
+  trigger,
+  symbol,
+  settings,
+  timeframe,
+  historyPeriod,
+  riskLevel,
+  schedule,
+  migrate,
+  minOrderValue,
+  feeRate,
+  filters,
+  fetchCandles = fetchKlines,
+  now = () => new Date()
+}: ReoptimizationOptions): Promise<ReoptimizationRecord> => {
+  const previous = pickSettings(settings);
+  const record = (fields: Omit<ReoptimizationRecord, 'at' | 'trigger' | 'previous'>): ReoptimizationRecord =>
+    ({ at: now().toISOString(), trigger, previous, ...fields });
+
+  try {
+    const candles = await fetchCandles(symbol, timeframe, candleLimitFor(timeframe, historyPeriod));
+    const proposal = proposeGridSettings({
+      candles,
+      riskLevel,
+      initialInvestment: settings.initialInvestment,
+      minOrderValue,
+      feeRate,
+      filters
+    });
+    const proposed = proposal.settings;
+    if (isSameSettings(previous, proposed)) {
+      return record({ status: 'SKIPPED', message: '提案が現在の設定と同じため見送りました', proposed, reasons: proposal.reasons });
+    }
+
+    const [current, next] = await Promise.all([
+      runBacktest({ candles, settings, feeRate }),
+      runBacktest({ candles, settings: { ...settings, ...proposed }, feeRate })
+    ]);
+    const improvementPercent = ((next.netProfit - current.netProfit) / settings.initialInvestment) * 100;
+    const evaluation = {
+      proposed,
+      reasons: proposal.reasons,
+      currentNetProfit: current.netProfit,
+      proposedNetProfit: next.netProfit,
+      improvementPercent
+    };
+    if (improvementPercent < schedule.minImprovementPercent) {
+      return record({
+        status: 'SKIPPED',
+        message: `改善幅（${improvementPercent.toFixed(2)}%）が基準（${schedule.minImprovementPercent}%）に満たないため見送りました`,
+        ...evaluation
+      });
+    }
+
+    const migration = await migrate({
+      gridLines: calculateGridLines({ ...settings, ...proposed }),
+      riskLimits: { stopLoss: proposed.stopLoss, takeProfit: proposed.takeProfitLevel }
+    });
+    return record({ status: 'APPLIED', message: `グリッドを移行しました（改善幅 ${improvementPercent.toFixed(2)}%）`, migration, ...evaluation });
+  } catch (error) {
+    console.error('[Reoptimizer Error] 再最適化に失敗しました:', error);
+    return record({ status: 'FAILED', message: error instanceof Error ? error.message : String(error) });
+  }
+};
+
+export const loadReoptimizationHistory = (): ReoptimizationRecord[] => {
+  try {
+    const saved = localStorage.getItem(HISTORY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('再最適化の履歴の読み込みエラー:', error);
+    return [];
+  }
+};
+
+export const saveReoptimizationHistory = (history: ReoptimizationRecord[]) => {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history.slice(-MAX_HISTORY)));
+  } catch (error) {
+    console.error('再最適化の履歴の保存エラー:', error);
+  }
+};
+
+export { ReoptimizationScheduler };
@@ -0,0 +1,132 @@
+import { GridEngine, StopRecord } from './gridEngine';
+import { PaperExchange } from './paperExchange';
+import { RiskWatcher, checkRiskLimits } from './riskWatcher';
+
+const SYMBOL = 'BTCUSDT';
+const GRID_LINES = [25000, 26000, 27000, 28000, 29000, 30000];
+const LIMITS = { stopLoss: 24000, takeProfit: 31000 };
+const NOW = new Date(Date.UTC(2024, 0, 1));
+
+describe('checkRiskLimits', () => {
+  test('しきい値を越えたときだけ理由を返す', () => {
+    expect(checkRiskLimits(27000, LIMITS)).toBeNull();
+    expect(checkRiskLimits(24000, LIMITS)).toMatchObject({ reason: 'STOP_LOSS', threshold: 24000 });
+    expect(checkRiskLimits(31500, LIMITS)).toMatchObject({ reason: 'TAKE_PROFIT', threshold: 31000 });
+    // 0は未設定
+    expect(checkRiskLimits(1, { stopLoss: 0, takeProfit: 0 })).toBeNull();
+  });
+
+  test('RiskWatcherは一度だけ発動する', () => {
+    const onTrigger = jest.fn();
+    const watcher = new RiskWatcher({ limits: LIMITS, onTrigger, now: () => NOW });
+
+    [27000, 25000, 23900, 23000].forEach(price => watcher.update(price));
+
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    expect(watcher.getTrigger()).toEqual({
+      reason: 'STOP_LOSS',
+      threshold: 24000,
+      price: 23900,
+      triggeredAt: NOW.toISOString()
+    });
+  });
+});
+
+describe('GridEngine ストップロス・利確', () => {
+  let exchange: PaperExchange;
+
+  const createEngine = (sellOnRiskStop: boolean, onStop: (record: StopRecord) => void) => new GridEngine({
+    client: exchange,
+    symbol: SYMBOL,
+    gridLines: GRID_LINES,
+    initialInvestment: 1000,
+    riskLimits: LIMITS,
+    sellOnRiskStop,
+    onStop,
+    now: () => NOW,
+    debug: false
+  });
+
+  // 価格系列を順に流し、約定確認と監視を行う
+  const simulate = async (engine: GridEngine, prices: number[]) => {
+    for (const price of prices) {
+      exchange.updatePrice(SYMBOL, price);
+      await engine.syncFills();
+      if (await engine.updatePrice(price)) break;
+    }
+  };
+
+  beforeEach(() => {
+    exchange = new PaperExchange({
+      initialBalance: { base: 1, quote: 10000 },
+      storageKey: null,
+      now: () => NOW,
+      debug: false
+    });
+    exchange.updatePrice(SYMBOL, 27600);
+  });
+
+  test('ストップロスで注文を取り消し、保有分を成行で売却して停止する', async () => {
+    const onStop = jest.fn();
+    const engine = createEngine(true, onStop);
+    await engine.start();
+    const createOrder = jest.spyOn(exchange, 'createOrder');
+
+    await simulate(engine, [27200, 26500, 25400, 24800, 23900, 23500]);
+
+    const { stopRecord, activeOrders } = engine.getState();
+    expect(engine.isRunning()).toBe(false);
+    expect(activeOrders).toEqual([]);
+    expect(await exchange.getOpenOrders(SYMBOL)).toEqual([]);
+    expect(stopRecord).toMatchObject({ reason: 'STOP_LOSS', threshold: 24000, price: 23900 });
+    expect(stopRecord?.soldQuantity).toBeGreaterThan(0);
+    expect(onStop).toHaveBeenCalledTimes(1);
+
+    const marketOrders = createOrder.mock.calls.map(([params]) => params).filter(params => params.type === 'MARKET');
+    expect(marketOrders).toEqual([
+      expect.objectContaining({ side: 'SELL', quantity: String(stopRecord?.soldQuantity) })
+    ]);
+  });
+
+  test('利確で停止し、売却しない設定なら成行注文を出さない', async () => {
+    const onStop = jest.fn();
+    const engine = createEngine(false, onStop);
+    await engine.start();
+    const createOrder = jest.spyOn(exchange, 'createOrder');
+
+    await simulate(engine, [28200, 29100, 30200, 31000]);
+
+    expect(engine.getState().stopRecord).toMatchObject({ reason: 'TAKE_PROFIT', price: 31000, stoppedAt: NOW.toISOString() });
+    expect(engine.getState().stopRecord?.soldQuantity).toBeUndefined();
+    expect(createOrder.mock.calls.some(([params]) => params.type === 'MARKET')).toBe(false);
+    expect(await engine.updatePrice(32000)).toBeNull();
+    expect(onStop).toHaveBeenCalledTimes(1);
+  });
+
+  test('選択中の通貨ペアを切り替えても、ボットの通貨ペアの価格で判定する', async () => {
+    const onStop = jest.fn();
+    const engine = createEngine(true, onStop);
+    await engine.start();
+
+    // 画面でXRP/JPYに切り替えると、チャートの価格（約80円）が取引所に届く
+    exchange.updatePrice('XRPJPY', 80);
+
+    expect(await engine.checkPrice()).toBeNull();
+    expect(engine.isRunning()).toBe(true);
+    expect(engine.getState().activeOrders).toHaveLength(5);
+    expect(onStop).not.toHaveBeenCalled();
+
+    exchange.updatePrice(SYMBOL, 23900);
+    await engine.syncFills();
+    expect(await engine.checkPrice()).toMatchObject({ reason: 'STOP_LOSS', price: 23900 });
+    expect(engine.isRunning()).toBe(false);
+  });
+
+  test('現在価格がしきい値を越えていれば開始しない', async () => {
+    exchange.updatePrice(SYMBOL, 23000);
+    const engine = createEngine(false, jest.fn());
+
+    await expect(engine.start()).rejects.toThrow('ストップロス');
+    expect(engine.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+// ボット停止の理由（MANUAL: 手動停止）
+export type StopReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'MANUAL';
+
+// 0以下の値は未設定として扱う
+export interface RiskLimits {
+  stopLoss: number;
+  takeProfit: number;
+}
+
+export interface RiskTrigger {
+  reason: Exclude<StopReason, 'MANUAL'>;
+  threshold: number;
+  price: number;
+  triggeredAt: string;
+}
+
+export const STOP_REASON_LABELS: Record<StopReason, string> = {
+  STOP_LOSS: 'ストップロス',
+  TAKE_PROFIT: '利確',
+  MANUAL: '手動停止'
+};
+
+// 価格がストップロス以下・利確レベル以上になったかを判定する
+export const checkRiskLimits = (price: number, limits: RiskLimits): Omit<RiskTrigger, 'triggeredAt'> | null => {
+  if (!isFinite(price) || price <= 0) return null;
+
+  if (limits.stopLoss > 0 && price <= limits.stopLoss) {
+    return { reason: 'STOP_LOSS', threshold: limits.stopLoss, price };
+  }
+  if (limits.takeProfit > 0 && price >= limits.takeProfit) {
+    return { reason: 'TAKE_PROFIT', threshold: limits.takeProfit, price };
+  }
+  return null;
+};
+
+interface RiskWatcherConfig {
+  limits: RiskLimits;
+  onTrigger?: (trigger: RiskTrigger) => void;
+  now?: () => Date;
+}
+
+// 最新価格を監視し、しきい値を越えたら一度だけ通知する
+class RiskWatcher {
+  private limits: RiskLimits;
+  private onTrigger?: (trigger: RiskTrigger) => void;
+  private now: () => Date;
+  private trigger: RiskTrigger | null = null;
+
+  constructor(config: RiskWatcherConfig) {
+    this.limits = config.limits;
+    this.onTrigger = config.onTrigger;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  getTrigger(): RiskTrigger | null {
+    return this.trigger;
+  }
+
+  update(price: number): RiskTrigger | null {
+    if (this.trigger) return null;
+
+    const hit = checkRiskLimits(price, this.limits);
+    if (!hit) return null;
+
+    this.trigger = { ...hit, triggeredAt: this.now().toISOString() };
+    this.onTrigger?.(this.trigger);
+    return this.trigger;
+  }
+}
+
+export { RiskWatcher };
@@ -0,0 +1,60 @@
+import {
+  DEFAULT_INDICATOR_SETTINGS,
+  IndicatorSettings,
+  buildIndicatorSeries,
+  loadIndicatorSettings,
+  saveIndicatorSettings
+} from './chartIndicators';
+
+const candles = Array.from({ length: 30 }, (_, i) => {
+  const close = 100 + (i % 5) * 2;
+  return { high: close + 1, low: close - 1, close };
+});
+
+describe('buildIndicatorSeries', () => {
+  test('有効な指標だけを、期間を満たした足から計算する', () => {
+    const settings: IndicatorSettings = {
+      ...DEFAULT_INDICATOR_SETTINGS,
+      sma: { enabled: true, period: 5 },
+      bollinger: { enabled: true, period: 5, multiplier: 2 },
+      atr: { enabled: true, period: 3 }
+    };
+
+    const series = buildIndicatorSeries(candles, settings);
+
+    expect(series).toHaveLength(30);
+    expect(series[3]).toEqual({ atr: expect.any(Number) });
+    expect(series[4].sma).toBeCloseTo(104);
+    expect(series[4].bbMiddle).toBeCloseTo(104);
+    expect(series[4].bbUpper).toBeCloseTo(104 + 2 * Math.sqrt(8));
+    expect(series[29].ema).toBeUndefined();
+    expect(series[29].rsi).toBeUndefined();
+  });
+
+  test('RSIは変化の方向に応じて0〜100の値をとる', () => {
+    const rising = candles.map((candle, i) => ({ ...candle, close: 100 + i }));
+    const series = buildIndicatorSeries(rising, { ...DEFAULT_INDICATOR_SETTINGS, rsi: { enabled: true, period: 14 } });
+
+    expect(series[13].rsi).toBeUndefined();
+    expect(series[14].rsi).toBe(100);
+  });
+});
+
+describe('loadIndicatorSettings / saveIndicatorSettings', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  test('保存した設定を読み込み、不足する項目や不正な期間は既定値で補う', () => {
+    expect(loadIndicatorSettings()).toEqual(DEFAULT_INDICATOR_SETTINGS);
+
+    saveIndicatorSettings({ ...DEFAULT_INDICATOR_SETTINGS, ema: { enabled: true, period: 21 } });
+    expect(loadIndicatorSettings().ema).toEqual({ enabled: true, period: 21 });
+
+    localStorage.setItem('gridBotChartIndicators', JSON.stringify({ sma: { enabled: true, period: 0 }, rsi: { enabled: true } }));
+    const loaded = loadIndicatorSettings();
+    expect(loaded.sma).toEqual(DEFAULT_INDICATOR_SETTINGS.sma);
+    expect(loaded.rsi).toEqual({ enabled: true, period: 14 });
+    expect(loaded.bollinger).toEqual(DEFAULT_INDICATOR_SETTINGS.bollinger);
+  });
+});
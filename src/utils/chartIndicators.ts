@@ -0,0 +1,103 @@
+import { Candle } from '../services/marketData';
+import { averageTrueRange, bollingerBands, ema, rsi, sma } from './indicators';
+
+// 価格チャートに表示するテクニカル指標の設定
+export interface IndicatorSettings {
+  sma: { enabled: boolean; period: number };
+  ema: { enabled: boolean; period: number };
+  bollinger: { enabled: boolean; period: number; multiplier: number };
+  rsi: { enabled: boolean; period: number };
+  atr: { enabled: boolean; period: number };
+}
+
+export type IndicatorKey = keyof IndicatorSettings;
+
+export const INDICATOR_LABELS: Record<IndicatorKey, string> = {
+  sma: 'SMA',
+  ema: 'EMA',
+  bollinger: 'ボリンジャーバンド',
+  rsi: 'RSI',
+  atr: 'ATR'
+};
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  sma: { enabled: false, period: 20 },
+  ema: { enabled: false, period: 50 },
+  bollinger: { enabled: false, period: 20, multiplier: 2 },
+  rsi: { enabled: false, period: 14 },
+  atr: { enabled: false, period: 14 }
+};
+
+// 無効な指標の値は含めない
+export interface IndicatorPoint {
+  sma?: number;
+  ema?: number;
+  bbUpper?: number;
+  bbMiddle?: number;
+  bbLower?: number;
+  rsi?: number;
+  atr?: number;
+}
+
+const STORAGE_KEY = 'gridBotChartIndicators';
+
+const isValidPeriod = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 2;
+
+// 保存した設定を読み込む（不正な期間や不足する項目は既定値で補う）
+export const loadIndicatorSettings = (): IndicatorSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (!saved) return DEFAULT_INDICATOR_SETTINGS;
+    const parsed = JSON.parse(saved);
+    const settings = { ...DEFAULT_INDICATOR_SETTINGS };
+    (Object.keys(DEFAULT_INDICATOR_SETTINGS) as IndicatorKey[]).forEach(key => {
+      const merged = { ...DEFAULT_INDICATOR_SETTINGS[key], ...parsed[key] };
+      (settings as Record<IndicatorKey, typeof merged>)[key] = isValidPeriod(merged.period)
+        ? merged
+        : DEFAULT_INDICATOR_SETTINGS[key];
+    });
+    return settings;
+  } catch (error) {
+    console.error('チャート指標の設定の読み込みエラー:', error);
+    return DEFAULT_INDICATOR_SETTINGS;
+  }
+};
+
+export const saveIndicatorSettings = (settings: IndicatorSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('チャート指標の設定の保存エラー:', error);
+  }
+};
+
+// ローソク足と同じ長さの指標の系列（期間に満たない足は値なし）
+export const buildIndicatorSeries = (
+  candles: Pick<Candle, 'high' | 'low' | 'close'>[],
+  settings: IndicatorSettings
+): IndicatorPoint[] => {
+  const closes = candles.map(candle => candle.close);
+  const smaValues = settings.sma.enabled ? sma(closes, settings.sma.period) : [];
+  const emaValues = settings.ema.enabled ? ema(closes, settings.ema.period) : [];
+  const bands = settings.bollinger.enabled
+    ? bollingerBands(closes, settings.bollinger.period, settings.bollinger.multiplier)
+    : [];
+  const rsiValues = settings.rsi.enabled ? rsi(closes, settings.rsi.period) : [];
+  const atrValues = settings.atr.enabled ? averageTrueRange(candles, settings.atr.period) : [];
+
+  return candles.map((_, i) => {
+    const point: IndicatorPoint = {};
+    const band = bands[i];
+    if (smaValues[i] != null) point.sma = smaValues[i] as number;
+    if (emaValues[i] != null) point.ema = emaValues[i] as number;
+    if (band) {
+      point.bbUpper = band.upper;
+      point.bbMiddle = band.middle;
+      point.bbLower = band.lower;
+    }
+    if (rsiValues[i] != null) point.rsi = rsiValues[i] as number;
+    if (atrValues[i] != null) point.atr = atrValues[i] as number;
+    return point;
+  });
+};
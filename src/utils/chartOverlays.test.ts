@@ -0,0 +1,52 @@
+import { GridOrder } from '../services/gridEngine';
+import { fillMarkers, gridLevelStats, snapToSeries } from './chartOverlays';
+
+const GRID_LINES = [25000, 26000, 27000, 28000];
+
+const order = (overrides: Partial<GridOrder> & Pick<GridOrder, 'id' | 'type' | 'level' | 'price'>): GridOrder => ({
+  amount: 0.01,
+  status: 'FILLED',
+  ...overrides
+});
+
+describe('gridLevelStats', () => {
+  test('レベルごとの約定回数と、売りで決済した往復の損益を集計する', () => {
+    const completed = [
+      order({ id: '1', type: 'BUY', level: 1, price: 26000, fee: 0.26, executedAt: '2024-01-01T00:00:00.000Z' }),
+      order({ id: '2', type: 'SELL', level: 2, price: 27000, fee: 0.27, openedBy: '1', executedAt: '2024-01-01T01:00:00.000Z' }),
+      order({ id: '3', type: 'BUY', level: 1, price: 26000.01, executedAt: '2024-01-01T02:00:00.000Z' }),
+      // 移行前のグリッドの約定と、保有量の調整
+      order({ id: '4', type: 'SELL', level: 2, price: 30000, executedAt: '2024-01-01T03:00:00.000Z' }),
+      order({ id: '5', type: 'BUY', level: -1, price: 26500, rebalance: true, executedAt: '2024-01-01T04:00:00.000Z' })
+    ];
+    const active = [
+      order({ id: '6', type: 'SELL', level: 2, price: 27000, status: 'NEW' }),
+      order({ id: '7', type: 'BUY', level: 0, price: 25000, status: 'NEW' })
+    ];
+
+    const stats = gridLevelStats(GRID_LINES, completed, active);
+
+    expect(stats[1]).toMatchObject({ buyFills: 2, sellFills: 0, profit: 0, openSide: null });
+    expect(stats[2]).toMatchObject({ buyFills: 0, sellFills: 1, openSide: 'SELL' });
+    expect(stats[2].profit).toBeCloseTo(10 - 0.26 - 0.27);
+    expect(stats[0].openSide).toBe('BUY');
+    expect(stats[3]).toEqual({ level: 3, price: 28000, buyFills: 0, sellFills: 0, profit: 0, openSide: null });
+  });
+});
+
+describe('fillMarkers', () => {
+  const times = ['2024-01-01T00:00:00.000Z', '2024-01-01T01:00:00.000Z', '2024-01-01T02:00:00.000Z'];
+
+  test('約定時刻を含む足の時刻に置き、表示期間より前の約定は除く', () => {
+    expect(snapToSeries(times, '2024-01-01T01:59:59.000Z')).toBe(times[1]);
+    expect(snapToSeries(times, '2023-12-31T23:00:00.000Z')).toBeUndefined();
+
+    const markers = fillMarkers(times, [
+      order({ id: '1', type: 'BUY', level: 1, price: 26000, executedAt: '2023-12-31T23:00:00.000Z' }),
+      order({ id: '2', type: 'SELL', level: 2, price: 27000, executedAt: '2024-01-01T05:00:00.000Z' }),
+      order({ id: '3', type: 'BUY', level: 1, price: 26000 })
+    ]);
+
+    expect(markers).toEqual([{ id: '2', time: times[2], price: 27000, side: 'SELL' }]);
+  });
+});
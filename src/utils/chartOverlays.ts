@@ -0,0 +1,82 @@
+import { GridOrder } from '../services/gridEngine';
+import { buildTradeHistory } from './tradeHistory';
+
+// 価格チャートに重ねるグリッドの情報
+
+export interface GridLevelStats {
+  level: number;
+  price: number;
+  buyFills: number;
+  sellFills: number;
+  // このレベルの売りで決済した往復の損益（手数料控除後）
+  profit: number;
+  // このレベルに出ている注文（なければnull）
+  openSide: 'BUY' | 'SELL' | null;
+}
+
+export interface FillMarker {
+  id: string;
+  // チャートの時刻軸上の位置（約定時刻を含む足の時刻）
+  time: string;
+  price: number;
+  side: 'BUY' | 'SELL';
+}
+
+// 刻み幅への丸めを許容する、注文価格とグリッドラインの差（割合）
+const PRICE_TOLERANCE = 0.001;
+
+// 注文が現在のグリッドラインのレベルで出されたものか
+// 移行前のグリッドの注文や保有量の調整（level -1）は除く
+const onLevel = (order: GridOrder, gridLines: number[]): boolean => {
+  const price = gridLines[order.level];
+  return price !== undefined && Math.abs(order.price - price) <= price * PRICE_TOLERANCE;
+};
+
+// レベルごとの約定回数・損益と、出ている注文
+export const gridLevelStats = (
+  gridLines: number[],
+  completedOrders: GridOrder[],
+  activeOrders: GridOrder[],
+  feeToQuote: (order: GridOrder) => number = order => order.fee ?? 0
+): GridLevelStats[] => {
+  const stats = gridLines.map((price, level): GridLevelStats => ({
+    level,
+    price,
+    buyFills: 0,
+    sellFills: 0,
+    profit: 0,
+    openSide: null
+  }));
+
+  const history = buildTradeHistory(completedOrders.map(order => ({ ...order, symbol: '' })), feeToQuote);
+  history.filter(order => onLevel(order, gridLines)).forEach(order => {
+    const level = stats[order.level];
+    if (order.type === 'BUY') {
+      level.buyFills++;
+    } else {
+      level.sellFills++;
+      level.profit += order.roundTrip?.netProfit ?? 0;
+    }
+  });
+  activeOrders.filter(order => onLevel(order, gridLines)).forEach(order => {
+    stats[order.level].openSide = order.type;
+  });
+
+  return stats;
+};
+
+// 約定時刻を含む足（約定時刻以前で最も新しい足）の時刻
+export const snapToSeries = (times: string[], at: string): string | undefined => {
+  const target = new Date(at).getTime();
+  for (let i = times.length - 1; i >= 0; i--) {
+    if (new Date(times[i]).getTime() <= target) return times[i];
+  }
+  return undefined;
+};
+
+// 表示中の期間に約定した注文のマーカー
+export const fillMarkers = (times: string[], completedOrders: GridOrder[]): FillMarker[] =>
+  completedOrders.flatMap(order => {
+    const time = order.executedAt ? snapToSeries(times, order.executedAt) : undefined;
+    return time ? [{ id: order.id, time, price: order.price, side: order.type }] : [];
+  });
@@ -0,0 +1,98 @@
+import { EXPORT_COLUMNS, buildExport, toCsv } from './exportData';
+import { TradeRecord } from './tradeHistory';
+
+const PAIR = { base: 'BTC', quote: 'USDT' };
+
+const trade = (overrides: Partial<TradeRecord> & Pick<TradeRecord, 'id' | 'type' | 'price' | 'level'>): TradeRecord => ({
+  symbol: 'BTCUSDT',
+  amount: 0.01,
+  status: 'FILLED',
+  fee: 0.26,
+  executedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const trades = [
+  trade({ id: '1', type: 'BUY', price: 26000, level: 1, executedAt: '2024-01-01T23:00:00.000Z' }),
+  trade({ id: '2', type: 'SELL', price: 27000, level: 2, amount: 0.00999, openedBy: '1', fee: 0.0009, feeAsset: 'BNB', executedAt: '2024-01-02T01:00:00.000Z' }),
+  trade({ id: '3', type: 'BUY', price: 25000, level: 0, clientOrderId: 'grid-a-0B3', executedAt: '2024-01-02T02:00:00.000Z' }),
+  trade({ id: '9', symbol: 'ETHUSDT', type: 'BUY', price: 1500, level: 0, executedAt: '2024-01-02T03:00:00.000Z' })
+];
+
+describe('toCsv', () => {
+  test('区切り文字・引用符・改行を含む値を引用符で囲む', () => {
+    const csv = toCsv(['a', 'b', 'c'], [{ a: 'x,y', b: 'say "hi"', c: null }, { a: 1.5, b: 'line\nbreak', c: 0 }]);
+
+    expect(csv).toBe('a,b,c\r\n"x,y","say ""hi""",\r\n1.5,"line\nbreak",0\r\n');
+  });
+});
+
+describe('buildExport', () => {
+  test('通貨ペアと期間（UTC）で絞り込み、往復は期間外の買いとも対応付ける', () => {
+    const file = buildExport({
+      dataset: 'trades',
+      format: 'json',
+      symbol: 'BTCUSDT',
+      pair: PAIR,
+      range: { from: '2024-01-02', to: '2024-01-02' },
+      trades,
+      assetPrices: { BNB: 300 }
+    });
+    const rows = JSON.parse(file.content);
+
+    expect(file.filename).toBe('trades_BTCUSDT_2024-01-02_2024-01-02.json');
+    expect(rows.map((row: { order_id: string }) => row.order_id)).toEqual(['2', '3']);
+    expect(Object.keys(rows[0])).toEqual(EXPORT_COLUMNS.trades);
+    expect(rows[0]).toMatchObject({
+      executed_at: '2024-01-02T01:00:00.000Z',
+      side: 'SELL',
+      price: 27000,
+      fee_asset: 'BNB',
+      buy_order_id: '1',
+      buy_price: 26000
+    });
+    expect(rows[0].fee_quote).toBeCloseTo(0.27);
+    // (27000 - 26000) * 0.00999 - (0.26 + 0.27)
+    expect(rows[0].round_trip_profit).toBeCloseTo(9.46);
+    expect(rows[1]).toMatchObject({ fee_asset: 'USDT', client_order_id: 'grid-a-0B3', buy_order_id: null });
+  });
+
+  test('日ごとの損益を手数料控除後で集計し、換算できない手数料の資産を示す', () => {
+    const file = buildExport({
+      dataset: 'daily-pnl',
+      format: 'csv',
+      symbol: 'BTCUSDT',
+      pair: PAIR,
+      range: { from: '', to: '' },
+      trades
+    });
+    const [header, first, second] = file.content.trimEnd().split('\r\n');
+
+    expect(file.mimeType).toBe('text/csv;charset=utf-8');
+    expect(header).toBe(EXPORT_COLUMNS['daily-pnl'].join(','));
+    expect(first).toBe('2024-01-01,BTCUSDT,1,0.01,0,0,0,0.26,-0.26,');
+    const values = second.split(',');
+    expect(values.slice(0, 6)).toEqual(['2024-01-02', 'BTCUSDT', '2', '0.01', '0.00999', '1']);
+    expect(Number(values[6])).toBeCloseTo(9.99);
+    expect(Number(values[7])).toBeCloseTo(0.26);
+    expect(Number(values[8])).toBeCloseTo(9.73);
+    expect(values[9]).toBe('BNB');
+  });
+
+  test('注文履歴には期間が現在を含む場合だけ未約定の注文を加える', () => {
+    const activeOrders = [{ id: '10', type: 'SELL' as const, price: 26000, amount: 0.00999, level: 1, status: 'NEW' }];
+    const build = (to: string) => JSON.parse(buildExport({
+      dataset: 'orders',
+      format: 'json',
+      symbol: 'BTCUSDT',
+      pair: PAIR,
+      range: { from: '2024-01-01', to },
+      trades,
+      activeOrders
+    }).content);
+
+    expect(build('2024-01-01')).toEqual([expect.objectContaining({ order_id: '1', executed_quantity: 0.01, status: 'FILLED' })]);
+    const open = build('').find((row: { order_id: string }) => row.order_id === '10');
+    expect(open).toMatchObject({ updated_at: null, executed_quantity: 0, status: 'NEW', type: 'LIMIT' });
+  });
+});
@@ -0,0 +1,222 @@
+import { GridOrder } from '../services/gridEngine';
+import { AssetPrices, feeInQuote } from './pnl';
+import { TradeHistoryEntry, TradeRecord, buildTradeHistory } from './tradeHistory';
+import { TradingPair } from './tradingPair';
+
+// 表計算ソフトや監査用に書き出すデータ
+// 列名はserver.jsの /api/export と揃え、値は表示用の書式ではなくISO形式の日時と数値のまま出力する
+export type ExportDataset = 'trades' | 'orders' | 'daily-pnl';
+export type ExportFormat = 'csv' | 'json';
+
+// 日付はyyyy-MM-dd（UTC）。空なら制限なし
+export interface ExportRange {
+  from: string;
+  to: string;
+}
+
+export type ExportValue = string | number | null;
+export type ExportRow = Record<string, ExportValue>;
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+export const EXPORT_COLUMNS: Record<ExportDataset, readonly string[]> = {
+  trades: [
+    'executed_at', 'symbol', 'side', 'price', 'quantity', 'quote_quantity', 'fee', 'fee_asset', 'fee_quote',
+    'order_id', 'client_order_id', 'grid_level', 'buy_order_id', 'buy_price', 'round_trip_profit'
+  ],
+  orders: [
+    'created_at', 'updated_at', 'symbol', 'order_id', 'client_order_id', 'side', 'type', 'price', 'quantity',
+    'executed_quantity', 'status', 'grid_level'
+  ],
+  'daily-pnl': [
+    'date', 'symbol', 'fills', 'buy_quantity', 'sell_quantity', 'round_trips', 'realized_profit', 'fees',
+    'net_profit', 'unconverted_fee_assets'
+  ]
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfUtcDay = (date: string): number => new Date(`${date}T00:00:00.000Z`).getTime();
+
+export const isInRange = (time: string | undefined, range: ExportRange): boolean => {
+  if (!time) return false;
+  const value = new Date(time).getTime();
+  // 終了日はその日の終わりまでを含める
+  return (!range.from || value >= startOfUtcDay(range.from)) &&
+    (!range.to || value < startOfUtcDay(range.to) + DAY_MS);
+};
+
+const escapeCsv = (value: ExportValue): string => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180形式のCSV（1行目は列名）
+export const toCsv = (columns: readonly string[], rows: ExportRow[]): string =>
+  [columns, ...rows.map(row => columns.map(column => row[column] ?? null))]
+    .map(values => values.map(escapeCsv).join(','))
+    .join('\r\n') + '\r\n';
+
+export const tradeRows = (entries: TradeHistoryEntry[], pair: TradingPair, assetPrices?: AssetPrices): ExportRow[] =>
+  entries.map(entry => ({
+    executed_at: entry.executedAt ?? null,
+    symbol: entry.symbol,
+    side: entry.type,
+    price: entry.price,
+    quantity: entry.amount,
+    quote_quantity: entry.price * entry.amount,
+    fee: entry.fee ?? null,
+    // 手数料の資産が記録されていなければ決済通貨建て
+    fee_asset: entry.fee !== undefined ? entry.feeAsset ?? pair.quote : null,
+    fee_quote: feeInQuote(entry, pair, assetPrices),
+    order_id: entry.id,
+    client_order_id: entry.clientOrderId ?? null,
+    grid_level: entry.level,
+    buy_order_id: entry.roundTrip?.buyOrderId ?? null,
+    buy_price: entry.roundTrip?.buyPrice ?? null,
+    round_trip_profit: entry.roundTrip?.netProfit ?? null
+  }));
+
+export const orderRows = (orders: GridOrder[], symbol: string): ExportRow[] =>
+  orders.map(order => ({
+    created_at: null,
+    updated_at: order.executedAt ?? null,
+    symbol,
+    order_id: order.id,
+    client_order_id: order.clientOrderId ?? null,
+    side: order.type,
+    type: 'LIMIT',
+    price: order.price,
+    quantity: order.amount,
+    executed_quantity: order.status === 'FILLED' ? order.amount : 0,
+    status: order.status ?? null,
+    grid_level: order.level
+  }));
+
+// 約定日（UTC）ごとの損益。往復の利益は売りの約定日に計上し、手数料はそれぞれの約定日に計上する
+export const dailyPnlRows = (entries: TradeHistoryEntry[], pair: TradingPair, assetPrices?: AssetPrices): ExportRow[] => {
+  const days = new Map<string, {
+    symbol: string;
+    fills: number;
+    buyQuantity: number;
+    sellQuantity: number;
+    roundTrips: number;
+    grossProfit: number;
+    fees: number;
+    unconverted: Set<string>;
+  }>();
+
+  entries.forEach(entry => {
+    if (!entry.executedAt) return;
+    const date = new Date(entry.executedAt).toISOString().slice(0, 10);
+    const key = `${date}:${entry.symbol}`;
+    const day = days.get(key) ?? {
+      symbol: entry.symbol,
+      fills: 0,
+      buyQuantity: 0,
+      sellQuantity: 0,
+      roundTrips: 0,
+      grossProfit: 0,
+      fees: 0,
+      unconverted: new Set<string>()
+    };
+    days.set(key, day);
+
+    day.fills++;
+    if (entry.type === 'BUY') day.buyQuantity += entry.amount;
+    else day.sellQuantity += entry.amount;
+    if (entry.roundTrip) {
+      day.roundTrips++;
+      day.grossProfit += entry.roundTrip.grossProfit;
+    }
+
+    const fee = feeInQuote(entry, pair, assetPrices);
+    if (fee === null) day.unconverted.add(entry.feeAsset ?? '');
+    day.fees += fee ?? 0;
+  });
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, day]) => ({
+      date: key.slice(0, 10),
+      symbol: day.symbol,
+      fills: day.fills,
+      buy_quantity: day.buyQuantity,
+      sell_quantity: day.sellQuantity,
+      round_trips: day.roundTrips,
+      realized_profit: day.grossProfit,
+      fees: day.fees,
+      net_profit: day.grossProfit - day.fees,
+      unconverted_fee_assets: day.unconverted.size > 0 ? Array.from(day.unconverted).sort().join(' ') : null
+    }));
+};
+
+interface ExportInput {
+  dataset: ExportDataset;
+  format: ExportFormat;
+  symbol: string;
+  pair: TradingPair;
+  range: ExportRange;
+  // 保存している約定（他の通貨ペアの分を含んでいてもよい）
+  trades: TradeRecord[];
+  // 稼働中のボットの未約定の注文
+  activeOrders?: GridOrder[];
+  assetPrices?: AssetPrices;
+}
+
+// 通貨ペアと期間で絞り込んでCSVまたはJSONを作る
+// 往復の対応付けは期間外の買いも使うため、絞り込む前に行う
+export const buildExport = ({
+  dataset,
+  format,
+  symbol,
+  pair,
+  range,
+  trades,
+  activeOrders = [],
+  assetPrices
+}: ExportInput): ExportFile => {
+  const toQuote = (trade: TradeRecord) => feeInQuote(trade, pair, assetPrices) ?? 0;
+  const history = buildTradeHistory(trades.filter(trade => trade.symbol === symbol), toQuote)
+    .reverse()
+    .filter(entry => isInRange(entry.executedAt, range));
+
+  let rows: ExportRow[];
+  switch (dataset) {
+    case 'trades':
+      rows = tradeRows(history, pair, assetPrices);
+      break;
+    case 'orders': {
+      // 未約定の注文は、期間が現在を含む場合だけ出力する
+      const includeActive = !range.to || startOfUtcDay(range.to) + DAY_MS > Date.now();
+      rows = orderRows([...history, ...(includeActive ? activeOrders : [])], symbol);
+      break;
+    }
+    case 'daily-pnl':
+      rows = dailyPnlRows(history, pair, assetPrices);
+      break;
+  }
+
+  const columns = EXPORT_COLUMNS[dataset];
+  const suffix = [range.from, range.to].filter(Boolean).join('_');
+  const filename = `${dataset}_${symbol}${suffix ? `_${suffix}` : ''}.${format}`;
+
+  return format === 'csv'
+    ? { filename, mimeType: 'text/csv;charset=utf-8', content: toCsv(columns, rows) }
+    : { filename, mimeType: 'application/json', content: JSON.stringify(rows, null, 2) };
+};
+
+// ブラウザでファイルとして保存する
+export const downloadFile = ({ filename, mimeType, content }: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,8 @@
+import { formatCurrency } from './formatters';
+
+describe('formatCurrency', () => {
+  test('ISO 4217にない通貨は通貨名を後ろに付ける', () => {
+    expect(formatCurrency(1234.5, 'USDT')).toBe('1,234.50 USDT');
+    expect(formatCurrency(1234.5, 'JPY', 0)).toContain('1,235');
+  });
+});
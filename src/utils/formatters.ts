@@ -7,13 +7,18 @@ export const formatNumber = (num: number, decimals = 2): string => {
 };
 
 // 通貨をフォーマット
+// USDTなどISO 4217にない通貨は数値の後に通貨名を付ける
 export const formatCurrency = (value: number, currency = 'USD', decimals = 2): string => {
-  return new Intl.NumberFormat('ja-JP', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: decimals,
-    maximumFractionDigits: decimals
-  }).format(value);
+  try {
+    return new Intl.NumberFormat('ja-JP', {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: decimals,
+      maximumFractionDigits: decimals
+    }).format(value);
+  } catch (error) {
+    return `${formatNumber(value, decimals)} ${currency}`;
+  }
 };
 
 // 仮想通貨の金額をフォーマット（少数量対応）
@@ -0,0 +1,29 @@
+import { calculateGridLines, calculateGridSpacingPercent } from './grid';
+
+describe('calculateGridLines', () => {
+  test('等差グリッドは価格幅が一定', () => {
+    const lines = calculateGridLines({ upperLimit: 30000, lowerLimit: 25000, gridNumber: 5, gridType: 'arithmetic' });
+    expect(lines).toEqual([25000, 26000, 27000, 28000, 29000, 30000]);
+  });
+
+  test('等比グリッドは隣接ラインの比率が一定', () => {
+    const lines = calculateGridLines({ upperLimit: 40000, lowerLimit: 10000, gridNumber: 2, gridType: 'geometric' });
+    expect(lines[0]).toBe(10000);
+    expect(lines[1]).toBeCloseTo(20000, 6);
+    expect(lines[2]).toBe(40000);
+  });
+});
+
+describe('calculateGridSpacingPercent', () => {
+  test('等比グリッドの値幅%は全段で等しい', () => {
+    const spacing = calculateGridSpacingPercent({ upperLimit: 60000, lowerLimit: 20000, gridNumber: 10, gridType: 'geometric' });
+    expect(spacing.min).toBeCloseTo(spacing.max, 8);
+    expect(spacing.min).toBeCloseTo((Math.pow(3, 0.1) - 1) * 100, 8);
+  });
+
+  test('等差グリッドの値幅%は下段ほど大きい', () => {
+    const spacing = calculateGridSpacingPercent({ upperLimit: 30000, lowerLimit: 25000, gridNumber: 5, gridType: 'arithmetic' });
+    expect(spacing.max).toBeCloseTo(4, 8);
+    expect(spacing.min).toBeCloseTo((1000 / 29000) * 100, 8);
+  });
+});
@@ -0,0 +1,53 @@
+import { GridSettings } from '../hooks/useGridSettings';
+
+type GridRange = Pick<GridSettings, 'upperLimit' | 'lowerLimit' | 'gridNumber' | 'gridType'>;
+
+// グリッドを組める設定かどうか（本数0による0除算などを防ぐ）
+const isValidRange = ({ upperLimit, lowerLimit, gridNumber }: GridRange): boolean => {
+  return Number.isInteger(gridNumber) && gridNumber >= 1 && lowerLimit > 0 && upperLimit > lowerLimit;
+};
+
+// 等比グリッドの1段あたりの価格比率
+const geometricRatio = ({ upperLimit, lowerLimit, gridNumber }: GridRange): number => {
+  return Math.pow(upperLimit / lowerLimit, 1 / gridNumber);
+};
+
+// グリッド間隔を計算（等比グリッドでは最下段の間隔）
+export const calculateGridInterval = (settings: GridRange): number => {
+  const { upperLimit, lowerLimit, gridNumber, gridType } = settings;
+  if (!isValidRange(settings)) return 0;
+  if (gridType === 'geometric') {
+    return lowerLimit * (geometricRatio(settings) - 1);
+  }
+  return (upperLimit - lowerLimit) / gridNumber;
+};
+
+// グリッドラインを計算
+export const calculateGridLines = (settings: GridRange): number[] => {
+  const { upperLimit, lowerLimit, gridNumber, gridType } = settings;
+  if (!isValidRange(settings)) return [];
+
+  if (gridType === 'geometric') {
+    const ratio = geometricRatio(settings);
+    return Array.from({ length: gridNumber + 1 }, (_, i) =>
+      // 最上段は丸め誤差を避けて上限価格そのものを使う
+      i === gridNumber ? upperLimit : lowerLimit * Math.pow(ratio, i)
+    );
+  }
+
+  const interval = calculateGridInterval(settings);
+  return Array.from({ length: gridNumber + 1 }, (_, i) =>
+    lowerLimit + (interval * i)
+  );
+};
+
+// 1グリッドあたりの値幅（%）の最小値と最大値
+export const calculateGridSpacingPercent = (settings: GridRange): { min: number; max: number } => {
+  const lines = calculateGridLines(settings);
+  const spacings = lines.slice(1).map((price, i) => (price / lines[i] - 1) * 100);
+
+  if (spacings.length === 0 || spacings.some(spacing => !isFinite(spacing))) {
+    return { min: 0, max: 0 };
+  }
+  return { min: Math.min(...spacings), max: Math.max(...spacings) };
+};
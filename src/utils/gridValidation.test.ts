@@ -0,0 +1,62 @@
+import { validateGridSettings } from './gridValidation';
+import { GridSettings } from '../hooks/useGridSettings';
+
+const baseSettings: GridSettings = {
+  upperLimit: 30000,
+  lowerLimit: 25000,
+  gridNumber: 10,
+  gridType: 'arithmetic',
+  initialInvestment: 1000,
+  stopLoss: 24000,
+  takeProfitLevel: 31000
+};
+
+describe('validateGridSettings', () => {
+  test('正しい設定はエラーなし', () => {
+    const result = validateGridSettings(baseSettings);
+    expect(result.isValid).toBe(true);
+    expect(result.errors).toEqual({});
+  });
+
+  test('項目間の矛盾をそれぞれの項目のエラーとして返す', () => {
+    const result = validateGridSettings({
+      ...baseSettings,
+      lowerLimit: 32000,
+      stopLoss: 26000,
+      takeProfitLevel: 29000
+    });
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.lowerLimit).toBeDefined();
+    expect(result.errors.takeProfitLevel).toBeDefined();
+    // 下限価格がエラーの場合はストップロスとの比較を行わない
+    expect(result.errors.stopLoss).toBeUndefined();
+  });
+
+  test('ストップロスが下限以上ならエラー', () => {
+    const result = validateGridSettings({ ...baseSettings, stopLoss: 25000 });
+    expect(result.errors.stopLoss).toBeDefined();
+  });
+
+  test('グリッド本数0はエラー', () => {
+    const result = validateGridSettings({ ...baseSettings, gridNumber: 0 });
+    expect(result.errors.gridNumber).toBeDefined();
+  });
+
+  test('グリッド数に対して投資額が少なすぎるとエラー', () => {
+    const result = validateGridSettings({ ...baseSettings, initialInvestment: 50 });
+    expect(result.errors.initialInvestment).toBeDefined();
+    expect(validateGridSettings({ ...baseSettings, initialInvestment: 50 }, { minOrderValue: 5 }).isValid).toBe(true);
+  });
+
+  test('値幅が手数料以下なら警告のみ', () => {
+    const result = validateGridSettings({ ...baseSettings, gridNumber: 100, initialInvestment: 5000 });
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.gridNumber).toBeDefined();
+  });
+
+  test('現在価格がレンジ外なら警告', () => {
+    const result = validateGridSettings(baseSettings, { currentPrice: 35000 });
+    expect(result.warnings.upperLimit).toBeDefined();
+  });
+});
@@ -0,0 +1,101 @@
+import { GridSettings } from '../hooks/useGridSettings';
+import { calculateGridSpacingPercent } from './grid';
+
+export type GridField = keyof GridSettings;
+
+export interface GridValidationResult {
+  errors: Partial<Record<GridField, string>>;
+  warnings: Partial<Record<GridField, string>>;
+  isValid: boolean;
+}
+
+export interface GridValidationOptions {
+  // 取引所の最小注文額（クォート通貨建て）
+  minOrderValue?: number;
+  currentPrice?: number;
+}
+
+// BinanceのMIN_NOTIONAL相当（USDT建て）
+export const DEFAULT_MIN_ORDER_VALUE = 10;
+// 往復の取引手数料（0.1% × 2）
+const ROUND_TRIP_FEE_PERCENT = 0.2;
+const MAX_GRID_NUMBER = 200;
+
+// グリッド設定の項目間チェック
+export const validateGridSettings = (
+  settings: GridSettings,
+  options: GridValidationOptions = {}
+): GridValidationResult => {
+  const { upperLimit, lowerLimit, gridNumber, initialInvestment, stopLoss, takeProfitLevel } = settings;
+  const minOrderValue = options.minOrderValue ?? DEFAULT_MIN_ORDER_VALUE;
+  const errors: GridValidationResult['errors'] = {};
+  const warnings: GridValidationResult['warnings'] = {};
+
+  if (!(upperLimit > 0)) {
+    errors.upperLimit = '上限価格は0より大きい値を入力してください';
+  }
+  if (!(lowerLimit > 0)) {
+    errors.lowerLimit = '下限価格は0より大きい値を入力してください';
+  } else if (lowerLimit >= upperLimit) {
+    errors.lowerLimit = '下限価格は上限価格より小さくしてください';
+  }
+
+  if (!Number.isInteger(gridNumber) || gridNumber < 1) {
+    errors.gridNumber = 'グリッド本数は1以上の整数を入力してください';
+  } else if (gridNumber > MAX_GRID_NUMBER) {
+    errors.gridNumber = `グリッド本数は${MAX_GRID_NUMBER}以下にしてください`;
+  }
+
+  if (!(initialInvestment > 0)) {
+    errors.initialInvestment = '初期投資額は0より大きい値を入力してください';
+  } else if (!errors.gridNumber) {
+    const orderValue = initialInvestment / gridNumber;
+    if (orderValue < minOrderValue) {
+      errors.initialInvestment =
+        `1グリッドあたりの注文額（${orderValue.toFixed(2)}）が最小注文額（${minOrderValue.toLocaleString()}）を下回っています。` +
+        `初期投資額を${Math.ceil(minOrderValue * gridNumber).toLocaleString()}以上にするか、グリッド本数を減らしてください`;
+    }
+  }
+
+  // 0は無効（未設定）として扱う
+  if (stopLoss < 0) {
+    errors.stopLoss = 'ストップロスは0以上の値を入力してください';
+  } else if (stopLoss > 0 && !errors.lowerLimit && stopLoss >= lowerLimit) {
+    errors.stopLoss = 'ストップロスは下限価格より低く設定してください';
+  } else if (stopLoss === 0) {
+    warnings.stopLoss = 'ストップロスが設定されていません';
+  }
+
+  if (takeProfitLevel < 0) {
+    errors.takeProfitLevel = '利確レベルは0以上の値を入力してください';
+  } else if (takeProfitLevel > 0 && !errors.upperLimit && takeProfitLevel <= upperLimit) {
+    errors.takeProfitLevel = '利確レベルは上限価格より高く設定してください';
+  }
+
+  const hasRangeError = errors.upperLimit || errors.lowerLimit || errors.gridNumber;
+  if (!hasRangeError) {
+    const spacing = calculateGridSpacingPercent(settings);
+    if (spacing.min <= ROUND_TRIP_FEE_PERCENT) {
+      warnings.gridNumber =
+        `1グリッドあたりの値幅（${spacing.min.toFixed(2)}%）が往復手数料（約${ROUND_TRIP_FEE_PERCENT}%）以下のため、利益が出ない可能性があります`;
+    }
+
+    const { currentPrice } = options;
+    if (currentPrice !== undefined && currentPrice > upperLimit) {
+      warnings.upperLimit = `現在価格（${currentPrice.toLocaleString()}）がグリッドの上限を上回っています`;
+    } else if (currentPrice !== undefined && currentPrice < lowerLimit) {
+      warnings.lowerLimit = `現在価格（${currentPrice.toLocaleString()}）がグリッドの下限を下回っています`;
+    }
+  }
+
+  return {
+    errors,
+    warnings,
+    isValid: Object.keys(errors).length === 0
+  };
+};
+
+// エラーメッセージを1つの文字列にまとめる
+export const formatValidationErrors = (result: GridValidationResult): string => {
+  return Object.values(result.errors).join('\n');
+};
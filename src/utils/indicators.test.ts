@@ -0,0 +1,46 @@
+import { Candle } from '../services/marketData';
+import { averageTrueRange, bollingerBands, ema, lastValue, percentile, realizedVolatility, rsi, sma, trueRanges } from './indicators';
+
+const candle = (openTime: number, open: number, high: number, low: number, close: number): Candle =>
+  ({ openTime, open, high, low, close, volume: 1 });
+
+describe('indicators', () => {
+  test('移動平均は期間に満たない部分をnullにする', () => {
+    expect(sma([1, 2, 3, 4], 2)).toEqual([null, 1.5, 2.5, 3.5]);
+    expect(ema([1, 2, 3, 4], 3)).toEqual([null, null, 2, 3]);
+  });
+
+  test('パーセンタイルを線形補間で求める', () => {
+    expect(percentile([5, 1, 3, 2, 4], 50)).toBe(3);
+    expect(percentile([1, 2, 3, 4], 25)).toBe(1.75);
+    expect(percentile([1, 2], 100)).toBe(2);
+    expect(percentile([], 50)).toBeNaN();
+  });
+
+  test('ボリンジャーバンドとバンド幅', () => {
+    const [, band] = bollingerBands([9, 11], 2, 2);
+    expect(band).toEqual({ middle: 10, upper: 12, lower: 8, width: 0.4 });
+  });
+
+  test('真の値幅は前の足の終値とのギャップを含め、ATRはワイルダーの平滑化で求める', () => {
+    const candles = [
+      candle(0, 100, 105, 95, 100),
+      candle(1, 110, 112, 108, 110),
+      candle(2, 110, 111, 109, 110)
+    ];
+
+    expect(trueRanges(candles)).toEqual([10, 12, 2]);
+    expect(averageTrueRange(candles, 2)).toEqual([null, 11, 6.5]);
+  });
+
+  test('RSIは上昇のみなら100、下落のみなら0', () => {
+    expect(lastValue(rsi([1, 2, 3, 4, 5], 3))).toBe(100);
+    expect(lastValue(rsi([5, 4, 3, 2, 1], 3))).toBe(0);
+    expect(rsi([1, 2, 1, 2], 3)[2]).toBeNull();
+  });
+
+  test('実現ボラティリティは対数収益率の標準偏差', () => {
+    expect(realizedVolatility([100, 100, 100])).toBe(0);
+    expect(realizedVolatility([100, 110, 100])).toBeCloseTo(Math.log(1.1));
+  });
+});
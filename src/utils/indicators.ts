@@ -0,0 +1,117 @@
+import { Candle } from '../services/marketData';
+
+// テクニカル指標の計算
+// 系列を返す指標は入力と同じ長さで、期間に満たない先頭部分はnullにする
+
+export interface BollingerBand {
+  middle: number;
+  upper: number;
+  lower: number;
+  // バンド幅（中心線に対する上下バンドの幅の割合）
+  width: number;
+}
+
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+// 標準偏差（母集団）
+export const standardDeviation = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+// 線形補間したパーセンタイル（pは0〜100）
+export const percentile = (values: number[], p: number): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+};
+
+export const sma = (values: number[], period: number): (number | null)[] =>
+  values.map((_, i) => i + 1 < period ? null : mean(values.slice(i + 1 - period, i + 1)));
+
+// 指数移動平均（最初の値は単純移動平均）
+export const ema = (values: number[], period: number): (number | null)[] => {
+  const k = 2 / (period + 1);
+  let previous: number | null = null;
+  return values.map((value, i) => {
+    if (i + 1 < period) return null;
+    previous = previous === null ? mean(values.slice(0, period)) : value * k + previous * (1 - k);
+    return previous;
+  });
+};
+
+export const bollingerBands = (values: number[], period = 20, multiplier = 2): (BollingerBand | null)[] =>
+  values.map((_, i) => {
+    if (i + 1 < period) return null;
+    const window = values.slice(i + 1 - period, i + 1);
+    const middle = mean(window);
+    const deviation = standardDeviation(window) * multiplier;
+    return {
+      middle,
+      upper: middle + deviation,
+      lower: middle - deviation,
+      width: middle > 0 ? (deviation * 2) / middle : 0
+    };
+  });
+
+type PriceRange = Pick<Candle, 'high' | 'low' | 'close'>;
+
+// 真の値幅（前の足の終値からのギャップを含む値幅）
+export const trueRanges = (candles: PriceRange[]): number[] =>
+  candles.map((candle, i) => {
+    if (i === 0) return candle.high - candle.low;
+    const previousClose = candles[i - 1].close;
+    return Math.max(candle.high - candle.low, Math.abs(candle.high - previousClose), Math.abs(candle.low - previousClose));
+  });
+
+// ATR（ワイルダーの平滑化）
+export const averageTrueRange = (candles: PriceRange[], period = 14): (number | null)[] => {
+  const ranges = trueRanges(candles);
+  let previous: number | null = null;
+  return ranges.map((range, i) => {
+    if (i + 1 < period) return null;
+    previous = previous === null ? mean(ranges.slice(0, period)) : (previous * (period - 1) + range) / period;
+    return previous;
+  });
+};
+
+// RSI（ワイルダーの平滑化）
+export const rsi = (values: number[], period = 14): (number | null)[] => {
+  let averageGain = 0;
+  let averageLoss = 0;
+  return values.map((value, i) => {
+    if (i === 0) return null;
+    const change = value - values[i - 1];
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (i <= period) {
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (i < period) return null;
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+    return averageLoss === 0 ? 100 : 100 - 100 / (1 + averageGain / averageLoss);
+  });
+};
+
+// 実現ボラティリティ（対数収益率の標準偏差、1本あたり）
+export const realizedVolatility = (closes: number[]): number => {
+  const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]));
+  return standardDeviation(returns);
+};
+
+// 最後の有効な値（なければnull）
+export const lastValue = <T>(series: (T | null)[]): T | null => {
+  for (let i = series.length - 1; i >= 0; i--) {
+    const value = series[i];
+    if (value !== null) return value;
+  }
+  return null;
+};
@@ -0,0 +1,89 @@
+import { GridOrder } from '../services/gridEngine';
+import { botInventory, calculatePnl, feeInQuote } from './pnl';
+
+const PAIR = { base: 'BTC', quote: 'USDT' };
+
+const order = (overrides: Partial<GridOrder> & Pick<GridOrder, 'id' | 'type' | 'price'>): GridOrder => ({
+  amount: 0.01,
+  level: 0,
+  status: 'FILLED',
+  executedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+// 開始価格27600。往復1回・開始時の保有分の売り1回・未決済の買い1回
+const completedOrders: GridOrder[] = [
+  order({ id: 'b1', type: 'BUY', price: 27000, level: 2, fee: 0.27, executedAt: '2024-01-01T01:00:00.000Z' }),
+  order({ id: 's1', type: 'SELL', price: 28000, level: 3, amount: 0.00999, openedBy: 'b1', fee: 0.0021, feeAsset: 'BNB', executedAt: '2024-01-01T02:00:00.000Z' }),
+  order({ id: 's0', type: 'SELL', price: 29000, level: 4, fee: 0.29, feeAsset: 'USDT', executedAt: '2024-01-01T03:00:00.000Z' }),
+  order({ id: 'b2', type: 'BUY', price: 26000, level: 1, fee: 0.00001, feeAsset: 'BTC', executedAt: '2024-01-01T04:00:00.000Z' })
+];
+const activeOrders: GridOrder[] = [
+  order({ id: 'a1', type: 'SELL', price: 27000, level: 2, amount: 0.00999, openedBy: 'b2', status: 'NEW' }),
+  order({ id: 'a2', type: 'SELL', price: 30000, level: 5, status: 'NEW' })
+];
+
+describe('feeInQuote', () => {
+  test('手数料の資産に応じて決済通貨に換算する', () => {
+    expect(feeInQuote(completedOrders[0], PAIR)).toBe(0.27);
+    expect(feeInQuote(completedOrders[3], PAIR)).toBeCloseTo(0.26);
+    expect(feeInQuote(completedOrders[1], PAIR, { BNB: 300 })).toBeCloseTo(0.63);
+    expect(feeInQuote(completedOrders[1], PAIR)).toBeNull();
+  });
+});
+
+describe('calculatePnl', () => {
+  test('実現損益・含み損益をグリッド利益と値動きによる損益に分ける', () => {
+    const pnl = calculatePnl({
+      completedOrders,
+      activeOrders,
+      currentPrice: 26500,
+      startPrice: 27600,
+      initialInvestment: 1000,
+      pair: PAIR,
+      assetPrices: { BNB: 300 }
+    });
+
+    // (28000 - 27000) * 0.00999 - (0.27 + 0.0021 * 300)
+    expect(pnl.gridProfit).toBeCloseTo(9.09);
+    // 開始時の保有分の売り (29000 - 27600) * 0.01 - 0.29 と、未決済の買いの手数料 0.26
+    expect(pnl.realizedProfit).toBeCloseTo(9.09 + 13.71 - 0.26);
+    // (26500 - 26000) * 0.00999 + (26500 - 27600) * 0.01
+    expect(pnl.unrealizedProfit).toBeCloseTo(-6.005);
+    expect(pnl.priceMovementProfit).toBeCloseTo(13.71 - 0.26 - 6.005);
+    expect(pnl.totalProfit).toBeCloseTo(pnl.gridProfit + pnl.priceMovementProfit);
+    expect(pnl.returnPercent).toBeCloseTo(1.6535);
+    expect(pnl.totalFees).toBeCloseTo(1.45);
+    expect(pnl.unconvertedFees).toEqual({});
+    expect(pnl.inventory).toBeCloseTo(0.01999);
+    expect(pnl.roundTrips).toBe(1);
+  });
+
+  test('価格のわからない資産の手数料は換算せずに報告する', () => {
+    const pnl = calculatePnl({
+      completedOrders,
+      activeOrders: [],
+      currentPrice: undefined,
+      startPrice: 27600,
+      initialInvestment: 0,
+      pair: PAIR
+    });
+
+    expect(pnl.unconvertedFees).toEqual({ BNB: 0.0021 });
+    expect(pnl.gridProfit).toBeCloseTo(9.99 - 0.27);
+    expect(pnl.unrealizedProfit).toBe(0);
+    expect(pnl.returnPercent).toBe(0);
+  });
+});
+
+describe('botInventory', () => {
+  test('約定した買いから手数料と売りを差し引いた数量を返す', () => {
+    const rebalance = order({ id: 'r0', type: 'BUY', price: 27600, level: -1, amount: 0.02, fee: 0.552, rebalance: true });
+
+    expect(botInventory([rebalance, ...completedOrders], PAIR)).toBeCloseTo(0.01998 + 0.00999 - 0.00999 - 0.01 + 0.00999, 8);
+    // BNBで支払った手数料はベース通貨から差し引かない
+    expect(botInventory([order({ id: 'b3', type: 'BUY', price: 27000, fee: 0.001, feeAsset: 'BNB' })], PAIR)).toBe(0.01);
+    // 口座にもともとあった分の売りで負にはならない
+    expect(botInventory([completedOrders[2]], PAIR)).toBe(0);
+  });
+});
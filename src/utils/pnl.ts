@@ -0,0 +1,124 @@
+import { GridOrder } from '../services/gridEngine';
+import { buildTradeHistory } from './tradeHistory';
+import { TradingPair } from './tradingPair';
+
+// 決済通貨建ての資産価格（BNBなど手数料の支払いに使った資産）
+export type AssetPrices = Record<string, number>;
+
+interface PnlInput {
+  completedOrders: GridOrder[];
+  activeOrders: GridOrder[];
+  currentPrice: number | undefined;
+  startPrice: number | null;
+  initialInvestment: number;
+  pair: TradingPair;
+  assetPrices?: AssetPrices;
+}
+
+export interface PnlSummary {
+  // 実現損益（手数料控除後）
+  realizedProfit: number;
+  // 売り注文に出している保有分の含み損益
+  unrealizedProfit: number;
+  totalProfit: number;
+  // グリッドの往復で得た利益（手数料控除後）
+  gridProfit: number;
+  // 開始時の保有分の売却損益・含み損益と、未決済の買いの手数料
+  priceMovementProfit: number;
+  totalFees: number;
+  // 価格がわからず換算できなかった手数料（資産ごと）
+  unconvertedFees: Record<string, number>;
+  // 投資額に対する損益（%）
+  returnPercent: number;
+  inventory: number;
+  roundTrips: number;
+}
+
+// 手数料を決済通貨に換算する（換算できない場合はnull）
+export const feeInQuote = (order: GridOrder, pair: TradingPair, assetPrices: AssetPrices = {}): number | null => {
+  const fee = order.fee ?? 0;
+  if (!order.feeAsset || order.feeAsset === pair.quote) return fee;
+  if (order.feeAsset === pair.base) return fee * order.price;
+
+  const price = assetPrices[order.feeAsset];
+  return price !== undefined ? fee * price : null;
+};
+
+// 約定と未約定の売り注文から損益を計算する
+// 保有分は売り注文に出ている数量とし、取得価格は対応する買いの約定価格（開始時の保有分は開始価格）とする
+export const calculatePnl = ({
+  completedOrders,
+  activeOrders,
+  currentPrice,
+  startPrice,
+  initialInvestment,
+  pair,
+  assetPrices = {}
+}: PnlInput): PnlSummary => {
+  const unconvertedFees: Record<string, number> = {};
+  const toQuote = (order: GridOrder) => feeInQuote(order, pair, assetPrices) ?? 0;
+
+  let totalFees = 0;
+  completedOrders.forEach(order => {
+    const fee = feeInQuote(order, pair, assetPrices);
+    if (fee === null && order.feeAsset) {
+      unconvertedFees[order.feeAsset] = (unconvertedFees[order.feeAsset] ?? 0) + (order.fee ?? 0);
+    }
+    totalFees += fee ?? 0;
+  });
+
+  const history = buildTradeHistory(completedOrders.map(order => ({ ...order, symbol: pair.base + pair.quote })), toQuote);
+  const pairedBuyIds = new Set(history.map(entry => entry.roundTrip?.buyOrderId).filter(Boolean));
+
+  let gridProfit = 0;
+  let roundTrips = 0;
+  let initialSellProfit = 0;
+  let openBuyFees = 0;
+  history.forEach(entry => {
+    if (entry.roundTrip) {
+      gridProfit += entry.roundTrip.netProfit;
+      roundTrips++;
+    } else if (entry.type === 'SELL') {
+      // 開始時に保有していた分の売り
+      initialSellProfit += (entry.price - (startPrice ?? entry.price)) * entry.amount - toQuote(entry);
+    } else if (!pairedBuyIds.has(entry.id)) {
+      openBuyFees += toQuote(entry);
+    }
+  });
+
+  const buyPrices = new Map(completedOrders.filter(o => o.type === 'BUY').map(o => [o.id, o.price]));
+  const sellOrders = activeOrders.filter(order => order.type === 'SELL');
+  const inventory = sellOrders.reduce((sum, order) => sum + order.amount, 0);
+  const unrealizedProfit = currentPrice === undefined ? 0 : sellOrders.reduce((sum, order) => {
+    const buyPrice = order.openedBy ? buyPrices.get(order.openedBy) : undefined;
+    const costPrice = buyPrice ?? startPrice ?? currentPrice;
+    return sum + (currentPrice - costPrice) * order.amount;
+  }, 0);
+
+  const realizedProfit = gridProfit + initialSellProfit - openBuyFees;
+  const totalProfit = realizedProfit + unrealizedProfit;
+
+  return {
+    realizedProfit,
+    unrealizedProfit,
+    totalProfit,
+    gridProfit,
+    priceMovementProfit: initialSellProfit - openBuyFees + unrealizedProfit,
+    totalFees,
+    unconvertedFees,
+    returnPercent: initialInvestment > 0 ? (totalProfit / initialInvestment) * 100 : 0,
+    inventory,
+    roundTrips
+  };
+};
+
+// ボットが約定させた買いと売りの差し引きで、ボットが保有しているベース通貨の数量を求める
+// 手数料をベース通貨で支払った買い（feeAssetがない見積りを含む）は、その分を受け取った数量から差し引く
+export const botInventory = (completedOrders: GridOrder[], pair: TradingPair): number =>
+  Math.max(0, completedOrders.reduce((sum, order) => {
+    if (order.type === 'SELL') return sum - order.amount;
+
+    const fee = order.fee ?? 0;
+    const feeInBase = order.feeAsset === pair.base ? fee : !order.feeAsset ? fee / order.price : 0;
+    return sum + order.amount - feeInBase;
+  }, 0));
@@ -0,0 +1,64 @@
+import {
+  checkOrderFilters,
+  formatPrice,
+  formatQuantity,
+  getMinOrderValue,
+  parseSymbolFilters,
+  roundPrice,
+  roundQuantity,
+  roundQuantityUp
+} from './symbolFilters';
+
+// exchangeInfo（GET /api/v3/exchangeInfo?symbol=BTCUSDT）のレスポンスから抜粋
+const btcusdt = parseSymbolFilters({
+  symbol: 'BTCUSDT',
+  filters: [
+    { filterType: 'PRICE_FILTER', minPrice: '0.01000000', maxPrice: '1000000.00000000', tickSize: '0.01000000' },
+    { filterType: 'LOT_SIZE', minQty: '0.00001000', maxQty: '9000.00000000', stepSize: '0.00001000' },
+    { filterType: 'NOTIONAL', minNotional: '5.00000000', applyMinToMarket: true, maxNotional: '9000000.00000000' }
+  ]
+});
+
+describe('symbolFilters', () => {
+  test('exchangeInfoのフィルタを数値に変換する', () => {
+    expect(btcusdt).toEqual({
+      symbol: 'BTCUSDT',
+      tickSize: 0.01,
+      minPrice: 0.01,
+      stepSize: 0.00001,
+      minQty: 0.00001,
+      minNotional: 5
+    });
+  });
+
+  test('旧形式のMIN_NOTIONALにも対応する', () => {
+    const filters = parseSymbolFilters({
+      symbol: 'ETHBTC',
+      filters: [{ filterType: 'MIN_NOTIONAL', minNotional: '0.00010000' }]
+    });
+    expect(filters.minNotional).toBe(0.0001);
+  });
+
+  test('価格は刻み幅に丸め、数量は切り捨てる', () => {
+    expect(roundPrice(27512.3456, btcusdt)).toBe(27512.35);
+    expect(roundQuantity(0.0036349, btcusdt)).toBe(0.00363);
+    // 浮動小数点の誤差で1刻み落ちない
+    expect(roundQuantity(0.3, { stepSize: 0.1 })).toBe(0.3);
+    expect(roundQuantityUp(0.0036349, btcusdt)).toBe(0.00364);
+    expect(roundQuantityUp(0.3, { stepSize: 0.1 })).toBe(0.3);
+    expect(formatPrice(27500, btcusdt)).toBe('27500.00');
+    expect(formatQuantity(0.0000123, btcusdt)).toBe('0.00001');
+    expect(formatPrice(1234.5, { tickSize: 10 })).toBe('1230');
+  });
+
+  test('最小注文額を下回る注文を検出する', () => {
+    expect(checkOrderFilters(25000, 0.004, btcusdt)).toBeNull();
+    expect(checkOrderFilters(25000, 0.0001, btcusdt)).toContain('最小注文額');
+    expect(checkOrderFilters(25000, 0.000001, btcusdt)).toContain('最小数量');
+  });
+
+  test('最小注文額は最小数量の価値も考慮する', () => {
+    expect(getMinOrderValue(btcusdt)).toBe(5);
+    expect(getMinOrderValue({ ...btcusdt, minQty: 0.001 }, 27000)).toBe(27);
+  });
+});
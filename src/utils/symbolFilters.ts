@@ -0,0 +1,107 @@
+// 取引所の通貨ペアごとの注文制限（BinanceのexchangeInfoのfilters）
+export interface SymbolFilters {
+  symbol: string;
+  // PRICE_FILTER
+  tickSize: number;
+  minPrice: number;
+  // LOT_SIZE
+  stepSize: number;
+  minQty: number;
+  // MIN_NOTIONAL / NOTIONAL
+  minNotional: number;
+}
+
+interface RawFilter {
+  filterType: string;
+  [key: string]: any;
+}
+
+// フィルタが取得できない場合の既定値（BTCUSDT相当）
+export const DEFAULT_SYMBOL_FILTERS: Omit<SymbolFilters, 'symbol'> = {
+  tickSize: 0.01,
+  minPrice: 0.01,
+  stepSize: 0.00001,
+  minQty: 0.00001,
+  minNotional: 5
+};
+
+// exchangeInfoのシンボル情報からフィルタを取り出す
+export const parseSymbolFilters = (symbolInfo: { symbol: string; filters: RawFilter[] }): SymbolFilters => {
+  const find = (...types: string[]) => symbolInfo.filters.find(f => types.includes(f.filterType));
+  const priceFilter = find('PRICE_FILTER');
+  const lotSize = find('LOT_SIZE');
+  // 旧形式はMIN_NOTIONAL、新形式はNOTIONAL
+  const notional = find('MIN_NOTIONAL', 'NOTIONAL');
+
+  return {
+    symbol: symbolInfo.symbol,
+    tickSize: parseFloat(priceFilter?.tickSize ?? DEFAULT_SYMBOL_FILTERS.tickSize),
+    minPrice: parseFloat(priceFilter?.minPrice ?? DEFAULT_SYMBOL_FILTERS.minPrice),
+    stepSize: parseFloat(lotSize?.stepSize ?? DEFAULT_SYMBOL_FILTERS.stepSize),
+    minQty: parseFloat(lotSize?.minQty ?? DEFAULT_SYMBOL_FILTERS.minQty),
+    minNotional: parseFloat(notional?.minNotional ?? DEFAULT_SYMBOL_FILTERS.minNotional)
+  };
+};
+
+// 刻み幅の小数点以下の桁数（0.00100000 → 3）
+const stepDecimals = (step: number): number => {
+  if (!(step > 0)) return 8;
+  const [mantissa, exponent] = step.toExponential().split('e');
+  const fractionDigits = (mantissa.split('.')[1] ?? '').length;
+  return Math.max(0, fractionDigits - parseInt(exponent, 10));
+};
+
+// 刻み幅に合わせて丸める（浮動小数点の誤差で1刻み落ちないよう補正）
+const roundToStep = (value: number, step: number, mode: 'floor' | 'ceil' | 'round'): number => {
+  if (!(step > 0)) return value;
+  const steps = mode === 'floor'
+    ? Math.floor(value / step + 1e-9)
+    : mode === 'ceil' ? Math.ceil(value / step - 1e-9) : Math.round(value / step);
+  return parseFloat((steps * step).toFixed(stepDecimals(step)));
+};
+
+// 価格はtickSizeの最も近い値に丸める
+export const roundPrice = (price: number, filters: Pick<SymbolFilters, 'tickSize'>): number =>
+  roundToStep(price, filters.tickSize, 'round');
+
+// 数量は残高を超えないようstepSizeで切り捨てる
+export const roundQuantity = (quantity: number, filters: Pick<SymbolFilters, 'stepSize'>): number =>
+  roundToStep(quantity, filters.stepSize, 'floor');
+
+// 必要な数量を下回らないようstepSizeで切り上げる（保有量を補う買いなど）
+export const roundQuantityUp = (quantity: number, filters: Pick<SymbolFilters, 'stepSize'>): number =>
+  roundToStep(quantity, filters.stepSize, 'ceil');
+
+// 注文パラメータ用の文字列（指数表記を避ける）
+export const formatPrice = (price: number, filters: Pick<SymbolFilters, 'tickSize'>): string =>
+  roundPrice(price, filters).toFixed(stepDecimals(filters.tickSize));
+
+export const formatQuantity = (quantity: number, filters: Pick<SymbolFilters, 'stepSize'>): string =>
+  roundQuantity(quantity, filters).toFixed(stepDecimals(filters.stepSize));
+
+// 丸めた後の注文がフィルタを満たさない場合は理由を返す
+export const checkOrderFilters = (
+  price: number,
+  quantity: number,
+  filters: SymbolFilters
+): string | null => {
+  const roundedPrice = roundPrice(price, filters);
+  const roundedQuantity = roundQuantity(quantity, filters);
+
+  if (roundedPrice < filters.minPrice) {
+    return `価格（${roundedPrice}）が最小価格（${filters.minPrice}）を下回っています`;
+  }
+  if (roundedQuantity < filters.minQty) {
+    return `数量（${roundedQuantity}）が最小数量（${filters.minQty}）を下回っています`;
+  }
+  if (roundedPrice * roundedQuantity < filters.minNotional) {
+    return `注文額（${(roundedPrice * roundedQuantity).toFixed(2)}）が最小注文額（${filters.minNotional}）を下回っています`;
+  }
+  return null;
+};
+
+// 1グリッドあたりの注文が満たすべき最小注文額（クォート通貨建て）
+export const getMinOrderValue = (filters: SymbolFilters, price?: number): number => {
+  const minQtyValue = price !== undefined ? filters.minQty * price : 0;
+  return Math.max(filters.minNotional, minQtyValue);
+};
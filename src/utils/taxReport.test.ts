@@ -0,0 +1,126 @@
+import { TradeRecord } from './tradeHistory';
+import { generateTaxReport, parseOpeningBalances, parseRateTable, taxDetailCsv, taxSummaryCsv, toJstDate } from './taxReport';
+
+const trade = (overrides: Partial<TradeRecord> & Pick<TradeRecord, 'id' | 'type' | 'price' | 'amount' | 'executedAt'>): TradeRecord => ({
+  symbol: 'BTC_JPY',
+  level: 0,
+  status: 'FILLED',
+  ...overrides
+});
+
+// 円建ての取引: 1BTCを100万円、1BTCを200万円で買い、1BTCを300万円で売った後に1BTCを400万円で買う
+const jpyTrades = [
+  trade({ id: '1', type: 'BUY', price: 1000000, amount: 1, executedAt: '2024-01-10T00:00:00.000Z' }),
+  trade({ id: '2', type: 'BUY', price: 2000000, amount: 1, executedAt: '2024-02-10T00:00:00.000Z' }),
+  trade({ id: '3', type: 'SELL', price: 3000000, amount: 1, fee: 1000, executedAt: '2024-03-10T00:00:00.000Z' }),
+  trade({ id: '4', type: 'BUY', price: 4000000, amount: 1, executedAt: '2024-04-10T00:00:00.000Z' })
+];
+
+describe('toJstDate', () => {
+  test('約定日を日本時間で判定する', () => {
+    expect(toJstDate('2023-12-31T15:00:00.000Z')).toBe('2024-01-01');
+    expect(toJstDate('2023-12-31T14:59:59.999Z')).toBe('2023-12-31');
+  });
+});
+
+describe('generateTaxReport', () => {
+  test('移動平均法では売却時点の平均単価で売却原価を計算する', () => {
+    const report = generateTaxReport({ trades: jpyTrades, year: 2024, method: 'moving-average', rates: {} });
+    const [btc] = report.assets;
+
+    expect(btc.costOfSales).toBe(1500000);
+    expect(btc.fees).toBe(1000);
+    expect(btc.income).toBe(3000000 - 1500000 - 1000);
+    expect(btc.closing).toEqual({ quantity: 2, cost: 5500000 });
+    expect(report.transactions[2]).toMatchObject({ side: 'SELL', balanceQuantity: 1, balanceUnitCost: 1500000, balanceCost: 1500000 });
+    expect(report.missingRates).toEqual([]);
+  });
+
+  test('総平均法では年間の平均単価で売却原価を計算し、年末残高を翌年に繰り越す', () => {
+    const report = generateTaxReport({ trades: jpyTrades, year: 2024, method: 'total-average', rates: {} });
+    const [btc] = report.assets;
+
+    // (100万 + 200万 + 400万) / 3
+    expect(btc.averageCost).toBeCloseTo(7000000 / 3);
+    expect(btc.costOfSales).toBeCloseTo(7000000 / 3);
+    expect(btc.closing.cost).toBeCloseTo(14000000 / 3);
+    expect(report.transactions[2].balanceUnitCost).toBeNull();
+
+    const next = generateTaxReport({
+      trades: [...jpyTrades, trade({ id: '5', type: 'SELL', price: 3000000, amount: 2, executedAt: '2025-01-10T00:00:00.000Z' })],
+      year: 2025,
+      method: 'total-average',
+      rates: {}
+    });
+    expect(next.assets[0].opening.cost).toBeCloseTo(14000000 / 3);
+    expect(next.totalIncome).toBeCloseTo(6000000 - 14000000 / 3);
+    expect(next.transactions).toHaveLength(1);
+  });
+
+  test('USDT建ての約定を日次レートで円換算し、レートがない日を報告する', () => {
+    const trades = [
+      trade({ id: '1', symbol: 'BTCUSDT', type: 'BUY', price: 40000, amount: 0.01, fee: 0.00001, feeAsset: 'BTC', executedAt: '2024-01-01T00:00:00.000Z' }),
+      trade({ id: '2', symbol: 'BTCUSDT', type: 'SELL', price: 42000, amount: 0.00999, fee: 0.001, feeAsset: 'BNB', executedAt: '2024-01-02T00:00:00.000Z' }),
+      trade({ id: '3', symbol: 'BTCUSDT', type: 'BUY', price: 41000, amount: 0.01, executedAt: '2024-01-03T00:00:00.000Z' })
+    ];
+    const rates = { USDT: { '2024-01-01': 140, '2024-01-02': 145 } };
+
+    const report = generateTaxReport({ trades, year: 2024, method: 'moving-average', rates });
+
+    expect(report.missingRates).toEqual(['USDT 2024-01-03']);
+    expect(report.unconvertedFees).toEqual({ BNB: 0.001 });
+    const [btc] = report.assets;
+    // 手数料を差し引いた0.00999BTCを56000円で取得し、全量を売却
+    expect(btc.bought.quantity).toBeCloseTo(0.00999);
+    expect(btc.costOfSales).toBeCloseTo(56000);
+    expect(btc.sold.amount).toBeCloseTo(42000 * 0.00999 * 145);
+    expect(report.shortfalls).toEqual([]);
+
+    const withBnb = generateTaxReport({ trades, year: 2024, method: 'moving-average', rates: { ...rates, BNB: { '2024-01-02': 45000 } } });
+    expect(withBnb.assets[0].fees).toBeCloseTo(45);
+  });
+
+  test('保有数量を超える売却を報告する', () => {
+    const report = generateTaxReport({
+      trades: [trade({ id: '1', type: 'SELL', price: 3000000, amount: 1, executedAt: '2024-03-10T00:00:00.000Z' })],
+      year: 2024,
+      method: 'moving-average',
+      rates: {},
+      openingBalances: { BTC: { quantity: 0.5, cost: 500000 } }
+    });
+
+    expect(report.shortfalls).toHaveLength(1);
+    expect(report.assets[0].costOfSales).toBe(500000);
+  });
+});
+
+describe('taxSummaryCsv / taxDetailCsv', () => {
+  test('計算書の項目名で出力する', () => {
+    const report = generateTaxReport({ trades: jpyTrades, year: 2024, method: 'moving-average', rates: {} });
+    const summary = taxSummaryCsv(report).replace(/^\uFEFF/, '').split('\r\n');
+    const detail = taxDetailCsv(report).replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(taxSummaryCsv(report).charCodeAt(0)).toBe(0xfeff);
+    expect(summary[0]).toContain('年始残高_数量');
+    expect(summary[1]).toBe('2024,移動平均法,BTC,0,0,3,7000000,1,3000000,2,5500000,2750000,1500000,1000,1499000');
+    expect(summary[2]).toBe('2024,移動平均法,合計,,,,,,3000000,,,,1500000,1000,1499000');
+    expect(detail[3]).toBe('2024-03-10,2024-03-10T00:00:00.000Z,BTC,BTC_JPY,売却,,,,1,3000000,3000000,1,1500000,1500000,1000,1500000,1499000');
+  });
+});
+
+describe('parseRateTable', () => {
+  test('日付とレートの行を読み込み、不正な行を無視する', () => {
+    expect(parseRateTable('date,rate\n2024-01-01,140.5\r\n2024-01-02\t141\n\nbad,1\n2024-01-03,-1')).toEqual({
+      '2024-01-01': 140.5,
+      '2024-01-02': 141
+    });
+  });
+});
+
+describe('parseOpeningBalances', () => {
+  test('資産・数量・取得価額の行を読み込む', () => {
+    expect(parseOpeningBalances('btc,0.5,3000000\nETH,abc,1\nXRP,100')).toEqual({
+      BTC: { quantity: 0.5, cost: 3000000 }
+    });
+  });
+});
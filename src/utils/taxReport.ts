@@ -0,0 +1,400 @@
+import { ExportRow, toCsv } from './exportData';
+import { TradeRecord } from './tradeHistory';
+import { fromExchangeSymbol } from './tradingPair';
+
+// 暗号資産の譲渡による所得（雑所得）の計算
+// 国税庁の「暗号資産の計算書」（移動平均法用・総平均法用）の項目に合わせて集計する
+export type CostMethod = 'moving-average' | 'total-average';
+
+export const COST_METHOD_LABELS: Record<CostMethod, string> = {
+  'moving-average': '移動平均法',
+  'total-average': '総平均法'
+};
+
+// 資産ごと・日付（yyyy-MM-dd、日本時間）ごとの円換算レート
+export type JpyRateTable = Record<string, Record<string, number>>;
+
+// 年始時点で保有していた数量と取得価額（ボット以外で購入した分など）
+export interface OpeningBalance {
+  quantity: number;
+  cost: number;
+}
+
+export interface TaxTransaction {
+  date: string;
+  executedAt: string;
+  asset: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  // 円換算した約定単価と約定金額（購入は手数料を含む取得価額）
+  unitPrice: number;
+  amount: number;
+  // 売却時の手数料（必要経費）
+  fee: number;
+  balanceQuantity: number;
+  // 総平均法では年末まで単価が決まらないため、年末残高以外はnull
+  balanceUnitCost: number | null;
+  balanceCost: number | null;
+  costOfSales: number | null;
+  income: number | null;
+}
+
+export interface TaxAssetSummary {
+  asset: string;
+  opening: OpeningBalance;
+  bought: { quantity: number; amount: number };
+  sold: { quantity: number; amount: number };
+  closing: OpeningBalance;
+  // 移動平均法では年末時点の単価
+  averageCost: number;
+  costOfSales: number;
+  fees: number;
+  income: number;
+}
+
+export interface TaxReport {
+  year: number;
+  method: CostMethod;
+  assets: TaxAssetSummary[];
+  transactions: TaxTransaction[];
+  totalIncome: number;
+  // 円換算レートがない約定（「USDT 2024-01-02」の形式）。ある場合は計算結果を使えない
+  missingRates: string[];
+  // 換算できず必要経費に含めなかった手数料（資産ごと）
+  unconvertedFees: Record<string, number>;
+  // 保有数量を超えて売却した約定（取得価額が不明）
+  shortfalls: string[];
+}
+
+interface TaxReportInput {
+  trades: TradeRecord[];
+  year: number;
+  method: CostMethod;
+  rates: JpyRateTable;
+  openingBalances?: Record<string, OpeningBalance>;
+}
+
+const JST_OFFSET_MS = 9 * 60 * 60 * 1000;
+const QUANTITY_EPSILON = 1e-12;
+
+// 約定日は日本時間で判定する
+export const toJstDate = (time: string): string =>
+  new Date(new Date(time).getTime() + JST_OFFSET_MS).toISOString().slice(0, 10);
+
+interface ValuedTrade {
+  trade: TradeRecord;
+  date: string;
+  asset: string;
+  // 保有数量の増減（基軸通貨で支払った手数料を除く）
+  quantity: number;
+  amount: number;
+  fee: number;
+}
+
+// 約定を円換算する。決済通貨のレートがなければnull
+// 暗号資産同士の交換（ETH/BTCなど）は基軸通貨側のみ計算し、決済通貨側の譲渡は含めない
+const valueTrade = (
+  trade: TradeRecord,
+  rates: JpyRateTable,
+  missingRates: Set<string>,
+  unconvertedFees: Record<string, number>
+): ValuedTrade | null => {
+  const { base, quote } = fromExchangeSymbol(trade.symbol);
+  const date = toJstDate(trade.executedAt ?? '');
+  const rateOf = (asset: string) => asset === 'JPY' ? 1 : rates[asset]?.[date];
+
+  const quoteRate = rateOf(quote);
+  if (quoteRate === undefined) {
+    missingRates.add(`${quote} ${date}`);
+    return null;
+  }
+
+  const fee = trade.fee ?? 0;
+  const feeAsset = trade.feeAsset ?? quote;
+  let feeJpy = 0;
+  let quantity = trade.amount;
+  if (fee > 0 && feeAsset === base) {
+    // 基軸通貨で支払った手数料は受け取る数量から差し引かれる
+    if (trade.type === 'BUY') quantity -= fee;
+    else feeJpy = fee * trade.price * quoteRate;
+  } else if (fee > 0) {
+    const feeRate = feeAsset === quote ? quoteRate : rateOf(feeAsset);
+    if (feeRate === undefined) {
+      unconvertedFees[feeAsset] = (unconvertedFees[feeAsset] ?? 0) + fee;
+    } else {
+      feeJpy = fee * feeRate;
+    }
+  }
+
+  const value = trade.price * trade.amount * quoteRate;
+  return trade.type === 'BUY'
+    // 購入時の手数料は取得価額に含める
+    ? { trade, date, asset: base, quantity, amount: value + feeJpy, fee: 0 }
+    : { trade, date, asset: base, quantity, amount: value, fee: feeJpy };
+};
+
+interface YearResult {
+  summary: TaxAssetSummary;
+  transactions: TaxTransaction[];
+}
+
+// 1つの資産の1年分を計算する（tradesは約定時刻順）
+const calculateYear = (
+  asset: string,
+  trades: ValuedTrade[],
+  opening: OpeningBalance,
+  method: CostMethod,
+  shortfalls: string[]
+): YearResult => {
+  const buys = trades.filter(t => t.trade.type === 'BUY');
+  const bought = {
+    quantity: buys.reduce((sum, t) => sum + t.quantity, 0),
+    amount: buys.reduce((sum, t) => sum + t.amount, 0)
+  };
+  // 総平均法の単価は年始残高と年中の購入から求める
+  const totalQuantity = opening.quantity + bought.quantity;
+  const totalAverage = totalQuantity > 0 ? (opening.cost + bought.amount) / totalQuantity : 0;
+
+  let quantity = opening.quantity;
+  let cost = opening.cost;
+  let soldQuantity = 0;
+  let soldAmount = 0;
+  let costOfSales = 0;
+  let fees = 0;
+
+  const transactions = trades.map((t): TaxTransaction => {
+    const base = {
+      date: t.date,
+      executedAt: t.trade.executedAt ?? '',
+      asset,
+      symbol: t.trade.symbol,
+      side: t.trade.type,
+      quantity: t.quantity,
+      unitPrice: t.quantity > 0 ? t.amount / t.quantity : 0,
+      amount: t.amount,
+      fee: t.fee
+    };
+
+    if (t.trade.type === 'BUY') {
+      quantity += t.quantity;
+      cost += t.amount;
+      const unitCost = method === 'moving-average' && quantity > 0 ? cost / quantity : null;
+      return {
+        ...base,
+        balanceQuantity: quantity,
+        balanceUnitCost: unitCost,
+        balanceCost: unitCost === null ? null : cost,
+        costOfSales: null,
+        income: null
+      };
+    }
+
+    if (t.quantity > quantity + QUANTITY_EPSILON) {
+      shortfalls.push(`${asset} ${t.trade.executedAt} ${t.quantity - quantity}`);
+    }
+    // 保有数量を超えた分は取得価額がわからないため、保有分の取得価額だけを売却原価にする
+    const covered = Math.min(t.quantity, Math.max(quantity, 0));
+    const unitCost = method === 'moving-average' ? (quantity > 0 ? cost / quantity : 0) : totalAverage;
+    const saleCost = unitCost * covered;
+    quantity = Math.max(quantity - t.quantity, 0);
+    cost = method === 'moving-average' ? Math.max(cost - saleCost, 0) : cost;
+
+    soldQuantity += t.quantity;
+    soldAmount += t.amount;
+    costOfSales += saleCost;
+    fees += t.fee;
+
+    return {
+      ...base,
+      balanceQuantity: quantity,
+      balanceUnitCost: method === 'moving-average' ? unitCost : null,
+      balanceCost: method === 'moving-average' ? cost : null,
+      costOfSales: saleCost,
+      income: t.amount - saleCost - t.fee
+    };
+  });
+
+  const closingCost = method === 'moving-average' ? cost : totalAverage * quantity;
+  return {
+    summary: {
+      asset,
+      opening,
+      bought,
+      sold: { quantity: soldQuantity, amount: soldAmount },
+      closing: { quantity, cost: closingCost },
+      averageCost: method === 'moving-average' ? (quantity > 0 ? cost / quantity : 0) : totalAverage,
+      costOfSales,
+      fees,
+      income: soldAmount - costOfSales - fees
+    },
+    transactions
+  };
+};
+
+// 約定履歴から指定した年の所得を計算する
+// 年始残高は前年までの約定を同じ計算方法で繰り越して求める（openingBalancesは最初の年の年始残高）
+export const generateTaxReport = ({ trades, year, method, rates, openingBalances = {} }: TaxReportInput): TaxReport => {
+  const missingRates = new Set<string>();
+  const unconvertedFees: Record<string, number> = {};
+  const shortfalls: string[] = [];
+
+  const valued = [...trades]
+    .filter(trade => trade.executedAt && trade.status !== 'CANCELED')
+    .sort((a, b) => new Date(a.executedAt ?? 0).getTime() - new Date(b.executedAt ?? 0).getTime())
+    .filter(trade => Number(toJstDate(trade.executedAt ?? '').slice(0, 4)) <= year)
+    .map(trade => {
+      const tradeYear = Number(toJstDate(trade.executedAt ?? '').slice(0, 4));
+      // 前年までの分もレートがなければ年始残高を計算できない
+      return valueTrade(trade, rates, missingRates, tradeYear === year ? unconvertedFees : {});
+    })
+    .filter((t): t is ValuedTrade => t !== null);
+
+  const assets = Array.from(new Set([...valued.map(t => t.asset), ...Object.keys(openingBalances)])).sort();
+  const summaries: TaxAssetSummary[] = [];
+  const transactions: TaxTransaction[] = [];
+
+  assets.forEach(asset => {
+    const assetTrades = valued.filter(t => t.asset === asset);
+    const firstYear = Math.min(year, ...assetTrades.map(t => Number(t.date.slice(0, 4))));
+    let opening = openingBalances[asset] ?? { quantity: 0, cost: 0 };
+
+    for (let current = firstYear; current <= year; current++) {
+      const yearTrades = assetTrades.filter(t => Number(t.date.slice(0, 4)) === current);
+      const result = calculateYear(asset, yearTrades, opening, method, current === year ? shortfalls : []);
+      if (current === year) {
+        summaries.push(result.summary);
+        transactions.push(...result.transactions);
+      }
+      opening = result.summary.closing;
+    }
+  });
+
+  transactions.sort((a, b) => new Date(a.executedAt).getTime() - new Date(b.executedAt).getTime());
+
+  return {
+    year,
+    method,
+    assets: summaries,
+    transactions,
+    totalIncome: summaries.reduce((sum, summary) => sum + summary.income, 0),
+    missingRates: Array.from(missingRates).sort(),
+    unconvertedFees,
+    shortfalls
+  };
+};
+
+// 計算書の集計表（資産ごとに1行と合計）
+export const taxSummaryCsv = (report: TaxReport): string => {
+  const columns = [
+    '年分', '計算方法', '暗号資産の名称',
+    '年始残高_数量', '年始残高_金額', '年中購入_数量', '年中購入_金額', '年中売却_数量', '年中売却_金額',
+    '年末残高_数量', '年末残高_金額', '平均単価', '売却原価', '必要経費_手数料等', '所得金額'
+  ];
+  const rows: ExportRow[] = report.assets.map(summary => ({
+    '年分': report.year,
+    '計算方法': COST_METHOD_LABELS[report.method],
+    '暗号資産の名称': summary.asset,
+    '年始残高_数量': summary.opening.quantity,
+    '年始残高_金額': summary.opening.cost,
+    '年中購入_数量': summary.bought.quantity,
+    '年中購入_金額': summary.bought.amount,
+    '年中売却_数量': summary.sold.quantity,
+    '年中売却_金額': summary.sold.amount,
+    '年末残高_数量': summary.closing.quantity,
+    '年末残高_金額': summary.closing.cost,
+    '平均単価': summary.averageCost,
+    '売却原価': summary.costOfSales,
+    '必要経費_手数料等': summary.fees,
+    '所得金額': summary.income
+  }));
+  rows.push({
+    '年分': report.year,
+    '計算方法': COST_METHOD_LABELS[report.method],
+    '暗号資産の名称': '合計',
+    '年中売却_金額': report.assets.reduce((sum, summary) => sum + summary.sold.amount, 0),
+    '売却原価': report.assets.reduce((sum, summary) => sum + summary.costOfSales, 0),
+    '必要経費_手数料等': report.assets.reduce((sum, summary) => sum + summary.fees, 0),
+    '所得金額': report.totalIncome
+  });
+  // 表計算ソフトで文字化けしないようBOMを付ける
+  return '\uFEFF' + toCsv(columns, rows);
+};
+
+// 計算書の取引明細（約定ごとに1行）
+export const taxDetailCsv = (report: TaxReport): string => {
+  const columns = [
+    '月日', '約定日時', '暗号資産の名称', 'シンボル', '取引内容',
+    '購入等_数量', '購入等_単価', '購入等_金額', '売却等_数量', '売却等_単価', '売却等_金額',
+    '残高_数量', '残高_単価', '残高_金額', '必要経費_手数料等', '売却原価', '所得金額'
+  ];
+  const rows: ExportRow[] = report.transactions.map(t => {
+    const isBuy = t.side === 'BUY';
+    return {
+      '月日': t.date,
+      '約定日時': t.executedAt,
+      '暗号資産の名称': t.asset,
+      'シンボル': t.symbol,
+      '取引内容': isBuy ? '購入' : '売却',
+      '購入等_数量': isBuy ? t.quantity : null,
+      '購入等_単価': isBuy ? t.unitPrice : null,
+      '購入等_金額': isBuy ? t.amount : null,
+      '売却等_数量': isBuy ? null : t.quantity,
+      '売却等_単価': isBuy ? null : t.unitPrice,
+      '売却等_金額': isBuy ? null : t.amount,
+      '残高_数量': t.balanceQuantity,
+      '残高_単価': t.balanceUnitCost,
+      '残高_金額': t.balanceCost,
+      '必要経費_手数料等': isBuy ? null : t.fee,
+      '売却原価': t.costOfSales,
+      '所得金額': t.income
+    };
+  });
+  return '\uFEFF' + toCsv(columns, rows);
+};
+
+// 「日付,レート」形式の行から日次レートを読み込む（見出し行や空行は無視する）
+export const parseRateTable = (text: string): Record<string, number> => {
+  const table: Record<string, number> = {};
+  text.split(/\r?\n/).forEach(line => {
+    const [date, rate] = line.split(/[,\t]/).map(value => value.trim());
+    const value = Number(rate);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date ?? '') && Number.isFinite(value) && value > 0) {
+      table[date] = value;
+    }
+  });
+  return table;
+};
+
+// 「資産,数量,取得価額」形式の行から年始残高を読み込む
+export const parseOpeningBalances = (text: string): Record<string, OpeningBalance> => {
+  const balances: Record<string, OpeningBalance> = {};
+  text.split(/\r?\n/).forEach(line => {
+    const [asset, quantity, cost] = line.split(/[,\t]/).map(value => value.trim());
+    const values = [Number(quantity), Number(cost)];
+    if (asset && /^[A-Za-z0-9]+$/.test(asset) && values.every(value => Number.isFinite(value) && value >= 0) && quantity && cost) {
+      balances[asset.toUpperCase()] = { quantity: values[0], cost: values[1] };
+    }
+  });
+  return balances;
+};
+
+const RATE_STORAGE_KEY = 'gridBotJpyRates';
+
+export const loadJpyRates = (): JpyRateTable => {
+  try {
+    const saved = localStorage.getItem(RATE_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (error) {
+    console.error('円換算レートの読み込みエラー:', error);
+    return {};
+  }
+};
+
+export const saveJpyRates = (rates: JpyRateTable) => {
+  try {
+    localStorage.setItem(RATE_STORAGE_KEY, JSON.stringify(rates));
+  } catch (error) {
+    console.error('円換算レートの保存エラー:', error);
+  }
+};
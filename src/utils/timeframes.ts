@@ -0,0 +1,20 @@
+export interface TimeframeOption {
+  label: string;
+  value: string;
+  interval: number;
+  format: string;
+}
+
+export const TIMEFRAME_OPTIONS: TimeframeOption[] = [
+  { label: '15分足', value: '15m', interval: 15 * 60 * 1000, format: 'HH:mm' },
+  { label: '1時間足', value: '1h', interval: 60 * 60 * 1000, format: 'MM/dd HH:mm' },
+  { label: '4時間足', value: '4h', interval: 4 * 60 * 60 * 1000, format: 'MM/dd HH:mm' },
+  { label: '日足', value: '1d', interval: 24 * 60 * 60 * 1000, format: 'yyyy/MM/dd' },
+  { label: '週足', value: '1w', interval: 7 * 24 * 60 * 60 * 1000, format: 'yyyy/MM/dd' },
+  { label: '月足', value: '1M', interval: 30 * 24 * 60 * 60 * 1000, format: 'yyyy/MM' }
+];
+
+// 時間枠の値から設定を取得
+export const findTimeframe = (value: string): TimeframeOption | undefined => {
+  return TIMEFRAME_OPTIONS.find(option => option.value === value);
+};
@@ -0,0 +1,76 @@
+import { TradeRecord, buildTradeHistory, filterTradeHistory, paginate } from './tradeHistory';
+
+const trade = (overrides: Partial<TradeRecord> & Pick<TradeRecord, 'id' | 'type' | 'price' | 'level'>): TradeRecord => ({
+  symbol: 'BTCUSDT',
+  amount: 0.01,
+  status: 'FILLED',
+  fee: 0.26,
+  executedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('buildTradeHistory', () => {
+  test('売りを決済した買いと対応付けて往復ごとの利益を計算する', () => {
+    const trades = [
+      trade({ id: '1', type: 'BUY', price: 26000, level: 1, executedAt: '2024-01-01T01:00:00.000Z' }),
+      trade({ id: '2', type: 'BUY', price: 25000, level: 0, executedAt: '2024-01-01T02:00:00.000Z' }),
+      trade({ id: '3', type: 'SELL', price: 27000, level: 2, openedBy: '1', amount: 0.00999, executedAt: '2024-01-01T03:00:00.000Z' }),
+      trade({ id: '4', type: 'SELL', price: 26000, level: 1, openedBy: '2', amount: 0.00999, executedAt: '2024-01-01T04:00:00.000Z' })
+    ];
+
+    const history = buildTradeHistory(trades);
+
+    expect(history.map(entry => entry.id)).toEqual(['4', '3', '2', '1']);
+    expect(history[1].roundTrip).toMatchObject({
+      buyOrderId: '1',
+      buyPrice: 26000,
+      buyExecutedAt: '2024-01-01T01:00:00.000Z',
+      fees: 0.52
+    });
+    expect(history[1].roundTrip?.grossProfit).toBeCloseTo(9.99);
+    expect(history[1].roundTrip?.netProfit).toBeCloseTo(9.47);
+    expect(history[0].roundTrip?.buyOrderId).toBe('2');
+    expect(history[2].roundTrip).toBeUndefined();
+  });
+
+  test('対応が記録されていない売りは1つ下のレベルで直前に約定した買いと対応付ける', () => {
+    const trades = [
+      trade({ id: '1', type: 'BUY', price: 26000, level: 1, executedAt: '2024-01-01T01:00:00.000Z' }),
+      trade({ id: '2', type: 'SELL', price: 27000, level: 2, executedAt: '2024-01-01T02:00:00.000Z' }),
+      // 開始時に保有していた分の売り（対応する買いがない）
+      trade({ id: '3', type: 'SELL', price: 27000, level: 2, profit: 10, executedAt: '2024-01-01T03:00:00.000Z' })
+    ];
+
+    const [unmatched, matched] = buildTradeHistory(trades);
+
+    expect(matched.roundTrip?.buyOrderId).toBe('1');
+    expect(unmatched.roundTrip).toBeUndefined();
+    expect(unmatched.profit).toBe(10);
+  });
+});
+
+describe('filterTradeHistory', () => {
+  const trades = [
+    trade({ id: '1', type: 'BUY', price: 26000, level: 1, executedAt: new Date(2024, 0, 1, 10).toISOString() }),
+    trade({ id: '2', type: 'SELL', price: 27000, level: 2, executedAt: new Date(2024, 0, 2, 23, 59).toISOString() }),
+    trade({ id: '3', type: 'BUY', price: 26000, level: 1, executedAt: new Date(2024, 0, 3, 0, 0).toISOString() })
+  ];
+
+  test('日付（終了日を含む）と売買で絞り込む', () => {
+    expect(filterTradeHistory(trades, { from: '2024-01-02', to: '2024-01-02', side: 'ALL' }).map(t => t.id)).toEqual(['2']);
+    expect(filterTradeHistory(trades, { from: '', to: '2024-01-02', side: 'BUY' }).map(t => t.id)).toEqual(['1']);
+    expect(filterTradeHistory(trades, { from: '2024-01-02', to: '', side: 'BUY' }).map(t => t.id)).toEqual(['3']);
+    expect(filterTradeHistory(trades, { from: '', to: '', side: 'ALL' })).toHaveLength(3);
+  });
+});
+
+describe('paginate', () => {
+  test('ページ単位で切り出し、範囲外のページは端に収める', () => {
+    const items = Array.from({ length: 45 }, (_, i) => i);
+
+    expect(paginate(items, 1, 20)).toEqual({ items: items.slice(0, 20), page: 1, totalPages: 3 });
+    expect(paginate(items, 3, 20).items).toEqual(items.slice(40));
+    expect(paginate(items, 9, 20).page).toBe(3);
+    expect(paginate([], 1, 20)).toEqual({ items: [], page: 1, totalPages: 1 });
+  });
+});
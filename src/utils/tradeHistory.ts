@@ -0,0 +1,111 @@
+import { GridOrder } from '../services/gridEngine';
+
+// 約定した注文（通貨ペアをまたいで保存するためシンボルを付ける）
+export interface TradeRecord extends GridOrder {
+  symbol: string;
+}
+
+// 売りと、その売りで決済した買いの往復
+export interface RoundTrip {
+  buyOrderId: string;
+  buyPrice: number;
+  buyExecutedAt?: string;
+  grossProfit: number;
+  fees: number;
+  netProfit: number;
+}
+
+export interface TradeHistoryEntry extends TradeRecord {
+  roundTrip?: RoundTrip;
+}
+
+export type SideFilter = 'ALL' | 'BUY' | 'SELL';
+
+// 日付はinput[type=date]の形式（yyyy-MM-dd、ローカル時刻）
+export interface TradeHistoryFilter {
+  from: string;
+  to: string;
+  side: SideFilter;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  totalPages: number;
+}
+
+export const DEFAULT_TRADE_HISTORY_FILTER: TradeHistoryFilter = { from: '', to: '', side: 'ALL' };
+
+const executedTime = (trade: TradeRecord): number => new Date(trade.executedAt ?? 0).getTime();
+
+// 売りを決済対象の買いと対応付け、新しい順に並べる
+// 買いとの対応が記録されていない売りは、1つ下のレベルで直前に約定した買いと対応付ける
+// 手数料はfeeToQuoteで決済通貨に換算する（省略時は決済通貨建てとみなす）
+export const buildTradeHistory = (
+  trades: TradeRecord[],
+  feeToQuote: (trade: TradeRecord) => number = trade => trade.fee ?? 0
+): TradeHistoryEntry[] => {
+  const sorted = [...trades].sort((a, b) => executedTime(a) - executedTime(b));
+  const buys = sorted.filter(trade => trade.type === 'BUY');
+  const paired = new Set<TradeRecord>();
+
+  const findBuy = (sell: TradeRecord): TradeRecord | undefined => {
+    if (sell.openedBy) {
+      return buys.find(buy => buy.symbol === sell.symbol && buy.id === sell.openedBy);
+    }
+    return [...buys].reverse().find(buy =>
+      !paired.has(buy) &&
+      buy.symbol === sell.symbol &&
+      buy.level === sell.level - 1 &&
+      executedTime(buy) <= executedTime(sell)
+    );
+  };
+
+  const entries = sorted.map((trade): TradeHistoryEntry => {
+    if (trade.type !== 'SELL') return { ...trade };
+
+    const buy = findBuy(trade);
+    if (!buy) return { ...trade };
+    paired.add(buy);
+
+    const grossProfit = (trade.price - buy.price) * trade.amount;
+    const fees = feeToQuote(buy) + feeToQuote(trade);
+    return {
+      ...trade,
+      roundTrip: {
+        buyOrderId: buy.id,
+        buyPrice: buy.price,
+        buyExecutedAt: buy.executedAt,
+        grossProfit,
+        fees,
+        netProfit: grossProfit - fees
+      }
+    };
+  });
+
+  return entries.reverse();
+};
+
+const startOfDay = (date: string): number => new Date(`${date}T00:00:00`).getTime();
+
+export const filterTradeHistory = <T extends TradeRecord>(entries: T[], filter: TradeHistoryFilter): T[] => {
+  const from = filter.from ? startOfDay(filter.from) : -Infinity;
+  // 終了日はその日の終わりまでを含める
+  const to = filter.to ? startOfDay(filter.to) + 24 * 60 * 60 * 1000 : Infinity;
+
+  return entries.filter(entry => {
+    const time = executedTime(entry);
+    return (filter.side === 'ALL' || entry.type === filter.side) && time >= from && time < to;
+  });
+};
+
+// ページ番号は1から始まり、範囲外の場合は最初または最後のページに収める
+export const paginate = <T>(items: T[], page: number, pageSize: number): Page<T> => {
+  const totalPages = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), totalPages);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    totalPages
+  };
+};
@@ -0,0 +1,31 @@
+import { formatPair, fromExchangeSymbol, parsePair, toExchangeSymbol } from './tradingPair';
+
+describe('tradingPair', () => {
+  test('通貨ペアを基軸通貨と決済通貨に分ける', () => {
+    expect(parsePair('BTC/USDT')).toEqual({ base: 'BTC', quote: 'USDT' });
+    expect(parsePair('xrp/jpy')).toEqual({ base: 'XRP', quote: 'JPY' });
+    expect(formatPair({ base: 'ETH', quote: 'USDT' })).toBe('ETH/USDT');
+  });
+
+  test('形式が不正な場合はエラー', () => {
+    expect(() => parsePair('BTCUSDT')).toThrow('通貨ペアの形式が不正です');
+    expect(() => parsePair('BTC/USDT/JPY')).toThrow('通貨ペアの形式が不正です');
+  });
+
+  test('取引所ごとのシンボル表記に変換する', () => {
+    expect(toExchangeSymbol('ETH/USDT', 'binance')).toBe('ETHUSDT');
+    expect(toExchangeSymbol('BTC/JPY', 'bitflyer')).toBe('BTC_JPY');
+    expect(toExchangeSymbol('XRP/JPY', 'coincheck')).toBe('xrp_jpy');
+    expect(toExchangeSymbol('BTC/JPY', 'bitbank')).toBe('btc_jpy');
+    expect(toExchangeSymbol('XRP/JPY', 'gmo')).toBe('XRP');
+    expect(() => toExchangeSymbol('BTC/USDT', 'gmo')).toThrow('GMOコイン');
+  });
+
+  test('取引所ごとのシンボル表記を通貨ペアに戻す', () => {
+    expect(fromExchangeSymbol('ETHUSDT')).toEqual({ base: 'ETH', quote: 'USDT' });
+    expect(fromExchangeSymbol('ETHBTC')).toEqual({ base: 'ETH', quote: 'BTC' });
+    expect(fromExchangeSymbol('BTC_JPY')).toEqual({ base: 'BTC', quote: 'JPY' });
+    expect(fromExchangeSymbol('xrp_jpy')).toEqual({ base: 'XRP', quote: 'JPY' });
+    expect(fromExchangeSymbol('XRP')).toEqual({ base: 'XRP', quote: 'JPY' });
+  });
+});
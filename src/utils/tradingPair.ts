@@ -0,0 +1,55 @@
+// 通貨ペア（BTC/USDTなど）の扱い
+export interface TradingPair {
+  base: string;
+  quote: string;
+}
+
+export const TRADING_PAIRS = ['BTC/USDT', 'ETH/USDT', 'XRP/JPY', 'BTC/JPY'];
+
+// 「BTC/USDT」形式の文字列を基軸通貨と決済通貨に分ける
+export const parsePair = (pair: string): TradingPair => {
+  const [base, quote, ...rest] = pair.split('/').map(asset => asset.trim().toUpperCase());
+  if (!base || !quote || rest.length > 0) {
+    throw new Error(`通貨ペアの形式が不正です: ${pair}`);
+  }
+  return { base, quote };
+};
+
+export const formatPair = ({ base, quote }: TradingPair): string => `${base}/${quote}`;
+
+// 取引所ごとのシンボル表記に変換する
+export const toExchangeSymbol = (pair: TradingPair | string, exchange: string): string => {
+  const { base, quote } = typeof pair === 'string' ? parsePair(pair) : pair;
+
+  switch (exchange) {
+    case 'bitflyer':
+      return `${base}_${quote}`;
+    case 'coincheck':
+    case 'bitbank':
+      return `${base}_${quote}`.toLowerCase();
+    case 'gmo':
+      // 現物取引は円建てのみで、シンボルは基軸通貨だけで表す
+      if (quote !== 'JPY') {
+        throw new Error(`GMOコインでは${formatPair({ base, quote })}を取引できません`);
+      }
+      return base;
+    default:
+      return `${base}${quote}`;
+  }
+};
+
+// シンボルの末尾と照合して決済通貨を判別するための候補
+const QUOTE_ASSETS = ['USDT', 'USDC', 'BUSD', 'JPY', 'BTC', 'ETH', 'BNB'];
+
+// 取引所ごとのシンボル表記から通貨ペアに戻す（toExchangeSymbolの逆変換）
+// 基軸通貨だけのシンボルはGMOコインの現物取引として円建てとみなす
+export const fromExchangeSymbol = (symbol: string): TradingPair => {
+  const upper = symbol.toUpperCase();
+  if (upper.includes('_')) {
+    return parsePair(upper.replace('_', '/'));
+  }
+  const quote = QUOTE_ASSETS.find(asset => upper.length > asset.length && upper.endsWith(asset));
+  return quote
+    ? { base: upper.slice(0, -quote.length), quote }
+    : { base: upper, quote: 'JPY' };
+};
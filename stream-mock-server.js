@@ -0,0 +1,182 @@
+const WebSocket = require('ws');
+const fs = require('fs');
+const path = require('path');
+
+// 開発・テスト用のBinance WebSocketストリームの代替サーバー
+// REACT_APP_STREAM_URL=ws://localhost:4001/ws を指定して利用する
+const port = parseInt(process.env.STREAM_PORT, 10) || 4001;
+const TICK_INTERVAL = parseInt(process.env.STREAM_TICK_MS, 10) || 1000;
+const KLINE_FIXTURE_DIR = path.join(__dirname, 'fixtures', 'klines');
+const DEPTH_FIXTURE_DIR = path.join(__dirname, 'fixtures', 'depth');
+const INTERVAL_MS = {
+  '15m': 15 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+  '1M': 30 * 24 * 60 * 60 * 1000
+};
+
+// デバッグログ用の関数
+function debug(message, data) {
+  console.log(`[StreamMock] ${message}`, data ?? '');
+}
+
+// シンボルごとの疑似価格（フィクスチャの最終値から開始）
+const prices = {};
+function nextPrice(symbol) {
+  if (prices[symbol] === undefined) {
+    const fixture = fs.readdirSync(KLINE_FIXTURE_DIR).find(file => file.startsWith(`${symbol}_`));
+    const klines = fixture ? JSON.parse(fs.readFileSync(path.join(KLINE_FIXTURE_DIR, fixture), 'utf8')) : [];
+    prices[symbol] = klines.length > 0 ? parseFloat(klines[klines.length - 1][4]) : 100;
+  }
+  prices[symbol] *= 1 + (Math.random() - 0.5) * 0.002;
+  return prices[symbol];
+}
+
+// シンボル・時間枠ごとの形成中の足
+const klines = {};
+function updateKline(symbol, interval, price, quantity, now) {
+  const intervalMs = INTERVAL_MS[interval];
+  const openTime = Math.floor(now / intervalMs) * intervalMs;
+  const key = `${symbol}:${interval}`;
+  const current = klines[key];
+
+  if (!current || current.t !== openTime) {
+    klines[key] = { t: openTime, T: openTime + intervalMs - 1, o: price, h: price, l: price, c: price, v: 0 };
+  }
+
+  const k = klines[key];
+  k.h = Math.max(k.h, price);
+  k.l = Math.min(k.l, price);
+  k.c = price;
+  k.v += quantity;
+
+  return {
+    e: 'kline',
+    E: now,
+    s: symbol,
+    k: {
+      t: k.t,
+      T: k.T,
+      s: symbol,
+      i: interval,
+      o: k.o.toFixed(2),
+      h: k.h.toFixed(2),
+      l: k.l.toFixed(2),
+      c: k.c.toFixed(2),
+      v: k.v.toFixed(5),
+      x: false
+    }
+  };
+}
+
+// 記録した板の差分を再生し、記録が尽きたら記録の価格帯で数量を変える差分を続けて作る
+// （プロキシサーバーをMARKET_DATA_MODE=fixtureで起動すると、同じ記録のスナップショットを返す）
+function createDepthReplay(symbol) {
+  const fixturePath = path.join(DEPTH_FIXTURE_DIR, `${symbol}.json`);
+  if (!fs.existsSync(fixturePath)) {
+    return null;
+  }
+  const { snapshot, updates } = JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+  let index = 0;
+  let lastUpdateId = updates.length > 0 ? updates[updates.length - 1].u : snapshot.lastUpdateId;
+
+  return (now) => {
+    if (index < updates.length) {
+      return { ...updates[index++], E: now };
+    }
+    const side = Math.random() < 0.5 ? 'b' : 'a';
+    const levels = side === 'b' ? snapshot.bids : snapshot.asks;
+    const [price] = levels[Math.floor(Math.random() * levels.length)];
+    lastUpdateId++;
+    return {
+      e: 'depthUpdate',
+      E: now,
+      s: symbol,
+      U: lastUpdateId,
+      u: lastUpdateId,
+      b: side === 'b' ? [[price, (Math.random() * 1.5).toFixed(8)]] : [],
+      a: side === 'a' ? [[price, (Math.random() * 1.5).toFixed(8)]] : []
+    };
+  };
+}
+
+const server = new WebSocket.Server({ port, path: '/ws' });
+let tradeId = 1;
+
+server.on('connection', (socket) => {
+  const streams = new Set();
+  // 板の差分の再生（購読し直すと記録の最初から再生する）
+  const depthReplays = {};
+  debug('クライアントが接続しました');
+
+  socket.on('message', (raw) => {
+    let request;
+    try {
+      request = JSON.parse(raw.toString());
+    } catch (error) {
+      return socket.send(JSON.stringify({ error: { code: 2, msg: 'Invalid JSON' } }));
+    }
+
+    const params = Array.isArray(request.params) ? request.params : [];
+    if (request.method === 'SUBSCRIBE') {
+      params.forEach(stream => {
+        streams.add(stream);
+        if (stream.includes('@depth')) {
+          const symbol = stream.split('@')[0].toUpperCase();
+          depthReplays[symbol] = createDepthReplay(symbol);
+        }
+      });
+    } else if (request.method === 'UNSUBSCRIBE') {
+      params.forEach(stream => streams.delete(stream));
+    } else if (request.method === 'LIST_SUBSCRIPTIONS') {
+      return socket.send(JSON.stringify({ result: Array.from(streams), id: request.id }));
+    }
+    debug('購読を更新しました:', Array.from(streams));
+    socket.send(JSON.stringify({ result: null, id: request.id }));
+  });
+
+  const timer = setInterval(() => {
+    const now = Date.now();
+    const symbols = new Set(Array.from(streams).map(stream => stream.split('@')[0].toUpperCase()));
+
+    symbols.forEach(symbol => {
+      const price = nextPrice(symbol);
+      const quantity = Math.random() * 0.5;
+      const lower = symbol.toLowerCase();
+
+      if (streams.has(`${lower}@trade`)) {
+        socket.send(JSON.stringify({
+          e: 'trade',
+          E: now,
+          s: symbol,
+          t: tradeId++,
+          p: price.toFixed(2),
+          q: quantity.toFixed(5),
+          T: now
+        }));
+      }
+
+      Object.keys(INTERVAL_MS)
+        .filter(interval => streams.has(`${lower}@kline_${interval}`))
+        .forEach(interval => {
+          socket.send(JSON.stringify(updateKline(symbol, interval, price, quantity, now)));
+        });
+
+      const depthReplay = depthReplays[symbol];
+      if (depthReplay && Array.from(streams).some(stream => stream.startsWith(`${lower}@depth`))) {
+        socket.send(JSON.stringify(depthReplay(now)));
+      }
+    });
+  }, TICK_INTERVAL);
+
+  socket.on('close', () => {
+    clearInterval(timer);
+    debug('クライアントが切断しました');
+  });
+});
+
+server.on('listening', () => {
+  console.log(`ストリームモックサーバーが ws://localhost:${port}/ws で起動しました`);
+});